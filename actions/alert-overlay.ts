@@ -0,0 +1,71 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import {
+  ALERT_DURATION_OPTIONS,
+  MAX_ALERT_MIN_AMOUNT,
+} from "@/lib/alert-overlay";
+import {
+  rotateAlertOverlayToken as rotateAlertOverlayTokenService,
+  updateAlertOverlay,
+} from "@/lib/alert-overlay-service";
+
+const alertOverlaySettingsSchema = z.object({
+  minAmount: z
+    .number()
+    .min(0, "Minimum amount can't be negative")
+    .max(MAX_ALERT_MIN_AMOUNT, "Minimum amount is too high"),
+  displayDurationSeconds: z
+    .number()
+    .refine((seconds) => ALERT_DURATION_OPTIONS.includes(seconds), {
+      message: "Invalid alert duration",
+    }),
+  isSoundEnabled: z.boolean(),
+});
+
+/**
+ * Save the current user's OBS alert overlay settings
+ */
+export async function updateAlertOverlaySettings(
+  data: z.infer<typeof alertOverlaySettingsSchema>
+) {
+  try {
+    const validated = alertOverlaySettingsSchema.parse(data);
+    const self = await getSelf();
+
+    await updateAlertOverlay(self.id, validated);
+
+    revalidatePath(`/u/${self.username}/alerts`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[updateAlertOverlaySettings] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to update alert settings");
+  }
+}
+
+/**
+ * Replace the current user's overlay URL, e.g. after it leaked on stream
+ */
+export async function rotateAlertOverlayToken() {
+  try {
+    const self = await getSelf();
+
+    await rotateAlertOverlayTokenService(self.id);
+
+    revalidatePath(`/u/${self.username}/alerts`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[rotateAlertOverlayToken] error:", err);
+    throw new Error(err.message || "Failed to rotate overlay URL");
+  }
+}
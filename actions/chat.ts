@@ -0,0 +1,41 @@
+"use server";
+
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import { relayChatMessage } from "@/lib/chat-service";
+import { MAX_CHAT_MESSAGE_LENGTH } from "@/lib/chat-relay";
+
+const chatMessageSchema = z.object({
+  hostIdentity: z.string().min(1),
+  content: z
+    .string()
+    .trim()
+    .min(1, "Message cannot be empty")
+    .max(
+      MAX_CHAT_MESSAGE_LENGTH,
+      `Message must be ${MAX_CHAT_MESSAGE_LENGTH} characters or less`
+    ),
+});
+
+/**
+ * Send a message to a streamer's chat as the current user.
+ * Chat modes are enforced per account, so guests can watch but not chat.
+ */
+export async function sendChatMessage(hostIdentity: string, content: string) {
+  try {
+    const validated = chatMessageSchema.parse({ hostIdentity, content });
+    const self = await getSelf();
+
+    const message = await relayChatMessage({
+      hostIdentity: validated.hostIdentity,
+      senderId: self.id,
+      content: validated.content,
+    });
+
+    return { success: true, data: message };
+  } catch (err: any) {
+    console.error("[sendChatMessage] error:", err);
+    throw new Error(err.message || "Failed to send chat message");
+  }
+}
@@ -0,0 +1,139 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import { GIFT_LIMITS } from "@/lib/gift-catalog";
+import {
+  createCustomGift as createCustomGiftService,
+  deleteCustomGift as deleteCustomGiftService,
+  reorderGifts as reorderGiftsService,
+  updateGift as updateGiftService,
+} from "@/lib/gift-service";
+
+const priceSchema = z
+  .number()
+  .min(GIFT_LIMITS.MIN_PRICE, `Gifts cost at least $${GIFT_LIMITS.MIN_PRICE}`)
+  .max(GIFT_LIMITS.MAX_PRICE, `Gifts cost at most $${GIFT_LIMITS.MAX_PRICE}`);
+
+// next/image only serves the uploadthing hosts allowed in next.config.mjs
+const isUploadedImage = (url: string) => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === "https:" &&
+      (hostname === "utfs.io" || hostname.endsWith(".ufs.sh"))
+    );
+  } catch {
+    return false;
+  }
+};
+
+const createGiftSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(GIFT_LIMITS.MAX_NAME_LENGTH, "Name is too long"),
+  price: priceSchema,
+  imageUrl: z
+    .string()
+    .url("Upload an image for the gift")
+    .refine(isUploadedImage, "Upload an image for the gift"),
+});
+
+const updateGiftSchema = z.object({
+  giftId: z.string().min(1),
+  price: priceSchema.optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+const reorderGiftsSchema = z.array(z.string().min(1)).min(1);
+
+/**
+ * Add a gift with an uploaded image to the current user's catalog
+ */
+export async function createCustomGift(data: z.infer<typeof createGiftSchema>) {
+  try {
+    const validated = createGiftSchema.parse(data);
+    const self = await getSelf();
+
+    await createCustomGiftService(self.id, validated);
+
+    revalidatePath(`/u/${self.username}/gifts`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[createCustomGift] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to create gift");
+  }
+}
+
+/**
+ * Change the price of a gift or turn it on or off for the current user
+ */
+export async function updateGift(data: z.infer<typeof updateGiftSchema>) {
+  try {
+    const { giftId, ...values } = updateGiftSchema.parse(data);
+    const self = await getSelf();
+
+    await updateGiftService(self.id, giftId, values);
+
+    revalidatePath(`/u/${self.username}/gifts`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[updateGift] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to update gift");
+  }
+}
+
+export async function deleteCustomGift(giftId: string) {
+  try {
+    const self = await getSelf();
+
+    await deleteCustomGiftService(self.id, giftId);
+
+    revalidatePath(`/u/${self.username}/gifts`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[deleteCustomGift] error:", err);
+    throw new Error(err.message || "Failed to delete gift");
+  }
+}
+
+/**
+ * Save the order gifts show up in the picker
+ */
+export async function reorderGifts(giftIds: string[]) {
+  try {
+    const validated = reorderGiftsSchema.parse(giftIds);
+    const self = await getSelf();
+
+    await reorderGiftsService(self.id, validated);
+
+    revalidatePath(`/u/${self.username}/gifts`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[reorderGifts] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to reorder gifts");
+  }
+}
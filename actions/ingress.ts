@@ -5,7 +5,6 @@ import {
   IngressInput,
   IngressClient,
   IngressVideoEncodingPreset,
-  RoomServiceClient,
   type CreateIngressOptions,
 } from "livekit-server-sdk";
 
@@ -13,14 +12,9 @@ import { TrackSource } from "livekit-server-sdk/dist/proto/livekit_models";
 
 import { db } from "@/lib/db";
 import { getSelf } from "@/lib/auth-service";
+import { roomService } from "@/lib/room-service";
 import { revalidatePath } from "next/cache";
 
-const roomService = new RoomServiceClient(
-  process.env.LIVEKIT_API_URL!,
-  process.env.LIVEKIT_API_KEY!,
-  process.env.LIVEKIT_API_SECRET!,
-);
-
 const ingressClient = new IngressClient(process.env.LIVEKIT_API_URL!);
 
 export const resetIngresses = async (hostIdentity: string) => {
@@ -0,0 +1,155 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import { TIMEOUT_OPTIONS } from "@/lib/moderation";
+import {
+  addModerator as addModeratorService,
+  assertCanModerate,
+  banViewer,
+  deleteChatMessage as deleteChatMessageService,
+  removeModerator as removeModeratorService,
+  timeoutViewer,
+  unbanViewer,
+} from "@/lib/moderation-service";
+
+const timeoutSchema = z.object({
+  hostIdentity: z.string().min(1),
+  userId: z.string().min(1),
+  minutes: z
+    .number()
+    .refine((minutes) => TIMEOUT_OPTIONS.includes(minutes), {
+      message: "Invalid timeout length",
+    }),
+});
+
+const banSchema = z.object({
+  hostIdentity: z.string().min(1),
+  userId: z.string().min(1),
+  reason: z.string().trim().max(200).optional(),
+});
+
+/**
+ * Appoint a moderator for the current user's channel
+ */
+export async function addModerator(username: string) {
+  try {
+    const self = await getSelf();
+    const moderator = await addModeratorService(self.id, username.trim());
+
+    revalidatePath(`/u/${self.username}/community`);
+
+    return { success: true, data: moderator };
+  } catch (err: any) {
+    console.error("[addModerator] error:", err);
+    throw new Error(err.message || "Failed to add moderator");
+  }
+}
+
+export async function removeModerator(userId: string) {
+  try {
+    const self = await getSelf();
+    await removeModeratorService(self.id, userId);
+
+    revalidatePath(`/u/${self.username}/community`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[removeModerator] error:", err);
+    throw new Error(err.message || "Failed to remove moderator");
+  }
+}
+
+/**
+ * Mute a viewer in a channel the current user moderates
+ */
+export async function timeoutUser(
+  hostIdentity: string,
+  userId: string,
+  minutes: number
+) {
+  try {
+    const validated = timeoutSchema.parse({ hostIdentity, userId, minutes });
+    const self = await getSelf();
+    await assertCanModerate(validated.hostIdentity, self.id);
+
+    const ban = await timeoutViewer({
+      channelId: validated.hostIdentity,
+      moderatorId: self.id,
+      userId: validated.userId,
+      minutes: validated.minutes,
+    });
+
+    return { success: true, data: ban };
+  } catch (err: any) {
+    console.error("[timeoutUser] error:", err);
+    throw new Error(err.message || "Failed to time out user");
+  }
+}
+
+/**
+ * Permanently ban a viewer from a channel the current user moderates
+ */
+export async function banUser(
+  hostIdentity: string,
+  userId: string,
+  reason?: string
+) {
+  try {
+    const validated = banSchema.parse({ hostIdentity, userId, reason });
+    const self = await getSelf();
+    await assertCanModerate(validated.hostIdentity, self.id);
+
+    const ban = await banViewer({
+      channelId: validated.hostIdentity,
+      moderatorId: self.id,
+      userId: validated.userId,
+      reason: validated.reason,
+    });
+
+    return { success: true, data: ban };
+  } catch (err: any) {
+    console.error("[banUser] error:", err);
+    throw new Error(err.message || "Failed to ban user");
+  }
+}
+
+export async function unbanUser(userId: string) {
+  try {
+    const self = await getSelf();
+
+    await unbanViewer({
+      channelId: self.id,
+      moderatorId: self.id,
+      userId,
+    });
+
+    revalidatePath(`/u/${self.username}/community`);
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[unbanUser] error:", err);
+    throw new Error(err.message || "Failed to unban user");
+  }
+}
+
+/**
+ * Delete a chat message for everyone, as the host or a moderator
+ */
+export async function deleteChatMessage(messageId: string) {
+  try {
+    const self = await getSelf();
+
+    await deleteChatMessageService({
+      moderatorId: self.id,
+      messageId,
+    });
+
+    return { success: true };
+  } catch (err: any) {
+    console.error("[deleteChatMessage] error:", err);
+    throw new Error(err.message || "Failed to delete message");
+  }
+}
@@ -0,0 +1,28 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { getSelf } from "@/lib/auth-service";
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export async function markNotificationsAsRead() {
+  try {
+    const self = await getSelf();
+
+    const { count } = await db.notification.updateMany({
+      where: {
+        userId: self.id,
+        readAt: null,
+      },
+      data: {
+        readAt: new Date(),
+      },
+    });
+
+    return { success: true, data: { count } };
+  } catch (err: any) {
+    console.error("[markNotificationsAsRead] error:", err);
+    throw new Error(err.message || "Failed to mark notifications as read");
+  }
+}
@@ -0,0 +1,71 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import { WITHDRAWAL_LIMITS } from "@/lib/withdrawal";
+import {
+  addPayoutAddress as addPayoutAddressService,
+  getClientIp,
+  removePayoutAddress as removePayoutAddressService,
+} from "@/lib/withdrawal-security-service";
+
+const addPayoutAddressSchema = z.object({
+  address: z.string().trim().min(1, "Address is required"),
+  label: z
+    .string()
+    .trim()
+    .max(WITHDRAWAL_LIMITS.MAX_LABEL_LENGTH, "Label is too long")
+    .optional(),
+});
+
+/**
+ * Save a payout address for the current user; usable after cooling off
+ */
+export async function addPayoutAddress(
+  data: z.infer<typeof addPayoutAddressSchema>
+) {
+  try {
+    const validated = addPayoutAddressSchema.parse(data);
+    const self = await getSelf();
+
+    const payoutAddress = await addPayoutAddressService({
+      userId: self.id,
+      ...validated,
+      ipAddress: getClientIp(),
+    });
+
+    revalidatePath(`/u/${self.username}/profile`);
+
+    return payoutAddress;
+  } catch (err: any) {
+    console.error("[addPayoutAddress] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to add payout address");
+  }
+}
+
+/**
+ * Remove one of the current user's payout addresses
+ */
+export async function removePayoutAddress(payoutAddressId: string) {
+  try {
+    const self = await getSelf();
+
+    await removePayoutAddressService({
+      userId: self.id,
+      payoutAddressId,
+      ipAddress: getClientIp(),
+    });
+
+    revalidatePath(`/u/${self.username}/profile`);
+  } catch (err: any) {
+    console.error("[removePayoutAddress] error:", err);
+    throw new Error(err.message || "Failed to remove payout address");
+  }
+}
@@ -0,0 +1,101 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { getSelf } from "@/lib/auth-service";
+import { invalidateCache } from "@/lib/redis";
+
+const createScheduledStreamSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Stream title is required")
+    .max(100, "Title must be 100 characters or less"),
+  description: z
+    .string()
+    .trim()
+    .max(500, "Description must be 500 characters or less")
+    .optional(),
+  scheduledAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "Scheduled time must be in the future",
+    }),
+});
+
+const invalidateScheduleCache = async (userId: string) => {
+  await Promise.all([
+    invalidateCache("scheduled-streams:upcoming"),
+    invalidateCache(`scheduled-streams:user:${userId}`),
+  ]);
+};
+
+/**
+ * Schedule an upcoming stream for the current user
+ */
+export async function createScheduledStream(
+  data: z.input<typeof createScheduledStreamSchema>
+) {
+  try {
+    const validated = createScheduledStreamSchema.parse(data);
+    const self = await getSelf();
+
+    const scheduledStream = await db.scheduledStream.create({
+      data: {
+        title: validated.title,
+        description: validated.description || null,
+        scheduledAt: validated.scheduledAt,
+        userId: self.id,
+      },
+    });
+
+    await invalidateScheduleCache(self.id);
+
+    revalidatePath(`/u/${self.username}/scheduled`);
+    revalidatePath(`/${self.username}`);
+    revalidatePath("/");
+
+    return { success: true, data: scheduledStream };
+  } catch (err: any) {
+    console.error("[createScheduledStream] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to schedule stream");
+  }
+}
+
+/**
+ * Cancel one of the current user's scheduled streams
+ */
+export async function cancelScheduledStream(scheduledStreamId: string) {
+  try {
+    const self = await getSelf();
+
+    const scheduledStream = await db.scheduledStream.update({
+      where: {
+        id: scheduledStreamId,
+        userId: self.id, // Only the streamer can cancel their schedule
+        status: "SCHEDULED",
+      },
+      data: {
+        status: "CANCELLED",
+      },
+    });
+
+    await invalidateScheduleCache(self.id);
+
+    revalidatePath(`/u/${self.username}/scheduled`);
+    revalidatePath(`/${self.username}`);
+    revalidatePath("/");
+
+    return { success: true, data: scheduledStream };
+  } catch (err: any) {
+    console.error("[cancelScheduledStream] error:", err);
+    throw new Error(err.message || "Failed to cancel scheduled stream");
+  }
+}
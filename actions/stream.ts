@@ -1,10 +1,23 @@
 "use server";
 
-import { Stream } from "@prisma/client";
+import { Stream, StreamType } from "@prisma/client";
 import { revalidatePath } from "next/cache";
+import { z } from "zod";
 
 import { getSelf } from "@/lib/auth-service";
-import { getStreamByUserIdFromApi, updateStream as updateStreamService } from "@/lib/stream-service";
+import { CHAT_SLOW_MODE_OPTIONS } from "@/lib/chat-relay";
+import { normalizeTags, syncCategoryViewers } from "@/lib/category-service";
+import { invalidateCache } from "@/lib/redis";
+import { TIP_ALERT_LIMITS } from "@/lib/tip-config";
+import {
+  endStreamSession,
+  startStreamSession,
+} from "@/lib/stream-session-service";
+import {
+  getStreamByUserId,
+  getStreamByUserIdFromApi,
+  updateStream as updateStreamService,
+} from "@/lib/stream-service";
 
 export const updateStream = async (values: Partial<Stream>) => {
   try {
@@ -21,10 +34,32 @@ export const updateStream = async (values: Partial<Stream>) => {
       isChatEnabled: values.isChatEnabled,
       isChatFollowersOnly: values.isChatFollowersOnly,
       isChatDelayed: values.isChatDelayed,
+      isChatTippersOnly: values.isChatTippersOnly,
+      isChatSubscribersOnly: values.isChatSubscribersOnly,
+      isTipTtsEnabled: values.isTipTtsEnabled,
+      subCategoryId: values.subCategoryId,
+      tags: values.tags ? normalizeTags(values.tags) : undefined,
+      chatSlowModeSeconds:
+        values.chatSlowModeSeconds !== undefined &&
+        CHAT_SLOW_MODE_OPTIONS.includes(values.chatSlowModeSeconds)
+          ? values.chatSlowModeSeconds
+          : undefined,
     };
 
     const stream = await updateStreamService(selfStream.id, validData);
 
+    // Move the stream's live viewers to its new category
+    if (
+      values.subCategoryId !== undefined &&
+      values.subCategoryId !== selfStream.subCategoryId
+    ) {
+      await Promise.all(
+        [selfStream.subCategoryId, values.subCategoryId]
+          .filter((id): id is string => !!id)
+          .map((id) => syncCategoryViewers(id))
+      );
+    }
+
     revalidatePath(`/u/${self.username}/chat`);
     revalidatePath(`/u/${self.username}`);
     revalidatePath(`/${self.username}`);
@@ -34,3 +69,104 @@ export const updateStream = async (values: Partial<Stream>) => {
     throw new Error("Internal Error");
   };
 };
+
+export const setBrowserStreamLive = async (isLive: boolean) => {
+  try {
+    const self = await getSelf();
+    const selfStream = await getStreamByUserId(self.id);
+
+    if (!selfStream) {
+      throw new Error("Stream not found");
+    }
+
+    if (isLive) {
+      await startStreamSession(self.id, { streamType: StreamType.BROWSER });
+    } else if (selfStream.streamType === StreamType.BROWSER) {
+      await endStreamSession(self.id, { reason: "host_ended" });
+    }
+
+    await invalidateCache(`stream:username:${self.username.toLowerCase()}`);
+
+    revalidatePath(`/u/${self.username}`);
+    revalidatePath(`/${self.username}`);
+    revalidatePath("/");
+
+    return getStreamByUserId(self.id);
+  } catch (err: any) {
+    console.error("[setBrowserStreamLive] error:", err);
+    throw new Error(err.message || "Failed to update stream status");
+  };
+};
+
+const tipAlertSettingsSchema = z
+  .object({
+    largeTipThreshold: z
+      .number()
+      .int("Thresholds must be whole dollars")
+      .min(1, "Thresholds must be at least $1")
+      .max(TIP_ALERT_LIMITS.MAX_THRESHOLD, "Threshold is too high"),
+    megaTipThreshold: z
+      .number()
+      .int("Thresholds must be whole dollars")
+      .min(1, "Thresholds must be at least $1")
+      .max(TIP_ALERT_LIMITS.MAX_THRESHOLD, "Threshold is too high"),
+    tipAlertDurationSeconds: z
+      .number()
+      .int()
+      .min(TIP_ALERT_LIMITS.MIN_DURATION_SECONDS, "Alert duration is too short")
+      .max(TIP_ALERT_LIMITS.MAX_DURATION_SECONDS, "Alert duration is too long"),
+    giftAlertDurationSeconds: z
+      .number()
+      .int()
+      .min(TIP_ALERT_LIMITS.MIN_DURATION_SECONDS, "Alert duration is too short")
+      .max(TIP_ALERT_LIMITS.MAX_DURATION_SECONDS, "Alert duration is too long"),
+    tipAlertQueueSize: z
+      .number()
+      .int()
+      .min(TIP_ALERT_LIMITS.MIN_QUEUE_SIZE, "Queue size is too small")
+      .max(TIP_ALERT_LIMITS.MAX_QUEUE_SIZE, "Queue size is too large"),
+    excludedAlertGiftTypes: z.array(z.string().min(1).max(50)).max(100),
+  })
+  .refine((data) => data.megaTipThreshold > data.largeTipThreshold, {
+    message: "The mega tip threshold must be above the large tip threshold",
+  });
+
+/**
+ * Save the current user's on-stream tip alert settings
+ */
+export const updateTipAlertSettings = async (
+  values: z.infer<typeof tipAlertSettingsSchema>
+) => {
+  try {
+    const validated = tipAlertSettingsSchema.parse(values);
+    const self = await getSelf();
+    const selfStream = await getStreamByUserIdFromApi(self.id);
+
+    if (!selfStream) {
+      throw new Error("Stream not found");
+    }
+
+    const stream = await updateStreamService(selfStream.id, {
+      ...validated,
+      excludedAlertGiftTypes: Array.from(
+        new Set(validated.excludedAlertGiftTypes)
+      ),
+    });
+
+    await invalidateCache(`stream:username:${self.username.toLowerCase()}`);
+
+    revalidatePath(`/u/${self.username}/alerts`);
+    revalidatePath(`/u/${self.username}`);
+    revalidatePath(`/${self.username}`);
+
+    return stream;
+  } catch (err: any) {
+    console.error("[updateTipAlertSettings] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to update tip alert settings");
+  };
+};
@@ -0,0 +1,237 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import { SUBSCRIPTION_LIMITS } from "@/lib/subscription";
+import {
+  cancelSubscription as cancelSubscriptionService,
+  createSubscriptionTier as createSubscriptionTierService,
+  deleteSubscriptionTier as deleteSubscriptionTierService,
+  prepareSubscriptionAllowance as prepareSubscriptionAllowanceService,
+  resumeSubscription as resumeSubscriptionService,
+  subscribeWithAllowance as subscribeWithAllowanceService,
+  subscribeWithTransfer as subscribeWithTransferService,
+  updateSubscriptionTier as updateSubscriptionTierService,
+} from "@/lib/subscription-service";
+
+const tierSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(SUBSCRIPTION_LIMITS.MAX_NAME_LENGTH, "Name is too long"),
+  price: z
+    .number()
+    .min(
+      SUBSCRIPTION_LIMITS.MIN_PRICE,
+      `Tiers cost at least $${SUBSCRIPTION_LIMITS.MIN_PRICE} a month`
+    )
+    .max(
+      SUBSCRIPTION_LIMITS.MAX_PRICE,
+      `Tiers cost at most $${SUBSCRIPTION_LIMITS.MAX_PRICE} a month`
+    ),
+  hasBadge: z.boolean().default(true),
+  hasEmoteAccess: z.boolean().default(false),
+  hasSubscriberChat: z.boolean().default(true),
+});
+
+const updateTierSchema = tierSchema.partial().extend({
+  tierId: z.string().min(1),
+});
+
+const subscribeWithTransferSchema = z.object({
+  tierId: z.string().min(1),
+  transactionHash: z.string().min(1, "Transaction signature is required"),
+});
+
+const prepareAllowanceSchema = z.object({
+  tierId: z.string().min(1),
+  months: z
+    .number()
+    .int()
+    .min(1)
+    .max(
+      SUBSCRIPTION_LIMITS.MAX_ALLOWANCE_MONTHS,
+      `Allowances cover up to ${SUBSCRIPTION_LIMITS.MAX_ALLOWANCE_MONTHS} months`
+    ),
+});
+
+const subscribeWithAllowanceSchema = z.object({
+  tierId: z.string().min(1),
+  signedTransaction: z.string().min(1, "Signed transaction is required"),
+});
+
+/**
+ * Add a subscription tier to the current user's channel
+ */
+export async function createSubscriptionTier(
+  data: z.input<typeof tierSchema>
+) {
+  try {
+    const validated = tierSchema.parse(data);
+    const self = await getSelf();
+
+    const tier = await createSubscriptionTierService(self.id, validated);
+
+    revalidatePath(`/u/${self.username}/subscriptions`);
+
+    return tier;
+  } catch (err: any) {
+    console.error("[createSubscriptionTier] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to create subscription tier");
+  }
+}
+
+/**
+ * Edit the name, price or perks of one of the current user's tiers
+ */
+export async function updateSubscriptionTier(
+  data: z.input<typeof updateTierSchema>
+) {
+  try {
+    const { tierId, ...values } = updateTierSchema.parse(data);
+    const self = await getSelf();
+
+    const tier = await updateSubscriptionTierService(self.id, tierId, values);
+
+    revalidatePath(`/u/${self.username}/subscriptions`);
+
+    return tier;
+  } catch (err: any) {
+    console.error("[updateSubscriptionTier] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to update subscription tier");
+  }
+}
+
+/**
+ * Remove one of the current user's tiers, or retire it if it has subscribers
+ */
+export async function deleteSubscriptionTier(tierId: string) {
+  try {
+    const self = await getSelf();
+
+    const result = await deleteSubscriptionTierService(self.id, tierId);
+
+    revalidatePath(`/u/${self.username}/subscriptions`);
+
+    return result;
+  } catch (err: any) {
+    console.error("[deleteSubscriptionTier] error:", err);
+    throw new Error(err.message || "Failed to delete subscription tier");
+  }
+}
+
+/**
+ * Subscribe or renew with a transfer the current user already sent
+ */
+export async function subscribeWithTransfer(
+  data: z.infer<typeof subscribeWithTransferSchema>
+) {
+  try {
+    const validated = subscribeWithTransferSchema.parse(data);
+    const self = await getSelf();
+
+    return await subscribeWithTransferService({
+      subscriberId: self.id,
+      ...validated,
+    });
+  } catch (err: any) {
+    console.error("[subscribeWithTransfer] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to subscribe");
+  }
+}
+
+/**
+ * Build the allowance approval for the current user to sign
+ */
+export async function prepareSubscriptionAllowance(
+  data: z.infer<typeof prepareAllowanceSchema>
+) {
+  try {
+    const validated = prepareAllowanceSchema.parse(data);
+    const self = await getSelf();
+
+    return await prepareSubscriptionAllowanceService({
+      subscriberId: self.id,
+      ...validated,
+    });
+  } catch (err: any) {
+    console.error("[prepareSubscriptionAllowance] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to prepare allowance");
+  }
+}
+
+/**
+ * Submit the signed allowance approval and subscribe from it
+ */
+export async function subscribeWithAllowance(
+  data: z.infer<typeof subscribeWithAllowanceSchema>
+) {
+  try {
+    const validated = subscribeWithAllowanceSchema.parse(data);
+    const self = await getSelf();
+
+    return await subscribeWithAllowanceService({
+      subscriberId: self.id,
+      ...validated,
+    });
+  } catch (err: any) {
+    console.error("[subscribeWithAllowance] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to subscribe");
+  }
+}
+
+/**
+ * Stop renewing the current user's subscription to a streamer
+ */
+export async function cancelSubscription(streamerId: string) {
+  try {
+    const self = await getSelf();
+
+    return await cancelSubscriptionService(self.id, streamerId);
+  } catch (err: any) {
+    console.error("[cancelSubscription] error:", err);
+    throw new Error(err.message || "Failed to cancel subscription");
+  }
+}
+
+/**
+ * Keep renewing a subscription the current user cancelled
+ */
+export async function resumeSubscription(streamerId: string) {
+  try {
+    const self = await getSelf();
+
+    return await resumeSubscriptionService(self.id, streamerId);
+  } catch (err: any) {
+    console.error("[resumeSubscription] error:", err);
+    throw new Error(err.message || "Failed to resume subscription");
+  }
+}
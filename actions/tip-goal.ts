@@ -0,0 +1,95 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { getSelf } from "@/lib/auth-service";
+import { getStreamByUserId } from "@/lib/stream-service";
+import { getOpenSessionId } from "@/lib/stream-session-service";
+import { TIP_GOAL_LIMITS } from "@/lib/tip-goal";
+import {
+  createTipGoal as createTipGoalService,
+  endCurrentTipGoal,
+} from "@/lib/tip-goal-service";
+
+const createTipGoalSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(TIP_GOAL_LIMITS.MAX_TITLE_LENGTH, "Title is too long"),
+  targetAmount: z
+    .number()
+    .min(TIP_GOAL_LIMITS.MIN_TARGET, `Goals start at $${TIP_GOAL_LIMITS.MIN_TARGET}`)
+    .max(TIP_GOAL_LIMITS.MAX_TARGET, "Target is too high"),
+  deadline: z
+    .string()
+    .datetime()
+    .optional()
+    .refine((deadline) => !deadline || new Date(deadline) > new Date(), {
+      message: "The deadline must be in the future",
+    }),
+  // Count only tips sent during the current broadcast
+  isForCurrentStream: z.boolean().default(false),
+});
+
+/**
+ * Start a tip goal for the current user, replacing their current one
+ */
+export async function createTipGoal(
+  data: z.input<typeof createTipGoalSchema>
+) {
+  try {
+    const { isForCurrentStream, deadline, ...validated } =
+      createTipGoalSchema.parse(data);
+    const self = await getSelf();
+
+    let streamSessionId: string | undefined;
+
+    if (isForCurrentStream) {
+      const stream = await getStreamByUserId(self.id);
+      const sessionId = stream ? await getOpenSessionId(stream.id) : null;
+
+      if (!sessionId) {
+        throw new Error("Go live to start a goal for this stream");
+      }
+      streamSessionId = sessionId;
+    }
+
+    const goal = await createTipGoalService(self.id, {
+      ...validated,
+      deadline: deadline ? new Date(deadline) : undefined,
+      streamSessionId,
+    });
+
+    revalidatePath(`/u/${self.username}/profile`);
+
+    return goal;
+  } catch (err: any) {
+    console.error("[createTipGoal] error:", err);
+
+    if (err instanceof z.ZodError) {
+      throw new Error(err.errors[0]?.message || "Invalid input");
+    }
+
+    throw new Error(err.message || "Failed to create goal");
+  }
+}
+
+/**
+ * End the current user's goal early
+ */
+export async function endTipGoal() {
+  try {
+    const self = await getSelf();
+
+    const goal = await endCurrentTipGoal(self.id);
+
+    revalidatePath(`/u/${self.username}/profile`);
+
+    return goal;
+  } catch (err: any) {
+    console.error("[endTipGoal] error:", err);
+    throw new Error(err.message || "Failed to end goal");
+  }
+}
@@ -3,15 +3,34 @@
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { db } from "@/lib/db";
+import {
+  DEFAULT_TOKEN,
+  findToken,
+  formatTokenAmount,
+  TokenType,
+} from "@/config/tokens";
 import { getSelf } from "@/lib/auth-service";
-import { broadcastTipNotification, createTipBroadcastData } from "@/lib/tip-broadcast";
+import { createTipBroadcastData } from "@/lib/tip-broadcast";
+import { publishTipNotification } from "@/lib/tip-broadcast-service";
+import { assertUnusedSignature, verifyTip } from "@/lib/tip-verification";
+import { findIndexedTip } from "@/lib/tip-ledger-service";
+import { getOpenSessionId } from "@/lib/stream-session-service";
+import { getCatalogGift } from "@/lib/gift-service";
+import { filterTipMessage, getTipMessageLimit } from "@/lib/tip-message";
+import { getTipAlertSettings, TipAlertSettings } from "@/lib/tip-config";
+import { fetchUsdValue } from "@/utils/solana-price";
 
 // Input validation schemas
 const createTipSchema = z.object({
   amount: z.number().positive("Amount must be positive"),
-  tokenType: z.enum(["USDC", "SOL"]).default("USDC"),
+  tokenType: z
+    .string()
+    .default(DEFAULT_TOKEN)
+    .refine((symbol) => !!findToken(symbol), "Unsupported token"),
   giftType: z.string().optional(),
-  giftName: z.string().optional(),
+  // Cut to the tip's tier in prepareTipMessage rather than rejected, as the
+  // tip is already paid by now
+  message: z.string().trim().optional(),
   streamerId: z.string().min(1, "Streamer ID is required"),
   streamId: z.string().optional(),
   transactionHash: z.string().optional(),
@@ -28,29 +47,193 @@ const getTipStatsSchema = z.object({
   timeRange: z.enum(["24h", "7d", "30d", "all"]).default("all"),
 });
 
+const broadcastTipInclude = {
+  tipper: {
+    select: {
+      id: true,
+      username: true,
+      imageUrl: true,
+    },
+  },
+  streamer: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+  gift: {
+    select: {
+      imageUrl: true,
+      isPremium: true,
+    },
+  },
+} as const;
+
+// The tip's worth in USD, which tiers are compared on. The transfer has
+// already happened, so an unavailable price is recorded as unknown.
+async function getTipUsdValue(amount: number, tokenType: TokenType) {
+  try {
+    return await fetchUsdValue(amount, tokenType);
+  } catch (error) {
+    console.error("[getTipUsdValue] error:", error);
+    return null;
+  }
+}
+
+// Truncate to the length allowed for the tip's tier, then clean it up for
+// display. The tip form checks the length before paying.
+function prepareTipMessage(
+  usdValue: number | null,
+  tiers: TipAlertSettings,
+  message?: string
+) {
+  if (!message) return null;
+
+  return filterTipMessage(
+    message.slice(0, getTipMessageLimit(usdValue ?? 0, tiers))
+  );
+}
+
+// Check the gift against the streamer's catalog; the name is taken from the
+// catalog rather than trusted from the client. Gifts are priced in the
+// default token.
+async function resolveTipGift(
+  streamerId: string,
+  amount: number,
+  tokenType: TokenType,
+  giftType?: string
+) {
+  if (!giftType) return { giftType: null, giftName: null };
+
+  if (tokenType !== DEFAULT_TOKEN) {
+    throw new Error(`Gifts are paid in ${DEFAULT_TOKEN}`);
+  }
+
+  const gift = await getCatalogGift(streamerId, giftType);
+  if (!gift) {
+    throw new Error("This gift isn't available on this channel");
+  }
+  if (amount < gift.price) {
+    throw new Error(
+      `${gift.name} costs ${formatTokenAmount(gift.price, DEFAULT_TOKEN)}`
+    );
+  }
+
+  return { giftType: gift.id, giftName: gift.name };
+}
+
+// Record the app tip as pending until its transaction is verified. If the
+// ledger indexed the transaction first, the tip's details are merged into
+// that row instead.
+async function saveTip(
+  validated: z.infer<typeof createTipSchema>,
+  tipperId: string
+) {
+  const indexed = validated.transactionHash
+    ? await findIndexedTip(validated.transactionHash, {
+        tipperId,
+        streamerId: validated.streamerId,
+        tokenType: validated.tokenType,
+        amount: validated.amount,
+      })
+    : null;
+
+  if (validated.transactionHash && !indexed) {
+    await assertUnusedSignature(validated.transactionHash);
+  }
+
+  const usdValue =
+    indexed && indexed.usdValue !== null
+      ? Number(indexed.usdValue)
+      : await getTipUsdValue(validated.amount, validated.tokenType);
+
+  const details = {
+    usdValue,
+    ...(await resolveTipGift(
+      validated.streamerId,
+      validated.amount,
+      validated.tokenType,
+      validated.giftType
+    )),
+    message: prepareTipMessage(
+      usdValue,
+      // Tiers are the streamer's own, as on their alerts
+      getTipAlertSettings(
+        await db.stream.findUnique({
+          where: { userId: validated.streamerId },
+          select: { largeTipThreshold: true, megaTipThreshold: true },
+        })
+      ),
+      validated.message
+    ),
+  };
+
+  if (indexed) {
+    await db.tip.update({ where: { id: indexed.id }, data: details });
+    return indexed.id;
+  }
+
+  const { id } = await db.tip.create({
+    data: {
+      amount: validated.amount, // Prisma will handle number to Decimal conversion
+      tokenType: validated.tokenType,
+      ...details,
+      tipperId,
+      streamerId: validated.streamerId,
+      streamId: validated.streamId,
+      streamSessionId: validated.streamId
+        ? await getOpenSessionId(validated.streamId)
+        : null,
+      transactionHash: validated.transactionHash,
+    },
+    select: { id: true },
+  });
+
+  return id;
+}
+
+// Push a verified tip into the streamer's LiveKit room (room name = streamer id)
+async function broadcastTip(tipId: string) {
+  try {
+    const tip = await db.tip.findUnique({
+      where: { id: tipId },
+      include: broadcastTipInclude,
+    });
+
+    // Only tips sent by a known user through the app are announced
+    if (!tip || tip.status !== "VERIFIED" || !tip.tipperId || !tip.tipper) {
+      return;
+    }
+
+    const tipBroadcastData = createTipBroadcastData({
+      ...tip,
+      tipperId: tip.tipperId,
+      tipper: tip.tipper,
+      amount: Number(tip.amount), // Convert Decimal to number
+      usdValue: tip.usdValue === null ? null : Number(tip.usdValue),
+    });
+
+    await publishTipNotification(tip.streamerId, tipBroadcastData);
+  } catch (broadcastError) {
+    console.error("Failed to broadcast tip:", broadcastError);
+    // Don't fail the entire operation if broadcast fails
+  }
+}
+
 /**
- * Create a tip and broadcast it to the LiveKit room
+ * Create a tip and broadcast it to the LiveKit room once it is verified on-chain
  */
 export async function createAndBroadcastTip(
-  data: z.infer<typeof createTipSchema>,
-  roomToken?: string
+  data: z.infer<typeof createTipSchema>
 ) {
   try {
     const validated = createTipSchema.parse(data);
     const self = await getSelf();
 
-    // Create the tip record
-    const tip = await db.tip.create({
-      data: {
-        amount: validated.amount,
-        tokenType: validated.tokenType,
-        giftType: validated.giftType,
-        giftName: validated.giftName,
-        tipperId: self.id,
-        streamerId: validated.streamerId,
-        streamId: validated.streamId,
-        transactionHash: validated.transactionHash,
-      },
+    const tipId = await saveTip(validated, self.id);
+
+    const created = await db.tip.findUniqueOrThrow({
+      where: { id: tipId },
       include: {
         tipper: {
           select: {
@@ -75,25 +258,22 @@ export async function createAndBroadcastTip(
       },
     });
 
+    const tip = {
+      ...created,
+      ...(await verifyTip(created.id, {
+        onVerified: () => broadcastTip(created.id),
+      })),
+    };
+
     // Revalidate relevant paths
     revalidatePath(`/u/${tip.streamer.username}`);
     if (tip.stream) {
       revalidatePath(`/u/${tip.streamer.username}`);
     }
 
-    // Broadcast tip notification if room token is provided
-    if (roomToken) {
-      try {
-        const tipBroadcastData = createTipBroadcastData({
-          ...tip,
-          amount: Number(tip.amount), // Convert Decimal to number
-        });
-        // Note: We'll need to implement room connection on the server side
-        // For now, we'll return the tip data for client-side broadcasting
-      } catch (broadcastError) {
-        console.error("Failed to broadcast tip:", broadcastError);
-        // Don't fail the entire operation if broadcast fails
-      }
+    // A tip the ledger already indexed was verified before it was merged
+    if (created.status === "VERIFIED") {
+      await broadcastTip(tip.id);
     }
 
     return { success: true, data: tip };
@@ -116,18 +296,10 @@ export async function createTip(data: z.infer<typeof createTipSchema>) {
     const validated = createTipSchema.parse(data);
     const self = await getSelf();
 
-    // Create the tip record
-    const tip = await db.tip.create({
-      data: {
-        amount: validated.amount, // Prisma will handle number to Decimal conversion
-        tokenType: validated.tokenType,
-        giftType: validated.giftType,
-        giftName: validated.giftName,
-        tipperId: self.id,
-        streamerId: validated.streamerId,
-        streamId: validated.streamId,
-        transactionHash: validated.transactionHash,
-      },
+    const tipId = await saveTip(validated, self.id);
+
+    const created = await db.tip.findUniqueOrThrow({
+      where: { id: tipId },
       include: {
         tipper: {
           select: {
@@ -153,6 +325,8 @@ export async function createTip(data: z.infer<typeof createTipSchema>) {
       },
     });
 
+    const tip = { ...created, ...(await verifyTip(created.id)) };
+
     // Revalidate relevant paths
     revalidatePath(`/u/${tip.streamer.username}`);
     if (tip.stream) {
@@ -181,6 +355,7 @@ export async function getTips(data: z.infer<typeof getTipsSchema>) {
     const tips = await db.tip.findMany({
       where: {
         streamerId: validated.streamerId,
+        status: "VERIFIED",
       },
       include: {
         tipper: {
@@ -244,6 +419,7 @@ export async function getTipStats(data: z.infer<typeof getTipStatsSchema>) {
 
     const whereClause = {
       streamerId: validated.streamerId,
+      status: "VERIFIED" as const,
       ...(timeFilter && { createdAt: { gte: timeFilter } }),
     };
 
@@ -301,6 +477,33 @@ export async function getTipStats(data: z.infer<typeof getTipStatsSchema>) {
   }
 }
 
+/**
+ * Retry on-chain verification of a pending tip (e.g. once its transaction lands)
+ */
+export async function retryTipVerification(tipId: string) {
+  try {
+    const self = await getSelf();
+
+    const tip = await db.tip.findUnique({
+      where: { id: tipId },
+      select: { tipperId: true },
+    });
+
+    if (!tip || tip.tipperId !== self.id) {
+      throw new Error("Tip not found");
+    }
+
+    const result = await verifyTip(tipId, {
+      onVerified: () => broadcastTip(tipId),
+    });
+
+    return { success: true, data: result };
+  } catch (err: any) {
+    console.error("[retryTipVerification] error:", err);
+    throw new Error(err.message || "Failed to verify tip");
+  }
+}
+
 /**
  * Mark a tip as processed (for withdrawal tracking)
  */
@@ -312,6 +515,7 @@ export async function markTipAsProcessed(tipId: string) {
       where: {
         id: tipId,
         streamerId: self.id, // Only the streamer can mark their tips as processed
+        status: "VERIFIED",
       },
       data: {
         isProcessed: true,
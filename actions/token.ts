@@ -2,13 +2,23 @@
 
 import { v4 } from "uuid";
 import { AccessToken } from "livekit-server-sdk";
+import { StreamType } from "@prisma/client";
 
 import { getSelf } from "@/lib/auth-service";
 import { getUserById } from "@/lib/user-service";
 import { isBlockedByUser } from "@/lib/block-service";
+import { getStreamByUserId } from "@/lib/stream-service";
+import { getActiveChatBan, isChannelModerator } from "@/lib/moderation-service";
+import { ViewerMetadata, getViewerIdentity } from "@/lib/moderation";
+import { getAlertOverlayByToken } from "@/lib/alert-overlay-service";
+import {
+  AlertOverlaySource,
+  getAlertOverlayIdentity,
+} from "@/lib/alert-overlay";
 
 export const createViewerToken = async (hostIdentity: string) => {
   let self;
+  let isGuest = false;
 
   try {
     self = await getSelf();
@@ -16,6 +26,7 @@ export const createViewerToken = async (hostIdentity: string) => {
     const id = v4();
     const username = `guest#${Math.floor(Math.random() * 1000)}`;
     self = { id, username };
+    isGuest = true;
   }
 
   const host = await getUserById(hostIdentity);
@@ -31,9 +42,23 @@ export const createViewerToken = async (hostIdentity: string) => {
   }
 
   const isHost = self.id === host.id;
+  const metadata: ViewerMetadata = {};
+
+  if (!isGuest && !isHost) {
+    const ban = await getActiveChatBan(host.id, self.id);
+
+    if (ban && !ban.expiresAt) {
+      throw new Error("User is banned");
+    }
+
+    metadata.isModerator = await isChannelModerator(host.id, self.id);
+    metadata.timedOutUntil = ban?.expiresAt?.getTime();
+  }
+
+  const viewerIdentity = isHost
+    ? `host-${self.id}`
+    : getViewerIdentity(self.id, host.id);
 
-  const viewerIdentity = isHost ? `host-${self.id}` : `${self.id}-${host.id}`;
-  
   const token = new AccessToken(
     process.env.LIVEKIT_API_KEY!,
     process.env.LIVEKIT_API_SECRET!,
@@ -42,6 +67,7 @@ export const createViewerToken = async (hostIdentity: string) => {
       // viewers when they open multiple streams in different tabs
       identity: viewerIdentity,
       name: self.username,
+      metadata: JSON.stringify(metadata),
     }
   );
 
@@ -49,7 +75,9 @@ export const createViewerToken = async (hostIdentity: string) => {
     room: host.id,
     roomJoin: true,
     canPublish: false,
-    canPublishData: true,
+    // Chat goes through the sendChatMessage relay, which enforces the room's
+    // chat modes, so viewers never publish data themselves
+    canPublishData: false,
   });
 
   // Debug logging for multi-streamer issues
@@ -63,3 +91,76 @@ export const createViewerToken = async (hostIdentity: string) => {
 
   return await Promise.resolve(token.toJwt());
 };
+
+export const createHostToken = async () => {
+  const self = await getSelf();
+
+  const stream = await getStreamByUserId(self.id);
+
+  if (!stream) {
+    throw new Error("Stream not found");
+  }
+
+  // The browser publishes under the same identity as the ingress participant,
+  // so an active OBS stream would be kicked out of the room
+  if (stream.isLive && stream.streamType === StreamType.INGRESS) {
+    throw new Error("Stop your OBS stream before going live from the browser");
+  }
+
+  const token = new AccessToken(
+    process.env.LIVEKIT_API_KEY!,
+    process.env.LIVEKIT_API_SECRET!,
+    {
+      // Viewers look up the host's tracks by the plain user id
+      identity: self.id,
+      name: self.username,
+    }
+  );
+
+  token.addGrant({
+    room: self.id,
+    roomJoin: true,
+    canPublish: true,
+    canPublishData: true,
+    canSubscribe: true,
+  });
+
+  console.log("[createHostToken]", {
+    roomName: self.id,
+    hostUsername: self.username,
+  });
+
+  return await Promise.resolve(token.toJwt());
+};
+
+export const createAlertOverlayToken = async (
+  overlayToken: string,
+  source: AlertOverlaySource = "alerts"
+) => {
+  const overlay = await getAlertOverlayByToken(overlayToken);
+
+  if (!overlay) {
+    throw new Error("Overlay not found");
+  }
+
+  const token = new AccessToken(
+    process.env.LIVEKIT_API_KEY!,
+    process.env.LIVEKIT_API_SECRET!,
+    {
+      identity: getAlertOverlayIdentity(overlay.userId, source),
+      name: `${overlay.user.username} ${source}`,
+    }
+  );
+
+  // The overlay only listens for the server's tip and goal events
+  token.addGrant({
+    room: overlay.userId,
+    roomJoin: true,
+    canPublish: false,
+    canPublishData: false,
+    canSubscribe: true,
+    hidden: true,
+  });
+
+  return await Promise.resolve(token.toJwt());
+};
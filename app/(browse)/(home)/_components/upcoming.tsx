@@ -0,0 +1,51 @@
+"use client";
+
+import Link from "next/link";
+import { format } from "date-fns";
+import { CalendarDays } from "lucide-react";
+
+import { UserAvatar } from "@/components/user-avatar";
+import { useUpcomingStreams } from "@/hooks/use-scheduled-streams";
+
+export const Upcoming = () => {
+  const { data: scheduledStreams = [] } = useUpcomingStreams();
+
+  // Only show the rail when someone has something planned
+  if (scheduledStreams.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-sm md:text-lg font-semibold mb-4 font-sans">
+        Upcoming
+      </h2>
+      <div className="flex gap-4 overflow-x-auto hidden-scrollbar pb-2">
+        {scheduledStreams.map((scheduled) => (
+          <Link
+            key={scheduled.id}
+            href={`/${scheduled.user.username}`}
+            className="group shrink-0 w-64 rounded-xl bg-muted/50 p-4 space-y-3 hover:bg-muted transition-colors"
+          >
+            <div className="flex items-center gap-x-3">
+              <UserAvatar
+                username={scheduled.user.username}
+                imageUrl={scheduled.user.imageUrl}
+              />
+              <p className="text-sm text-muted-foreground truncate">
+                {scheduled.user.username}
+              </p>
+            </div>
+            <p className="font-semibold truncate group-hover:text-blue-500 transition-colors">
+              {scheduled.title}
+            </p>
+            <p className="flex items-center gap-x-2 text-xs text-muted-foreground">
+              <CalendarDays className="h-4 w-4" />
+              {format(new Date(scheduled.scheduledAt), "EEE, MMM d 'at' HH:mm")}
+            </p>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 
 import { Results, ResultsSkeleton } from "./_components/results";
+import { Upcoming } from "./_components/upcoming";
 import Landing from "../Landing/page";
 import { dehydrate, HydrationBoundary, QueryClient } from "@tanstack/react-query";
 import { getStreamsFromApi } from "@/lib/feed-service";
@@ -36,6 +37,7 @@ export default async function Page() {
       <Landing />
       <HydrationBoundary state={dehydratedState}>
         <div className="h-full p-4 py-8 md:p-8 max-w-screen-2xl mx-auto">
+          <Upcoming />
           <Suspense fallback={<ResultsSkeleton />}>
             <Results />
           </Suspense>
@@ -9,6 +9,7 @@ import { UpdateUserProfileModal } from "./update-profile-modal";
 import { ActivatePlatformWalletModal } from "./activate-platform-wallet-modal";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ProfileDropdown } from "./profile-dropdown";
+import { NotificationsDropdown } from "./notifications-dropdown";
 import { useSelf } from "@/hooks/use-self";
 // const log = console.log;
 
@@ -105,6 +106,7 @@ export const Actions = () => {
       )}
       {!!currentUser && (
         <div className="flex items-center gap-x-4">
+          <NotificationsDropdown />
           <ProfileDropdown
             currentUser={{
               id: currentUser?.id ?? "",
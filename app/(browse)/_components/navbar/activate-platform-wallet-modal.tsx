@@ -12,7 +12,8 @@ import React, { useState, useCallback } from "react";
 import { useUser } from "@civic/auth-web3/react";
 import { userHasWallet } from "@civic/auth-web3";
 import { Wallet, Shield, Zap } from "lucide-react";
-import { supportedTokens } from "@/config/wallet";
+import { DEFAULT_TOKEN, getToken, getTokenMint } from "@/config/tokens";
+import { waitForTransaction } from "@/lib/transaction-submission";
 
 interface ActivatePlatformWalletModalProps {
   open: boolean;
@@ -54,7 +55,7 @@ export const ActivatePlatformWalletModal = React.memo(
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            tokenMint: supportedTokens.contractAddress, // Your token mint
+            tokenMint: getTokenMint(getToken(DEFAULT_TOKEN)).toBase58(),
             userPublicKey: solanaWallet,
           }),
         });
@@ -114,11 +115,17 @@ export const ActivatePlatformWalletModal = React.memo(
         });
 
         if (!completeResponse.ok) {
-          throw new Error("Failed to complete platform wallet activation");
+          const errorData = await completeResponse.json().catch(() => ({}));
+          throw new Error(
+            errorData.message || "Failed to complete platform wallet activation"
+          );
         }
 
         const result = await completeResponse.json();
 
+        // The wallet is registered once the transaction lands
+        await waitForTransaction(result.signature);
+
         // Success! Modal is already closed, just trigger refresh
         onSuccess();
       } catch (err: any) {
@@ -1,7 +1,212 @@
-import React from 'react'
+"use client";
 
-export const BrowserGoLiveForm = () => {
-  return (
-    <div>BrowserGoLiveForm</div>
-  )
+import React, { useEffect, useRef, useTransition } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, LayoutGrid, Mic, MonitorUp, Video } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  NO_SOURCE,
+  SCREEN_SHARE_SOURCE,
+  useBrowserBroadcast,
+} from "@/hooks/use-browser-broadcast";
+import { useSelf } from "@/hooks/use-self";
+import { updateStream } from "@/actions/stream";
+import { CategorySelect } from "@/components/stream-player/category-select";
+
+interface BrowserGoLiveFormProps {
+  username?: string;
 }
+
+export const BrowserGoLiveForm = ({ username }: BrowserGoLiveFormProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const {
+    devices,
+    loadDevices,
+    videoSource,
+    setVideoSource,
+    audioSource,
+    setAudioSource,
+    videoTrack,
+    status,
+    error,
+    goLive,
+    endStream,
+  } = useBrowserBroadcast();
+
+  const isLive = status === "live" || status === "ending";
+  const isBusy = status === "connecting" || status === "ending";
+
+  const queryClient = useQueryClient();
+  const { data: self } = useSelf();
+  const [isSavingCategory, startTransition] = useTransition();
+
+  const onCategoryChange = (subCategoryId: string | null) => {
+    startTransition(() => {
+      updateStream({ subCategoryId })
+        .then(() => {
+          queryClient.invalidateQueries({ queryKey: ["currentUser"] });
+          toast.success("Category updated");
+        })
+        .catch(() => toast.error("Something went wrong"));
+    });
+  };
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  // Attach the local preview to the video element
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!videoTrack || !element) return;
+
+    videoTrack.attach(element);
+    return () => {
+      videoTrack.detach(element);
+    };
+  }, [videoTrack]);
+
+  return (
+    <div className="space-y-6">
+      <div className="relative aspect-video rounded-xl bg-muted overflow-hidden">
+        <video
+          ref={videoRef}
+          className="h-full w-full object-contain"
+          autoPlay
+          muted
+          playsInline
+        />
+        {!videoTrack && (
+          <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">
+            No video source selected
+          </div>
+        )}
+        {isLive && (
+          <div className="absolute top-3 left-3 rounded-md bg-rose-500 px-2 py-0.5 text-xs font-semibold uppercase text-white">
+            Live
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="flex items-center gap-x-2 text-sm font-semibold text-foreground">
+            <Video className="h-4 w-4" />
+            Video source
+          </p>
+          <Select
+            value={videoSource}
+            onValueChange={setVideoSource}
+            disabled={isBusy}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a camera" />
+            </SelectTrigger>
+            <SelectContent>
+              {devices.cameras.map((camera, index) => (
+                <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                  {camera.label || `Camera ${index + 1}`}
+                </SelectItem>
+              ))}
+              <SelectItem value={SCREEN_SHARE_SOURCE}>
+                <span className="flex items-center gap-x-2">
+                  <MonitorUp className="h-4 w-4" />
+                  Share screen
+                </span>
+              </SelectItem>
+              <SelectItem value={NO_SOURCE}>No video</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <p className="flex items-center gap-x-2 text-sm font-semibold text-foreground">
+            <Mic className="h-4 w-4" />
+            Microphone
+          </p>
+          <Select
+            value={audioSource}
+            onValueChange={setAudioSource}
+            disabled={isBusy}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a microphone" />
+            </SelectTrigger>
+            <SelectContent>
+              {devices.microphones.map((microphone, index) => (
+                <SelectItem
+                  key={microphone.deviceId}
+                  value={microphone.deviceId}
+                >
+                  {microphone.label || `Microphone ${index + 1}`}
+                </SelectItem>
+              ))}
+              <SelectItem value={NO_SOURCE}>No audio</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="flex items-center gap-x-2 text-sm font-semibold text-foreground">
+          <LayoutGrid className="h-4 w-4" />
+          Category
+        </p>
+        <CategorySelect
+          value={self?.stream?.subCategoryId ?? null}
+          onChange={onCategoryChange}
+          disabled={!self?.stream || isSavingCategory}
+        />
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-x-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {isLive && (
+        <p className="text-sm text-muted-foreground">
+          Keep this window open while you are live. Closing it ends the stream.
+        </p>
+      )}
+
+      <div className="flex justify-between gap-x-2">
+        {isLive ? (
+          <Button
+            variant="destructive"
+            onClick={endStream}
+            disabled={isBusy}
+          >
+            {status === "ending" ? "Ending..." : "End Stream"}
+          </Button>
+        ) : (
+          <Button
+            variant="primary"
+            className="font-semibold"
+            onClick={goLive}
+            disabled={isBusy}
+          >
+            {status === "connecting" ? "Going live..." : "Go Live"}
+          </Button>
+        )}
+        {username && (
+          <Link href={`/${username}`} target="_blank">
+            <Button variant="outline">View Stream</Button>
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,12 @@
 "use client";
 
 import React from "react";
-import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { CopyButton } from "@/app/(dashboard)/u/[username]/keys/_components/copy-button";
-import { ConnectModal } from "@/app/(dashboard)/u/[username]/keys/_components/connect-modal";
-import { AlertCircle, Monitor } from "lucide-react";
 import { BrowserGoLiveForm } from "./browser-go-live-form";
 
 interface GoLiveWithBrowserProps {
@@ -31,14 +26,12 @@ export const GoLiveWithBrowser = ({
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl">
-        <div className="flex flex-col py-24">
-          <h2 className="text-3xl font-semibold font-sans text-center">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold font-sans">
             Browser Streaming
-          </h2>
-          <p className="text-gray-300 pt-2 pb-8 text-center">Coming soon</p>
-
-          {/* <BrowserGoLiveForm /> */}
-        </div>
+          </DialogTitle>
+        </DialogHeader>
+        <BrowserGoLiveForm username={user?.username} />
       </DialogContent>
     </Dialog>
   );
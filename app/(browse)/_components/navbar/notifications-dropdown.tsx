@@ -0,0 +1,85 @@
+"use client";
+
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useQueryClient } from "@tanstack/react-query";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useNotifications } from "@/hooks/use-notifications";
+import { markNotificationsAsRead } from "@/actions/notification";
+
+export const NotificationsDropdown = () => {
+  const queryClient = useQueryClient();
+  const { data } = useNotifications();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpenChange = async (open: boolean) => {
+    if (open || unreadCount === 0) return;
+
+    try {
+      await markNotificationsAsRead();
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-rose-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 && (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up
+          </p>
+        )}
+        {notifications.map((notification) => (
+          <DropdownMenuItem key={notification.id} asChild>
+            <Link
+              href={notification.link ?? "#"}
+              className={cn(
+                "flex flex-col items-start gap-y-1",
+                !notification.readAt && "bg-muted/50"
+              )}
+            >
+              <p className="text-sm font-semibold">{notification.title}</p>
+              {notification.body && (
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {notification.body}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.createdAt), {
+                  addSuffix: true,
+                })}
+              </p>
+            </Link>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
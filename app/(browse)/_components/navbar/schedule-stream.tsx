@@ -14,6 +14,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useRouter } from "next/navigation";
 import { AlertCircle, Calendar, Clock } from "lucide-react";
 import { toast } from "sonner";
+import { createScheduledStream } from "@/actions/scheduled-stream";
 
 interface ScheduleStreamProps {
   user: {
@@ -65,13 +66,14 @@ export const ScheduleStream = ({
     try {
       setIsLoading(true);
 
-      // TODO: Implement schedule stream API call
-      // const result = await scheduleStream({
-      //   title: formData.title,
-      //   description: formData.description,
-      //   scheduledAt: new Date(`${formData.scheduledDate}T${formData.scheduledTime}`),
-      //   userId: user.id
-      // });
+      // Date and time inputs are in the streamer's local timezone
+      await createScheduledStream({
+        title: formData.title,
+        description: formData.description,
+        scheduledAt: new Date(
+          `${formData.scheduledDate}T${formData.scheduledTime}`
+        ),
+      });
 
       toast.success("Stream scheduled successfully!");
       onOpenChange?.(false);
@@ -83,9 +85,9 @@ export const ScheduleStream = ({
         scheduledDate: "",
         scheduledTime: "",
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error scheduling stream:", error);
-      toast.error("Failed to schedule stream");
+      toast.error(error?.message || "Failed to schedule stream");
     } finally {
       setIsLoading(false);
     }
@@ -109,8 +111,7 @@ export const ScheduleStream = ({
             Schedule Stream
           </DialogTitle>
         </DialogHeader>
-        <p className="text-center">coming soon</p>
-        {/* <div className="space-y-6">
+        <div className="space-y-6">
           <div className="rounded-xl bg-muted/50 p-4 flex items-start gap-x-2">
             <AlertCircle className="h-5 w-5 text-muted-foreground mt-0.5" />
             <div className="space-y-2">
@@ -119,7 +120,7 @@ export const ScheduleStream = ({
                 <li>Set a title and description for your stream</li>
                 <li>Choose a date and time for your stream</li>
                 <li>View and manage all your scheduled streams</li>
-                <li>Get notifications before your stream starts</li>
+                <li>Your followers get notified before your stream starts</li>
               </ul>
             </div>
           </div>
@@ -189,7 +190,7 @@ export const ScheduleStream = ({
               {isLoading ? "Scheduling..." : "Schedule Stream"}
             </Button>
           </div>
-        </div> */}
+        </div>
       </DialogContent>
     </Dialog>
   );
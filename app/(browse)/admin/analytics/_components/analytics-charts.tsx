@@ -0,0 +1,174 @@
+"use client";
+
+import React from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltipContent } from "@/components/ui/chart";
+
+export interface PlatformSnapshot {
+  date: string;
+  totalStreamsCreated: number;
+  totalLiveStreams: number;
+  totalStreamHours: number;
+  totalUsers: number;
+  totalStreamers: number;
+  totalActiveStreamers: number;
+  totalViews: number;
+  totalWatchTimeMinutes: number;
+  peakConcurrentViewers: number;
+  totalFollows: number;
+  totalChatMessages: number;
+  totalBlocks: number;
+  totalTips: number;
+  totalTipVolume: number;
+}
+
+type SnapshotKey = Exclude<keyof PlatformSnapshot, "date">;
+
+interface ChartDefinition {
+  title: string;
+  type: "line" | "bar";
+  series: { key: SnapshotKey; label: string; color: string }[];
+}
+
+const CHARTS: ChartDefinition[] = [
+  {
+    title: "Audience",
+    type: "line",
+    series: [
+      { key: "totalUsers", label: "Users", color: "#9b87f5" },
+      { key: "totalStreamers", label: "Streamers", color: "#2775CA" },
+      { key: "totalFollows", label: "Follows", color: "#26A17B" },
+    ],
+  },
+  {
+    title: "Daily activity",
+    type: "bar",
+    series: [
+      { key: "totalLiveStreams", label: "Broadcasts", color: "#9945FF" },
+      { key: "totalActiveStreamers", label: "Active streamers", color: "#2775CA" },
+      { key: "peakConcurrentViewers", label: "Peak viewers", color: "#f43f5e" },
+    ],
+  },
+  {
+    title: "Engagement",
+    type: "line",
+    series: [
+      { key: "totalStreamHours", label: "Stream hours", color: "#9b87f5" },
+      { key: "totalWatchTimeMinutes", label: "Watch minutes", color: "#26A17B" },
+      { key: "totalChatMessages", label: "Chat messages", color: "#888888" },
+    ],
+  },
+  {
+    title: "Tips",
+    type: "line",
+    series: [
+      { key: "totalTips", label: "Tips", color: "#9945FF" },
+      { key: "totalTipVolume", label: "Tip volume", color: "#2775CA" },
+    ],
+  },
+];
+
+const SUMMARY: { key: SnapshotKey; label: string }[] = [
+  { key: "totalUsers", label: "Users" },
+  { key: "totalStreamers", label: "Streamers" },
+  { key: "totalStreamHours", label: "Stream hours" },
+  { key: "totalViews", label: "Views" },
+  { key: "totalTipVolume", label: "Tip volume" },
+  { key: "totalBlocks", label: "Blocks" },
+];
+
+const SnapshotChart = ({
+  chart,
+  snapshots,
+}: {
+  chart: ChartDefinition;
+  snapshots: PlatformSnapshot[];
+}) => {
+  const config = Object.fromEntries(
+    chart.series.map(({ key, label, color }) => [key, { label, color }])
+  );
+  const Chart = chart.type === "line" ? LineChart : BarChart;
+
+  return (
+    <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+      <div className="text-lg text-primary font-bold mb-4">{chart.title}</div>
+      <ChartContainer config={config} className="h-[280px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <Chart data={snapshots}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="date" />
+            <YAxis width={50} />
+            <Tooltip
+              content={(props: any) =>
+                props.active && props.payload?.length ? (
+                  <ChartTooltipContent
+                    payload={props.payload}
+                    label={props.label}
+                    active
+                  />
+                ) : null
+              }
+            />
+            <Legend />
+            {chart.series.map(({ key, label, color }) =>
+              chart.type === "line" ? (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  stroke={color}
+                  strokeWidth={2}
+                  dot={false}
+                  name={label}
+                />
+              ) : (
+                <Bar key={key} dataKey={key} fill={color} name={label} />
+              )
+            )}
+          </Chart>
+        </ResponsiveContainer>
+      </ChartContainer>
+    </Card>
+  );
+};
+
+export const AnalyticsCharts = ({
+  snapshots,
+}: {
+  snapshots: PlatformSnapshot[];
+}) => {
+  const latest = snapshots[snapshots.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+        {SUMMARY.map(({ key, label }) => (
+          <Card key={key} className="p-4 bg-background">
+            <p className="text-xs text-muted-foreground">{label}</p>
+            <p className="text-2xl font-bold">
+              {latest[key].toLocaleString()}
+            </p>
+          </Card>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {CHARTS.map((chart) => (
+          <SnapshotChart key={chart.title} chart={chart} snapshots={snapshots} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { notFound } from "next/navigation";
+
+import { db } from "@/lib/db";
+import { getAdmin } from "@/lib/auth-service";
+
+import { AnalyticsCharts } from "./_components/analytics-charts";
+
+// Number of daily snapshots charted
+const SNAPSHOT_DAYS = 90;
+
+const AdminAnalyticsPage = async () => {
+  try {
+    await getAdmin();
+  } catch {
+    notFound();
+  }
+
+  const snapshots = await db.platformAnalytics.findMany({
+    orderBy: { snapshotDate: "desc" },
+    take: SNAPSHOT_DAYS,
+  });
+
+  // Oldest first for the charts, with Dates and Decimals made serializable
+  const data = snapshots
+    .reverse()
+    .map(({ snapshotDate, totalTipVolume, lastUpdated, createdAt, id, ...counters }) => ({
+      ...counters,
+      date: snapshotDate.toISOString().slice(0, 10),
+      totalTipVolume: Number(totalTipVolume),
+    }));
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-bold font-sans">Platform Analytics</h1>
+      {data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No snapshots yet. Run <code>scripts/aggregate-analytics.ts</code> or
+          wait for the daily job.
+        </p>
+      ) : (
+        <AnalyticsCharts snapshots={data} />
+      )}
+    </div>
+  );
+};
+
+export const dynamic = "force-dynamic";
+
+export default AdminAnalyticsPage;
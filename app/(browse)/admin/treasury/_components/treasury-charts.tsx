@@ -0,0 +1,202 @@
+"use client";
+
+import React from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltipContent } from "@/components/ui/chart";
+import type { TreasuryAlertLevel, TreasuryOverview } from "@/lib/treasury";
+
+const formatSol = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 4 })} SOL`;
+
+const LEVEL_STYLES: Record<TreasuryAlertLevel, string> = {
+  WARNING: "text-yellow-500",
+  CRITICAL: "text-red-500",
+  PAUSED: "text-red-500",
+};
+
+const tooltip = (props: any) =>
+  props.active && props.payload?.length ? (
+    <ChartTooltipContent payload={props.payload} label={props.label} active />
+  ) : null;
+
+export const TreasuryCharts = ({
+  overview,
+}: {
+  overview: TreasuryOverview;
+}) => {
+  const { thresholds } = overview;
+
+  const summary = [
+    { label: "Balance", value: formatSol(overview.balance) },
+    { label: "Daily spend", value: formatSol(overview.dailySpend) },
+    {
+      label: "Runway",
+      value:
+        overview.runwayDays === null
+          ? "—"
+          : `${overview.runwayDays.toFixed(1)} days`,
+    },
+    {
+      label: "Sponsorship",
+      value: overview.isPaused ? "Paused" : "Active",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+        {summary.map(({ label, value }) => (
+          <Card key={label} className="p-4 bg-background">
+            <p className="text-xs text-muted-foreground">{label}</p>
+            <p className="text-2xl font-bold">{value}</p>
+          </Card>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Warning below {formatSol(thresholds.warningSol)} or{" "}
+        {thresholds.minRunwayDays} days of runway, critical below{" "}
+        {formatSol(thresholds.criticalSol)}
+        {thresholds.pauseSol === null
+          ? "; sponsorship is never paused."
+          : `; sponsorship pauses below ${formatSol(thresholds.pauseSol)}.`}
+      </p>
+
+      {overview.history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No balance history yet. It is recorded hourly by the treasury job.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+            <div className="text-lg text-primary font-bold mb-4">Balance</div>
+            <ChartContainer
+              config={{ balance: { label: "Balance", color: "#9945FF" } }}
+              className="h-[280px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={overview.history}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="date" />
+                  <YAxis width={50} />
+                  <Tooltip content={tooltip} />
+                  <ReferenceLine
+                    y={thresholds.warningSol}
+                    stroke="#eab308"
+                    strokeDasharray="4 4"
+                  />
+                  <ReferenceLine
+                    y={thresholds.criticalSol}
+                    stroke="#ef4444"
+                    strokeDasharray="4 4"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="balance"
+                    stroke="#9945FF"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Balance"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </Card>
+          <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+            <div className="text-lg text-primary font-bold mb-4">
+              Daily spend
+            </div>
+            <ChartContainer
+              config={{ spent: { label: "Spent", color: "#2775CA" } }}
+              className="h-[280px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={overview.history}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="date" />
+                  <YAxis width={50} />
+                  <Tooltip content={tooltip} />
+                  <Bar dataKey="spent" fill="#2775CA" name="Spent" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </Card>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+          <div className="text-lg text-primary font-bold mb-4">
+            Spend by operation
+          </div>
+          {overview.spendByOperation.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing sponsored in this period.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="pb-2 font-normal">Operation</th>
+                  <th className="pb-2 font-normal text-right">Transactions</th>
+                  <th className="pb-2 font-normal text-right">Spent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.spendByOperation.map((row) => (
+                  <tr key={row.operation} className="border-t border-border/50">
+                    <td className="py-2">{row.operation}</td>
+                    <td className="py-2 text-right">
+                      {row.count.toLocaleString()}
+                    </td>
+                    <td className="py-2 text-right">{formatSol(row.spent)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Card>
+        <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+          <div className="text-lg text-primary font-bold mb-4">Alerts</div>
+          {overview.alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alerts raised.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {overview.alerts.map((alert) => (
+                <li key={alert.id}>
+                  <div className="flex justify-between gap-4">
+                    <span
+                      className={`font-semibold ${LEVEL_STYLES[alert.level]}`}
+                    >
+                      {alert.level}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(alert.createdAt).toLocaleString()}
+                      {alert.resolvedAt
+                        ? ` – resolved ${new Date(alert.resolvedAt).toLocaleString()}`
+                        : " – open"}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground">{alert.message}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { notFound } from "next/navigation";
+
+import { getAdmin } from "@/lib/auth-service";
+import { getTreasuryOverview } from "@/lib/treasury-service";
+
+import { TreasuryCharts } from "./_components/treasury-charts";
+
+const AdminTreasuryPage = async () => {
+  try {
+    await getAdmin();
+  } catch {
+    notFound();
+  }
+
+  const overview = await getTreasuryOverview();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold font-sans">Treasury</h1>
+        <p className="text-sm text-muted-foreground break-all">
+          Server wallet {overview.address}
+        </p>
+      </div>
+      <TreasuryCharts overview={overview} />
+    </div>
+  );
+};
+
+export const dynamic = "force-dynamic";
+
+export default AdminTreasuryPage;
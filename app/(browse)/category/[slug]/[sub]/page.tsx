@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import {
+  CategoryStreamSort,
+  getCategoryBySlug,
+  getCategoryStreams,
+} from "@/lib/category-service";
+
+import { CategoryStreamsList } from "../../_components/category-streams";
+
+interface SubCategoryPageProps {
+  params: {
+    slug: string;
+    sub: string;
+  };
+  searchParams: {
+    sort?: CategoryStreamSort;
+  };
+}
+
+const SubCategoryPage = async ({
+  params,
+  searchParams,
+}: SubCategoryPageProps) => {
+  const category = await getCategoryBySlug(params.slug);
+  const subCategory = category?.subCategories.find(
+    ({ slug }) => slug === params.sub
+  );
+
+  if (!category || !subCategory) {
+    notFound();
+  }
+
+  const sort = searchParams.sort === "recent" ? "recent" : "viewers";
+  const streams = await getCategoryStreams({
+    subCategoryIds: [subCategory.id],
+    sort,
+  });
+
+  return (
+    <div className="h-full p-8 max-w-screen-2xl mx-auto space-y-6">
+      <div className="space-y-2">
+        <Link
+          href={`/category/${category.slug}`}
+          className="text-sm text-muted-foreground hover:underline"
+        >
+          {category.name}
+        </Link>
+        <h1 className="text-4xl font-bold">{subCategory.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          {subCategory.viewers} watching now
+        </p>
+        {subCategory.description && (
+          <p className="text-muted-foreground">{subCategory.description}</p>
+        )}
+      </div>
+
+      <CategoryStreamsList
+        basePath={`/category/${category.slug}/${subCategory.slug}`}
+        sort={sort}
+        streams={streams}
+      />
+    </div>
+  );
+};
+
+export const dynamic = "force-dynamic";
+
+export default SubCategoryPage;
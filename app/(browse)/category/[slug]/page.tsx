@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import {
+  CategoryStreamSort,
+  getCategoryBySlug,
+  getCategoryStreams,
+} from "@/lib/category-service";
+
+import { CategoryStreamsList } from "../_components/category-streams";
+
+interface CategoryPageProps {
+  params: {
+    slug: string;
+  };
+  searchParams: {
+    sort?: CategoryStreamSort;
+  };
+}
+
+const CategoryPage = async ({ params, searchParams }: CategoryPageProps) => {
+  const category = await getCategoryBySlug(params.slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  const sort = searchParams.sort === "recent" ? "recent" : "viewers";
+  const streams = await getCategoryStreams({
+    subCategoryIds: category.subCategories.map(({ id }) => id),
+    sort,
+  });
+
+  return (
+    <div className="h-full p-8 max-w-screen-2xl mx-auto space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-4xl font-bold">{category.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          {category.viewers} watching now
+        </p>
+        {category.description && (
+          <p className="text-muted-foreground">{category.description}</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {category.subCategories.map((subCategory) => (
+          <Link
+            key={subCategory.id}
+            href={`/category/${category.slug}/${subCategory.slug}`}
+            className="rounded-md bg-muted px-3 py-1.5 text-sm hover:bg-muted/70 transition"
+          >
+            {subCategory.name}
+            <span className="ml-2 text-xs text-muted-foreground">
+              {subCategory.viewers}
+            </span>
+          </Link>
+        ))}
+      </div>
+
+      <CategoryStreamsList
+        basePath={`/category/${category.slug}`}
+        sort={sort}
+        streams={streams}
+      />
+    </div>
+  );
+};
+
+export const dynamic = "force-dynamic";
+
+export default CategoryPage;
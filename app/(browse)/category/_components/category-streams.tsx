@@ -0,0 +1,94 @@
+import Link from "next/link";
+import { Users } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import {
+  CategoryStreamSort,
+  getCategoryStreams,
+} from "@/lib/category-service";
+
+import { ResultCard } from "../../(home)/_components/result-card";
+
+type CategoryStreams = Awaited<ReturnType<typeof getCategoryStreams>>;
+type StreamCard = CategoryStreams["live"][number];
+
+const SORT_OPTIONS: { value: CategoryStreamSort; label: string }[] = [
+  { value: "viewers", label: "Most viewers" },
+  { value: "recent", label: "Recently started" },
+];
+
+// ResultCard expects the serialized shape the streams API returns
+const toCardData = (stream: StreamCard) => ({
+  ...stream,
+  updatedAt: stream.updatedAt.toISOString(),
+});
+
+interface CategoryStreamsProps {
+  basePath: string;
+  sort: CategoryStreamSort;
+  streams: CategoryStreams;
+}
+
+export const CategoryStreamsList = ({
+  basePath,
+  sort,
+  streams,
+}: CategoryStreamsProps) => {
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-x-2">
+        {SORT_OPTIONS.map((option) => (
+          <Link
+            key={option.value}
+            href={`${basePath}?sort=${option.value}`}
+            className={cn(
+              "rounded-full px-3 py-1 text-sm border border-border/50 hover:bg-muted transition",
+              sort === option.value && "bg-muted font-semibold"
+            )}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold font-sans">
+          Live now ({streams.live.length})
+        </h2>
+        {streams.live.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nobody is live in this category right now.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
+            {streams.live.map((stream) => (
+              <div key={stream.id} className="space-y-2">
+                <ResultCard data={toCardData(stream)} />
+                <p className="flex items-center gap-x-1 text-xs text-muted-foreground">
+                  <Users className="h-3 w-3" />
+                  {stream.viewerCount} watching
+                  {stream.subCategory && ` · ${stream.subCategory.name}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold font-sans">Recent streams</h2>
+        {streams.recent.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No past streams in this category yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
+            {streams.recent.map((session) => (
+              <ResultCard key={session.id} data={toCardData(session.stream)} />
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -1,14 +1,42 @@
+import Link from "next/link";
+
+import { db } from "@/lib/db";
+
 import { Results } from "../(home)/_components/results";
 
 const ExplorePage = async () => {
+  const categories = await db.category.findMany({
+    where: { isActive: true },
+    select: { id: true, name: true, slug: true, viewers: true },
+    orderBy: [{ viewers: "desc" }, { name: "asc" }],
+  });
+
   return (
     <div className="h-full p-8 max-w-screen-2xl mx-auto">
       <div className="space-y-4">
         <h1 className="text-4xl font-bold">Explore Streams</h1>
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => (
+              <Link
+                key={category.id}
+                href={`/category/${category.slug}`}
+                className="rounded-md bg-muted px-3 py-1.5 text-sm hover:bg-muted/70 transition"
+              >
+                {category.name}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {category.viewers}
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
         <Results />
       </div>
     </div>
   );
 };
 
+export const revalidate = 60;
+
 export default ExplorePage;
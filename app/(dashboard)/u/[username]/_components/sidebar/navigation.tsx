@@ -2,7 +2,16 @@
 
 import { useUser } from "@civic/auth-web3/react";
 import { useParams, usePathname } from "next/navigation";
-import { Fullscreen, KeyRound, MessageSquare, Users } from "lucide-react";
+import {
+  Bell,
+  CalendarClock,
+  Fullscreen,
+  Gift,
+  KeyRound,
+  MessageSquare,
+  Star,
+  Users,
+} from "lucide-react";
 import { NavItem, NavItemSkeleton } from "./nav-item";
 
 export const Navigation = () => {
@@ -26,6 +35,26 @@ export const Navigation = () => {
       href: `/u/${username}/chat`,
       icon: MessageSquare,
     },
+    {
+      label: "Alerts",
+      href: `/u/${username}/alerts`,
+      icon: Bell,
+    },
+    {
+      label: "Gifts",
+      href: `/u/${username}/gifts`,
+      icon: Gift,
+    },
+    {
+      label: "Subscriptions",
+      href: `/u/${username}/subscriptions`,
+      icon: Star,
+    },
+    {
+      label: "Scheduled",
+      href: `/u/${username}/scheduled`,
+      icon: CalendarClock,
+    },
     {
       label: "Community",
       href: `/u/${username}/community`,
@@ -0,0 +1,113 @@
+"use client";
+
+import { toast } from "sonner";
+import { useState, useTransition } from "react";
+
+import { updateAlertOverlaySettings } from "@/actions/alert-overlay";
+import { ALERT_DURATION_OPTIONS } from "@/lib/alert-overlay";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface AlertSettingsFormProps {
+  minAmount: number;
+  displayDurationSeconds: number;
+  isSoundEnabled: boolean;
+};
+
+export const AlertSettingsForm = (initialValues: AlertSettingsFormProps) => {
+  const [isPending, startTransition] = useTransition();
+  const [minAmount, setMinAmount] = useState(String(initialValues.minAmount));
+  const [displayDurationSeconds, setDisplayDurationSeconds] = useState(
+    initialValues.displayDurationSeconds
+  );
+  const [isSoundEnabled, setIsSoundEnabled] = useState(
+    initialValues.isSoundEnabled
+  );
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    startTransition(() => {
+      updateAlertOverlaySettings({
+        minAmount: Number(minAmount) || 0,
+        displayDurationSeconds,
+        isSoundEnabled,
+      })
+        .then(() => toast.success("Alert settings updated! Reload the browser source in OBS to apply them."))
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="rounded-xl bg-muted p-6 space-y-6">
+      <div className="flex items-center justify-between gap-x-4">
+        <div>
+          <p className="font-semibold shrink-0">
+            Minimum amount
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Tips below this amount (in $) don&apos;t show an alert
+          </p>
+        </div>
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          value={minAmount}
+          onChange={(e) => setMinAmount(e.target.value)}
+          disabled={isPending}
+          className="w-[140px]"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-x-4">
+        <div>
+          <p className="font-semibold shrink-0">
+            Alert duration
+          </p>
+          <p className="text-sm text-muted-foreground">
+            How long each alert stays on screen
+          </p>
+        </div>
+        <Select
+          disabled={isPending}
+          value={String(displayDurationSeconds)}
+          onValueChange={(seconds) => setDisplayDurationSeconds(Number(seconds))}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_DURATION_OPTIONS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>
+                {seconds} seconds
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between gap-x-4">
+        <p className="font-semibold shrink-0">
+          Play alert sound
+        </p>
+        <Switch
+          disabled={isPending}
+          checked={isSoundEnabled}
+          onCheckedChange={setIsSoundEnabled}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" variant="primary" disabled={isPending}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
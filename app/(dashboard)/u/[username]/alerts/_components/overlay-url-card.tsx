@@ -0,0 +1,105 @@
+"use client";
+
+import { toast } from "sonner";
+import { useState, useTransition, useRef, ElementRef } from "react";
+
+import { rotateAlertOverlayToken } from "@/actions/alert-overlay";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+import { CopyButton } from "../../keys/_components/copy-button";
+
+interface OverlayUrlCardProps {
+  label: string;
+  value: string;
+};
+
+export const OverlayUrlCard = ({
+  label,
+  value,
+}: OverlayUrlCardProps) => {
+  const closeRef = useRef<ElementRef<"button">>(null);
+  const [show, setShow] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const onRotate = () => {
+    startTransition(() => {
+      rotateAlertOverlayToken()
+        .then(() => {
+          toast.success("Overlay URL rotated");
+          closeRef?.current?.click();
+        })
+        .catch(() => toast.error("Something went wrong"));
+    });
+  };
+
+  return (
+    <div className="rounded-xl bg-muted p-6">
+      <div className="flex items-start gap-x-10">
+        <p className="font-semibold shrink-0">
+          {label}
+        </p>
+        <div className="space-y-2 w-full">
+          <div className="w-full flex items-center gap-x-2">
+            <Input
+              value={value}
+              type={show ? "text" : "password"}
+              disabled
+              placeholder="Overlay URL"
+            />
+            <CopyButton value={value} />
+          </div>
+          <div className="flex items-center gap-x-2">
+            <Button
+              onClick={() => setShow(!show)}
+              size="sm"
+              variant="link"
+            >
+              {show ? "Hide" : "Show"}
+            </Button>
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="link" className="text-red-500">
+                  Rotate URL
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Rotate overlay URL</DialogTitle>
+                  <DialogDescription>
+                    Your alert and goal overlay URLs share a secret, so both
+                    stop working once their browser sources reload. You will
+                    need to paste the new URLs into OBS.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="flex justify-between">
+                  <DialogClose ref={closeRef} asChild>
+                    <Button variant="ghost">
+                      Cancel
+                    </Button>
+                  </DialogClose>
+                  <Button
+                    disabled={isPending}
+                    onClick={onRotate}
+                    variant="primary"
+                  >
+                    Rotate
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+"use client";
+
+import { toast } from "sonner";
+import { useState, useTransition } from "react";
+
+import { updateTipAlertSettings } from "@/actions/stream";
+import { TIP_ALERT_LIMITS, TipAlertSettings } from "@/lib/tip-config";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { GiftCatalogItem } from "@/lib/gift-catalog";
+
+interface TipAlertSettingsFormProps extends TipAlertSettings {
+  gifts: GiftCatalogItem[];
+};
+
+export const TipAlertSettingsForm = ({
+  gifts,
+  ...initialValues
+}: TipAlertSettingsFormProps) => {
+  const [isPending, startTransition] = useTransition();
+  const [largeTipThreshold, setLargeTipThreshold] = useState(
+    String(initialValues.largeTipThreshold)
+  );
+  const [megaTipThreshold, setMegaTipThreshold] = useState(
+    String(initialValues.megaTipThreshold)
+  );
+  const [tipAlertDurationSeconds, setTipAlertDurationSeconds] = useState(
+    String(initialValues.tipAlertDurationSeconds)
+  );
+  const [giftAlertDurationSeconds, setGiftAlertDurationSeconds] = useState(
+    String(initialValues.giftAlertDurationSeconds)
+  );
+  const [tipAlertQueueSize, setTipAlertQueueSize] = useState(
+    String(initialValues.tipAlertQueueSize)
+  );
+  const [excludedAlertGiftTypes, setExcludedAlertGiftTypes] = useState(
+    initialValues.excludedAlertGiftTypes
+  );
+
+  const toggleGift = (giftId: string) => {
+    setExcludedAlertGiftTypes((prev) =>
+      prev.includes(giftId)
+        ? prev.filter((id) => id !== giftId)
+        : [...prev, giftId]
+    );
+  };
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    startTransition(() => {
+      updateTipAlertSettings({
+        largeTipThreshold: Number(largeTipThreshold),
+        megaTipThreshold: Number(megaTipThreshold),
+        tipAlertDurationSeconds: Number(tipAlertDurationSeconds),
+        giftAlertDurationSeconds: Number(giftAlertDurationSeconds),
+        tipAlertQueueSize: Number(tipAlertQueueSize),
+        excludedAlertGiftTypes,
+      })
+        .then(() => toast.success("Tip alert settings updated"))
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  const fields = [
+    {
+      label: "Large tip threshold",
+      description: "Tips of at least this amount (in $) get a full-screen alert",
+      value: largeTipThreshold,
+      onChange: setLargeTipThreshold,
+      min: 1,
+      max: TIP_ALERT_LIMITS.MAX_THRESHOLD,
+    },
+    {
+      label: "Mega tip threshold",
+      description: "Tips of at least this amount (in $) get the biggest alert",
+      value: megaTipThreshold,
+      onChange: setMegaTipThreshold,
+      min: 1,
+      max: TIP_ALERT_LIMITS.MAX_THRESHOLD,
+    },
+    {
+      label: "Tip alert duration",
+      description: "Seconds a large or mega tip alert stays on screen",
+      value: tipAlertDurationSeconds,
+      onChange: setTipAlertDurationSeconds,
+      min: TIP_ALERT_LIMITS.MIN_DURATION_SECONDS,
+      max: TIP_ALERT_LIMITS.MAX_DURATION_SECONDS,
+    },
+    {
+      label: "Gift alert duration",
+      description: "Seconds a gift alert stays on screen",
+      value: giftAlertDurationSeconds,
+      onChange: setGiftAlertDurationSeconds,
+      min: TIP_ALERT_LIMITS.MIN_DURATION_SECONDS,
+      max: TIP_ALERT_LIMITS.MAX_DURATION_SECONDS,
+    },
+    {
+      label: "Alert queue size",
+      description: "Alerts waiting beyond this many are dropped",
+      value: tipAlertQueueSize,
+      onChange: setTipAlertQueueSize,
+      min: TIP_ALERT_LIMITS.MIN_QUEUE_SIZE,
+      max: TIP_ALERT_LIMITS.MAX_QUEUE_SIZE,
+    },
+  ];
+
+  return (
+    <form onSubmit={onSubmit} className="rounded-xl bg-muted p-6 space-y-6">
+      <div>
+        <p className="font-semibold">
+          On-stream alerts
+        </p>
+        <p className="text-sm text-muted-foreground">
+          How tips and gifts show up over your stream for viewers
+        </p>
+      </div>
+      {fields.map((field) => (
+        <div
+          key={field.label}
+          className="flex items-center justify-between gap-x-4"
+        >
+          <div>
+            <p className="font-semibold shrink-0">
+              {field.label}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {field.description}
+            </p>
+          </div>
+          <Input
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={1}
+            value={field.value}
+            onChange={(e) => field.onChange(e.target.value)}
+            disabled={isPending}
+            className="w-[140px]"
+          />
+        </div>
+      ))}
+      <div className="space-y-3">
+        <div>
+          <p className="font-semibold">
+            Full-screen gifts
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Gifts you turn off still show in chat, just without the overlay
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {gifts.map((gift) => {
+            const isEnabled = !excludedAlertGiftTypes.includes(gift.id);
+
+            return (
+              <button
+                key={gift.id}
+                type="button"
+                disabled={isPending}
+                onClick={() => toggleGift(gift.id)}
+                className={cn(
+                  "rounded-md border px-3 py-1 text-sm transition",
+                  isEnabled
+                    ? "border-primary bg-primary/10"
+                    : "border-border text-muted-foreground line-through"
+                )}
+              >
+                {gift.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" variant="primary" disabled={isPending}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,52 @@
+import { getSelf } from "@/lib/auth-service";
+import { getOrCreateAlertOverlay } from "@/lib/alert-overlay-service";
+import { getAlertOverlayPath } from "@/lib/alert-overlay";
+import { getStreamByUserId } from "@/lib/stream-service";
+import { getStreamerGifts } from "@/lib/gift-service";
+import { getTipAlertSettings } from "@/lib/tip-config";
+
+import { OverlayUrlCard } from "./_components/overlay-url-card";
+import { AlertSettingsForm } from "./_components/alert-settings-form";
+import { TipAlertSettingsForm } from "./_components/tip-alert-settings-form";
+
+const AlertsPage = async () => {
+  const self = await getSelf();
+  const [overlay, stream, gifts] = await Promise.all([
+    getOrCreateAlertOverlay(self.id),
+    getStreamByUserId(self.id),
+    getStreamerGifts(self.id),
+  ]);
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const overlayUrl = `${baseUrl}${getAlertOverlayPath(overlay.token)}`;
+  const goalOverlayUrl = `${baseUrl}${getAlertOverlayPath(overlay.token, "goal")}`;
+
+  return (
+    <div className="p-6">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold">
+          Stream alerts
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Add the overlay URLs to OBS as browser sources to show tip and gift
+          alerts, and your current tip goal, on your broadcast.
+        </p>
+      </div>
+      <div className="space-y-4">
+        <OverlayUrlCard label="Alerts URL" value={overlayUrl} />
+        <OverlayUrlCard label="Goal URL" value={goalOverlayUrl} />
+        <AlertSettingsForm
+          minAmount={Number(overlay.minAmount)}
+          displayDurationSeconds={overlay.displayDurationSeconds}
+          isSoundEnabled={overlay.isSoundEnabled}
+        />
+        <TipAlertSettingsForm
+          {...getTipAlertSettings(stream)}
+          gifts={gifts.filter((gift) => gift.isEnabled)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPage;
@@ -0,0 +1,66 @@
+"use client";
+
+import qs from "query-string";
+import { useState } from "react";
+import { SearchIcon, X } from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface ChatLogSearchProps {
+  initialQuery?: string;
+}
+
+export const ChatLogSearch = ({ initialQuery = "" }: ChatLogSearchProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [value, setValue] = useState(initialQuery);
+
+  const search = (query: string) => {
+    const url = qs.stringifyUrl({
+      url: pathname,
+      query: { q: query },
+    }, { skipEmptyString: true });
+
+    router.push(url);
+  };
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    search(value.trim());
+  };
+
+  const onClear = () => {
+    setValue("");
+    search("");
+  };
+
+  return (
+    <form
+      onSubmit={onSubmit}
+      className="relative w-full lg:w-[400px] flex items-center border border-gray-600 rounded-lg"
+    >
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Search messages or usernames"
+        className="rounded-r-none border-none focus-visible:ring-0 focus-visible:ring-transparent focus-visible:ring-offset-0"
+      />
+      {value && (
+        <X
+          className="absolute top-2.5 right-14 h-5 w-5 text-muted-foreground cursor-pointer hover:opacity-75 transition"
+          onClick={onClear}
+        />
+      )}
+      <Button
+        type="submit"
+        size="sm"
+        variant="secondary"
+        className="rounded-l-none bg-transparent hover:bg-transparent"
+      >
+        <SearchIcon className="h-5 w-5 text-muted-foreground" />
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,43 @@
+import { format } from "date-fns";
+
+import { stringToColor } from "@/lib/utils";
+import { searchChatLog } from "@/lib/chat-service";
+
+interface ChatLogProps {
+  messages: Awaited<ReturnType<typeof searchChatLog>>;
+  query?: string;
+}
+
+export const ChatLog = ({ messages, query }: ChatLogProps) => {
+  if (messages.length === 0) {
+    return (
+      <div className="rounded-md border p-6 text-center text-sm text-muted-foreground">
+        {query ? `No messages match "${query}"` : "No chat messages yet"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border divide-y max-h-[600px] overflow-y-auto">
+      {messages.map((message) => (
+        <div key={message.id} className="flex gap-3 p-3 text-sm">
+          <p className="text-muted-foreground whitespace-nowrap">
+            {format(message.createdAt, "dd/MM/yyyy HH:mm")}
+          </p>
+          <div className="flex flex-wrap items-baseline gap-1 grow">
+            <p
+              className="font-semibold whitespace-nowrap"
+              style={{ color: stringToColor(message.sender.username) }}
+            >
+              {message.sender.username}:
+            </p>
+            <p className="break-all">{message.content}</p>
+            {message.deletedAt && (
+              <span className="text-xs text-muted-foreground">(deleted)</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
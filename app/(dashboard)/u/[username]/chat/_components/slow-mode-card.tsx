@@ -0,0 +1,63 @@
+"use client";
+
+import { toast } from "sonner";
+import { useTransition } from "react";
+
+import { updateStream } from "@/actions/stream";
+import { CHAT_SLOW_MODE_OPTIONS } from "@/lib/chat-relay";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SlowModeCardProps {
+  value: number;
+};
+
+export const SlowModeCard = ({
+  value = 0,
+}: SlowModeCardProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  const onChange = (seconds: string) => {
+    startTransition(() => {
+      updateStream({ chatSlowModeSeconds: Number(seconds) })
+        .then(() => toast.success("Chat settings updated!"))
+        .catch(() => toast.error("Something went wrong"));
+    });
+  };
+
+  return (
+    <div className="rounded-xl bg-muted p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold shrink-0">
+            Slow mode
+          </p>
+          <p className="text-sm text-muted-foreground">
+            How long each viewer waits between messages
+          </p>
+        </div>
+        <Select
+          disabled={isPending}
+          value={String(value)}
+          onValueChange={onChange}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Off" />
+          </SelectTrigger>
+          <SelectContent>
+            {CHAT_SLOW_MODE_OPTIONS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>
+                {seconds === 0 ? "Off" : `${seconds} seconds`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
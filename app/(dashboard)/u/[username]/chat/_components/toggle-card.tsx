@@ -7,7 +7,13 @@ import { Switch } from "@/components/ui/switch";
 import { updateStream } from "@/actions/stream";
 import { Skeleton } from "@/components/ui/skeleton";
 
-type FieldTypes = "isChatEnabled" | "isChatDelayed" | "isChatFollowersOnly";
+type FieldTypes =
+  | "isChatEnabled"
+  | "isChatDelayed"
+  | "isChatFollowersOnly"
+  | "isChatTippersOnly"
+  | "isChatSubscribersOnly"
+  | "isTipTtsEnabled";
 
 interface ToggleCardProps {
   label: string;
@@ -10,6 +10,8 @@ const ChatLoading = () => {
         <ToggleCardSkeleton />
         <ToggleCardSkeleton />
         <ToggleCardSkeleton />
+        <ToggleCardSkeleton />
+        <ToggleCardSkeleton />
       </div>
     </div>
   );
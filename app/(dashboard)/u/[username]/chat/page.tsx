@@ -1,9 +1,19 @@
 import { getSelf } from "@/lib/auth-service";
 import { getStreamByUserIdFromApi } from "@/lib/stream-service";
+import { searchChatLog } from "@/lib/chat-service";
 
 import { ToggleCard } from "./_components/toggle-card";
+import { SlowModeCard } from "./_components/slow-mode-card";
+import { ChatLog } from "./_components/chat-log";
+import { ChatLogSearch } from "./_components/chat-log-search";
 
-const ChatPage = async () => {
+interface ChatPageProps {
+  searchParams: {
+    q?: string;
+  };
+}
+
+const ChatPage = async ({ searchParams }: ChatPageProps) => {
   const self = await getSelf();
   const stream = await getStreamByUserIdFromApi(self.id);
 
@@ -11,6 +21,11 @@ const ChatPage = async () => {
     throw new Error("Stream not found");
   }
 
+  const messages = await searchChatLog({
+    streamId: stream.id,
+    query: searchParams.q,
+  });
+
   return ( 
     <div className="p-6">
       <div className="mb-4">
@@ -34,7 +49,30 @@ const ChatPage = async () => {
           label="Must be following to chat"
           value={stream.isChatFollowersOnly}
         />
+        <ToggleCard
+          field="isChatTippersOnly"
+          label="Must have tipped to chat"
+          value={stream.isChatTippersOnly}
+        />
+        <ToggleCard
+          field="isChatSubscribersOnly"
+          label="Must be subscribed to chat"
+          value={stream.isChatSubscribersOnly}
+        />
+        <SlowModeCard value={stream.chatSlowModeSeconds} />
+        <ToggleCard
+          field="isTipTtsEnabled"
+          label="Read tip messages aloud in on-stream alerts"
+          value={stream.isTipTtsEnabled}
+        />
+      </div>
+      <div className="mt-8 mb-4 flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+        <h2 className="text-xl font-bold">
+          Chat log
+        </h2>
+        <ChatLogSearch initialQuery={searchParams.q} />
       </div>
+      <ChatLog messages={messages} query={searchParams.q} />
     </div>
   );
 };
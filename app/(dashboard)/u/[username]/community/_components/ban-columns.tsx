@@ -0,0 +1,54 @@
+"use client"
+
+import { ArrowUpDown } from "lucide-react";
+import { ColumnDef } from "@tanstack/react-table";
+
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/user-avatar";
+
+import { UnbanButton } from "./unban-button";
+
+export type BannedUser = {
+  id: string;
+  userId: string;
+  imageUrl: string;
+  username: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export const banColumns: ColumnDef<BannedUser>[] = [
+  {
+    accessorKey: "username",
+    header: ({ column }) => (
+      <Button
+        variant="ghost"
+        onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+      >
+        Username
+        <ArrowUpDown className="ml-2 h-4 w-4" />
+      </Button>
+    ),
+    cell: ({ row }) => (
+      <div className="flex items-center gap-x-4">
+        <UserAvatar
+          username={row.original.username}
+          imageUrl={row.original.imageUrl}
+        />
+        <span>{row.original.username}</span>
+      </div>
+    )
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Date banned",
+  },
+  {
+    accessorKey: "expiresAt",
+    header: "Expires",
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <UnbanButton userId={row.original.userId} />
+  },
+]
@@ -0,0 +1,51 @@
+"use client"
+
+import { ArrowUpDown } from "lucide-react";
+import { ColumnDef } from "@tanstack/react-table";
+
+import { Button } from "@/components/ui/button";
+
+export type ModerationLogEntry = {
+  id: string;
+  action: string;
+  moderator: string;
+  username: string;
+  details: string;
+  createdAt: string;
+}
+
+export const logColumns: ColumnDef<ModerationLogEntry>[] = [
+  {
+    accessorKey: "createdAt",
+    header: ({ column }) => (
+      <Button
+        variant="ghost"
+        onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+      >
+        Date
+        <ArrowUpDown className="ml-2 h-4 w-4" />
+      </Button>
+    ),
+  },
+  {
+    accessorKey: "action",
+    header: "Action",
+  },
+  {
+    accessorKey: "username",
+    header: "User",
+  },
+  {
+    accessorKey: "moderator",
+    header: "By",
+  },
+  {
+    accessorKey: "details",
+    header: "Details",
+    cell: ({ row }) => (
+      <span className="text-muted-foreground break-all">
+        {row.original.details}
+      </span>
+    )
+  },
+]
@@ -0,0 +1,92 @@
+"use client";
+
+import { toast } from "sonner";
+import { useState, useTransition } from "react";
+
+import { addModerator, removeModerator } from "@/actions/moderation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UserAvatar } from "@/components/user-avatar";
+
+interface ModeratorsProps {
+  moderators: {
+    userId: string;
+    username: string;
+    imageUrl: string;
+  }[];
+}
+
+export const Moderators = ({ moderators }: ModeratorsProps) => {
+  const [isPending, startTransition] = useTransition();
+  const [username, setUsername] = useState("");
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!username.trim()) return;
+
+    startTransition(() => {
+      addModerator(username)
+        .then(() => {
+          toast.success(`${username} is now a moderator`);
+          setUsername("");
+        })
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  const onRemove = (userId: string) => {
+    startTransition(() => {
+      removeModerator(userId)
+        .then(() => toast.success("Moderator removed"))
+        .catch(() => toast.error("Something went wrong"));
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={onSubmit} className="flex items-center gap-x-2">
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          disabled={isPending}
+          className="max-w-sm"
+        />
+        <Button type="submit" variant="primary" disabled={isPending}>
+          Add moderator
+        </Button>
+      </form>
+      <div className="rounded-md border divide-y">
+        {moderators.length === 0 && (
+          <p className="p-4 text-sm text-muted-foreground">
+            Moderators can time out, ban and delete messages in your chat.
+          </p>
+        )}
+        {moderators.map((moderator) => (
+          <div
+            key={moderator.userId}
+            className="flex items-center justify-between p-4"
+          >
+            <div className="flex items-center gap-x-4">
+              <UserAvatar
+                username={moderator.username}
+                imageUrl={moderator.imageUrl}
+              />
+              <span>{moderator.username}</span>
+            </div>
+            <Button
+              disabled={isPending}
+              onClick={() => onRemove(moderator.userId)}
+              variant="link"
+              size="sm"
+              className="text-blue-500"
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+"use client";
+
+import { toast } from "sonner";
+import { useTransition } from "react";
+
+import { unbanUser } from "@/actions/moderation";
+import { Button } from "@/components/ui/button";
+
+interface UnbanButtonProps {
+  userId: string;
+}
+
+export const UnbanButton = ({ userId }: UnbanButtonProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  const onClick = () => {
+    startTransition(() => {
+      unbanUser(userId)
+        .then(() => toast.success("User unbanned"))
+        .catch(() => toast.error("Something went wrong"));
+    });
+  };
+
+  return (
+    <Button
+      disabled={isPending}
+      onClick={onClick}
+      variant="link"
+      size="sm"
+      className="text-blue-500 w-full"
+    >
+      Unban
+    </Button>
+  );
+};
@@ -1,12 +1,36 @@
 import {format } from "date-fns";
 
+import { getSelf } from "@/lib/auth-service";
 import { getBlockedUsers } from "@/lib/block-service";
+import {
+  getActiveChatBans,
+  getModerationLog,
+  getModerators,
+} from "@/lib/moderation-service";
 
 import { DataTable } from "./_components/data-table";
 import { columns } from "./_components/columns";
+import { banColumns } from "./_components/ban-columns";
+import { logColumns } from "./_components/log-columns";
+import { Moderators } from "./_components/moderators";
+
+const ACTION_LABELS = {
+  ADD_MODERATOR: "Added moderator",
+  REMOVE_MODERATOR: "Removed moderator",
+  TIMEOUT: "Timeout",
+  BAN: "Ban",
+  UNBAN: "Unban",
+  DELETE_MESSAGE: "Deleted message",
+};
 
 const CommunityPage = async () => {
-  const blockedUsers = await getBlockedUsers();
+  const self = await getSelf();
+  const [blockedUsers, moderators, bans, log] = await Promise.all([
+    getBlockedUsers(),
+    getModerators(self.id),
+    getActiveChatBans(self.id),
+    getModerationLog(self.id),
+  ]);
 
   const formattedData = blockedUsers.map((block) => ({
     ...block,
@@ -16,7 +40,39 @@ const CommunityPage = async () => {
     createdAt: format(new Date(block.blocked.createdAt), "dd/MM/yyyy"),
   }));
 
-  return ( 
+  const formattedModerators = moderators.map((moderator) => ({
+    userId: moderator.user.id,
+    username: moderator.user.username,
+    imageUrl: moderator.user.imageUrl,
+  }));
+
+  const formattedBans = bans.map((ban) => ({
+    id: ban.id,
+    userId: ban.user.id,
+    imageUrl: ban.user.imageUrl,
+    username: ban.user.username,
+    expiresAt: ban.expiresAt
+      ? format(ban.expiresAt, "dd/MM/yyyy HH:mm")
+      : "Permanent",
+    createdAt: format(ban.createdAt, "dd/MM/yyyy"),
+  }));
+
+  const formattedLog = log.map((entry) => ({
+    id: entry.id,
+    action: ACTION_LABELS[entry.type],
+    moderator: entry.moderator.username,
+    username: entry.targetUser?.username ?? "",
+    details: [
+      entry.durationMinutes ? `${entry.durationMinutes} min` : null,
+      entry.reason,
+      entry.messageContent && `"${entry.messageContent}"`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    createdAt: format(entry.createdAt, "dd/MM/yyyy HH:mm"),
+  }));
+
+  return (
     <div className="p-6">
       <div className="mb-4">
         <h1 className="text-2xl font-bold">
@@ -24,8 +80,26 @@ const CommunityPage = async () => {
         </h1>
       </div>
       <DataTable columns={columns} data={formattedData} />
+      <div className="mt-8 space-y-4">
+        <h2 className="text-xl font-bold">
+          Moderators
+        </h2>
+        <Moderators moderators={formattedModerators} />
+      </div>
+      <div className="mt-8">
+        <h2 className="text-xl font-bold">
+          Banned and timed out
+        </h2>
+        <DataTable columns={banColumns} data={formattedBans} />
+      </div>
+      <div className="mt-8">
+        <h2 className="text-xl font-bold">
+          Moderation log
+        </h2>
+        <DataTable columns={logColumns} data={formattedLog} />
+      </div>
     </div>
    );
 }
- 
-export default CommunityPage;
\ No newline at end of file
+
+export default CommunityPage;
@@ -0,0 +1,140 @@
+"use client";
+
+import Image from "next/image";
+import { toast } from "sonner";
+import { Trash } from "lucide-react";
+import { useState, useTransition } from "react";
+
+import { createCustomGift } from "@/actions/gift";
+import { GIFT_LIMITS } from "@/lib/gift-catalog";
+import { UploadDropzone } from "@/lib/uploadthing";
+import { Hint } from "@/components/hint";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+interface CustomGiftFormProps {
+  isLimitReached: boolean;
+};
+
+export const CustomGiftForm = ({ isLimitReached }: CustomGiftFormProps) => {
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState("");
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!imageUrl) {
+      toast.error("Upload an image for the gift");
+      return;
+    }
+
+    startTransition(() => {
+      createCustomGift({ name, price: Number(price), imageUrl })
+        .then(() => {
+          toast.success("Gift added");
+          setName("");
+          setPrice("");
+          setImageUrl(null);
+        })
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  if (isLimitReached) {
+    return (
+      <div className="rounded-xl bg-muted p-6 text-sm text-muted-foreground">
+        You have {GIFT_LIMITS.MAX_CUSTOM_GIFTS} custom gifts, the most a
+        channel can have. Delete one to add another.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="rounded-xl bg-muted p-6 space-y-4">
+      <p className="font-semibold">
+        Add a custom gift
+      </p>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>
+            Name
+          </Label>
+          <Input
+            disabled={isPending}
+            placeholder="Gift name"
+            maxLength={GIFT_LIMITS.MAX_NAME_LENGTH}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>
+            Price ($)
+          </Label>
+          <Input
+            type="number"
+            disabled={isPending}
+            min={GIFT_LIMITS.MIN_PRICE}
+            max={GIFT_LIMITS.MAX_PRICE}
+            step="any"
+            placeholder="10"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>
+          Image
+        </Label>
+        {imageUrl ? (
+          <div className="relative h-24 w-24 rounded-xl overflow-hidden border border-white/10">
+            <div className="absolute top-1 right-1 z-[10]">
+              <Hint label="Remove image" asChild side="left">
+                <Button
+                  type="button"
+                  disabled={isPending}
+                  onClick={() => setImageUrl(null)}
+                  className="h-auto w-auto p-1"
+                >
+                  <Trash className="h-3 w-3" />
+                </Button>
+              </Hint>
+            </div>
+            <Image
+              alt="Gift image"
+              src={imageUrl}
+              fill
+              className="object-contain"
+            />
+          </div>
+        ) : (
+          <div className="rounded-xl border outline-dashed outline-muted">
+            <UploadDropzone
+              endpoint="giftImageUploader"
+              appearance={{
+                label: {
+                  color: "#FFFFFF"
+                },
+                allowedContent: {
+                  color: "#FFFFFF"
+                }
+              }}
+              onClientUploadComplete={(res) => {
+                setImageUrl(res?.[0]?.url ?? null);
+              }}
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" variant="primary" disabled={isPending}>
+          Add gift
+        </Button>
+      </div>
+    </form>
+  );
+};
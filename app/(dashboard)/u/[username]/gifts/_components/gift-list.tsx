@@ -0,0 +1,140 @@
+"use client";
+
+import Image from "next/image";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Trash } from "lucide-react";
+import { useEffect, useState, useTransition } from "react";
+
+import { deleteCustomGift, reorderGifts, updateGift } from "@/actions/gift";
+import { GIFT_LIMITS, GiftCatalogItem } from "@/lib/gift-catalog";
+import { Hint } from "@/components/hint";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+interface GiftListProps {
+  gifts: GiftCatalogItem[];
+};
+
+export const GiftList = ({ gifts: initialGifts }: GiftListProps) => {
+  const [isPending, startTransition] = useTransition();
+  const [gifts, setGifts] = useState(initialGifts);
+
+  // Pick up gifts added or removed through revalidation
+  useEffect(() => {
+    setGifts(initialGifts);
+  }, [initialGifts]);
+
+  const onMove = (index: number, offset: -1 | 1) => {
+    const next = [...gifts];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setGifts(next);
+
+    startTransition(() => {
+      reorderGifts(next.map((gift) => gift.id))
+        .catch((error) => {
+          setGifts(gifts);
+          toast.error(error.message || "Something went wrong");
+        });
+    });
+  };
+
+  const onUpdate = (
+    giftId: string,
+    values: { price?: number; isEnabled?: boolean }
+  ) => {
+    startTransition(() => {
+      updateGift({ giftId, ...values })
+        .then(() => toast.success("Gift updated"))
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  const onDelete = (giftId: string) => {
+    startTransition(() => {
+      deleteCustomGift(giftId)
+        .then(() => toast.success("Gift deleted"))
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  return (
+    <div className="rounded-xl bg-muted divide-y divide-border">
+      {gifts.map((gift, index) => (
+        <div key={gift.id} className="flex items-center gap-x-4 p-4">
+          <div className="flex flex-col">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto p-1"
+              disabled={isPending || index === 0}
+              onClick={() => onMove(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto p-1"
+              disabled={isPending || index === gifts.length - 1}
+              onClick={() => onMove(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </div>
+          <Image
+            src={gift.imageUrl}
+            alt={gift.name}
+            width={40}
+            height={40}
+            className="object-contain"
+          />
+          <div className="flex items-center gap-x-2 grow">
+            <p className="font-semibold">
+              {gift.name}
+            </p>
+            {gift.isCustom && (
+              <Badge variant="secondary">Custom</Badge>
+            )}
+          </div>
+          <Input
+            type="number"
+            min={GIFT_LIMITS.MIN_PRICE}
+            max={GIFT_LIMITS.MAX_PRICE}
+            step="any"
+            defaultValue={gift.price}
+            disabled={isPending}
+            className="w-[100px]"
+            onBlur={(e) => {
+              const price = Number(e.target.value);
+              if (price !== gift.price) {
+                onUpdate(gift.id, { price });
+              }
+            }}
+          />
+          <Switch
+            disabled={isPending}
+            checked={gift.isEnabled}
+            onCheckedChange={(isEnabled) => onUpdate(gift.id, { isEnabled })}
+          />
+          {gift.isCustom ? (
+            <Hint label="Delete gift" asChild side="left">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-auto p-1.5"
+                disabled={isPending}
+                onClick={() => onDelete(gift.id)}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </Hint>
+          ) : (
+            <div className="w-7" />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
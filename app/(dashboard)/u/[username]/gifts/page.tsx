@@ -0,0 +1,35 @@
+import { getSelf } from "@/lib/auth-service";
+import { getStreamerGifts } from "@/lib/gift-service";
+import { GIFT_LIMITS } from "@/lib/gift-catalog";
+
+import { GiftList } from "./_components/gift-list";
+import { CustomGiftForm } from "./_components/custom-gift-form";
+
+const GiftsPage = async () => {
+  const self = await getSelf();
+  const gifts = await getStreamerGifts(self.id);
+
+  const customGiftCount = gifts.filter((gift) => gift.isCustom).length;
+
+  return (
+    <div className="p-6">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold">
+          Gifts
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Choose which gifts viewers can send you, what they cost and the order
+          they show up in.
+        </p>
+      </div>
+      <div className="space-y-4">
+        <CustomGiftForm
+          isLimitReached={customGiftCount >= GIFT_LIMITS.MAX_CUSTOM_GIFTS}
+        />
+        <GiftList gifts={gifts} />
+      </div>
+    </div>
+  );
+};
+
+export default GiftsPage;
@@ -16,189 +16,62 @@ import {
 } from "recharts";
 import dayjs from "dayjs";
 import { Button } from "@/components/ui/button";
-
-// ─── pull in token‐balance logic ─────────────────────────────────────────────
-import { useTokenBalances } from "./useTokenBalances";
+import { getEnabledTokens } from "@/config/tokens";
+import { TipLedgerPeriod, useTipLedger } from "./hook/useTipLedger";
 import { usePrices } from "./usePrices";
-// ─────────────────────────────────────────────────────────────────────────────
-import { useRecentTips } from "./hook/useRecentTips";
-import { useBalance, useCurrentUserAta } from "@/hooks/use-balance";
 
 interface DonationChartProps {
-  period: "day" | "week" | "month" | "year";
+  period: TipLedgerPeriod;
 }
 
-// Hard‐code the USDT mint address
-const USDT_MINT = "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB";
-
-// Colors for each series (SOL, USDC, USDT, Others, and Total line):
-const TOKEN_COLORS: Record<string, string> = {
-  SOL: "#9945FF",
-  USDC: "#2775CA",
-  USDT: "#26A17B",
-  Others: "#888888",
-  Total: "#9b87f5",
+// Token bars use the registry's colours; this one is for the Total line
+const TOTAL_COLOR = "#9b87f5";
+
+// Bucket labels; buckets are hours for a day, days for a week or month and
+// months for a year
+const formatBucket = (start: string, period: TipLedgerPeriod) => {
+  const t = dayjs(start);
+  if (period === "day") return t.format("H:00");
+  if (period === "week") return t.format("ddd");
+  if (period === "month") return t.format("D MMM");
+  return t.format("MMM");
 };
 
 export default function DonationChart({
   period: initialPeriod,
 }: DonationChartProps) {
-  const [period, setPeriod] = useState<"day" | "week" | "month" | "year">(
-    initialPeriod
-  );
-
-  // ─── Get current user's ATA and balance ────────────────────────────────────
-  const { data: currentUserAta, isLoading: isLoadingAta } = useCurrentUserAta();
-  const USDC_MINT = currentUserAta?.streamerAta;
-
-  const { data: balance = 0, isLoading: isLoadingBalance } = useBalance(
-    currentUserAta?.streamerAta
+  const [period, setPeriod] = useState<TipLedgerPeriod>(initialPeriod);
+
+  // Per-bucket totals come from the tip ledger, already aggregated server-side
+  const { series } = useTipLedger(period);
+  const { prices } = usePrices();
+  const tokens = getEnabledTokens();
+
+  // Bars are token amounts; the Total line is their combined USD value
+  const data = useMemo(
+    () =>
+      series.map((bucket) => ({
+        name: formatBucket(bucket.start, period),
+        ...bucket.amounts,
+        total: tokens.reduce(
+          (sum, token) =>
+            sum +
+            (bucket.amounts[token.symbol] ?? 0) * (prices[token.symbol] ?? 0),
+          0
+        ),
+      })),
+    [series, period, tokens, prices]
   );
 
-  // ─── Step 1: historical tips ───────────────────────────────────────────────
-  const { tips } = useRecentTips(100);
-
-  // ─── Step 2: on‐chain balances & prices (to replicate TipStats' "Others") ──
-  const {
-    solBalance,
-    splTokens,
-    loading: balLoading,
-    error: balError,
-  } = useTokenBalances();
-  const { prices, loading: priceLoading, error: priceError } = usePrices();
-
-  // compute on‐chain "othersUSD" exactly the same way as TipStats:
-  const onChainOthersUSD = useMemo(() => {
-    if (balLoading || priceLoading || balError || priceError) return 0;
-    // sum of every SPL token whose mint ≠ USDC_MINT and ≠ USDT_MINT:
-    return splTokens
-      .filter(({ mint }) => mint !== USDC_MINT && mint !== USDT_MINT)
-      .reduce((sum, { amount }) => sum + amount * (prices.sol ?? 0), 0);
-  }, [splTokens, prices.sol, balLoading, priceLoading, balError, priceError]);
-
-  // ─── Step 3: build historical‐tips buckets, then append a "Now" bucket ────
-  //    Data rows will look like:
-  //    { name: string, SOL: number, USDC: number, USDT: number, Others: number, total: number }
-  const data = useMemo(() => {
-    const now = dayjs();
-    const buckets: string[] = [];
-    const map: Record<
-      string,
-      { SOL: number; USDC: number; USDT: number; Others: number }
-    > = {};
-
-    const count =
-      period === "day"
-        ? 24
-        : period === "week"
-          ? 7
-          : period === "month"
-            ? 4
-            : 12;
-
-    // 3.1 Initialize each historical bucket with zeros
-    for (let i = count - 1; i >= 0; i--) {
-      const t = now.subtract(
-        i,
-        period === "day"
-          ? "hours"
-          : period === "week"
-            ? "days"
-            : period === "month"
-              ? "weeks"
-              : "months"
-      );
-
-      let key: string;
-      if (period === "day") key = t.format("H:00");
-      else if (period === "week") key = t.format("ddd");
-      else if (period === "month") key = `Week ${Math.ceil(t.date() / 7)}`;
-      else key = t.format("MMM");
-
-      buckets.push(key);
-      map[key] = { SOL: 0, USDC: 0, USDT: 0, Others: 0 };
-    }
-
-    // 3.2 Tally each tip into its bucket
-    tips.forEach((tip) => {
-      const tm = dayjs.unix(tip.timestamp);
-      let key = "";
-      if (period === "day") key = tm.format("H:00");
-      else if (period === "week") key = tm.format("ddd");
-      else if (period === "month") key = `Week ${Math.ceil(tm.date() / 7)}`;
-      else key = tm.format("MMM");
-
-      const bucket = map[key];
-      if (!bucket) return; // tip timestamp falls outside this range
-
-      // Convert tip → USD:
-      let usdValue: number;
-      if (tip.currency === "SOL") {
-        usdValue = tip.amount * 100;
-      } else if (tip.currency === "USDC" || tip.currency === "USDT") {
-        usdValue = tip.amount;
-      } else {
-        usdValue = tip.amount * 100; // any other SPL tip → Others
-      }
-
-      if (tip.currency === "SOL") {
-        bucket.SOL += usdValue;
-      } else if (tip.currency === "USDC") {
-        bucket.USDC += usdValue;
-      } else if (tip.currency === "USDT") {
-        bucket.USDT += usdValue;
-      } else {
-        bucket.Others += usdValue;
-      }
-    });
-
-    // 3.3 Build final historical rows
-    const historicalRows = buckets.map((name) => {
-      const row = {
-        name,
-        SOL: map[name].SOL,
-        USDC: map[name].USDC,
-        USDT: map[name].USDT,
-        Others: map[name].Others,
-        total:
-          map[name].SOL + map[name].USDC + map[name].USDT + map[name].Others,
-      };
-      return row;
-    });
-
-    // 3.4 Append one more row for "Now" (current on‐chain balances)
-    //     We label it e.g. "Now" or "Current" so it appears as the last column
-    const nowLabel = "Now";
-    const solUSD =
-      solBalance != null && prices.sol != null ? solBalance * prices.sol : 0;
-    const usdtUSD = splTokens
-      // find the SPL‐token entry whose mint === USDT_MINT
-      .filter(({ mint }) => mint === USDT_MINT)
-      .reduce((sum, { amount }) => sum + amount * (prices.usdt ?? 1), 0);
-    const usdcUSD = splTokens
-      .filter(({ mint }) => mint === USDC_MINT)
-      .reduce((sum, { amount }) => sum + amount * (prices.usdc ?? 1), 0);
-    // othersUSD was computed above as onChainOthersUSD
-
-    const nowRow = {
-      name: nowLabel,
-      SOL: solUSD,
-      USDC: usdcUSD,
-      USDT: usdtUSD,
-      Others: onChainOthersUSD,
-      total: solUSD + usdcUSD + usdtUSD + onChainOthersUSD,
-    };
-
-    return [...historicalRows, nowRow];
-  }, [tips, period, solBalance, splTokens, prices, onChainOthersUSD]);
-
-  // ─── Step 4: seriesConfig + render ────────────────────────────────────────
+  // ─── seriesConfig + render ─────────────────────────────────────────────────────────────────────────────────────
   const seriesConfig = {
-    SOL: { label: "SOL", color: TOKEN_COLORS.SOL },
-    USDC: { label: "USDC", color: TOKEN_COLORS.USDC },
-    USDT: { label: "USDT", color: TOKEN_COLORS.USDT },
-    Others: { label: "Others", color: TOKEN_COLORS.Others },
-    total: { label: "Total", color: TOKEN_COLORS.Total },
+    ...Object.fromEntries(
+      tokens.map((token) => [
+        token.symbol,
+        { label: token.symbol, color: token.color },
+      ])
+    ),
+    total: { label: "Total (USD)", color: TOTAL_COLOR },
   };
 
   return (
@@ -242,11 +115,15 @@ export default function DonationChart({
             />
             <Legend />
 
-            {/* SOL, USDC, USDT, Others bars
-            <Bar dataKey="SOL" fill={TOKEN_COLORS.SOL} name="SOL" /> */}
-            <Bar dataKey="USDC" fill={TOKEN_COLORS.USDC} name="USDC" />
-            {/* <Bar dataKey="USDT" fill={TOKEN_COLORS.USDT} name="USDT" />
-            <Bar dataKey="Others" fill={TOKEN_COLORS.Others} name="Others" /> */}
+            {/* One bar per registered token */}
+            {tokens.map((token) => (
+              <Bar
+                key={token.symbol}
+                dataKey={token.symbol}
+                fill={token.color}
+                name={token.symbol}
+              />
+            ))}
 
             {/* A "Total" line on top */}
             <Line
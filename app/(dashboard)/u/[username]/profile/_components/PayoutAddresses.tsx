@@ -0,0 +1,160 @@
+// components/PayoutAddresses.tsx
+"use client";
+
+import React, { useState, useTransition } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { ShieldCheck, Trash2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useUser } from "@civic/auth-web3/react";
+import { addPayoutAddress, removePayoutAddress } from "@/actions/payout-address";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  PAYOUT_ADDRESS_COOLING_OFF_HOURS,
+  REAUTH_REQUIRED_MESSAGE,
+  WITHDRAWAL_LIMITS,
+} from "@/lib/withdrawal";
+import { usePayoutSettings } from "./hook/usePayoutSettings";
+
+export default function PayoutAddresses() {
+  const queryClient = useQueryClient();
+  const userContext = useUser();
+  const { data, isLoading } = usePayoutSettings();
+  const [isPending, startTransition] = useTransition();
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+
+  const addresses = data?.addresses ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["payout-settings"] });
+  };
+
+  const onAdd = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    startTransition(() => {
+      addPayoutAddress({ address, label: label || undefined })
+        .then(() => {
+          toast.success(
+            `Address saved. You can withdraw to it in ${PAYOUT_ADDRESS_COOLING_OFF_HOURS} hours.`
+          );
+          setAddress("");
+          setLabel("");
+          refresh();
+        })
+        .catch((error) => {
+          if (error.message === REAUTH_REQUIRED_MESSAGE) {
+            toast.error(error.message, {
+              action: { label: "Sign in", onClick: () => userContext.signIn() },
+            });
+            return;
+          }
+          toast.error(error.message || "Something went wrong");
+        });
+    });
+  };
+
+  const onRemove = (payoutAddressId: string) => {
+    startTransition(() => {
+      removePayoutAddress(payoutAddressId)
+        .then(() => {
+          toast.success("Address removed");
+          refresh();
+        })
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  return (
+    <Card className="p-4 sm:p-6 bg-transparent border border-border/50 space-y-6">
+      <div>
+        <div className="text-lg sm:text-xl text-primary font-bold">
+          Payout Addresses
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Platform wallet withdrawals can only go to these addresses, starting{" "}
+          {PAYOUT_ADDRESS_COOLING_OFF_HOURS} hours after you add them.
+        </p>
+      </div>
+
+      {isLoading && <Skeleton className="h-16 w-full" />}
+      {!isLoading && addresses.length === 0 && (
+        <div className="text-center text-muted-foreground py-4">
+          <ShieldCheck className="w-10 h-10 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">Add an address to start withdrawing.</p>
+        </div>
+      )}
+      <div className="space-y-3">
+        {addresses.map((payoutAddress) => (
+          <div
+            key={payoutAddress.id}
+            className="flex items-center justify-between gap-x-4"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {payoutAddress.label || "Unnamed address"}
+              </p>
+              <p className="text-xs font-mono text-muted-foreground truncate">
+                {payoutAddress.address}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {payoutAddress.isActive
+                  ? "Ready for withdrawals"
+                  : `Usable from ${dayjs(payoutAddress.activatesAt).format("MMM D, HH:mm")}`}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isPending}
+              onClick={() => onRemove(payoutAddress.id)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {addresses.length < WITHDRAWAL_LIMITS.MAX_PAYOUT_ADDRESSES && (
+        <form
+          onSubmit={onAdd}
+          className="space-y-4 border-t border-border/50 pt-4"
+        >
+          <div className="space-y-2">
+            <Label>Solana address</Label>
+            <Input
+              disabled={isPending}
+              placeholder="Enter Solana wallet address..."
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Label (optional)</Label>
+            <Input
+              disabled={isPending}
+              placeholder="Exchange account"
+              maxLength={WITHDRAWAL_LIMITS.MAX_LABEL_LENGTH}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isPending || !address.trim()}
+            >
+              Add address
+            </Button>
+          </div>
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+// components/Payouts.tsx
+"use client";
+
+import React, { useState } from "react";
+import dayjs from "dayjs";
+import { Download, ExternalLink, Receipt } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { getExplorerUrl } from "@/config/cluster";
+import { formatTokenAmount } from "@/config/tokens";
+import { WithdrawalStatus } from "@/lib/withdrawal";
+import {
+  STATEMENT_FORMATS,
+  StatementLine,
+  formatStatementMonth,
+  getStatementMonths,
+  getStatementTotals,
+} from "@/lib/earnings-statement";
+import { useWithdrawals } from "./hook/useWithdrawals";
+import { useEarningsStatement } from "./hook/useEarningsStatement";
+
+const statusLabels: Record<WithdrawalStatus, string> = {
+  PENDING: "Pending",
+  CONFIRMED: "Confirmed",
+  FAILED: "Failed",
+};
+
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const StatementRow = ({ line }: { line: StatementLine }) => (
+  <div className="flex items-center justify-between text-sm">
+    <span className="text-muted-foreground">
+      {line.label} ({line.count})
+    </span>
+    <span>{formatTokenAmount(line.amount, line.tokenType)}</span>
+  </div>
+);
+
+export default function Payouts() {
+  const months = getStatementMonths();
+  const [month, setMonth] = useState(months[0]);
+  const { data: withdrawalData, isLoading: isLoadingWithdrawals } =
+    useWithdrawals();
+  const { data: statementData, isLoading: isLoadingStatement } =
+    useEarningsStatement(month);
+
+  const withdrawals = withdrawalData?.withdrawals ?? [];
+  const statement = statementData?.statement;
+  const totals = statement ? getStatementTotals(statement) : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+      <Card className="lg:col-span-2 p-4 sm:p-6 bg-transparent border border-border/50">
+        <div className="text-lg sm:text-xl text-primary font-bold mb-4">
+          Payout History
+        </div>
+        {isLoadingWithdrawals && <Skeleton className="h-40 w-full" />}
+        {!isLoadingWithdrawals && withdrawals.length === 0 && (
+          <div className="text-center text-muted-foreground py-8">
+            <Receipt className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">
+              Withdrawals from your platform wallet will show up here.
+            </p>
+          </div>
+        )}
+        {withdrawals.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Gas fee</TableHead>
+                <TableHead>Destination</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {withdrawals.map((withdrawal) => (
+                <TableRow key={withdrawal.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {dayjs(withdrawal.createdAt).format("MMM D, YYYY HH:mm")}
+                  </TableCell>
+                  <TableCell>
+                    {formatTokenAmount(withdrawal.amount, withdrawal.tokenType)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatTokenAmount(
+                      withdrawal.gasInUsdc,
+                      withdrawal.tokenType
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {shortenAddress(withdrawal.destinationAddress)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-x-2">
+                      <span
+                        title={withdrawal.failureReason ?? undefined}
+                        className={cn(
+                          "text-xs font-semibold uppercase",
+                          withdrawal.status === "CONFIRMED" && "text-emerald-500",
+                          withdrawal.status === "FAILED" && "text-destructive",
+                          withdrawal.status === "PENDING" &&
+                            "text-muted-foreground"
+                        )}
+                      >
+                        {statusLabels[withdrawal.status]}
+                      </span>
+                      {withdrawal.transactionHash &&
+                        withdrawal.status !== "FAILED" && (
+                          <a
+                            href={getExplorerUrl(
+                              "tx",
+                              withdrawal.transactionHash
+                            )}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <Card className="p-4 sm:p-6 bg-transparent border border-border/50 space-y-4">
+        <div className="text-lg sm:text-xl text-primary font-bold">
+          Monthly Statement
+        </div>
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map((option) => (
+              <SelectItem key={option} value={option}>
+                {formatStatementMonth(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isLoadingStatement && <Skeleton className="h-40 w-full" />}
+        {statement && totals && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Received</p>
+              {statement.tips.map((line) => (
+                <StatementRow key={line.tokenType} line={line} />
+              ))}
+              {statement.gifts.map((line) => (
+                <StatementRow
+                  key={`${line.label}:${line.tokenType}`}
+                  line={line}
+                />
+              ))}
+              <StatementRow line={statement.subscriptions} />
+            </div>
+            <div className="space-y-2 border-t border-border/50 pt-4">
+              <p className="text-sm font-medium">Paid out</p>
+              {statement.withdrawals.map((line) => (
+                <StatementRow key={line.tokenType} line={line} />
+              ))}
+              {statement.fees.map((line) => (
+                <StatementRow key={`fees:${line.tokenType}`} line={line} />
+              ))}
+              {statement.withdrawals.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No withdrawals this month
+                </p>
+              )}
+            </div>
+            <div className="space-y-1 border-t border-border/50 pt-4 font-semibold">
+              {Object.keys(totals).map((tokenType, i) => (
+                <div
+                  key={tokenType}
+                  className={cn(
+                    "flex items-center",
+                    i === 0 ? "justify-between" : "justify-end"
+                  )}
+                >
+                  {i === 0 && <span>Total received</span>}
+                  <span>{formatTokenAmount(totals[tokenType], tokenType)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {STATEMENT_FORMATS.map((format) => (
+            <Button key={format} variant="outline" className="flex-1" asChild>
+              <a
+                href={`/api/wallet/statements?month=${month}&format=${format}`}
+                download
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {format.toUpperCase()}
+              </a>
+            </Button>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+}
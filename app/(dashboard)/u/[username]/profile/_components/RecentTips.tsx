@@ -2,50 +2,28 @@
 "use client";
 
 import React from "react";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
 import { Card } from "@/components/ui/card";
-import { DollarSign } from "lucide-react";
-import { useRecentTips } from "./hook/useRecentTips";
-import { useBalance, useCurrentUserAta } from "@/hooks/use-balance";
+import { Button } from "@/components/ui/button";
+import { findToken } from "@/config/tokens";
+import { getSenderName, useTipLedger } from "./hook/useTipLedger";
 
-interface Tip {
-  id: string;
-  sender: string;
-  amount: number;
-  currency: string;
-  timeAgo: string;
-  message?: string;
-}
-
-export default function RecentTips() {
-  const { data: currentUserAta, isLoading: isLoadingAta } = useCurrentUserAta();
+dayjs.extend(relativeTime);
 
-  const { data: balance = 0, isLoading: isLoadingBalance } = useBalance(
-    currentUserAta?.streamerAta
-  );
+// token color from the registry, grey for anything since removed
+const getTokenColor = (currency: string) =>
+  findToken(currency)?.color ?? "#6b7280";
 
-  // helper to trim long addresses
-  const shorten = (addr: string) =>
-    addr.length > 8 ? `${addr.slice(0, 4)}…${addr.slice(-4)}` : addr;
-
-  // token color mapping
-  const getTokenColor = (currency: string) => {
-    switch (currency) {
-      case "SOL":
-        return "bg-yellow-500";
-      case "USDC":
-        return "bg-blue-500";
-      case "USDT":
-        return "bg-green-500";
-      default:
-        return "bg-gray-500";
-    }
-  };
+export default function RecentTips() {
+  const { entries, isLoading, error, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useTipLedger();
 
   return (
     <Card className="p-4 bg-background">
       <h2 className="text-xl font-semibold mb-4">Recent Tips</h2>
       <div className="space-y-4">
-        {isLoadingAta || isLoadingBalance ? (
+        {isLoading ? (
           // loading skeletons
           Array.from({ length: 3 }).map((_, i) => (
             <div key={i} className="flex items-start gap-3 pb-4">
@@ -57,11 +35,53 @@ export default function RecentTips() {
               <div className="h-4 bg-gray-200 rounded w-1/4 animate-pulse" />
             </div>
           ))
+        ) : entries.length > 0 ? (
+          entries.map((tip) => (
+            <div key={tip.id} className="flex items-start gap-3 pb-4 border-b last:border-0">
+              <div
+                className="h-10 w-10 rounded-full flex items-center justify-center text-white text-xs font-semibold"
+                style={{ backgroundColor: getTokenColor(tip.tokenType) }}
+              >
+                {tip.tokenType}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {getSenderName(tip.tipper, tip.senderWallet)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {dayjs(tip.createdAt).fromNow()}
+                  {tip.giftName && ` · ${tip.giftName}`}
+                </p>
+                {tip.message && (
+                  <p className="text-sm mt-1 break-words">{tip.message}</p>
+                )}
+              </div>
+              <p className="font-medium whitespace-nowrap">
+                {Number(tip.amount)} {tip.tokenType}
+              </p>
+            </div>
+          ))
         ) : (
           <p className="text-sm text-muted-foreground py-4 text-center">
             No recent tips found
           </p>
         )}
+
+        {hasNextPage && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={isFetchingNextPage}
+            onClick={() => fetchNextPage()}
+          >
+            {isFetchingNextPage ? "Loading…" : "Load more"}
+          </Button>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 mt-2">Unable to load recent tips</p>
+        )}
       </div>
     </Card>
   );
@@ -0,0 +1,237 @@
+// components/StreamSessions.tsx
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChartContainer, ChartTooltipContent } from "@/components/ui/chart";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import dayjs from "dayjs";
+import { TrendingUp } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import {
+  StreamSessionDetail,
+  formatDuration,
+  useStreamSessionDetail,
+  useStreamSessions,
+} from "./hook/useStreamSessions";
+
+// Number of points the session timeline is grouped into
+const TIMELINE_BUCKETS = 24;
+
+const seriesConfig = {
+  viewers: { label: "Viewers", color: "#9b87f5" },
+  tips: { label: "Tips", color: "#2775CA" },
+};
+
+// Group viewer samples and tips into evenly sized slices of the broadcast
+const buildTimeline = (session: StreamSessionDetail) => {
+  const start = dayjs(session.startedAt).valueOf();
+  const end = session.endedAt ? dayjs(session.endedAt).valueOf() : Date.now();
+  const bucketSize = Math.max(60 * 1000, (end - start) / TIMELINE_BUCKETS);
+  const count = Math.max(1, Math.ceil((end - start) / bucketSize));
+
+  const rows = Array.from({ length: count }, (_, i) => ({
+    name: dayjs(start + i * bucketSize).format("HH:mm"),
+    viewers: 0,
+    tips: 0,
+  }));
+
+  const bucketOf = (time: string) =>
+    Math.min(
+      count - 1,
+      Math.max(0, Math.floor((dayjs(time).valueOf() - start) / bucketSize))
+    );
+
+  // Peak concurrent viewers within each slice
+  session.samples.forEach((sample) => {
+    const row = rows[bucketOf(sample.recordedAt)];
+    row.viewers = Math.max(row.viewers, sample.viewerCount);
+  });
+
+  session.tips.forEach((tip) => {
+    rows[bucketOf(tip.createdAt)].tips += Number(tip.amount);
+  });
+
+  return rows;
+};
+
+const SessionChart = ({ sessionId }: { sessionId: string | null }) => {
+  const { data: session, isLoading } = useStreamSessionDetail(sessionId);
+  const timeline = useMemo(
+    () => (session ? buildTimeline(session) : []),
+    [session]
+  );
+
+  if (!sessionId) {
+    return (
+      <div className="h-[300px] sm:h-[350px] flex items-center justify-center bg-transparent border border-border/30 rounded-lg">
+        <div className="text-center text-muted-foreground">
+          <TrendingUp className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p className="text-2xl text-white font-bold">
+            Go live to see your stream performance
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || !session) {
+    return <Skeleton className="h-[300px] sm:h-[350px] w-full" />;
+  }
+
+  return (
+    <ChartContainer config={seriesConfig} className="h-[300px] sm:h-[350px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={timeline}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="name" />
+          <YAxis yAxisId="viewers" allowDecimals={false} width={40} />
+          <YAxis
+            yAxisId="tips"
+            orientation="right"
+            tickFormatter={(v) => `$${v.toFixed(0)}`}
+            width={50}
+          />
+          <Tooltip
+            content={(props: any) =>
+              props.active && props.payload?.length ? (
+                <ChartTooltipContent
+                  payload={props.payload}
+                  label={props.label}
+                  active
+                />
+              ) : null
+            }
+          />
+          <Legend />
+          <Bar
+            yAxisId="tips"
+            dataKey="tips"
+            fill={seriesConfig.tips.color}
+            name={seriesConfig.tips.label}
+          />
+          <Line
+            yAxisId="viewers"
+            type="monotone"
+            dataKey="viewers"
+            stroke={seriesConfig.viewers.color}
+            strokeWidth={2}
+            dot={false}
+            name={seriesConfig.viewers.label}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+};
+
+export default function StreamSessions() {
+  const { data, isLoading } = useStreamSessions();
+  const sessions = useMemo(() => data?.sessions ?? [], [data]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected =
+    sessions.find((session) => session.id === selectedId) ?? sessions[0];
+
+  return (
+    <>
+      <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+        <div className="text-lg sm:text-xl text-primary font-bold mb-4 sm:mb-6">
+          Stream Performance
+          {selected && (
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {dayjs(selected.startedAt).format("MMM D, YYYY HH:mm")}
+            </span>
+          )}
+        </div>
+        <SessionChart sessionId={selected?.id ?? null} />
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+        <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+          <div className="text-lg sm:text-xl text-primary font-bold mb-4">
+            Recent Streams
+          </div>
+          {isLoading && <Skeleton className="h-40 w-full" />}
+          {!isLoading && sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Your past streams will show up here.
+            </p>
+          )}
+          <div className="space-y-2">
+            {sessions.map((session, i) => (
+              <button
+                key={session.id}
+                onClick={() => setSelectedId(session.id)}
+                className={cn(
+                  "w-full flex justify-between items-center rounded-lg p-2 text-left hover:bg-muted/50 transition-colors",
+                  session.id === selected?.id && "bg-muted"
+                )}
+              >
+                <div>
+                  <p className="font-medium">
+                    Stream #{sessions.length - i}
+                    {!session.endedAt && (
+                      <span className="ml-2 text-xs font-semibold uppercase text-rose-500">
+                        Live
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {dayjs(session.startedAt).format("MMM D, YYYY HH:mm")}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-medium">
+                    {formatDuration(session.durationSeconds)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {session.uniqueViewers} viewers
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+          <div className="text-lg sm:text-xl text-primary font-bold mb-4">
+            Stream Highlights
+          </div>
+          {!selected ? (
+            <p className="text-sm text-muted-foreground">
+              Select a stream to see its highlights.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {[
+                ["Duration", formatDuration(selected.durationSeconds)],
+                ["Peak concurrent viewers", selected.peakViewers],
+                ["Avg. concurrent viewers", (selected.avgViewers ?? 0).toFixed(1)],
+                ["Unique viewers", selected.uniqueViewers],
+                ["Chat messages", selected.chatMessageCount],
+                ["Tips", `$${Number(selected.tipsTotal).toFixed(2)}`],
+              ].map(([label, value]) => (
+                <div key={label} className="flex justify-between items-center">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="font-medium">{value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,233 @@
+// components/TipGoals.tsx
+"use client";
+
+import React, { useState, useTransition } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Target } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { createTipGoal, endTipGoal } from "@/actions/tip-goal";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import {
+  TIP_GOAL_LIMITS,
+  TipGoalProgress,
+  TipGoalStatus,
+  getTipGoalPercent,
+} from "@/lib/tip-goal";
+import { useTipGoals } from "./hook/useTipGoals";
+
+const statusLabels: Record<TipGoalStatus, string> = {
+  ACTIVE: "Active",
+  REACHED: "Reached",
+  EXPIRED: "Expired",
+  CANCELLED: "Cancelled",
+};
+
+const GoalProgress = ({ goal }: { goal: TipGoalProgress }) => (
+  <div className="space-y-1">
+    <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+      <div
+        className={cn(
+          "h-full rounded-full",
+          goal.status === "REACHED" ? "bg-emerald-500" : "bg-primary"
+        )}
+        style={{ width: `${getTipGoalPercent(goal)}%` }}
+      />
+    </div>
+    <p className="text-sm text-muted-foreground">
+      ${goal.raisedAmount.toFixed(2)} of ${goal.targetAmount.toFixed(2)}
+      ({getTipGoalPercent(goal)}%)
+    </p>
+  </div>
+);
+
+export default function TipGoals() {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useTipGoals();
+  const [isPending, startTransition] = useTransition();
+  const [title, setTitle] = useState("");
+  const [targetAmount, setTargetAmount] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [isForCurrentStream, setIsForCurrentStream] = useState(false);
+
+  const goals = data?.goals ?? [];
+  const current = goals.find((goal) => !goal.endedAt);
+  const history = goals.filter((goal) => goal.endedAt);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["tip-goals"] });
+  };
+
+  const onCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    startTransition(() => {
+      createTipGoal({
+        title,
+        targetAmount: Number(targetAmount),
+        deadline: deadline ? new Date(deadline).toISOString() : undefined,
+        isForCurrentStream,
+      })
+        .then(() => {
+          toast.success("Goal started");
+          setTitle("");
+          setTargetAmount("");
+          setDeadline("");
+          setIsForCurrentStream(false);
+          refresh();
+        })
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  const onEnd = () => {
+    startTransition(() => {
+      endTipGoal()
+        .then(() => {
+          toast.success("Goal ended");
+          refresh();
+        })
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <Card className="p-4 sm:p-6 bg-transparent border border-border/50 space-y-6">
+        <div className="text-lg sm:text-xl text-primary font-bold">
+          Current Goal
+        </div>
+        {isLoading && <Skeleton className="h-16 w-full" />}
+        {!isLoading && !current && (
+          <p className="text-sm text-muted-foreground">
+            You have no goal running. Viewers see your goal above your stream.
+          </p>
+        )}
+        {current && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-x-4">
+              <p className="font-medium truncate">{current.title}</p>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isPending}
+                onClick={onEnd}
+              >
+                End goal
+              </Button>
+            </div>
+            <GoalProgress goal={current} />
+            {current.deadline && (
+              <p className="text-xs text-muted-foreground">
+                Ends {dayjs(current.deadline).format("MMM D, YYYY HH:mm")}
+              </p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={onCreate} className="space-y-4 border-t border-border/50 pt-4">
+          <p className="font-medium">
+            {current ? "Replace with a new goal" : "Start a goal"}
+          </p>
+          <div className="space-y-2">
+            <Label>Title</Label>
+            <Input
+              disabled={isPending}
+              placeholder="New microphone"
+              maxLength={TIP_GOAL_LIMITS.MAX_TITLE_LENGTH}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Target (USD)</Label>
+              <Input
+                type="number"
+                disabled={isPending}
+                min={TIP_GOAL_LIMITS.MIN_TARGET}
+                max={TIP_GOAL_LIMITS.MAX_TARGET}
+                step="any"
+                placeholder="100"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Deadline (optional)</Label>
+              <Input
+                type="datetime-local"
+                disabled={isPending}
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-x-4">
+            <div>
+              <p className="text-sm font-medium">This stream only</p>
+              <p className="text-xs text-muted-foreground">
+                Count tips from your current broadcast and end the goal with it
+              </p>
+            </div>
+            <Switch
+              disabled={isPending}
+              checked={isForCurrentStream}
+              onCheckedChange={setIsForCurrentStream}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" variant="primary" disabled={isPending}>
+              Start goal
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+        <div className="text-lg sm:text-xl text-primary font-bold mb-4">
+          Goal History
+        </div>
+        {isLoading && <Skeleton className="h-40 w-full" />}
+        {!isLoading && history.length === 0 && (
+          <div className="text-center text-muted-foreground py-8">
+            <Target className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Your finished goals will show up here.</p>
+          </div>
+        )}
+        <div className="space-y-4">
+          {history.map((goal) => (
+            <div key={goal.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-x-4">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{goal.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {dayjs(goal.createdAt).format("MMM D, YYYY")}
+                    {goal.streamSessionId && " · Single stream"}
+                  </p>
+                </div>
+                <span
+                  className={cn(
+                    "text-xs font-semibold uppercase",
+                    goal.status === "REACHED"
+                      ? "text-emerald-500"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  {statusLabels[goal.status]}
+                </span>
+              </div>
+              <GoalProgress goal={goal} />
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+}
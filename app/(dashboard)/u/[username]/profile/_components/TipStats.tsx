@@ -1,17 +1,13 @@
 "use client";
 
-import React, { useMemo, useEffect } from "react";
+import React from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { DollarSign } from "lucide-react";
 import { formatBalance } from "@/utils/string";
-import { useBalance, useCurrentUserAta } from "@/hooks/use-balance";
+import { useTipLedger } from "./hook/useTipLedger";
 
 export default function TipStats() {
-  const { data: currentUserAta, isLoading: isLoadingAta } = useCurrentUserAta();
-
-  const { data: balance = 0, isLoading: isLoadingBalance } = useBalance(
-    currentUserAta?.streamerAta
-  );
+  const { summary, isLoading, error } = useTipLedger();
 
   return (
     <Card className="overflow-hidden bg-background">
@@ -30,7 +26,7 @@ export default function TipStats() {
             <div>
               <p className="text-2xl font-bold text-white">
                 {" "}
-                ${formatBalance(balance)}
+                ${formatBalance(summary?.totalUsdc ?? 0)}
               </p>
             </div>
           </div>
@@ -38,17 +34,26 @@ export default function TipStats() {
           {/* Right: breakdown */}
           <div className="text-right text-xs text-white space-y-1">
             <div>
-              USDC:{" "}
+              Tips:{" "}
               <span className="text-white font-medium">
-                ${formatBalance(balance)}
+                {summary?.tipCount ?? 0}
+              </span>
+            </div>
+            <div>
+              Average:{" "}
+              <span className="text-white font-medium">
+                ${formatBalance(summary?.averageUsdc ?? 0)}
               </span>
             </div>
           </div>
         </div>
 
         {/* show any errors inline */}
-        {(isLoadingAta || isLoadingBalance) && (
-          <p className="mt-2 text-sm text-red-600">Loading…</p>
+        {isLoading && (
+          <p className="mt-2 text-sm text-muted-foreground">Loading…</p>
+        )}
+        {error && (
+          <p className="mt-2 text-sm text-red-600">Unable to load tip stats</p>
         )}
       </CardContent>
     </Card>
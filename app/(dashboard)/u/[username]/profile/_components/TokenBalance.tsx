@@ -17,6 +17,40 @@ import { formatBalance } from "@/utils/string";
 // } from "@solana/web3.js";
 // import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
 import { useBalance, useCurrentUserAta } from "@/hooks/use-balance";
+import Image from "next/image";
+import {
+  DEFAULT_TOKEN,
+  formatTokenAmount,
+  getSplTokens,
+  TokenConfig,
+} from "@/config/tokens";
+
+// Platform wallet balance of a token other than the default one
+const OtherTokenBalance = ({ token }: { token: TokenConfig }) => {
+  const { data: currentUserAta } = useCurrentUserAta({
+    tokenType: token.symbol,
+  });
+  const { data: balance = 0, isLoading } = useBalance(
+    currentUserAta?.streamerAta,
+    { tokenType: token.symbol }
+  );
+
+  return (
+    <div className="flex justify-between items-center text-sm">
+      <span className="flex items-center gap-2 text-muted-foreground">
+        <Image src={token.icon} alt={token.symbol} width={16} height={16} />
+        {token.name}
+      </span>
+      {isLoading ? (
+        <Skeleton className="w-16 h-4" />
+      ) : (
+        <span className="font-medium">
+          {formatTokenAmount(balance, token.symbol)}
+        </span>
+      )}
+    </div>
+  );
+};
 
 export default function TokenBalance() {
   const { data: currentUserAta, isLoading: isLoadingAta } = useCurrentUserAta();
@@ -103,6 +137,13 @@ export default function TokenBalance() {
                 <span>Withdraw</span>
               </Button>
             </div>
+            <div className="space-y-2">
+              {getSplTokens()
+                .filter((token) => token.symbol !== DEFAULT_TOKEN)
+                .map((token) => (
+                  <OtherTokenBalance key={token.symbol} token={token} />
+                ))}
+            </div>
           </>
         )}
       </CardContent>
@@ -3,17 +3,15 @@
 
 import React from "react";
 import { Card } from "@/components/ui/card";
-import { useTopDonations } from "./hook/useTopDonors";
+import { findToken } from "@/config/tokens";
+import { getSenderName, useTipLedger } from "./hook/useTipLedger";
 
 export default function TopDonations() {
-  const { top, loading, error } = useTopDonations(5, 100);
-
-  const shorten = (addr: string) =>
-    addr.length > 8 ? `${addr.slice(0, 4)}…${addr.slice(-4)}` : addr;
+  const { topDonors: top, isLoading: loading, error } = useTipLedger();
 
   // Format amount with appropriate decimal places
   const formatAmount = (amount: number, currency: string) => {
-    if (currency === 'SOL') {
+    if (findToken(currency)?.isNative) {
       return amount >= 1 ? amount.toFixed(2) : amount.toFixed(4);
     }
     // For tokens, show more decimal places
@@ -52,21 +50,18 @@ export default function TopDonations() {
                   {i + 1}
                 </div>
                 <div>
-                  <p className="font-medium">{shorten(donor.id)}</p>
+                  <p className="font-medium">
+                    {getSenderName(donor.user, donor.wallet)}
+                  </p>
                   <p className="text-xs text-muted-foreground">
-                    {donor.count} donation{donor.count > 1 ? 's' : ''}
+                    {donor.tipCount} donation{donor.tipCount > 1 ? 's' : ''}
                   </p>
                 </div>
               </div>
               <div className="text-right">
                 <div className="font-medium">
-                  {formatAmount(donor.totalAmount, donor.currency)} {donor.currency}
+                  {formatAmount(donor.totalAmount, donor.tokenType)} {donor.tokenType}
                 </div>
-                {donor.currency !== 'SOL' && (
-                  <p className="text-xs text-muted-foreground">
-                    {donor.currency}
-                  </p>
-                )}
               </div>
             </div>
           ))
@@ -79,7 +74,7 @@ export default function TopDonations() {
 
         {error && (
           <p className="text-sm text-red-600 mt-2">
-            {error}
+            Unable to load top donors
           </p>
         )}
       </div>
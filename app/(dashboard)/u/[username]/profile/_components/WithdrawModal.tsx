@@ -9,14 +9,16 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { userHasWallet } from "@civic/auth-web3";
 import { useUser, useWallet } from "@civic/auth-web3/react";
-import {
-  Connection,
-  PublicKey,
-  clusterApiUrl,
-  LAMPORTS_PER_SOL,
-} from "@solana/web3.js";
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID } from "@solana/spl-token";
 import { Wallet, ArrowDownCircle } from "lucide-react";
 import { usePrices } from "./usePrices";
@@ -24,11 +26,17 @@ import { withdraw } from "./withdrawalService";
 import { getProgram } from "@/utils/program";
 // import { Wallet as WalletType } from "@coral-xyz/anchor";
 import { toast } from "sonner";
-import { supportedTokens } from "@/config/wallet";
-
-// USDC Token mint (6 decimals)
-const USDC_MINT = new PublicKey(supportedTokens.contractAddress);
-const USDC_DECIMALS = 6;
+import { useQueryClient } from "@tanstack/react-query";
+import { CLUSTER } from "@/config/cluster";
+import {
+  DEFAULT_TOKEN,
+  getSplTokens,
+  getToken,
+  getTokenMint,
+  TokenType,
+} from "@/config/tokens";
+import { REAUTH_REQUIRED_MESSAGE, WITHDRAWAL_LIMITS } from "@/lib/withdrawal";
+import { usePayoutSettings } from "./hook/usePayoutSettings";
 
 interface WalletBalance {
   address: string;
@@ -43,17 +51,30 @@ interface WithdrawModalProps {
 }
 
 export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
+  const queryClient = useQueryClient();
   const userContext = useUser();
   const { wallet, address: solAddress } = useWallet({ type: "solana" });
   const hasWallet = userHasWallet(userContext);
   const userAddress = hasWallet ? userContext.solana.address : "";
   const { prices } = usePrices();
+  const [selectedToken, setSelectedToken] = useState<TokenType>(DEFAULT_TOKEN);
+  const token = getToken(selectedToken);
+  const tokenPrice = prices[selectedToken];
+  const { data: payoutSettings } = usePayoutSettings(open);
+  const activeAddresses = (payoutSettings?.addresses ?? []).filter(
+    (payoutAddress) => payoutAddress.isActive
+  );
+  // Payouts can't exceed what's left of the daily or weekly limit (in USD)
+  const limitRemaining = Math.max(
+    0,
+    Math.min(
+      WITHDRAWAL_LIMITS.DAILY - (payoutSettings?.usage.daily ?? 0),
+      WITHDRAWAL_LIMITS.WEEKLY - (payoutSettings?.usage.weekly ?? 0)
+    )
+  );
 
   // Network and connection
-  const network =
-    process.env.NEXT_PUBLIC_USE_MAINNET === "true" ? "mainnet-beta" : "devnet";
-  const endpoint = useMemo(() => clusterApiUrl(network), [network]);
-  const connection = useMemo(() => new Connection(endpoint), [endpoint]);
+  const connection = useMemo(() => new Connection(CLUSTER.rpcUrl), []);
 
   // State
   const [walletBalances, setWalletBalances] = useState<WalletBalance[]>([]);
@@ -103,11 +124,12 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
 
       try {
         const userPubkey = new PublicKey(userAddress);
+        const tokenMint = getTokenMint(getToken(selectedToken));
 
-        // Check normal wallet USDC balance
+        // Check normal wallet balance
         try {
           const userATA = await getAssociatedTokenAddress(
-            USDC_MINT,
+            tokenMint,
             userPubkey
           );
 
@@ -132,14 +154,14 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
             }
           }
         } catch (err) {
-          console.log("No normal wallet USDC balance found");
+          console.log(`No normal wallet ${selectedToken} balance found`);
         }
 
-        // Check platform wallet USDC balance
+        // Check platform wallet balance
         if (platformWalletPDA) {
           try {
             const platformATA = await getAssociatedTokenAddress(
-              USDC_MINT,
+              tokenMint,
               platformWalletPDA,
               true // allowOwnerOffCurve for PDA
             );
@@ -165,15 +187,13 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
               }
             }
           } catch (err) {
-            console.log("No platform wallet USDC balance found");
+            console.log(`No platform wallet ${selectedToken} balance found`);
           }
         }
 
         if (!cancelled) {
           setWalletBalances(balances);
-          if (balances.length === 1) {
-            setSelectedWallet(balances[0]);
-          }
+          setSelectedWallet(balances.length === 1 ? balances[0] : null);
         }
       } catch (err: any) {
         console.error("Error fetching balances:", err);
@@ -191,30 +211,47 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
     return () => {
       cancelled = true;
     };
-  }, [open, hasWallet, userAddress, platformWalletPDA, connection]);
+  }, [
+    open,
+    hasWallet,
+    userAddress,
+    platformWalletPDA,
+    connection,
+    selectedToken,
+  ]);
 
   // Calculate gas fee for platform withdrawals
   useEffect(() => {
-    if (selectedWallet?.type === "platform" && withdrawAmount && prices.sol) {
+    if (
+      selectedWallet?.type === "platform" &&
+      withdrawAmount &&
+      prices.SOL &&
+      tokenPrice
+    ) {
       // Estimate gas fee (this is a simplified calculation)
       // In production, you'd want to simulate the transaction to get accurate fees
       const estimatedLamports = 10000; // Rough estimate for a typical transaction
       const solAmount = estimatedLamports / LAMPORTS_PER_SOL;
-      const usdcAmount = (solAmount * prices.sol!) / (prices.usdc || 1);
-      setGasFee(usdcAmount);
+      setGasFee((solAmount * prices.SOL) / tokenPrice);
     } else {
       setGasFee(0);
     }
-  }, [selectedWallet?.type, withdrawAmount, prices.sol, prices.usdc]);
+  }, [selectedWallet?.type, withdrawAmount, prices.SOL, tokenPrice]);
 
   const maxWithdrawable = useMemo(() => {
     if (!selectedWallet) return 0;
     if (selectedWallet.type === "platform") {
       // For platform wallet, subtract estimated gas fee
-      return Math.max(0, selectedWallet.balance - gasFee);
+      return Math.max(
+        0,
+        Math.min(
+          selectedWallet.balance - gasFee,
+          tokenPrice ? limitRemaining / tokenPrice : 0
+        )
+      );
     }
     return selectedWallet.balance;
-  }, [selectedWallet, gasFee]);
+  }, [selectedWallet, gasFee, limitRemaining, tokenPrice]);
 
   const validation = useMemo(() => {
     const amount = parseFloat(withdrawAmount);
@@ -265,6 +302,7 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
     try {
       let withdrawalParams: any = {
         amount: parseFloat(withdrawAmount),
+        tokenType: selectedToken,
         destinationAddress: destinationAddress.trim(),
         walletType: selectedWallet.type,
         userAddress,
@@ -279,7 +317,7 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
         setOpen(false);
 
         try {
-          const solPrice = prices.sol || 100; // Fallback to $100 if price not available
+          const solPrice = prices.SOL || 100; // Fallback to $100 if price not available
           const signature = await withdraw(withdrawalParams, solPrice);
 
           console.log("Withdrawal successful:", signature);
@@ -292,6 +330,9 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
           setError(err.message || "Withdrawal failed");
           // Reopen modal to show error
           setOpen(true);
+        } finally {
+          queryClient.invalidateQueries({ queryKey: ["withdrawals"] });
+          queryClient.invalidateQueries({ queryKey: ["payout-settings"] });
         }
       } else {
         // For normal wallet withdrawals, use Civic wallet for signing
@@ -308,7 +349,7 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
         setOpen(false);
 
         try {
-          const solPrice = prices.sol || 100; // Fallback to $100 if price not available
+          const solPrice = prices.SOL || 100; // Fallback to $100 if price not available
           const signature = await withdraw(withdrawalParams, solPrice);
 
           console.log("Withdrawal successful:", signature);
@@ -337,14 +378,26 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
     destinationAddress,
     userAddress,
     connection,
-    prices.sol,
+    prices.SOL,
+    selectedToken,
     hasWallet,
     // @ts-ignore
     userContext.solana,
     wallet,
     setOpen,
+    queryClient,
   ]);
 
+  // Payouts need a recent sign-in; a fresh one lets the user retry
+  const handleReauth = async () => {
+    try {
+      await userContext.signIn();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Sign in failed");
+    }
+  };
+
   const handleClose = () => {
     setOpen(false);
     setSelectedWallet(null);
@@ -359,9 +412,33 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
       <DialogContent className="max-w-md">
         <div className="py-4 px-2 space-y-6">
           <h1 className="text-center text-2xl font-bold font-sans">
-            Withdraw USDC
+            Withdraw {selectedToken}
           </h1>
 
+          {getSplTokens().length > 1 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Token</label>
+              <Select
+                value={selectedToken}
+                onValueChange={(value) => {
+                  setSelectedToken(value);
+                  setWithdrawAmount("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getSplTokens().map((splToken) => (
+                    <SelectItem key={splToken.symbol} value={splToken.symbol}>
+                      {splToken.name} ({splToken.symbol})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {loading ? (
             <div className="text-center py-8">
               <p className="text-muted-foreground">
@@ -370,7 +447,9 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
             </div>
           ) : walletBalances.length === 0 ? (
             <div className="text-center py-8">
-              <p className="text-muted-foreground">No USDC balances found</p>
+              <p className="text-muted-foreground">
+                No {selectedToken} balances found
+              </p>
             </div>
           ) : (
             <>
@@ -401,9 +480,11 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
                       </div>
                       <div className="text-right">
                         <p className="font-semibold">
-                          ${wallet.balance.toFixed(6)}
+                          {wallet.balance.toFixed(token.decimals)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {selectedToken}
                         </p>
-                        <p className="text-xs text-muted-foreground">USDC</p>
                       </div>
                     </div>
                   </div>
@@ -414,15 +495,17 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
                 <>
                   {/* Amount Input */}
                   <div className="space-y-2">
-                    <label className="text-sm font-medium">Amount (USDC)</label>
+                    <label className="text-sm font-medium">
+                      Amount ({selectedToken})
+                    </label>
                     <div className="relative">
                       <Input
                         type="number"
-                        step="0.000001"
+                        step={Math.pow(10, -token.decimals)}
                         max={maxWithdrawable}
                         value={withdrawAmount}
                         onChange={(e) => setWithdrawAmount(e.target.value)}
-                        placeholder="0.000000"
+                        placeholder={(0).toFixed(token.decimals)}
                         className="pr-16"
                       />
                       <Button
@@ -438,14 +521,23 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
                       </Button>
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      Available: ${maxWithdrawable.toFixed(6)} USDC
+                      Available: {maxWithdrawable.toFixed(token.decimals)}{" "}
+                      {selectedToken}
                       {selectedWallet.type === "platform" && gasFee > 0 && (
                         <span className="text-orange-600">
                           {" "}
-                          (Gas fee: ~${gasFee.toFixed(6)} USDC)
+                          (Gas fee: ~{gasFee.toFixed(token.decimals)}{" "}
+                          {selectedToken})
                         </span>
                       )}
                     </p>
+                    {selectedWallet.type === "platform" && (
+                      <p className="text-xs text-muted-foreground">
+                        ${limitRemaining.toFixed(2)} left of your $
+                        {WITHDRAWAL_LIMITS.DAILY} daily and $
+                        {WITHDRAWAL_LIMITS.WEEKLY} weekly limits
+                      </p>
+                    )}
                   </div>
 
                   {/* Destination Address */}
@@ -453,12 +545,42 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
                     <label className="text-sm font-medium">
                       Destination Address
                     </label>
-                    <Input
-                      type="text"
-                      value={destinationAddress}
-                      onChange={(e) => setDestinationAddress(e.target.value)}
-                      placeholder="Enter Solana wallet address..."
-                    />
+                    {selectedWallet.type === "platform" ? (
+                      activeAddresses.length > 0 ? (
+                        <Select
+                          value={destinationAddress}
+                          onValueChange={setDestinationAddress}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a payout address" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeAddresses.map((payoutAddress) => (
+                              <SelectItem
+                                key={payoutAddress.id}
+                                value={payoutAddress.address}
+                              >
+                                {payoutAddress.label
+                                  ? `${payoutAddress.label} (${payoutAddress.address.slice(0, 4)}...${payoutAddress.address.slice(-4)})`
+                                  : payoutAddress.address}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          Add a payout address in the Payouts tab first. New
+                          addresses can be used after a cooling-off period.
+                        </p>
+                      )
+                    ) : (
+                      <Input
+                        type="text"
+                        value={destinationAddress}
+                        onChange={(e) => setDestinationAddress(e.target.value)}
+                        placeholder="Enter Solana wallet address..."
+                      />
+                    )}
                   </div>
 
                   {/* Withdrawal Info */}
@@ -466,7 +588,8 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
                     <div className="p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
                       <p className="text-sm text-blue-800 dark:text-blue-200">
                         <strong>Platform Wallet:</strong> Gas fees will be
-                        sponsored and deducted from your USDC balance.
+                        sponsored and deducted from your {selectedToken}{" "}
+                        balance.
                       </p>
                     </div>
                   ) : (
@@ -481,10 +604,20 @@ export default function WithdrawModal({ open, setOpen }: WithdrawModalProps) {
               )}
 
               {error && (
-                <div className="p-3 bg-red-50 dark:bg-red-950/20 rounded-lg border border-red-200 dark:border-red-800">
+                <div className="p-3 bg-red-50 dark:bg-red-950/20 rounded-lg border border-red-200 dark:border-red-800 space-y-2">
                   <p className="text-sm text-red-800 dark:text-red-200">
                     {error}
                   </p>
+                  {error === REAUTH_REQUIRED_MESSAGE && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={handleReauth}
+                    >
+                      Sign in again
+                    </Button>
+                  )}
                 </div>
               )}
             </>
@@ -0,0 +1,80 @@
+// components/WithdrawalAuditLog.tsx
+"use client";
+
+import React from "react";
+import dayjs from "dayjs";
+import { ScrollText } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { WithdrawalAuditEventType } from "@/lib/withdrawal";
+import { usePayoutSettings } from "./hook/usePayoutSettings";
+
+const eventLabels: Record<WithdrawalAuditEventType, string> = {
+  ADDRESS_ADDED: "Payout address added",
+  ADDRESS_REMOVED: "Payout address removed",
+  WITHDRAWAL_REQUESTED: "Withdrawal requested",
+  WITHDRAWAL_BLOCKED: "Withdrawal blocked",
+  WITHDRAWAL_COMPLETED: "Withdrawal completed",
+  WITHDRAWAL_FAILED: "Withdrawal failed",
+  SUSPICIOUS_ACTIVITY: "Suspicious activity",
+};
+
+const warningEvents: WithdrawalAuditEventType[] = [
+  "WITHDRAWAL_BLOCKED",
+  "WITHDRAWAL_FAILED",
+  "SUSPICIOUS_ACTIVITY",
+];
+
+export default function WithdrawalAuditLog() {
+  const { data, isLoading } = usePayoutSettings();
+
+  const events = data?.events ?? [];
+
+  return (
+    <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
+      <div className="text-lg sm:text-xl text-primary font-bold mb-4">
+        Security Log
+      </div>
+      {isLoading && <Skeleton className="h-40 w-full" />}
+      {!isLoading && events.length === 0 && (
+        <div className="text-center text-muted-foreground py-8">
+          <ScrollText className="w-10 h-10 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">
+            Changes to your payout addresses and withdrawals show up here.
+          </p>
+        </div>
+      )}
+      <div className="space-y-3 max-h-[400px] overflow-y-auto">
+        {events.map((event) => (
+          <div key={event.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-x-4">
+              <p
+                className={cn(
+                  "text-sm font-medium",
+                  warningEvents.includes(event.type) && "text-destructive"
+                )}
+              >
+                {eventLabels[event.type]}
+                {event.amount !== null && ` · $${event.amount.toFixed(2)}`}
+              </p>
+              <p className="text-xs text-muted-foreground whitespace-nowrap">
+                {dayjs(event.createdAt).format("MMM D, HH:mm")}
+              </p>
+            </div>
+            {event.detail && (
+              <p className="text-xs text-muted-foreground">{event.detail}</p>
+            )}
+            {(event.address || event.ipAddress) && (
+              <p className="text-xs font-mono text-muted-foreground truncate">
+                {[event.address, event.ipAddress && `IP ${event.ipAddress}`]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,21 @@
+// app/(dashboard)/u/[username]/profile/_components/hook/useEarningsStatement.ts
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import type { EarningsStatement } from "@/lib/earnings-statement";
+
+export function useEarningsStatement(month: string) {
+  return useQuery<{ statement: EarningsStatement }>({
+    queryKey: ["earnings-statement", month],
+    queryFn: async () => {
+      const response = await fetch(`/api/wallet/statements?month=${month}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch statement");
+      }
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
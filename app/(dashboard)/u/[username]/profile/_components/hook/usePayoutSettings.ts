@@ -0,0 +1,30 @@
+// app/(dashboard)/u/[username]/profile/_components/hook/usePayoutSettings.ts
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import type {
+  PayoutAddressData,
+  WithdrawalAuditEventData,
+  WithdrawalUsage,
+} from "@/lib/withdrawal";
+
+export function usePayoutSettings(enabled = true) {
+  return useQuery<{
+    addresses: PayoutAddressData[];
+    usage: WithdrawalUsage;
+    events: WithdrawalAuditEventData[];
+  }>({
+    queryKey: ["payout-settings"],
+    queryFn: async () => {
+      const response = await fetch("/api/wallet/payout-settings");
+      if (!response.ok) {
+        throw new Error("Failed to fetch payout settings");
+      }
+      return response.json();
+    },
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
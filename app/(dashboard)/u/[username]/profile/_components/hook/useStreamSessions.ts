@@ -0,0 +1,79 @@
+// app/(dashboard)/u/[username]/profile/_components/hook/useStreamSessions.ts
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import type { TokenType } from "@/config/tokens";
+
+export interface StreamSession {
+  id: string;
+  streamType: "INGRESS" | "BROWSER";
+  startedAt: string;
+  endedAt: string | null;
+  durationSeconds: number | null;
+  peakViewers: number;
+  avgViewers: number | null;
+  uniqueViewers: number;
+  chatMessageCount: number;
+  tipsTotal: string;
+}
+
+export interface StreamSessionSummary {
+  sessionCount: number;
+  totalViewers: number;
+  totalStreamSeconds: number;
+  avgViewers: number;
+  avgTips: number;
+  lastSession: StreamSession | null;
+}
+
+export interface StreamSessionDetail extends StreamSession {
+  samples: { viewerCount: number; recordedAt: string }[];
+  tips: {
+    id: string;
+    amount: string;
+    tokenType: TokenType;
+    createdAt: string;
+    tipper: { username: string } | null;
+  }[];
+}
+
+export function useStreamSessions() {
+  return useQuery<{ sessions: StreamSession[]; summary: StreamSessionSummary }>({
+    queryKey: ["stream-sessions"],
+    queryFn: async () => {
+      const response = await fetch("/api/stream-sessions");
+      if (!response.ok) {
+        throw new Error("Failed to fetch stream sessions");
+      }
+      return response.json();
+    },
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useStreamSessionDetail(sessionId: string | null) {
+  return useQuery<StreamSessionDetail>({
+    queryKey: ["stream-sessions", sessionId],
+    queryFn: async () => {
+      const response = await fetch(`/api/stream-sessions/${sessionId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch stream session");
+      }
+      return response.json();
+    },
+    enabled: !!sessionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export const formatDuration = (seconds: number | null) => {
+  if (!seconds) return "0m";
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
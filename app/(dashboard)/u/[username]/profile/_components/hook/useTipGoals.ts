@@ -0,0 +1,21 @@
+// app/(dashboard)/u/[username]/profile/_components/hook/useTipGoals.ts
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import type { TipGoalProgress } from "@/lib/tip-goal";
+
+export function useTipGoals() {
+  return useQuery<{ goals: TipGoalProgress[] }>({
+    queryKey: ["tip-goals"],
+    queryFn: async () => {
+      const response = await fetch("/api/tip-goals");
+      if (!response.ok) {
+        throw new Error("Failed to fetch goals");
+      }
+      return response.json();
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -0,0 +1,97 @@
+// app/(dashboard)/u/[username]/profile/_components/hook/useTipLedger.ts
+"use client";
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import type { TokenType } from "@/config/tokens";
+
+export type TipLedgerPeriod = "day" | "week" | "month" | "year";
+
+export interface TipLedgerEntry {
+  id: string;
+  amount: string;
+  tokenType: TokenType;
+  giftName: string | null;
+  message: string | null;
+  senderWallet: string | null;
+  transactionHash: string | null;
+  createdAt: string;
+  tipper: { id: string; username: string; imageUrl: string } | null;
+}
+
+export interface TipLedgerSummary {
+  tipCount: number;
+  totalUsdc: number;
+  averageUsdc: number;
+  topToken: TokenType;
+  tokens: { tokenType: TokenType; totalAmount: number; tipCount: number }[];
+}
+
+export interface TopDonor {
+  id: string;
+  user: { id: string; username: string; imageUrl: string } | null;
+  wallet: string | null;
+  tokenType: TokenType;
+  totalAmount: number;
+  tipCount: number;
+  lastTipAt: string | null;
+}
+
+export interface TipSeriesBucket {
+  start: string;
+  amounts: Record<TokenType, number>;
+}
+
+export interface TipLedgerPage {
+  entries: TipLedgerEntry[];
+  nextCursor: string | null;
+  period: TipLedgerPeriod;
+  summary: TipLedgerSummary;
+  topDonors: TopDonor[];
+  series: TipSeriesBucket[];
+}
+
+/**
+ * The streamer's tip ledger from the database. Every profile widget reads
+ * this, so pages for the same period share one cache entry.
+ */
+export function useTipLedger(period: TipLedgerPeriod = "month", limit = 10) {
+  const query = useInfiniteQuery<TipLedgerPage>({
+    queryKey: ["tip-ledger", period, limit],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ period, limit: String(limit) });
+      if (pageParam) params.set("cursor", pageParam as string);
+
+      const response = await fetch(`/api/tips/ledger?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch tip ledger");
+      }
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Aggregates are the same on every page; the first page is the freshest
+  const [firstPage] = query.data?.pages ?? [];
+
+  return {
+    ...query,
+    entries: query.data?.pages.flatMap((page) => page.entries) ?? [],
+    summary: firstPage?.summary,
+    topDonors: firstPage?.topDonors ?? [],
+    series: firstPage?.series ?? [],
+  };
+}
+
+// Unknown senders are shown by a shortened wallet address
+export const getSenderName = (
+  tipper: { username: string } | null,
+  wallet: string | null
+) => {
+  if (tipper) return tipper.username;
+  if (!wallet) return "Anonymous";
+  return wallet.length > 8 ? `${wallet.slice(0, 4)}…${wallet.slice(-4)}` : wallet;
+};
@@ -0,0 +1,21 @@
+// app/(dashboard)/u/[username]/profile/_components/hook/useWithdrawals.ts
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import type { WithdrawalData } from "@/lib/withdrawal";
+
+export function useWithdrawals() {
+  return useQuery<{ withdrawals: WithdrawalData[] }>({
+    queryKey: ["withdrawals"],
+    queryFn: async () => {
+      const response = await fetch("/api/wallet/withdrawals");
+      if (!response.ok) {
+        throw new Error("Failed to fetch withdrawals");
+      }
+      return response.json();
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -1,14 +1,12 @@
 // hooks/usePrices.ts
 "use client";
 
-import { fetchSolanaPrice } from "@/utils/solana-price";
+import type { TokenType } from "@/config/tokens";
+import { fetchTokenPrices } from "@/utils/solana-price";
 import { useState, useEffect } from "react";
 
-interface Prices {
-  sol?: number;
-  usdt?: number;
-  usdc?: number;
-}
+// USD price per token symbol, e.g. prices.SOL
+type Prices = Partial<Record<TokenType, number>>;
 
 export function usePrices() {
   const [prices, setPrices] = useState<Prices>({});
@@ -20,16 +18,7 @@ export function usePrices() {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch(
-          "https://api.coingecko.com/api/v3/simple/price?ids=solana,tether,usd-coin&vs_currencies=usd"
-        );
-        const data = await res.json();
-        const solPriceData = await fetchSolanaPrice();
-        setPrices({
-          sol: solPriceData.price,
-          usdt: data["tether"]?.usd,
-          usdc: data["usd-coin"]?.usd,
-        });
+        setPrices(await fetchTokenPrices());
       } catch (e: any) {
         console.error(e);
         setError("Failed to fetch prices");
@@ -2,12 +2,13 @@
 
 import { useMemo } from "react";
 import * as anchor from "@coral-xyz/anchor";
-import { Connection, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import { userHasWallet } from "@civic/auth-web3";
 import { useUser } from "@civic/auth-web3/react";
+import { CLUSTER } from "@/config/cluster";
 
 // Program ID
-const PROGRAM_ID = new PublicKey("swinS25mqCw6ExEAtLJFxp6HYcqMvoYxKz3by6FfbRD");
+const PROGRAM_ID = new PublicKey(CLUSTER.programId);
 
 // IDL type - you'd typically import this from the generated types
 // For now, using minimal type definition
@@ -21,13 +22,7 @@ export function useProgram() {
   const userContext = useUser();
   const hasWallet = userHasWallet(userContext);
 
-  const network =
-    process.env.NEXT_PUBLIC_USE_MAINNET === "true" ? "mainnet-beta" : "devnet";
-
-  const connection = useMemo(
-    () => new Connection(clusterApiUrl(network)),
-    [network]
-  );
+  const connection = useMemo(() => new Connection(CLUSTER.rpcUrl), []);
 
   const program = useMemo(() => {
     if (!hasWallet) return null;
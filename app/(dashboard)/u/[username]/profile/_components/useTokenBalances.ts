@@ -3,14 +3,10 @@
 
 import { useState, useEffect, useMemo } from "react";
 import { useUser } from "@civic/auth-web3/react";
-import {
-  Connection,
-  PublicKey,
-  clusterApiUrl,
-  LAMPORTS_PER_SOL,
-} from "@solana/web3.js";
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
 import { userHasWallet } from "@civic/auth-web3";
+import { CLUSTER } from "@/config/cluster";
 
 export interface TokenInfo {
   mint: string;
@@ -22,10 +18,7 @@ export function useTokenBalances() {
   const hasWallet = userHasWallet(userContext);
   const address = hasWallet ? userContext.solana.address : "";
 
-  const network =
-    process.env.NEXT_PUBLIC_USE_MAINNET === "true" ? "mainnet-beta" : "devnet";
-  const endpoint = useMemo(() => clusterApiUrl(network), [network]);
-  const connection = useMemo(() => new Connection(endpoint), [endpoint]);
+  const connection = useMemo(() => new Connection(CLUSTER.rpcUrl), []);
 
   const [solBalance, setSolBalance] = useState<number | null>(null);
   const [splTokens, setSplTokens] = useState<TokenInfo[]>([]);
@@ -16,15 +16,18 @@ import { BN } from "bn.js";
 import { getProgram } from "@/utils/program";
 import { userHasWallet } from "@civic/auth-web3";
 import idl from "@/switched_fun_program/target/idl/switched_fun.json";
-import { supportedTokens } from "@/config/wallet";
-
-// Constants
-const USDC_MINT = new PublicKey(supportedTokens.contractAddress);
-const PROGRAM_ID = new PublicKey("swinS25mqCw6ExEAtLJFxp6HYcqMvoYxKz3by6FfbRD");
-const USDC_DECIMALS = 6;
+import {
+  DEFAULT_TOKEN,
+  getToken,
+  getTokenMint,
+  TokenType,
+} from "@/config/tokens";
+import { waitForTransaction } from "@/lib/transaction-submission";
+import { fetchTokenPrices } from "@/utils/solana-price";
 
 export interface WithdrawalParams {
-  amount: number; // USDC amount in UI units
+  amount: number; // Token amount in UI units
+  tokenType?: TokenType; // Defaults to USDC
   destinationAddress: string;
   walletType: "platform" | "normal";
   userAddress: string;
@@ -32,6 +35,7 @@ export interface WithdrawalParams {
   program?: any; // Anchor program instance (for platform withdrawals)
   civicWallet?: any; // Civic wallet for normal withdrawals
   userContext?: any; // Civic user context for platform withdrawals
+  recipientId?: string; // Streamer paid by a tip or subscription; payouts leave it out
 }
 
 /**
@@ -75,12 +79,23 @@ export async function withdrawFromPlatformWallet(
   params: WithdrawalParams,
   solPrice: number
 ): Promise<string> {
-  const { amount, destinationAddress, userAddress, userContext } = params;
+  const {
+    amount,
+    tokenType = DEFAULT_TOKEN,
+    destinationAddress,
+    userAddress,
+    userContext,
+    recipientId,
+  } = params;
 
   try {
-    // Estimate gas fee and convert to USDC
+    // Estimate gas fee and convert it to the withdrawn token
     const gasInSol = 0.001; // Conservative estimate for withdraw instruction
-    const gasInUsdc = convertSolToUsdc(gasInSol, solPrice);
+    const tokenPrice = (await fetchTokenPrices())[tokenType];
+    if (tokenPrice === undefined) {
+      throw new Error(`The ${tokenType} price is unavailable`);
+    }
+    const gasInUsdc = convertSolToUsdc(gasInSol, solPrice, tokenPrice);
 
     // Step 1: Create withdrawal transaction on server
     const createResponse = await fetch("/api/wallet/platform/withdraw", {
@@ -91,6 +106,8 @@ export async function withdrawFromPlatformWallet(
         destinationAddress,
         userPublicKey: userAddress,
         gasInUsdc,
+        tokenType,
+        recipientId,
       }),
     });
 
@@ -101,7 +118,7 @@ export async function withdrawFromPlatformWallet(
       );
     }
 
-    const { serializedTransaction } = await createResponse.json();
+    const { serializedTransaction, withdrawalId } = await createResponse.json();
 
     // Step 2: User signs the transaction using Civic wallet
     if (!userContext?.solana?.wallet?.signTransaction) {
@@ -132,6 +149,7 @@ export async function withdrawFromPlatformWallet(
           signedTransaction.serialize()
         ).toString("base64"),
         userPublicKey: userAddress,
+        withdrawalId,
       }),
     });
 
@@ -142,6 +160,9 @@ export async function withdrawFromPlatformWallet(
 
     const result = await completeResponse.json();
 
+    // The server queues the transaction; wait for it to land
+    await waitForTransaction(result.signature);
+
     return result.signature;
   } catch (error) {
     console.error("Platform withdrawal error:", error);
@@ -155,8 +176,14 @@ export async function withdrawFromPlatformWallet(
 export async function withdrawFromNormalWallet(
   params: WithdrawalParams
 ): Promise<string> {
-  const { amount, destinationAddress, userAddress, connection, civicWallet } =
-    params;
+  const {
+    amount,
+    tokenType = DEFAULT_TOKEN,
+    destinationAddress,
+    userAddress,
+    connection,
+    civicWallet,
+  } = params;
 
   if (!civicWallet || !civicWallet.signTransaction) {
     throw new Error(
@@ -167,16 +194,18 @@ export async function withdrawFromNormalWallet(
   try {
     const userPubkey = new PublicKey(userAddress);
     const destinationPubkey = new PublicKey(destinationAddress);
+    const token = getToken(tokenType);
+    const tokenMint = getTokenMint(token);
 
     // Get source and destination ATAs
-    const sourceATA = await getAssociatedTokenAddress(USDC_MINT, userPubkey);
+    const sourceATA = await getAssociatedTokenAddress(tokenMint, userPubkey);
     const destinationATA = await getAssociatedTokenAddress(
-      USDC_MINT,
+      tokenMint,
       destinationPubkey
     );
 
     // Convert amount to base units
-    const amountInBaseUnits = Math.floor(amount * Math.pow(10, USDC_DECIMALS));
+    const amountInBaseUnits = Math.floor(amount * Math.pow(10, token.decimals));
 
     // Create transaction with transfer instruction
     const transaction = new Transaction();
@@ -191,7 +220,7 @@ export async function withdrawFromNormalWallet(
           userPubkey, // payer
           destinationATA,
           destinationPubkey, // owner
-          USDC_MINT,
+          tokenMint,
           TOKEN_PROGRAM_ID,
           ASSOCIATED_TOKEN_PROGRAM_ID
         )
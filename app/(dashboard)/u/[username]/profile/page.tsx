@@ -8,12 +8,25 @@ import RecentTips from "@/app/(dashboard)/u/[username]/profile/_components/Recen
 import TokenBalance from "@/app/(dashboard)/u/[username]/profile/_components/TokenBalance";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChartPie, Users, Wallet, TrendingUp, Copy } from "lucide-react";
+import {
+  ChartPie,
+  Users,
+  Wallet,
+  TrendingUp,
+  Copy,
+  Target,
+  Receipt,
+} from "lucide-react";
 import Modal from "react-modal";
 import QRCode from "react-qr-code";
 import { userHasWallet } from "@civic/auth-web3";
 import { useUser } from "@civic/auth-web3/react";
 import TopDonors from "./_components/TopDonors";
+import StreamSessions from "./_components/StreamSessions";
+import TipGoals from "./_components/TipGoals";
+import Payouts from "./_components/Payouts";
+import PayoutAddresses from "./_components/PayoutAddresses";
+import WithdrawalAuditLog from "./_components/WithdrawalAuditLog";
 import { toast } from "sonner"; // Import Sonner toast
 
 const Profile = () => {
@@ -183,7 +196,7 @@ const Profile = () => {
 
         {/* Charts and Data */}
         <Tabs defaultValue="donations" className="mb-6">
-          <TabsList className="grid grid-cols-1 sm:grid-cols-3 mb-4 h-auto p-1 bg-transparent border border-border/50">
+          <TabsList className="grid grid-cols-1 sm:grid-cols-5 mb-4 h-auto p-1 bg-transparent border border-border/50">
             <TabsTrigger
               value="donations"
               className="flex items-center justify-center gap-2 px-3 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -200,6 +213,22 @@ const Profile = () => {
               <span className="hidden sm:inline">Stream Performance</span>
               <span className="sm:hidden">Streams</span>
             </TabsTrigger>
+            <TabsTrigger
+              value="goals"
+              className="flex items-center justify-center gap-2 px-3 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <Target className="w-4 h-4" />
+              <span className="hidden sm:inline">Tip Goals</span>
+              <span className="sm:hidden">Goals</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="payouts"
+              className="flex items-center justify-center gap-2 px-3 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <Receipt className="w-4 h-4" />
+              <span className="hidden sm:inline">Payouts</span>
+              <span className="sm:hidden">Payouts</span>
+            </TabsTrigger>
             <TabsTrigger
               value="viewers"
               className="flex items-center justify-center gap-2 px-3 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -224,78 +253,18 @@ const Profile = () => {
           </TabsContent>
 
           <TabsContent value="streams" className="space-y-4 sm:space-y-6">
-            <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
-              <div className="text-lg sm:text-xl text-primary font-bold mb-4 sm:mb-6">
-                Stream Performance
-              </div>
-              <div className="h-[300px] sm:h-[350px] flex items-center justify-center bg-transparent border border-border/30 rounded-lg">
-                <div className="text-center text-muted-foreground">
-                  <TrendingUp className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                  <p className="text-2xl text-white font-bold">
-                    Stream performance chart not available yet
-                  </p>
-                </div>
-              </div>
-            </Card>
+            <StreamSessions />
+          </TabsContent>
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
-              <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
-                <div className="text-lg sm:text-xl text-primary font-bold mb-4">
-                  Recent Streams
-                </div>
-                <div className="p-4 flex items-center align-middle justify-center text-2xl text-white font-bold">
-                  Not available yet
-                </div>
-                {/* <div className="space-y-4">
-                  {[...Array(5)].map((_, i) => (
-                    <div key={i} className="flex justify-between items-center">
-                      <div>
-                        <p className="font-medium">Stream #{i + 1}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {new Date(
-                            Date.now() - i * 86400000
-                          ).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-medium">{60 - i * 10} minutes</p>
-                        <p className="text-sm text-muted-foreground">
-                          {50 - i * 5} viewers
-                        </p>
-                      </div>
-                    </div>
-                  ))}
-                </div> */}
-              </Card>
+          <TabsContent value="goals" className="space-y-4 sm:space-y-6">
+            <TipGoals />
+          </TabsContent>
 
-              <Card className="p-4 sm:p-6 bg-transparent border border-border/50">
-                <div className="text-lg sm:text-xl text-primary font-bold mb-4">
-                  Stream Highlights
-                </div>
-                <div className="p-4 flex items-center align-middle justify-center text-2xl text-white font-bold">
-                  Not available yet
-                </div>
-                {/* <div className="space-y-4">
-                  {[...Array(5)].map((_, i) => (
-                    <div key={i} className="flex justify-between items-center">
-                      <div>
-                        <p className="font-medium">Peak moment #{i + 1}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {80 - i * 10} concurrent viewers
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-medium">
-                          ${(50 - i * 8).toFixed(2)} tips
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          During stream #{i + 1}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
-                </div> */}
-              </Card>
+          <TabsContent value="payouts" className="space-y-4 sm:space-y-6">
+            <Payouts />
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+              <PayoutAddresses />
+              <WithdrawalAuditLog />
             </div>
           </TabsContent>
 
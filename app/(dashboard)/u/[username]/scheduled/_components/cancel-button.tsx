@@ -0,0 +1,35 @@
+"use client";
+
+import { toast } from "sonner";
+import { useTransition } from "react";
+
+import { cancelScheduledStream } from "@/actions/scheduled-stream";
+import { Button } from "@/components/ui/button";
+
+interface CancelButtonProps {
+  scheduledStreamId: string;
+}
+
+export const CancelButton = ({ scheduledStreamId }: CancelButtonProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  const onClick = () => {
+    startTransition(() => {
+      cancelScheduledStream(scheduledStreamId)
+        .then(() => toast.success("Scheduled stream cancelled"))
+        .catch(() => toast.error("Something went wrong"));
+    });
+  };
+
+  return (
+    <Button
+      disabled={isPending}
+      onClick={onClick}
+      variant="ghost"
+      size="sm"
+      className="text-destructive"
+    >
+      Cancel
+    </Button>
+  );
+};
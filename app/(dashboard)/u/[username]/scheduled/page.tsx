@@ -0,0 +1,61 @@
+import { format } from "date-fns";
+import { CalendarDays, Download } from "lucide-react";
+
+import { getSelf } from "@/lib/auth-service";
+import { getScheduledStreamsByUserId } from "@/lib/scheduled-stream-service";
+import { Button } from "@/components/ui/button";
+
+import { CancelButton } from "./_components/cancel-button";
+
+const ScheduledPage = async () => {
+  const self = await getSelf();
+  const scheduledStreams = await getScheduledStreamsByUserId(self.id);
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold font-sans">Scheduled Streams</h1>
+        {scheduledStreams.length > 0 && (
+          <a href={`/api/scheduled-streams/ics?userId=${self.id}`}>
+            <Button variant="outline" size="sm">
+              <Download className="h-4 w-4 mr-2" />
+              Export calendar
+            </Button>
+          </a>
+        )}
+      </div>
+
+      {scheduledStreams.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          You have no upcoming streams. Use &quot;Schedule Stream&quot; in the
+          navbar to plan one.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {scheduledStreams.map((scheduled) => (
+          <div
+            key={scheduled.id}
+            className="rounded-xl bg-muted p-6 flex items-start justify-between gap-x-4"
+          >
+            <div className="space-y-1 min-w-0">
+              <p className="font-semibold truncate">{scheduled.title}</p>
+              <p className="flex items-center gap-x-2 text-sm text-muted-foreground">
+                <CalendarDays className="h-4 w-4" />
+                {format(scheduled.scheduledAt, "EEE, MMM d yyyy 'at' HH:mm")}
+              </p>
+              {scheduled.description && (
+                <p className="text-sm text-muted-foreground">
+                  {scheduled.description}
+                </p>
+              )}
+            </div>
+            <CancelButton scheduledStreamId={scheduled.id} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduledPage;
@@ -0,0 +1,56 @@
+import { format } from "date-fns";
+
+import { UserAvatar } from "@/components/user-avatar";
+import { getSubscribers } from "@/lib/subscription-service";
+import { getSubscriberMonths } from "@/lib/subscription";
+
+interface SubscriberListProps {
+  subscribers: Awaited<ReturnType<typeof getSubscribers>>;
+}
+
+const getRenewalLabel = (
+  subscription: SubscriberListProps["subscribers"][number]
+) => {
+  if (subscription.status === "PAST_DUE") return "Payment due";
+  if (subscription.cancelAtPeriodEnd) {
+    return `Ends ${format(subscription.currentPeriodEnd, "dd/MM/yyyy")}`;
+  }
+  return `Renews ${format(subscription.currentPeriodEnd, "dd/MM/yyyy")}${
+    subscription.paymentMethod === "ALLOWANCE" ? " (allowance)" : ""
+  }`;
+};
+
+export const SubscriberList = ({ subscribers }: SubscriberListProps) => {
+  if (subscribers.length === 0) {
+    return (
+      <div className="rounded-md border p-6 text-center text-sm text-muted-foreground">
+        No subscribers yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border divide-y max-h-[600px] overflow-y-auto">
+      {subscribers.map((subscription) => (
+        <div key={subscription.id} className="flex items-center gap-3 p-3 text-sm">
+          <UserAvatar
+            username={subscription.subscriber.username}
+            imageUrl={subscription.subscriber.imageUrl}
+          />
+          <div className="grow min-w-0">
+            <p className="font-semibold truncate">
+              {subscription.subscriber.username}
+            </p>
+            <p className="text-muted-foreground">
+              {subscription.tier.name} ·{" "}
+              {getSubscriberMonths(subscription.startedAt)} month(s)
+            </p>
+          </div>
+          <p className="text-muted-foreground whitespace-nowrap">
+            {getRenewalLabel(subscription)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+"use client";
+
+import { toast } from "sonner";
+import { useState, useTransition } from "react";
+
+import { createSubscriptionTier } from "@/actions/subscription";
+import { SUBSCRIPTION_LIMITS } from "@/lib/subscription";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+interface TierFormProps {
+  isLimitReached: boolean;
+};
+
+export const TierForm = ({ isLimitReached }: TierFormProps) => {
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState("");
+  const [hasBadge, setHasBadge] = useState(true);
+  const [hasEmoteAccess, setHasEmoteAccess] = useState(false);
+  const [hasSubscriberChat, setHasSubscriberChat] = useState(true);
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    startTransition(() => {
+      createSubscriptionTier({
+        name,
+        price: Number(price),
+        hasBadge,
+        hasEmoteAccess,
+        hasSubscriberChat,
+      })
+        .then(() => {
+          toast.success("Tier added");
+          setName("");
+          setPrice("");
+        })
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  if (isLimitReached) {
+    return (
+      <div className="rounded-xl bg-muted p-6 text-sm text-muted-foreground">
+        You offer {SUBSCRIPTION_LIMITS.MAX_TIERS} tiers, the most a channel
+        can have. Delete one to add another.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="rounded-xl bg-muted p-6 space-y-4">
+      <p className="font-semibold">
+        Add a tier
+      </p>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>
+            Name
+          </Label>
+          <Input
+            disabled={isPending}
+            placeholder="Supporter"
+            maxLength={SUBSCRIPTION_LIMITS.MAX_NAME_LENGTH}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>
+            Price ($ per month)
+          </Label>
+          <Input
+            type="number"
+            disabled={isPending}
+            min={SUBSCRIPTION_LIMITS.MIN_PRICE}
+            max={SUBSCRIPTION_LIMITS.MAX_PRICE}
+            step="any"
+            placeholder="5"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="flex items-center justify-between gap-x-2">
+          <Label>Badge in chat</Label>
+          <Switch
+            disabled={isPending}
+            checked={hasBadge}
+            onCheckedChange={setHasBadge}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-x-2">
+          <Label>Emote access</Label>
+          <Switch
+            disabled={isPending}
+            checked={hasEmoteAccess}
+            onCheckedChange={setHasEmoteAccess}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-x-2">
+          <Label>Subscribers-only chat</Label>
+          <Switch
+            disabled={isPending}
+            checked={hasSubscriberChat}
+            onCheckedChange={setHasSubscriberChat}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" variant="primary" disabled={isPending}>
+          Add tier
+        </Button>
+      </div>
+    </form>
+  );
+};
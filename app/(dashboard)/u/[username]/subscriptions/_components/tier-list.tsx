@@ -0,0 +1,134 @@
+"use client";
+
+import { toast } from "sonner";
+import { Trash } from "lucide-react";
+import { useTransition } from "react";
+
+import {
+  deleteSubscriptionTier,
+  updateSubscriptionTier,
+} from "@/actions/subscription";
+import { SUBSCRIPTION_LIMITS, SubscriptionTierData } from "@/lib/subscription";
+import { Hint } from "@/components/hint";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+type PerkField = "hasBadge" | "hasEmoteAccess" | "hasSubscriberChat";
+
+const PERKS: { field: PerkField; label: string }[] = [
+  { field: "hasBadge", label: "Badge" },
+  { field: "hasEmoteAccess", label: "Emotes" },
+  { field: "hasSubscriberChat", label: "Subscribers-only chat" },
+];
+
+interface TierListProps {
+  tiers: SubscriptionTierData[];
+};
+
+export const TierList = ({ tiers }: TierListProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  const onUpdate = (
+    tierId: string,
+    values: Partial<Pick<SubscriptionTierData, "price" | PerkField>>
+  ) => {
+    startTransition(() => {
+      updateSubscriptionTier({ tierId, ...values })
+        .then(() => toast.success("Tier updated"))
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  const onDelete = (tierId: string) => {
+    startTransition(() => {
+      deleteSubscriptionTier(tierId)
+        .then(({ retired }) =>
+          toast.success(
+            retired
+              ? "Tier retired. Current subscribers keep it until they cancel."
+              : "Tier deleted"
+          )
+        )
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  if (tiers.length === 0) {
+    return (
+      <div className="rounded-xl bg-muted p-6 text-sm text-muted-foreground">
+        You don&apos;t offer any tiers yet. Viewers will see a Subscribe
+        button once you add one.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl bg-muted divide-y divide-border">
+      {tiers.map((tier) => (
+        <div key={tier.id} className="p-4 space-y-3">
+          <div className="flex items-center gap-x-4">
+            <div className="grow min-w-0">
+              <div className="flex items-center gap-x-2">
+                <p className="font-semibold truncate">{tier.name}</p>
+                {!tier.isActive && <Badge variant="secondary">Retired</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {tier.subscriberCount} subscriber
+                {tier.subscriberCount === 1 ? "" : "s"}
+              </p>
+            </div>
+            <div className="flex items-center gap-x-1">
+              <span className="text-sm text-muted-foreground">$</span>
+              <Input
+                type="number"
+                disabled={isPending || !tier.isActive}
+                min={SUBSCRIPTION_LIMITS.MIN_PRICE}
+                max={SUBSCRIPTION_LIMITS.MAX_PRICE}
+                step="any"
+                defaultValue={tier.price}
+                className="w-24"
+                onBlur={(e) => {
+                  const price = Number(e.target.value);
+                  if (price !== tier.price) {
+                    onUpdate(tier.id, { price });
+                  }
+                }}
+              />
+            </div>
+            {tier.isActive && (
+              <Hint label="Delete tier" asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => onDelete(tier.id)}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </Hint>
+            )}
+          </div>
+          {tier.isActive && (
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {PERKS.map(({ field, label }) => (
+                <div key={field} className="flex items-center gap-x-2">
+                  <Switch
+                    disabled={isPending}
+                    checked={tier[field]}
+                    onCheckedChange={(checked) =>
+                      onUpdate(tier.id, { [field]: checked })
+                    }
+                  />
+                  <Label className="text-sm">{label}</Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
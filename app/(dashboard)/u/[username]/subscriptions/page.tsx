@@ -0,0 +1,48 @@
+import { getSelf } from "@/lib/auth-service";
+import {
+  getSubscribers,
+  getSubscriptionTiers,
+} from "@/lib/subscription-service";
+import { SUBSCRIPTION_LIMITS } from "@/lib/subscription";
+
+import { TierForm } from "./_components/tier-form";
+import { TierList } from "./_components/tier-list";
+import { SubscriberList } from "./_components/subscriber-list";
+
+const SubscriptionsPage = async () => {
+  const self = await getSelf();
+  const [tiers, subscribers] = await Promise.all([
+    getSubscriptionTiers(self.id, { includeInactive: true }),
+    getSubscribers(self.id),
+  ]);
+
+  const activeTierCount = tiers.filter((tier) => tier.isActive).length;
+
+  return (
+    <div className="p-6">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold">
+          Subscriptions
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Offer monthly tiers paid in USDC. Subscribers pay each month or from
+          an allowance, and renewals go straight to your wallet.
+        </p>
+      </div>
+      <div className="space-y-4">
+        <TierForm
+          isLimitReached={activeTierCount >= SUBSCRIPTION_LIMITS.MAX_TIERS}
+        />
+        <TierList tiers={tiers} />
+      </div>
+      <div className="mt-8 mb-4">
+        <h2 className="text-xl font-bold">
+          Subscribers ({subscribers.length})
+        </h2>
+      </div>
+      <SubscriberList subscribers={subscribers} />
+    </div>
+  );
+};
+
+export default SubscriptionsPage;
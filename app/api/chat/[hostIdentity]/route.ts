@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isBlockedByUser } from "@/lib/block-service";
+import { CHAT_HISTORY_LIMIT, getChatHistory } from "@/lib/chat-service";
+
+// GET: Recent chat messages of a streamer's room for viewers joining late
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { hostIdentity: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const beforeParam = searchParams.get("before");
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+    const limitParam = parseInt(searchParams.get("limit") ?? "", 10);
+    const limit = isNaN(limitParam)
+      ? CHAT_HISTORY_LIMIT
+      : Math.min(Math.max(limitParam, 1), CHAT_HISTORY_LIMIT);
+
+    if (before && isNaN(before.getTime())) {
+      return NextResponse.json(
+        { error: "before must be a valid date" },
+        { status: 400 }
+      );
+    }
+
+    if (await isBlockedByUser(params.hostIdentity)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const messages = await getChatHistory({
+      hostIdentity: params.hostIdentity,
+      before,
+      limit,
+    });
+
+    return NextResponse.json(messages);
+  } catch (err: any) {
+    console.error("[GET /api/chat/[hostIdentity]] error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch chat history" },
+      { status: 500 }
+    );
+  }
+}
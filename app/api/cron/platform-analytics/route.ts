@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { recordPlatformSnapshot } from "@/lib/platform-analytics";
+
+// Called daily by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Re-running on the same day refreshes that day's snapshot.
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const snapshot = await recordPlatformSnapshot(db);
+
+    console.log("[Cron] Platform analytics recorded:", {
+      snapshotDate: snapshot.snapshotDate,
+    });
+
+    return NextResponse.json({ snapshotDate: snapshot.snapshotDate });
+  } catch (err: any) {
+    console.error("[GET /api/cron/platform-analytics] error:", err);
+    return NextResponse.json(
+      { error: "Failed to record platform analytics" },
+      { status: 500 }
+    );
+  }
+}
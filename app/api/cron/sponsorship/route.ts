@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reconcileSponsoredTransactions } from "@/lib/sponsorship-service";
+
+// Called every 10 minutes by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Reconciles transactions the server wallet sponsored against the chain.
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await reconcileSponsoredTransactions();
+
+    console.log("[Cron] Sponsored transactions reconciled:", result);
+
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error("[GET /api/cron/sponsorship] error:", err);
+    return NextResponse.json(
+      { error: "Failed to reconcile sponsored transactions" },
+      { status: 500 }
+    );
+  }
+}
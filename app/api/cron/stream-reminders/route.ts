@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendScheduledStreamReminders } from "@/lib/scheduled-stream-service";
+
+// Called every few minutes by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const notified = await sendScheduledStreamReminders();
+
+    console.log("[Cron] Stream reminders sent:", { notified });
+
+    return NextResponse.json({ notified });
+  } catch (err: any) {
+    console.error("[GET /api/cron/stream-reminders] error:", err);
+    return NextResponse.json(
+      { error: "Failed to send stream reminders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processSubscriptionRenewals } from "@/lib/subscription-service";
+
+// Called hourly by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Renews due subscriptions and expires lapsed ones.
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await processSubscriptionRenewals();
+
+    console.log("[Cron] Subscriptions processed:", result);
+
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error("[GET /api/cron/subscriptions] error:", err);
+    return NextResponse.json(
+      { error: "Failed to process subscriptions" },
+      { status: 500 }
+    );
+  }
+}
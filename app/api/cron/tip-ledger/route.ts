@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { syncAllTipLedgers } from "@/lib/tip-ledger-service";
+
+// Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Each run resumes from the last signature indexed per streamer.
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await syncAllTipLedgers();
+
+    console.log("[Cron] Tip ledgers indexed:", result);
+
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error("[GET /api/cron/tip-ledger] error:", err);
+    return NextResponse.json(
+      { error: "Failed to index tip ledgers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processPendingSubmissions } from "@/lib/transaction-queue-service";
+
+// Called every minute by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Resends transactions that haven't landed and settles the rest.
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await processPendingSubmissions();
+
+    console.log("[Cron] Transaction submissions processed:", result);
+
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error("[GET /api/cron/transactions] error:", err);
+    return NextResponse.json(
+      { error: "Failed to process transaction submissions" },
+      { status: 500 }
+    );
+  }
+}
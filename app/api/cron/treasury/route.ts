@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runTreasuryCheck } from "@/lib/treasury-service";
+
+// Called hourly by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Records the server wallet balance and sends low-balance alerts.
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization");
+
+  if (
+    !process.env.CRON_SECRET ||
+    authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runTreasuryCheck();
+
+    console.log("[Cron] Treasury checked:", result);
+
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error("[GET /api/cron/treasury] error:", err);
+    return NextResponse.json(
+      { error: "Failed to check treasury" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getGiftCatalog } from "@/lib/gift-service";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { streamerId: string } }
+) {
+  try {
+    const gifts = await getGiftCatalog(params.streamerId);
+
+    return NextResponse.json({ gifts });
+  } catch (error) {
+    console.error("[GET /api/gifts/[streamerId]] error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch gifts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getUser } from "@civic/auth-web3/nextjs";
+import { db } from "@/lib/db";
+
+export async function GET() {
+  try {
+    // Get authenticated user
+    let self;
+    try {
+      self = await getUser();
+    } catch (err: any) {
+      console.error("Civic Auth getUser failed:", err);
+      return NextResponse.json(
+        { error: "Authentication failed" },
+        { status: 401 }
+      );
+    }
+
+    if (!self?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const dbUser = await db.user.findUnique({
+      where: { externalUserId: self.id },
+      select: { id: true },
+    });
+
+    if (!dbUser) {
+      return NextResponse.json(
+        { error: "User not found in database" },
+        { status: 404 }
+      );
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      db.notification.findMany({
+        where: { userId: dbUser.id },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      }),
+      db.notification.count({
+        where: { userId: dbUser.id, readAt: null },
+      }),
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (err: any) {
+    console.error("[GET /api/notifications] error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
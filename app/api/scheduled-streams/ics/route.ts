@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import {
+  getScheduledStreamsByUserId,
+  toICalendar,
+} from "@/lib/scheduled-stream-service";
+
+// Export a single scheduled stream (?id=) or a streamer's whole schedule (?userId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+    const userId = searchParams.get("userId");
+
+    if (!id && !userId) {
+      return NextResponse.json(
+        { error: "Either id or userId is required" },
+        { status: 400 }
+      );
+    }
+
+    const scheduledStreams = id
+      ? await db.scheduledStream.findMany({
+          where: { id, status: "SCHEDULED" },
+          include: {
+            user: { select: { id: true, username: true, imageUrl: true } },
+          },
+        })
+      : await getScheduledStreamsByUserId(userId!);
+
+    if (id && scheduledStreams.length === 0) {
+      return NextResponse.json(
+        { error: "Scheduled stream not found" },
+        { status: 404 }
+      );
+    }
+
+    const filename = id
+      ? `stream-${id}.ics`
+      : `${scheduledStreams[0]?.user.username ?? "schedule"}-schedule.ics`;
+
+    return new NextResponse(toICalendar(scheduledStreams), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err: any) {
+    console.error("[GET /api/scheduled-streams/ics] error:", err);
+    return NextResponse.json(
+      { error: "Failed to export scheduled streams" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedData } from "@/lib/redis";
+import {
+  getScheduledStreamsByUserId,
+  getUpcomingScheduledStreams,
+} from "@/lib/scheduled-stream-service";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    // A single streamer's schedule, or the platform-wide upcoming rail
+    const scheduledStreams = userId
+      ? await getCachedData({
+          key: `scheduled-streams:user:${userId}`,
+          ttl: 60, // 1 minute cache (streamers can edit their schedule)
+          fetchFn: () => getScheduledStreamsByUserId(userId),
+        })
+      : await getCachedData({
+          key: "scheduled-streams:upcoming",
+          ttl: 60, // 1 minute cache
+          fetchFn: () => getUpcomingScheduledStreams(),
+        });
+
+    return NextResponse.json(scheduledStreams);
+  } catch (err: any) {
+    console.error("[GET /api/scheduled-streams] error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch scheduled streams" },
+      { status: 500 }
+    );
+  }
+}
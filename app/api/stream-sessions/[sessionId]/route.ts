@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import { getStreamSessionDetail } from "@/lib/stream-session-service";
+
+// GET: Viewer timeline and tips of one of the current streamer's broadcasts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const self = await getSelf();
+    const session = await getStreamSessionDetail(self.id, params.sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Stream session not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(session);
+  } catch (err: any) {
+    console.error("[GET /api/stream-sessions/[sessionId]] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch stream session" },
+      { status: 500 }
+    );
+  }
+}
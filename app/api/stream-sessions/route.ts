@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import {
+  getStreamSessionSummary,
+  getStreamSessions,
+} from "@/lib/stream-session-service";
+
+// GET: The current streamer's past broadcasts and this month's totals
+export async function GET() {
+  try {
+    const self = await getSelf();
+
+    const [sessions, summary] = await Promise.all([
+      getStreamSessions(self.id),
+      getStreamSessionSummary(self.id),
+    ]);
+
+    return NextResponse.json({ sessions, summary });
+  } catch (err: any) {
+    console.error("[GET /api/stream-sessions] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch stream sessions" },
+      { status: 500 }
+    );
+  }
+}
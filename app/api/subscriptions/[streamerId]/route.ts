@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getSelf } from "@/lib/auth-service";
+import {
+  getSubscriptionPaymentAddress,
+  getSubscriptionTiers,
+  getViewerSubscription,
+} from "@/lib/subscription-service";
+
+// GET: A streamer's tiers and where to pay them, plus the viewer's
+// subscription when signed in
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { streamerId: string } }
+) {
+  try {
+    // Guests only see the tiers
+    const self = await getSelf().catch(() => null);
+
+    const [tiers, paymentAddress, subscription] = await Promise.all([
+      getSubscriptionTiers(params.streamerId),
+      getSubscriptionPaymentAddress(params.streamerId),
+      self ? getViewerSubscription(self.id, params.streamerId) : null,
+    ]);
+
+    return NextResponse.json({ tiers, paymentAddress, subscription });
+  } catch (err: any) {
+    console.error("[GET /api/subscriptions/[streamerId]] error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch subscriptions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentTipGoal } from "@/lib/tip-goal-service";
+
+// GET: The goal shown on a channel, if any
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const goal = await getCurrentTipGoal(params.userId);
+
+    return NextResponse.json({ goal });
+  } catch (err: any) {
+    console.error("[GET /api/tip-goals/[userId]] error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch goal" },
+      { status: 500 }
+    );
+  }
+}
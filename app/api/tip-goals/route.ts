@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import { getTipGoalHistory } from "@/lib/tip-goal-service";
+
+// GET: The current streamer's goals, most recent first
+export async function GET() {
+  try {
+    const self = await getSelf();
+
+    const goals = await getTipGoalHistory(self.id);
+
+    return NextResponse.json({ goals });
+  } catch (err: any) {
+    console.error("[GET /api/tip-goals] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch goals" },
+      { status: 500 }
+    );
+  }
+}
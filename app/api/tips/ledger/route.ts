@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import {
+  TIP_LEDGER_PERIODS,
+  TipLedgerPeriod,
+  getTipLedgerPage,
+  getTipLedgerSummary,
+  getTipSeries,
+  getTopDonors,
+  syncTipLedgerIfStale,
+} from "@/lib/tip-ledger-service";
+
+const MAX_PAGE_SIZE = 50;
+
+// GET: The current streamer's tip ledger. Entries are paginated with
+// `?cursor=`; the summary, top donors and series cover `?period=`.
+export async function GET(request: NextRequest) {
+  try {
+    const self = await getSelf();
+
+    const { searchParams } = new URL(request.url);
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(
+      Number(searchParams.get("limit")) || 20,
+      MAX_PAGE_SIZE
+    );
+    const requestedPeriod = searchParams.get("period") as TipLedgerPeriod;
+    const period = TIP_LEDGER_PERIODS.includes(requestedPeriod)
+      ? requestedPeriod
+      : "month";
+
+    // Pick up on-chain transfers the scheduled indexer hasn't reached yet
+    if (!cursor) {
+      await syncTipLedgerIfStale(self.id);
+    }
+
+    const [page, summary, topDonors, series] = await Promise.all([
+      getTipLedgerPage({ streamerId: self.id, cursor, limit }),
+      getTipLedgerSummary(self.id, period),
+      getTopDonors(self.id, period),
+      getTipSeries(self.id, period),
+    ]);
+
+    return NextResponse.json({ ...page, period, summary, topDonors, series });
+  } catch (err: any) {
+    console.error("[GET /api/tips/ledger] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch tip ledger" },
+      { status: 500 }
+    );
+  }
+}
@@ -27,6 +27,21 @@ export const ourFileRouter = {
         },
       });
 
+      return { fileUrl: file.url };
+    }),
+  // Custom gift images; the gift itself is saved by the createCustomGift action
+  giftImageUploader: f({
+    image: {
+      maxFileSize: "1MB",
+      maxFileCount: 1
+    }
+  })
+    .middleware(async () => {
+      const self = await getSelfFromApi();
+
+      return { user: self }
+    })
+    .onUploadComplete(async ({ file }) => {
       return { fileUrl: file.url };
     })
 } satisfies FileRouter;
@@ -62,6 +62,18 @@ export async function GET(
                   isChatDelayed: true,
                   isChatEnabled: true,
                   isChatFollowersOnly: true,
+                  isChatTippersOnly: true,
+                  isChatSubscribersOnly: true,
+                  isTipTtsEnabled: true,
+                  largeTipThreshold: true,
+                  megaTipThreshold: true,
+                  tipAlertDurationSeconds: true,
+                  giftAlertDurationSeconds: true,
+                  tipAlertQueueSize: true,
+                  excludedAlertGiftTypes: true,
+                  chatSlowModeSeconds: true,
+                  subCategoryId: true,
+                  tags: true,
                   thumbnailUrl: true,
                   name: true,
                 },
@@ -107,6 +119,18 @@ export async function GET(
                   isChatDelayed: true,
                   isChatEnabled: true,
                   isChatFollowersOnly: true,
+                  isChatTippersOnly: true,
+                  isChatSubscribersOnly: true,
+                  isTipTtsEnabled: true,
+                  largeTipThreshold: true,
+                  megaTipThreshold: true,
+                  tipAlertDurationSeconds: true,
+                  giftAlertDurationSeconds: true,
+                  tipAlertQueueSize: true,
+                  excludedAlertGiftTypes: true,
+                  chatSlowModeSeconds: true,
+                  subCategoryId: true,
+                  tags: true,
                   thumbnailUrl: true,
                   name: true,
                 },
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { broadcastTransaction, signAndSendTransaction } from '@/lib/server-wallet';
+import { getSelf } from '@/lib/auth-service';
+import { sponsorTransaction } from '@/lib/sponsorship-service';
+import { submitTransaction } from '@/lib/transaction-queue-service';
 import { Transaction, VersionedTransaction } from '@solana/web3.js';
 import { z } from 'zod';
 
@@ -10,33 +12,49 @@ const broadcastSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    // Submissions belong to the caller, who alone can poll them
+    const user = await getSelf();
+
     const body = await request.json();
     const { serializedTransaction, type } = broadcastSchema.parse(body);
 
-    let signature: string;
+    const transactionBuffer = Buffer.from(serializedTransaction, 'base64');
+
+    // Try to deserialize as versioned transaction first
+    let transaction: Transaction | VersionedTransaction;
+    try {
+      transaction = VersionedTransaction.deserialize(transactionBuffer);
+    } catch {
+      // Fall back to regular transaction
+      transaction = Transaction.from(transactionBuffer);
+    }
 
-    if (type === 'user-signed') {
-      // Broadcast a pre-signed transaction from user
-      signature = await broadcastTransaction(serializedTransaction);
-    } else {
-      // Server signs and sends the transaction
-      const transactionBuffer = Buffer.from(serializedTransaction, 'base64');
-      
-      // Try to deserialize as versioned transaction first
+    if (type === 'server-signed') {
+      // Server pays the fee, so the caller's budget is charged
       try {
-        const versionedTx = VersionedTransaction.deserialize(transactionBuffer);
-        signature = await signAndSendTransaction(versionedTx);
-      } catch {
-        // Fall back to regular transaction
-        const transaction = Transaction.from(transactionBuffer);
-        signature = await signAndSendTransaction(transaction);
+        await sponsorTransaction(transaction, {
+          userId: user.id,
+          operation: 'BROADCAST',
+        });
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: 'Transaction not sponsored', message: error.message },
+          { status: 403 }
+        );
       }
     }
 
+    // Queued and rebroadcast until it lands; poll /api/wallet/transactions/[signature]
+    const { signature, status } = await submitTransaction(transaction, {
+      kind: 'BROADCAST',
+      userId: user.id,
+    });
+
     return NextResponse.json({
       success: true,
       signature,
-      message: 'Transaction broadcasted successfully',
+      status,
+      message: 'Transaction submitted',
     });
 
   } catch (error: any) {
@@ -52,6 +70,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error.message === 'Unauthorized' || error.message === 'Authentication failed') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (error.message === 'Transaction was submitted by another user') {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     return NextResponse.json(
       {
         error: 'Transaction broadcast failed',
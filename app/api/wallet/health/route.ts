@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
 import { checkServerWalletHealth } from '@/lib/server-wallet';
+import { isSponsorshipPaused } from '@/lib/treasury-service';
 
 export async function GET() {
   try {
-    const health = await checkServerWalletHealth();
-    return NextResponse.json(health);
+    const [health, sponsorshipPaused] = await Promise.all([
+      checkServerWalletHealth(),
+      isSponsorshipPaused(),
+    ]);
+    return NextResponse.json({ ...health, sponsorshipPaused });
   } catch (error: any) {
     console.error('Wallet health check failed:', error);
     return NextResponse.json(
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import {
+  getPayoutAddresses,
+  getWithdrawalAuditEvents,
+  getWithdrawalUsage,
+} from "@/lib/withdrawal-security-service";
+
+// GET: The current streamer's payout addresses, limit usage and security log
+export async function GET() {
+  try {
+    const self = await getSelf();
+
+    const [addresses, usage, events] = await Promise.all([
+      getPayoutAddresses(self.id),
+      getWithdrawalUsage(self.id),
+      getWithdrawalAuditEvents(self.id),
+    ]);
+
+    return NextResponse.json({ addresses, usage, events });
+  } catch (err: any) {
+    console.error("[GET /api/wallet/payout-settings] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch payout settings" },
+      { status: 500 }
+    );
+  }
+}
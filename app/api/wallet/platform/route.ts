@@ -95,7 +95,8 @@ export async function PATCH(request: NextRequest) {
       success: true,
       platformWallet: result.platformWallet,
       signature: result.signature,
-      message: 'Platform wallet created and registered successfully',
+      status: result.status,
+      message: 'Platform wallet transaction submitted',
     });
   } catch (error: any) {
     console.error('Failed to complete platform wallet creation:', error);
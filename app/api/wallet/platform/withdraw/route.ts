@@ -3,19 +3,34 @@ import { getSelf } from '@/lib/auth-service';
 import { z } from 'zod';
 import { 
   createWithdrawalTransaction, 
-  completeWithdrawal 
+  completeWithdrawal,
+  getWithdrawalUsdValue,
 } from '@/lib/platform-wallet-withdrawal';
+import { DEFAULT_TOKEN, findToken } from '@/config/tokens';
+import { syncPendingWithdrawals } from '@/lib/withdrawal-service';
+import {
+  assertPaymentAllowed,
+  assertWithdrawalAllowed,
+  getClientIp,
+} from '@/lib/withdrawal-security-service';
 
 const createWithdrawalSchema = z.object({
   amount: z.number().positive('Amount must be positive'),
   destinationAddress: z.string().min(1, 'Destination address is required'),
   userPublicKey: z.string().min(1, 'User public key is required'),
   gasInUsdc: z.number().nonnegative('Gas fee must be non-negative'),
+  tokenType: z
+    .string()
+    .default(DEFAULT_TOKEN)
+    .refine((symbol) => !!findToken(symbol), 'Unsupported token'),
+  // Set for tips and subscriptions; without it the transfer is a payout
+  recipientId: z.string().optional(),
 });
 
 const completeWithdrawalSchema = z.object({
   userSignedTransaction: z.string().min(1, 'Signed transaction is required'),
   userPublicKey: z.string().min(1, 'User public key is required'),
+  withdrawalId: z.string().optional(),
 });
 
 // POST: Create withdrawal transaction for user to sign
@@ -23,7 +38,40 @@ export async function POST(request: NextRequest) {
   try {
     const user = await getSelf();
     const body = await request.json();
-    const { amount, destinationAddress, userPublicKey, gasInUsdc } = createWithdrawalSchema.parse(body);
+    const { amount, destinationAddress, userPublicKey, gasInUsdc, tokenType, recipientId } = createWithdrawalSchema.parse(body);
+
+    // Transfers that were never signed stop counting once they expire
+    await syncPendingWithdrawals(user.id).catch((err) =>
+      console.error('[POST /api/wallet/platform/withdraw] sync error:', err)
+    );
+
+    let usdValue: number;
+    try {
+      usdValue = await getWithdrawalUsdValue(amount, tokenType);
+      if (recipientId) {
+        await assertPaymentAllowed({
+          userId: user.id,
+          recipientId,
+          amount,
+          usdValue,
+          destinationAddress,
+          ipAddress: getClientIp(),
+        });
+      } else {
+        await assertWithdrawalAllowed({
+          userId: user.id,
+          amount,
+          usdValue,
+          destinationAddress,
+          ipAddress: getClientIp(),
+        });
+      }
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Withdrawal blocked', message: error.message },
+        { status: 403 }
+      );
+    }
     
     // Initialize the Anchor program for server-side use
     const { getConnection, getServerWalletAsAnchorWallet } = await import('@/lib/server-wallet');
@@ -39,12 +87,15 @@ export async function POST(request: NextRequest) {
       amount,
       destinationAddress,
       gasInUsdc,
-      program
+      program,
+      tokenType,
+      { usdValue, recipientId }
     );
     
     return NextResponse.json({
       success: true,
       serializedTransaction: result.serializedTransaction,
+      withdrawalId: result.withdrawalId,
       message: result.message,
     });
   } catch (error: any) {
@@ -61,18 +112,20 @@ export async function PATCH(request: NextRequest) {
   try {
     const user = await getSelf();
     const body = await request.json();
-    const { userSignedTransaction, userPublicKey } = completeWithdrawalSchema.parse(body);
+    const { userSignedTransaction, userPublicKey, withdrawalId } = completeWithdrawalSchema.parse(body);
     
     const result = await completeWithdrawal(
       user.id,
       userPublicKey,
-      userSignedTransaction
+      userSignedTransaction,
+      withdrawalId
     );
     
     return NextResponse.json({
       success: true,
       signature: result.signature,
-      message: 'Withdrawal completed successfully',
+      status: result.status,
+      message: 'Withdrawal submitted',
     });
   } catch (error: any) {
     console.error('Failed to complete withdrawal:', error);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import {
+  getEarningsStatement,
+  toStatementCsv,
+  toStatementPdf,
+} from "@/lib/earnings-statement-service";
+import {
+  STATEMENT_FORMATS,
+  STATEMENT_MONTH_PATTERN,
+  StatementFormat,
+} from "@/lib/earnings-statement";
+
+// GET: The current streamer's statement for ?month=YYYY-MM, as JSON or
+// downloaded with ?format=csv|pdf
+export async function GET(request: NextRequest) {
+  try {
+    const self = await getSelf();
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get("month") ?? "";
+    const format = searchParams.get("format");
+
+    if (!STATEMENT_MONTH_PATTERN.test(month)) {
+      return NextResponse.json(
+        { error: "month must be formatted as YYYY-MM" },
+        { status: 400 }
+      );
+    }
+
+    if (format && !STATEMENT_FORMATS.includes(format as StatementFormat)) {
+      return NextResponse.json(
+        { error: `format must be one of ${STATEMENT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const statement = await getEarningsStatement(self.id, month);
+
+    if (!format) {
+      return NextResponse.json({ statement });
+    }
+
+    const filename = `${self.username}-statement-${month}.${format}`;
+
+    return new NextResponse(
+      format === "csv"
+        ? toStatementCsv(statement)
+        : toStatementPdf(statement, self.username),
+      {
+        headers: {
+          "Content-Type":
+            format === "csv" ? "text/csv; charset=utf-8" : "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      }
+    );
+  } catch (err: any) {
+    console.error("[GET /api/wallet/statements] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getSelf } from "@/lib/auth-service";
+import { getTransactionSubmission } from "@/lib/transaction-queue-service";
+
+// GET: A submitted transaction's status. Pending ones are checked against
+// the chain and resent, so polling this also keeps them moving.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { signature: string } }
+) {
+  try {
+    const user = await getSelf();
+    const transaction = await getTransactionSubmission(
+      params.signature,
+      user.id
+    );
+
+    return NextResponse.json({ transaction });
+  } catch (err: any) {
+    console.error("[GET /api/wallet/transactions/[signature]] error:", err);
+
+    if (
+      err.message === "Unauthorized" ||
+      err.message === "Authentication failed"
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (err.message === "Transaction not found") {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch transaction status" },
+      { status: 500 }
+    );
+  }
+}
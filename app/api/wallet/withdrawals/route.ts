@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getSelf } from "@/lib/auth-service";
+import {
+  getWithdrawals,
+  syncPendingWithdrawals,
+} from "@/lib/withdrawal-service";
+
+// GET: The current streamer's payouts, newest first
+export async function GET() {
+  try {
+    const self = await getSelf();
+
+    // A stale confirmation status shouldn't hide the history
+    await syncPendingWithdrawals(self.id).catch((err) =>
+      console.error("[GET /api/wallet/withdrawals] sync error:", err)
+    );
+
+    const withdrawals = await getWithdrawals(self.id);
+
+    return NextResponse.json({ withdrawals });
+  } catch (err: any) {
+    console.error("[GET /api/wallet/withdrawals] error:", err);
+
+    if (err.message === "Unauthorized" || err.message === "Authentication failed") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch withdrawals" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,38 @@
 import { headers } from "next/headers";
-import { WebhookReceiver } from "livekit-server-sdk";
+import { Prisma } from "@prisma/client";
+import { WebhookEvent, WebhookReceiver } from "livekit-server-sdk";
 
 import { db } from "@/lib/db";
+import { getStreamByUserId } from "@/lib/stream-service";
+import {
+  endStreamSession,
+  isHostParticipant,
+  recordStreamView,
+  startStreamSession,
+  syncViewerCount,
+} from "@/lib/stream-session-service";
 
 const receiver = new WebhookReceiver(
   process.env.LIVEKIT_API_KEY!,
   process.env.LIVEKIT_API_SECRET!
 );
 
+// LiveKit retries deliveries, so each event id is only processed once
+const claimEvent = async (id: string, event: string) => {
+  try {
+    await db.webhookEvent.create({ data: { id, event } });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+};
+
 export async function POST(req: Request) {
   try {
     const body = await req.text();
@@ -20,52 +45,141 @@ export async function POST(req: Request) {
     }
 
     const event = receiver.receive(body, authorization);
-    
+
     // Enhanced debug logging for multi-streamer issues
     console.log("[LiveKit Webhook]", {
+      id: event.id,
       event: event.event,
+      roomName: event.room?.name ?? event.ingressInfo?.roomName,
       ingressId: event.ingressInfo?.ingressId,
-      roomName: event.ingressInfo?.roomName,
-      participantIdentity: event.ingressInfo?.participantIdentity,
-      participantName: event.ingressInfo?.participantName,
+      participantIdentity:
+        event.participant?.identity ?? event.ingressInfo?.participantIdentity,
     });
 
-    if (event.event === "ingress_started") {
-      const stream = await db.stream.update({
-        where: {
-          ingressId: event.ingressInfo?.ingressId,
-        },
-        data: {
-          isLive: true,
-        },
+    if (event.id && !(await claimEvent(event.id, event.event ?? "unknown"))) {
+      console.log("[Webhook] Skipping duplicate event:", event.id);
+      return new Response("OK", { status: 200 });
+    }
+
+    const eventTime = event.createdAt
+      ? new Date(event.createdAt * 1000)
+      : new Date();
+
+    try {
+      await handleEvent(event, eventTime);
+    } catch (error) {
+      // Release the event so LiveKit's retry gets processed
+      if (event.id) {
+        await db.webhookEvent.delete({ where: { id: event.id } }).catch(() => {});
+      }
+      throw error;
+    }
+
+    // Always return success response for LiveKit
+    return new Response("OK", { status: 200 });
+  } catch (error) {
+    console.error("LiveKit webhook error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+async function handleEvent(event: WebhookEvent, eventTime: Date) {
+  const identity = event.participant?.identity;
+
+  // Room names are streamer user ids; ignore rooms without a stream
+  const roomStream = event.room?.name
+    ? await getStreamByUserId(event.room.name)
+    : null;
+  const roomName = roomStream?.userId;
+
+  switch (event.event) {
+    case "ingress_started": {
+      const stream = await db.stream.findUnique({
+        where: { ingressId: event.ingressInfo?.ingressId },
+      });
+      if (!stream) return;
+
+      const session = await startStreamSession(stream.userId, {
+        streamType: "INGRESS",
+        startedAt: eventTime,
       });
       console.log("[Webhook] Stream set to LIVE:", {
         ingressId: event.ingressInfo?.ingressId,
         streamId: stream.id,
-        userId: stream.userId,
+        sessionId: session.id,
       });
+      return;
     }
 
-    if (event.event === "ingress_ended") {
-      const stream = await db.stream.update({
-        where: {
-          ingressId: event.ingressInfo?.ingressId,
-        },
-        data: {
-          isLive: false,
-        },
+    case "ingress_ended": {
+      const stream = await db.stream.findUnique({
+        where: { ingressId: event.ingressInfo?.ingressId },
+      });
+      if (!stream || stream.streamType !== "INGRESS") return;
+
+      const session = await endStreamSession(stream.userId, {
+        reason: "ingress_ended",
+        endedAt: eventTime,
       });
       console.log("[Webhook] Stream set to OFFLINE:", {
         ingressId: event.ingressInfo?.ingressId,
         streamId: stream.id,
-        userId: stream.userId,
+        sessionId: session?.id,
       });
+      return;
     }
 
-    // Always return success response for LiveKit
-    return new Response("OK", { status: 200 });
-  } catch (error) {
-    console.error("LiveKit webhook error:", error);
-    return new Response("Internal Server Error", { status: 500 });
+    case "track_published": {
+      // Browser broadcasts have no ingress events, so the host publishing a
+      // track is what marks the stream live
+      if (!roomName || !identity || !isHostParticipant(roomName, identity)) {
+        return;
+      }
+      await startStreamSession(roomName, { startedAt: eventTime });
+      return;
+    }
+
+    case "participant_joined": {
+      if (!roomName || !identity) return;
+
+      await recordStreamView(roomName, identity);
+      await syncViewerCount(roomName);
+      return;
+    }
+
+    case "participant_left": {
+      if (!roomName || !identity) return;
+
+      // The publisher leaving covers closed browser tabs and ingresses that
+      // drop without sending ingress_ended
+      if (isHostParticipant(roomName, identity)) {
+        const session = await endStreamSession(roomName, {
+          reason: "host_left",
+          endedAt: eventTime,
+        });
+        console.log("[Webhook] Host left, stream set to OFFLINE:", {
+          roomName,
+          sessionId: session?.id,
+        });
+        return;
+      }
+
+      await syncViewerCount(roomName);
+      return;
+    }
+
+    case "room_finished": {
+      if (!roomName) return;
+
+      const session = await endStreamSession(roomName, {
+        reason: "room_finished",
+        endedAt: eventTime,
+      });
+      console.log("[Webhook] Room finished, stream set to OFFLINE:", {
+        roomName,
+        sessionId: session?.id,
+      });
+      return;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LiveKitRoom } from "@livekit/components-react";
+
+import { createAlertOverlayToken } from "@/actions/token";
+import { TipNotification, useTipBroadcast } from "@/hooks/use-tip-broadcast";
+import { useGiftSound } from "@/hooks/use-gift-sound";
+import { TipOverlay } from "@/components/stream-player/tip-overlay";
+import { GiftTipOverlay } from "@/components/stream-player/gift-tip-overlay";
+
+interface AlertSettings {
+  minAmount: number;
+  displayDurationSeconds: number;
+  isSoundEnabled: boolean;
+  isTtsEnabled: boolean;
+}
+
+interface AlertsProps extends AlertSettings {
+  overlayToken: string;
+}
+
+export const Alerts = ({ overlayToken, ...settings }: AlertsProps) => {
+  const [token, setToken] = useState("");
+
+  useEffect(() => {
+    createAlertOverlayToken(overlayToken)
+      .then(setToken)
+      .catch((error) => console.error("Failed to connect alerts:", error));
+  }, [overlayToken]);
+
+  if (!token) return null;
+
+  return (
+    <LiveKitRoom
+      token={token}
+      serverUrl={process.env.NEXT_PUBLIC_LIVEKIT_WS_URL}
+      audio={false}
+      video={false}
+      connectOptions={{ autoSubscribe: false }}
+    >
+      <AlertQueue {...settings} />
+    </LiveKitRoom>
+  );
+};
+
+// Shows every tip over the minimum one after another, unlike the viewer page
+// which only overlays large tips and gifts
+const AlertQueue = ({
+  minAmount,
+  displayDurationSeconds,
+  isSoundEnabled,
+  isTtsEnabled,
+}: AlertSettings) => {
+  const [queue, setQueue] = useState<TipNotification[]>([]);
+  const { playGiftSound } = useGiftSound();
+
+  const handleTip = useCallback(
+    (notification: TipNotification) => {
+      // The minimum is in USD, whatever token the tip was sent in
+      if ((notification.usdValue ?? 0) < minAmount) return;
+
+      setQueue((prev) =>
+        prev.some((n) => n.id === notification.id)
+          ? prev
+          : [...prev, notification]
+      );
+    },
+    [minAmount]
+  );
+
+  useTipBroadcast(handleTip);
+
+  const current = queue[0];
+
+  // Gift alerts play their own sound
+  useEffect(() => {
+    if (current && !current.giftType && isSoundEnabled) {
+      playGiftSound(current.amount);
+    }
+  }, [current, isSoundEnabled, playGiftSound]);
+
+  const handleComplete = useCallback(() => {
+    setQueue((prev) => prev.slice(1));
+  }, []);
+
+  if (!current) return null;
+
+  const displayDuration = displayDurationSeconds * 1000;
+
+  return current.giftType ? (
+    <GiftTipOverlay
+      key={current.id}
+      notification={current}
+      onComplete={handleComplete}
+      isTtsEnabled={isTtsEnabled}
+      isSoundEnabled={isSoundEnabled}
+      displayDuration={displayDuration}
+    />
+  ) : (
+    <TipOverlay
+      key={current.id}
+      notification={current}
+      onComplete={handleComplete}
+      isTtsEnabled={isTtsEnabled}
+      displayDuration={displayDuration}
+    />
+  );
+};
@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation";
+
+import { getAlertOverlayByToken } from "@/lib/alert-overlay-service";
+
+import { Alerts } from "./_components/alerts";
+
+export const dynamic = "force-dynamic";
+
+interface AlertsPageProps {
+  params: {
+    token: string;
+  };
+}
+
+const AlertsPage = async ({ params }: AlertsPageProps) => {
+  const overlay = await getAlertOverlayByToken(params.token);
+
+  if (!overlay) {
+    notFound();
+  }
+
+  return (
+    <Alerts
+      overlayToken={overlay.token}
+      minAmount={Number(overlay.minAmount)}
+      displayDurationSeconds={overlay.displayDurationSeconds}
+      isSoundEnabled={overlay.isSoundEnabled}
+      isTtsEnabled={overlay.user.stream?.isTipTtsEnabled ?? false}
+    />
+  );
+};
+
+export default AlertsPage;
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LiveKitRoom } from "@livekit/components-react";
+
+import { createAlertOverlayToken } from "@/actions/token";
+import { TipGoalBar } from "@/components/stream-player/tip-goal-bar";
+
+interface GoalProps {
+  overlayToken: string;
+  hostIdentity: string;
+}
+
+export const Goal = ({ overlayToken, hostIdentity }: GoalProps) => {
+  const [token, setToken] = useState("");
+
+  useEffect(() => {
+    createAlertOverlayToken(overlayToken, "goal")
+      .then(setToken)
+      .catch((error) => console.error("Failed to connect goal:", error));
+  }, [overlayToken]);
+
+  if (!token) return null;
+
+  return (
+    <LiveKitRoom
+      token={token}
+      serverUrl={process.env.NEXT_PUBLIC_LIVEKIT_WS_URL}
+      audio={false}
+      video={false}
+      connectOptions={{ autoSubscribe: false }}
+    >
+      <div className="p-4">
+        <TipGoalBar hostIdentity={hostIdentity} variant="overlay" />
+      </div>
+    </LiveKitRoom>
+  );
+};
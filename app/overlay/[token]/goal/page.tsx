@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+
+import { getAlertOverlayByToken } from "@/lib/alert-overlay-service";
+
+import { Goal } from "./_components/goal";
+
+export const dynamic = "force-dynamic";
+
+interface GoalPageProps {
+  params: {
+    token: string;
+  };
+}
+
+const GoalPage = async ({ params }: GoalPageProps) => {
+  const overlay = await getAlertOverlayByToken(params.token);
+
+  if (!overlay) {
+    notFound();
+  }
+
+  return <Goal overlayToken={overlay.token} hostIdentity={overlay.userId} />;
+};
+
+export default GoalPage;
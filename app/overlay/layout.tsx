@@ -0,0 +1,12 @@
+// OBS composites browser sources over the broadcast, so these pages must not
+// paint the app's background
+const OverlayLayout = ({ children }: { children: React.ReactNode }) => {
+  return (
+    <>
+      <style>{`html, body { background: transparent !important; }`}</style>
+      {children}
+    </>
+  );
+};
+
+export default OverlayLayout;
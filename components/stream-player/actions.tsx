@@ -13,6 +13,8 @@ import { onFollow, onUnfollow } from "@/actions/follow";
 import { ChatVariant, useChatSidebar } from "@/store/use-chat-sidebar";
 import { useMobile } from "@/hooks/use-mobile";
 
+import { SubscribeButton } from "./subscribe-button";
+
 interface ActionsProps {
   hostIdentity: string;
   isFollowing: boolean;
@@ -97,6 +99,8 @@ export const Actions = ({
         {isFollowing ? "Unfollow" : "Follow"}
       </Button>
 
+      {!isHost && <SubscribeButton hostIdentity={hostIdentity} />}
+
       <Button
         disabled={isHost}
         onClick={handleSendTip}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useCategories } from "@/hooks/use-categories";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Radix Select can't hold an empty value, so "no category" gets a sentinel
+const NO_CATEGORY = "none";
+
+interface CategorySelectProps {
+  value: string | null;
+  onChange: (subCategoryId: string | null) => void;
+  disabled?: boolean;
+}
+
+export const CategorySelect = ({
+  value,
+  onChange,
+  disabled,
+}: CategorySelectProps) => {
+  const { data: categories, isLoading } = useCategories();
+
+  return (
+    <Select
+      value={value ?? NO_CATEGORY}
+      onValueChange={(next) => onChange(next === NO_CATEGORY ? null : next)}
+      disabled={disabled || isLoading}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Select a category" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+        {categories?.map((category) => (
+          <SelectGroup key={category.id}>
+            <SelectLabel>{category.name}</SelectLabel>
+            {category.subCategories.map((subCategory) => (
+              <SelectItem key={subCategory.id} value={subCategory.id}>
+                {subCategory.name}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
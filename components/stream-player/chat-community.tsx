@@ -12,13 +12,17 @@ import { CommunityItem } from "./community-item";
 
 interface ChatCommunityProps {
   hostName: string;
+  hostIdentity: string;
   viewerName: string;
+  canModerate: boolean;
   isHidden: boolean;
 };
 
 export const ChatCommunity = ({
   hostName,
+  hostIdentity,
   viewerName,
+  canModerate,
   isHidden
 }: ChatCommunityProps) => {
   const [value, setValue] = useState("");
@@ -69,7 +73,9 @@ export const ChatCommunity = ({
           <CommunityItem
             key={participant.identity}
             hostName={hostName}
+            hostIdentity={hostIdentity}
             viewerName={viewerName}
+            canModerate={canModerate}
             participantName={participant.name}
             participantIdentity={participant.identity}
           />
@@ -18,9 +18,15 @@ interface ChatFormProps {
   onChange: (value: string) => void;
   isHidden: boolean;
   isFollowersOnly: boolean;
+  isTippersOnly: boolean;
+  isSubscribersOnly: boolean;
   isFollowing: boolean;
   isDelayed: boolean;
+  slowModeSeconds: number;
   isHost?: boolean;
+  isGuest?: boolean;
+  isSending?: boolean;
+  isTimedOut?: boolean;
 }
 
 export const ChatForm = ({
@@ -30,19 +36,32 @@ export const ChatForm = ({
   onChange,
   isHidden,
   isFollowersOnly,
+  isTippersOnly,
+  isSubscribersOnly,
   isFollowing,
   isDelayed,
+  slowModeSeconds,
   isHost = false,
+  isGuest = false,
+  isSending = false,
+  isTimedOut = false,
 }: ChatFormProps) => {
-  const [isDelayBlocked, setIsDelayBlocked] = useState(false);
   const [showPicker, setShowPicker] = useState(false);
   const [showEmoji, setShowEmoji] = useState(false);
   const emojiButtonRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Hosts can always chat regardless of restrictions
+  // Hosts can always chat regardless of restrictions. The server enforces
+  // every mode, this only spares viewers a rejected message.
   const isFollowersOnlyAndNotFollowing = isFollowersOnly && !isFollowing && !isHost;
-  const isDisabled = isHidden || (isDelayBlocked && !isHost) || isFollowersOnlyAndNotFollowing;
+  const isDisabled =
+    isHidden || isGuest || isSending || isTimedOut || isFollowersOnlyAndNotFollowing;
+  const hasRestrictions =
+    isFollowersOnly ||
+    isTippersOnly ||
+    isSubscribersOnly ||
+    isDelayed ||
+    slowModeSeconds > 0;
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -50,15 +69,7 @@ export const ChatForm = ({
 
     if (!value || isDisabled) return;
 
-    if (isDelayed && !isDelayBlocked && !isHost) {
-      setIsDelayBlocked(true);
-      setTimeout(() => {
-        setIsDelayBlocked(false);
-        onSubmit();
-      }, 3000);
-    } else {
-      onSubmit();
-    }
+    onSubmit();
   };
 
   // Close bubbling emoji picker on outside click
@@ -108,7 +119,14 @@ export const ChatForm = ({
       className="relative flex flex-row items-center p-3 h-16"
     >
       <div className="w-full flex items-center">
-        <ChatInfo isDelayed={isDelayed} isFollowersOnly={isFollowersOnly} isHost={isHost} />
+        <ChatInfo
+          isDelayed={isDelayed}
+          isFollowersOnly={isFollowersOnly}
+          isTippersOnly={isTippersOnly}
+          isSubscribersOnly={isSubscribersOnly}
+          slowModeSeconds={slowModeSeconds}
+          isHost={isHost}
+        />
         <div className="">
           {/* Input + chat-input emoji picker button */}
           <div className="flex w-full gap-3">
@@ -117,10 +135,16 @@ export const ChatForm = ({
               onChange={(e) => onChange(e.target.value)}
               value={value}
               disabled={isDisabled}
-              placeholder="Send a message"
+              placeholder={
+                isGuest
+                  ? "Sign in to chat"
+                  : isTimedOut
+                    ? "You are timed out"
+                    : "Send a message"
+              }
               className={cn(
                 "w-full text-sm border-white/10",
-                (isFollowersOnly || isDelayed) && "rounded-t-none border-t-0"
+                hasRestrictions && "rounded-t-none border-t-0"
               )}
             />
             <button
@@ -2,52 +2,70 @@ import { useMemo } from "react";
 import { Info } from "lucide-react";
 
 import { Hint } from "@/components/hint";
+import { CHAT_DELAY_SECONDS } from "@/lib/chat-relay";
 
 interface ChatInfoProps {
   isDelayed: boolean;
   isFollowersOnly: boolean;
+  isTippersOnly: boolean;
+  isSubscribersOnly: boolean;
+  slowModeSeconds: number;
   isHost?: boolean;
 };
 
 export const ChatInfo = ({
   isDelayed,
   isFollowersOnly,
+  isTippersOnly,
+  isSubscribersOnly,
+  slowModeSeconds,
   isHost = false,
 }: ChatInfoProps) => {
-  const hint = useMemo(() => {
-    if (isFollowersOnly && !isDelayed) {
-      return "Only followers can chat";
-    }
+  const modes = useMemo(() => {
+    const active: { label: string; hint: string }[] = [];
 
-    if (isDelayed && !isFollowersOnly) {
-      return "Messages are delayed by 3 seconds";
+    if (isFollowersOnly) {
+      active.push({ label: "Followers only", hint: "Only followers can chat" });
     }
 
-    if (isDelayed && isFollowersOnly) {
-      return "Only followers can chat. Messages are delayed by 3 seconds"
+    if (isTippersOnly) {
+      active.push({
+        label: "Tippers only",
+        hint: "Only viewers who have tipped can chat",
+      });
     }
 
-    return "";
-  }, [isDelayed, isFollowersOnly]);
-
-
-  const label = useMemo(() => {
-    if (isFollowersOnly && !isDelayed) {
-      return "Followers only";
+    if (isSubscribersOnly) {
+      active.push({
+        label: "Subscribers only",
+        hint: "Only subscribers can chat",
+      });
     }
 
-    if (isDelayed && !isFollowersOnly) {
-      return "Slow mode";
+    if (slowModeSeconds > 0) {
+      active.push({
+        label: "Slow mode",
+        hint: `One message every ${slowModeSeconds} seconds`,
+      });
     }
 
-    if (isDelayed && isFollowersOnly) {
-      return "Followers only and slow mode"
+    if (isDelayed) {
+      active.push({
+        label: "Delayed",
+        hint: `Messages are delayed by ${CHAT_DELAY_SECONDS} seconds`,
+      });
     }
 
-    return "";
-  }, [isDelayed, isFollowersOnly]);
+    return active;
+  }, [
+    isDelayed,
+    isFollowersOnly,
+    isTippersOnly,
+    isSubscribersOnly,
+    slowModeSeconds,
+  ]);
 
-  if (!isDelayed && !isFollowersOnly) {
+  if (modes.length === 0) {
     return null;
   }
 
@@ -58,11 +76,11 @@ export const ChatInfo = ({
 
   return (
     <div className="p-2 text-muted-foreground bg-white/5 border border-white/10 w-full rounded-t-md flex items-center gap-x-2">
-      <Hint label={hint}>
+      <Hint label={modes.map(({ hint }) => hint).join(". ")}>
         <Info className="h-4 w-4" />
       </Hint>
       <p className="text-xs font-semibold">
-        {label}
+        {modes.map(({ label }) => label).join(", ")}
       </p>
     </div>
   );
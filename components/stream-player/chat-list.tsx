@@ -1,23 +1,25 @@
 "use client";
 
-import { ReceivedChatMessage } from "@livekit/components-react";
-
 import { Skeleton } from "@/components/ui/skeleton";
 
-import { ChatMessage } from "./chat-message";
+import { ChatMessage, ChatMessageData } from "./chat-message";
 import { TipNotification } from "@/hooks/use-tip-broadcast";
 import { cn } from "@/lib/utils";
 
 interface ChatListProps {
-  messages: ReceivedChatMessage[];
+  messages: ChatMessageData[];
   isHidden: boolean;
   notifications: TipNotification[]
+  hostIdentity: string;
+  canModerate: boolean;
 };
 
 export const ChatList = ({
   messages,
   isHidden,
-  notifications
+  notifications,
+  hostIdentity,
+  canModerate,
 }: ChatListProps) => {
   if (isHidden || !messages || messages.length === 0) {
     return (
@@ -33,8 +35,10 @@ export const ChatList = ({
     <div className={cn("flex flex-1 flex-col-reverse overflow-y-auto p-3 h-[calc(100%-6rem)]", notifications?.length > 0 && "h-[calc(100%-6rem)]")}>
       {messages.map((message) => (
         <ChatMessage
-          key={message.timestamp}
+          key={message.id}
           data={message}
+          hostIdentity={hostIdentity}
+          canModerate={canModerate}
         />
       ))}
     </div>
@@ -1,29 +1,69 @@
 "use client";
 
 import { format } from "date-fns";
-import { ReceivedChatMessage } from "@livekit/components-react";
+import { Star } from "lucide-react";
 import { stringToColor } from "@/lib/utils";
+import { SubscriberBadge } from "@/lib/subscription";
+import { Hint } from "@/components/hint";
+
+import { ModerationActions } from "./moderation-actions";
+
+// Live LiveKit messages and stored history share this shape
+export interface ChatMessageData {
+  id: string;
+  timestamp: number;
+  message: string;
+  senderId: string;
+  senderName: string;
+  senderBadge: SubscriberBadge | null;
+}
 
 interface ChatMessageProps {
-  data: ReceivedChatMessage;
+  data: ChatMessageData;
+  hostIdentity: string;
+  canModerate: boolean;
 }
 
-export const ChatMessage = ({ data }: ChatMessageProps) => {
-  const color = stringToColor(data.from?.name || "");
+export const ChatMessage = ({
+  data,
+  hostIdentity,
+  canModerate,
+}: ChatMessageProps) => {
+  const color = stringToColor(data.senderName);
 
   return (
-    <div className="flex gap-2 p-2 rounded-md hover:bg-white/5">
+    <div className="group flex gap-2 p-2 rounded-md hover:bg-white/5">
       {/* Fix: Changed "HH:MM" to "HH:mm" for proper minute formatting */}
       <p className="text-sm text-white/40">{format(data.timestamp, "HH:mm")}</p>
       <div className="flex flex-wrap items-baseline gap-1 grow">
+        {data.senderBadge && (
+          <Hint
+            label={`${data.senderBadge.tierName} subscriber for ${
+              data.senderBadge.months
+            } month${data.senderBadge.months === 1 ? "" : "s"}`}
+          >
+            <span className="flex items-center gap-0.5 rounded bg-primary/20 px-1 text-[10px] font-semibold text-primary">
+              <Star className="h-2.5 w-2.5 fill-current" />
+              {data.senderBadge.months}
+            </span>
+          </Hint>
+        )}
         <p className="text-sm font-semibold whitespace-nowrap">
           <span className="truncate" style={{ color: color }}>
-            {data.from?.name}
+            {data.senderName}
           </span>
           :
         </p>
         <p className="text-sm break-all">{data.message}</p>
       </div>
+      {canModerate && data.senderId !== hostIdentity && (
+        <ModerationActions
+          hostIdentity={hostIdentity}
+          userId={data.senderId}
+          username={data.senderName}
+          messageId={data.id}
+        />
+      )}
     </div>
   );
 };
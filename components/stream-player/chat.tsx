@@ -1,14 +1,15 @@
 "use client";
 
-import { useCallback, useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { ConnectionState } from "livekit-client";
 import { useMediaQuery } from "usehooks-ts";
 import { useAtom } from "jotai";
+import { toast } from "sonner";
 import {
-  useChat,
   useConnectionState,
+  useLocalParticipant,
+  useParticipantInfo,
   useRemoteParticipant,
-  useRoomContext,
 } from "@livekit/components-react";
 
 import { ChatVariant, useChatSidebar } from "@/store/use-chat-sidebar";
@@ -20,11 +21,17 @@ import {
   addStreamTipNotificationFamily,
   clearOldReactionsAtom,
   clearOldStreamTipNotificationsFamily,
+  streamTipAlertSettingsFamily,
   chatInputValueAtom,
 } from "@/store/chat-atoms";
+import { useChatHistory } from "@/hooks/use-chat-history";
+import { useChatRelay } from "@/hooks/use-chat-relay";
+import { sendChatMessage } from "@/actions/chat";
+import { parseViewerMetadata } from "@/lib/moderation";
 
 import { ChatForm } from "./chat-form";
 import { ChatList, ChatListSkeleton } from "./chat-list";
+import { ChatMessageData } from "./chat-message";
 import { ChatHeader, ChatHeaderSkeleton } from "./chat-header";
 import { ChatCommunity } from "./chat-community";
 import { TipComponent } from "./gift-chat";
@@ -41,6 +48,9 @@ interface ChatProps {
   isChatEnabled: boolean;
   isChatDelayed: boolean;
   isChatFollowersOnly: boolean;
+  isChatTippersOnly: boolean;
+  isChatSubscribersOnly: boolean;
+  chatSlowModeSeconds: number;
   streamId: string;
 }
 
@@ -53,6 +63,9 @@ export const Chat = ({
   isChatEnabled,
   isChatDelayed,
   isChatFollowersOnly,
+  isChatTippersOnly,
+  isChatSubscribersOnly,
+  chatSlowModeSeconds,
   streamId,
 }: ChatProps) => {
   const { user } = useUser();
@@ -69,6 +82,24 @@ export const Chat = ({
   // Check if the current viewer is the host
   const isHost = viewerName === hostName;
 
+  // Moderator status and timeouts come from the viewer's participant metadata
+  const { localParticipant } = useLocalParticipant();
+  const { metadata } = useParticipantInfo({ participant: localParticipant });
+  const viewerMetadata = useMemo(() => parseViewerMetadata(metadata), [metadata]);
+  const canModerate = isHost || !!viewerMetadata.isModerator;
+
+  const [isTimedOut, setIsTimedOut] = useState(false);
+
+  useEffect(() => {
+    const remaining = (viewerMetadata.timedOutUntil ?? 0) - Date.now();
+    setIsTimedOut(remaining > 0);
+
+    if (remaining <= 0) return;
+
+    const timeout = setTimeout(() => setIsTimedOut(false), remaining);
+    return () => clearTimeout(timeout);
+  }, [viewerMetadata.timedOutUntil]);
+
   // Jotai atoms for state management
   const [value, setValue] = useAtom(chatInputValueAtom);
   const [reactions] = useAtom(reactionsAtom);
@@ -79,15 +110,20 @@ export const Chat = ({
   const [, addTipNotification] = useAtom(addStreamTipNotificationFamily(hostIdentity));
   const [, clearOldReactions] = useAtom(clearOldReactionsAtom);
   const [, clearOldTipNotifications] = useAtom(clearOldStreamTipNotificationsFamily(hostIdentity));
+  const [alertSettings] = useAtom(streamTipAlertSettingsFamily(hostIdentity));
 
-  const { chatMessages: messages, send } = useChat();
-  const room = useRoomContext();
+  const { messages, deletedIds } = useChatRelay();
+  const [isSending, setIsSending] = useState(false);
+
+  // Live messages only cover the time since we joined the room
+  const [joinedAt] = useState(() => Date.now());
+  const { data: history } = useChatHistory(hostIdentity, joinedAt);
 
   const handleTipNotification = useCallback((notification: TipNotification) => {
     addTipNotification(notification);
   }, [addTipNotification]);
 
-  const { broadcastTip } = useTipBroadcast(room, handleTipNotification);
+  useTipBroadcast(handleTipNotification, alertSettings);
 
   useEffect(() => {
     if (matches) {
@@ -105,15 +141,40 @@ export const Chat = ({
     return () => clearInterval(interval);
   }, [clearOldReactions, clearOldTipNotifications]);
 
-  const reversedMessages = useMemo(() => {
-    return messages.sort((a, b) => b.timestamp - a.timestamp);
-  }, [messages]);
+  const reversedMessages = useMemo<ChatMessageData[]>(() => {
+    const earlier = (history ?? []).map((message) => ({
+      id: message.id,
+      timestamp: new Date(message.createdAt).getTime(),
+      message: message.content,
+      senderId: message.sender.id,
+      senderName: message.sender.username,
+      senderBadge: message.senderBadge,
+    }));
+    // Delayed messages can be stored before we joined but published after
+    const live = messages
+      .filter((message) => !earlier.some(({ id }) => id === message.id))
+      .map((message) => ({
+        id: message.id,
+        timestamp: message.timestamp,
+        message: message.message,
+        senderId: message.senderId,
+        senderName: message.senderName,
+        senderBadge: message.senderBadge ?? null,
+      }));
+
+    return [...earlier, ...live]
+      .filter((message) => !deletedIds.includes(message.id))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }, [history, messages, deletedIds]);
 
   const onSubmit = () => {
-    if (!send) return;
+    if (!user || isSending) return;
 
-    send(value);
-    setValue("");
+    setIsSending(true);
+    sendChatMessage(hostIdentity, value)
+      .then(() => setValue(""))
+      .catch((error) => toast.error(error.message || "Failed to send message"))
+      .finally(() => setIsSending(false));
   };
 
   const onChange = (value: string) => {
@@ -148,7 +209,13 @@ export const Chat = ({
         <>
           <div className="flex-1 overflow-y-auto p-2">
             <TipNotifications notifications={tipNotifications} />
-            <ChatList messages={reversedMessages} notifications={tipNotifications} isHidden={isHidden} />
+            <ChatList
+              messages={reversedMessages}
+              notifications={tipNotifications}
+              isHidden={isHidden}
+              hostIdentity={hostIdentity}
+              canModerate={canModerate}
+            />
           </div>
           <ChatForm
             onSubmit={onSubmit}
@@ -157,9 +224,15 @@ export const Chat = ({
             onChange={onChange}
             isHidden={isHidden}
             isFollowersOnly={isChatFollowersOnly}
+            isTippersOnly={isChatTippersOnly}
+            isSubscribersOnly={isChatSubscribersOnly}
             isDelayed={isChatDelayed}
+            slowModeSeconds={chatSlowModeSeconds}
             isFollowing={isFollowing}
             isHost={isHost}
+            isGuest={!user}
+            isTimedOut={isTimedOut}
+            isSending={isSending}
           />
         </>
       )}
@@ -167,6 +240,8 @@ export const Chat = ({
         <ChatCommunity
           viewerName={viewerName}
           hostName={hostName}
+          hostIdentity={hostIdentity}
+          canModerate={canModerate}
           isHidden={isHidden}
         />
       )}
@@ -7,18 +7,25 @@ import { MinusCircle } from "lucide-react";
 import { Hint } from "@/components/hint";
 import { block } from "@/actions/block";
 import { cn, stringToColor } from "@/lib/utils";
+import { getUserIdFromIdentity } from "@/lib/moderation";
 import { Button } from "@/components/ui/button";
 
+import { ModerationActions } from "./moderation-actions";
+
 interface CommunityItemProps {
   hostName: string;
+  hostIdentity: string;
   viewerName: string;
+  canModerate: boolean;
   participantName?: string;
   participantIdentity: string;
 }
 
 export const CommunityItem = ({
   hostName,
+  hostIdentity,
   viewerName,
+  canModerate,
   participantIdentity,
   participantName,
 }: CommunityItemProps) => {
@@ -27,12 +34,14 @@ export const CommunityItem = ({
   const color = stringToColor(participantName || "");
   const isSelf = participantName === viewerName;
   const isHost = viewerName === hostName;
+  // Null for the host's own participants
+  const participantUserId = getUserIdFromIdentity(participantIdentity, hostIdentity);
 
   const handleBlock = () => {
-    if (!participantName || isSelf || !isHost) return;
+    if (!participantName || !participantUserId || isSelf || !isHost) return;
 
     startTransition(() => {
-      block(participantIdentity)
+      block(participantUserId)
         .then(() => toast.success(`Blocked ${participantName}`))
         .catch(() => toast.error("Something went wrong"));
     });
@@ -46,18 +55,27 @@ export const CommunityItem = ({
       )}
     >
       <p style={{ color: color }}>{participantName}</p>
-      {isHost && !isSelf && (
-        <Hint label="Block">
-          <Button
-            variant="ghost"
-            disabled={isPending}
-            onClick={handleBlock}
-            className="h-auto w-auto p-1 opacity-0 group-hover:opacity-100 transition"
-          >
-            <MinusCircle className="h-4 w-4 text-muted-foreground" />
-          </Button>
-        </Hint>
-      )}
+      <div className="flex items-center gap-x-1">
+        {canModerate && !isSelf && participantUserId && (
+          <ModerationActions
+            hostIdentity={hostIdentity}
+            userId={participantUserId}
+            username={participantName || ""}
+          />
+        )}
+        {isHost && !isSelf && participantUserId && (
+          <Hint label="Block">
+            <Button
+              variant="ghost"
+              disabled={isPending}
+              onClick={handleBlock}
+              className="h-auto w-auto p-1 opacity-0 group-hover:opacity-100 transition"
+            >
+              <MinusCircle className="h-4 w-4 text-muted-foreground" />
+            </Button>
+          </Hint>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,25 +1,34 @@
 "use client";
 
 import { useState, useEffect, useTransition } from "react";
+import { useAtom } from "jotai";
 import { useUser, useWallet } from "@civic/auth-web3/react";
 import { toast } from "sonner";
 import { getProgram } from "@/utils/program";
 import { PublicKey } from "@solana/web3.js";
 import { Wallet } from "@coral-xyz/anchor";
 import Image from "next/image";
-import { allGifts } from "./gift-items";
+import { useGiftCatalog } from "@/hooks/use-gift-catalog";
 import { GiftMode, useChatSidebar } from "@/store/use-chat-sidebar";
-import { connection, supportedTokens } from "@/config/wallet";
+import { streamTipAlertSettingsFamily } from "@/store/chat-atoms";
+import { connection } from "@/config/wallet";
+import {
+  DEFAULT_TOKEN,
+  formatTokenAmount,
+  getSplTokens,
+  TokenType,
+} from "@/config/tokens";
 import { fetchStreamerAta } from "@/utils/wallet";
 import { FundWallet } from "./fund-wallet";
 import { useBalance, useCurrentUserAta } from "@/hooks/use-balance";
 import { withdraw } from "@/app/(dashboard)/u/[username]/profile/_components/withdrawalService";
+import { usePrices } from "@/app/(dashboard)/u/[username]/profile/_components/usePrices";
 import { userHasWallet } from "@civic/auth-web3";
 import { fetchSolanaPrice } from "@/utils/solana-price";
 import { Button } from "../ui/button";
-import { createTip } from "@/actions/tip";
-import { useTipBroadcast } from "@/hooks/use-tip-broadcast";
-import { useRoomContext } from "@livekit/components-react";
+import { createAndBroadcastTip } from "@/actions/tip";
+import { getTipMessageLimit } from "@/lib/tip-message";
+import { TipMessageInput } from "./tip-message-input";
 
 interface TipComponentProps {
   hostIdentity: string;
@@ -41,6 +50,7 @@ export const TipComponent = ({
   const { giftMode } = useChatSidebar((state) => state);
   const [selectedAmount, setSelectedAmount] = useState(5);
   const [customAmount, setCustomAmount] = useState(5);
+  const [tipMessage, setTipMessage] = useState("");
   // const [isLoading, setIsLoading] = useState(false);
   const [isPending, startTransition] = useTransition();
   const [streamerAtaAddress, setStreamerAtaAddress] = useState<string>("");
@@ -49,24 +59,33 @@ export const TipComponent = ({
   const hasWallet = userHasWallet(userContext);
   const userAddress = hasWallet ? userContext.solana.address : "";
 
-  const { data: currentUserAta } = useCurrentUserAta();
+  const [selectedToken, setSelectedToken] = useState<TokenType>(DEFAULT_TOKEN);
+  // Gifts are priced in the default token
+  const tipToken = giftMode === GiftMode.TIP ? selectedToken : DEFAULT_TOKEN;
+
+  const { data: currentUserAta } = useCurrentUserAta({ tokenType: tipToken });
 
   // Gift states
   const [selectedFilter, setSelectedFilter] = useState<"all" | "affordable">(
     "all"
   );
   const [selectedGift, setSelectedGift] = useState<string | null>(null);
+  const { data: gifts = [] } = useGiftCatalog(streamerId || hostIdentity);
 
   const { wallet, address: solAddress } = useWallet({ type: "solana" });
   const address = solAddress || "";
 
-  const { data: balance, isLoading } = useBalance(currentUserAta?.streamerAta);
-
-  const room = useRoomContext();
-  const { broadcastTip } = useTipBroadcast(room);
+  const { data: balance, isLoading } = useBalance(currentUserAta?.streamerAta, {
+    tokenType: tipToken,
+  });
 
   const tipAmounts = [5, 10, 20, 50, 100, 1000];
 
+  // Message tiers go by USD value; until prices load, the shortest applies
+  const { prices } = usePrices();
+  const tipUsdValue = customAmount * (prices[tipToken] ?? 0);
+  const [alertSettings] = useAtom(streamTipAlertSettingsFamily(hostIdentity));
+
   const handleAmountSelect = (amount: number) => {
     setSelectedAmount(amount);
     setCustomAmount(amount);
@@ -94,17 +113,21 @@ export const TipComponent = ({
       return;
     }
 
+    // Checked before the transfer so a rejected message can't orphan a payment
+    if (
+      tipMessage.trim().length > getTipMessageLimit(tipUsdValue, alertSettings)
+    ) {
+      toast.error("Your message is too long for this tip amount");
+      return;
+    }
+
     startTransition(async () => {
       try {
         // Find selected gift details at the start
-        const selectedGiftData = selectedGift ? allGifts.find(g => g.id === selectedGift) : null;
+        const selectedGiftData = selectedGift ? gifts.find(g => g.id === selectedGift) : null;
         
         const program = getProgram(connection, wallet as unknown as Wallet);
 
-        const tokenInfo = supportedTokens;
-        if (!tokenInfo) throw new Error("Unsupported token");
-
-        const tokenMint = new PublicKey(tokenInfo.contractAddress);
         const tipAmount = customAmount;
 
         const [streamerStatePDA] = PublicKey.findProgramAddressSync(
@@ -119,10 +142,12 @@ export const TipComponent = ({
         // );
         let withdrawalParams: any = {
           amount: tipAmount,
+          tokenType: tipToken,
           destinationAddress: streamerStatePDA.toBase58(),
           walletType: "platform",
           userAddress: userAddress ?? "",
           connection,
+          recipientId: streamerId || hostIdentity,
         };
 
         withdrawalParams.userContext = userContext;
@@ -134,31 +159,20 @@ export const TipComponent = ({
             solPriceData.price
           );
 
-          // Save tip to database after successful transaction
+          // Save tip to database after successful transaction; the server
+          // verifies it on-chain and announces it to the room
           if (streamerId) {
             try {
-              const tipResult = await createTip({
+              await createAndBroadcastTip({
                 amount: customAmount,
-                tokenType: "USDC", // using USDC for now
+                tokenType: tipToken,
                 streamerId: streamerId,
                 streamId: streamId,
                 transactionHash: signature,
+                message: tipMessage.trim() || undefined,
                 // Include gift information if a gift was selected
-                ...(selectedGiftData && {
-                  giftType: selectedGiftData.id,
-                  giftName: selectedGiftData.name,
-                }),
+                giftType: selectedGiftData?.id,
               });
-
-              // Broadcast tip notification to all viewers
-              if (tipResult.success && tipResult.data) {
-                try {
-                  await broadcastTip(tipResult.data);
-                } catch (broadcastError) {
-                  console.error("Failed to broadcast tip notification:", broadcastError);
-                  // Don't fail the entire operation if broadcast fails
-                }
-              }
             } catch (dbError) {
               console.error("Failed to save tip to database:", dbError);
               // Don't fail the entire transaction if DB save fails
@@ -166,10 +180,11 @@ export const TipComponent = ({
             }
           }
 
-          toast.success(`Tip sent! $${customAmount}${selectedGiftData ? ` with ${selectedGiftData.name}` : ''}`);
+          toast.success(`Tip sent! ${formatTokenAmount(customAmount, tipToken)}${selectedGiftData ? ` with ${selectedGiftData.name}` : ''}`);
           
-          // Reset selected gift after successful tip
+          // Reset selected gift and message after successful tip
           setSelectedGift(null);
+          setTipMessage("");
         } catch (error: any) {
           console.error("Tip error:", error?.message);
           toast.error(`Failed to send tip: ${error.message}`);
@@ -185,7 +200,7 @@ export const TipComponent = ({
   };
 
   // Gift functions
-  const filteredGifts = allGifts.filter(
+  const filteredGifts = gifts.filter(
     (gift) => selectedFilter === "all" || gift.price <= 50
   );
 
@@ -231,6 +246,32 @@ export const TipComponent = ({
         <>
           {/* Token Selector & Balance */}
           <div className="p-4 space-y-3">
+            {getSplTokens().length > 1 && (
+              <div className="flex flex-row gap-2">
+                {getSplTokens().map((token) => (
+                  <button
+                    key={token.symbol}
+                    onClick={() => setSelectedToken(token.symbol)}
+                    className={`
+                    flex items-center gap-1 h-8 px-3 rounded-sm border font-medium text-xs transition-all
+                    ${
+                      selectedToken === token.symbol
+                        ? "bg-[#FE3C3E40] border-[#FE3C3E] text-white"
+                        : "bg-[#353534] border-[#353534] text-gray-300 hover:border-gray-500"
+                    }
+                  `}
+                  >
+                    <Image
+                      src={token.icon}
+                      alt={token.symbol}
+                      width={14}
+                      height={14}
+                    />
+                    {token.symbol}
+                  </button>
+                ))}
+              </div>
+            )}
             <div>
               <div className="__balance_container flex flex-row w-full">
                 <div className="__image_container flex place-items-center">
@@ -245,7 +286,9 @@ export const TipComponent = ({
                   <span className="text-sm">
                     Balance:{" "}
                     <span className="text-green-400">
-                      {isLoading ? "Loading..." : `$${balance}`}
+                      {isLoading
+                        ? "Loading..."
+                        : formatTokenAmount(balance ?? 0, tipToken)}
                     </span>
                   </span>
                 </div>
@@ -297,6 +340,14 @@ export const TipComponent = ({
                   max={balance}
                 />
               </div>
+
+              <TipMessageInput
+                value={tipMessage}
+                onChange={setTipMessage}
+                usdValue={tipUsdValue}
+                settings={alertSettings}
+                disabled={isPending}
+              />
             </div>
             <div className="flex flex-row md:p-4 space-y-4 w-full items-center justify-between">
               {/* Send Tip Button */}
@@ -313,7 +364,9 @@ export const TipComponent = ({
                   <span className="text-base">
                     Balance:{" "}
                     <span className="text-green-400">
-                      {isLoading ? "Loading..." : `$${balance}`}
+                      {isLoading
+                        ? "Loading..."
+                        : formatTokenAmount(balance ?? 0, tipToken)}
                     </span>
                   </span>
                 </div>
@@ -392,7 +445,7 @@ export const TipComponent = ({
                         : "bg-secondary text-gray-300 hover:border-gray-500"
                     }`}
                   >
-                    {gift.premium && (
+                    {gift.isPremium && (
                       <div className="absolute top-1 right-1">
                         <div className=" text-black text-xs font-bold px-1.5 py-0.5 rounded-full">
                           ⚡
@@ -400,7 +453,14 @@ export const TipComponent = ({
                       </div>
                     )}
 
-                    <div className="mb-1">{gift.icon}</div>
+                    <div className="mb-1">
+                      <Image
+                        width={60}
+                        height={60}
+                        src={gift.imageUrl}
+                        alt={gift.name}
+                      />
+                    </div>
 
                     <span className="text-white font-medium text-xs mb-1 text-center leading-tight">
                       {gift.name}
@@ -416,6 +476,15 @@ export const TipComponent = ({
                 ))}
               </div>
             </div>
+            <div className="pt-4 md:px-4">
+              <TipMessageInput
+                value={tipMessage}
+                onChange={setTipMessage}
+                usdValue={tipUsdValue}
+                settings={alertSettings}
+                disabled={isPending}
+              />
+            </div>
             <div className="flex items-center p-0 md:p-4 space-y-4 w-full justify-between">
               {/* Send Tip Button */}
               <div className="flex items-center">
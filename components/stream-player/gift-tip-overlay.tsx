@@ -5,12 +5,15 @@ import Image from "next/image";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { TipNotification } from "@/hooks/use-tip-broadcast";
 import { TIP_CONFIG } from "@/lib/tip-config";
-import { allGifts } from "./gift-items";
 import { useGiftSound } from "@/hooks/use-gift-sound";
+import { useTipSpeech } from "@/hooks/use-tip-speech";
 
 interface GiftTipOverlayProps {
   notification: TipNotification;
   onComplete: () => void;
+  isTtsEnabled?: boolean;
+  isSoundEnabled?: boolean;
+  displayDuration?: number; // milliseconds
 }
 
 // Confetti particle component with enhanced physics
@@ -55,17 +58,16 @@ const ConfettiParticle = ({
 export function GiftTipOverlay({
   notification,
   onComplete,
+  isTtsEnabled,
+  isSoundEnabled = true,
+  displayDuration = 4000,
 }: GiftTipOverlayProps) {
   const [isVisible, setIsVisible] = useState(true);
   const [animationPhase, setAnimationPhase] = useState<
     "enter" | "display" | "exit"
   >("enter");
   const { playGiftSound } = useGiftSound();
-
-  // Find the gift details
-  const gift = allGifts.find(
-    (g) => g.id === notification.giftType || g.name === notification.giftName
-  );
+  const { speakTip } = useTipSpeech();
 
   useEffect(() => {
     try {
@@ -80,8 +82,9 @@ export function GiftTipOverlay({
       }
 
       // Play gift sound
-      const giftPrice = gift?.price || notification.amount;
-      playGiftSound(giftPrice);
+      if (isSoundEnabled) {
+        playGiftSound(notification.amount);
+      }
 
       // Enter animation
       const enterTimer = setTimeout(() => {
@@ -91,13 +94,13 @@ export function GiftTipOverlay({
       // Display duration - longer for gift tips to appreciate the animation
       const displayTimer = setTimeout(() => {
         setAnimationPhase("exit");
-      }, 4000);
+      }, displayDuration);
 
       // Exit animation
       const exitTimer = setTimeout(() => {
         setIsVisible(false);
         onComplete();
-      }, 4500);
+      }, displayDuration + 500);
 
       return () => {
         clearTimeout(enterTimer);
@@ -108,13 +111,25 @@ export function GiftTipOverlay({
       console.error("Error in GiftTipOverlay useEffect:", error);
       setIsVisible(false);
     }
-  }, [onComplete, notification, gift?.price, playGiftSound]);
+  }, [
+    onComplete,
+    notification,
+    playGiftSound,
+    isSoundEnabled,
+    displayDuration,
+  ]);
+
+  useEffect(() => {
+    if (isTtsEnabled && notification?.id) {
+      speakTip(notification);
+    }
+  }, [isTtsEnabled, notification, speakTip]);
 
   if (!isVisible) return null;
 
   // Determine gift tier for styling
-  const giftPrice = gift?.price || notification.amount;
-  const isPremiumGift = gift?.premium || giftPrice >= 50;
+  const giftPrice = notification.amount;
+  const isPremiumGift = notification.isPremiumGift || giftPrice >= 50;
   const isMegaGift = giftPrice >= 1000;
 
   const overlayClasses = isMegaGift
@@ -204,21 +219,18 @@ export function GiftTipOverlay({
               }
             `}
             >
-              {gift ? (
-                <div className="w-20 h-20 flex items-center justify-center">
-                  {gift.icon}
-                </div>
-              ) : (
-                <div className="w-20 h-20 flex items-center justify-center">
-                  <Image
-                    src={`/image/gifts/${notification.giftType}.png`}
-                    alt={notification.giftName || "Gift"}
-                    width={80}
-                    height={80}
-                    className="object-contain"
-                  />
-                </div>
-              )}
+              <div className="w-20 h-20 flex items-center justify-center">
+                <Image
+                  src={
+                    notification.giftImageUrl ||
+                    `/image/gifts/${notification.giftType}.png`
+                  }
+                  alt={notification.giftName || "Gift"}
+                  width={80}
+                  height={80}
+                  className="object-contain"
+                />
+              </div>
             </div>
           </div>
 
@@ -227,7 +239,7 @@ export function GiftTipOverlay({
             <h3
               className={`text-2xl font-bold ${isMegaGift ? "text-yellow-400" : isPremiumGift ? "text-purple-400" : "text-blue-400"}`}
             >
-              {notification.giftName || gift?.name}
+              {notification.giftName}
             </h3>
             <p className="text-lg text-white/90">Gift received!</p>
           </div>
@@ -251,6 +263,13 @@ export function GiftTipOverlay({
             </div>
           </div>
 
+          {/* Tipper's message */}
+          {notification.tipMessage && (
+            <p className="text-white break-words">
+              &ldquo;{notification.tipMessage}&rdquo;
+            </p>
+          )}
+
           {/* Amount */}
           <div className="bg-black/20 rounded-2xl p-4">
             <div
@@ -308,11 +327,17 @@ export function GiftTipOverlay({
 interface GiftTipOverlayManagerProps {
   notifications: TipNotification[];
   onNotificationComplete: (id: string) => void;
+  isTtsEnabled?: boolean;
+  displayDuration?: number; // milliseconds
+  maxQueueSize?: number;
 }
 
 export function GiftTipOverlayManager({
   notifications,
   onNotificationComplete,
+  isTtsEnabled,
+  displayDuration,
+  maxQueueSize = 5,
 }: GiftTipOverlayManagerProps) {
   const [currentOverlay, setCurrentOverlay] = useState<TipNotification | null>(
     null
@@ -342,13 +367,13 @@ export function GiftTipOverlayManager({
         // Add to queue if there's already an overlay showing
         setQueue((prev) => {
           const exists = prev.some((n) => n.id === latestNotification.id);
-          return exists ? prev : [...prev, latestNotification].slice(0, 5); // Keep max 5 in queue
+          return exists ? prev : [...prev, latestNotification].slice(0, maxQueueSize);
         });
       }
     } catch (error) {
       console.error("Error in GiftTipOverlayManager useEffect:", error);
     }
-  }, [notifications, currentOverlay]);
+  }, [notifications, currentOverlay, maxQueueSize]);
 
   const handleOverlayComplete = () => {
     try {
@@ -379,6 +404,8 @@ export function GiftTipOverlayManager({
     <GiftTipOverlay
       notification={currentOverlay}
       onComplete={handleOverlayComplete}
+      isTtsEnabled={isTtsEnabled}
+      displayDuration={displayDuration}
     />
   );
 }
@@ -14,6 +14,7 @@ import { UserAvatar, UserAvatarSkeleton } from "@/components/user-avatar";
 import { useUser } from "@civic/auth-web3/react";
 
 import { Actions, ActionsSkeleton } from "./actions";
+import { TipGoalBar } from "./tip-goal-bar";
 // import WalletQRButton from "../tip-me/WalletQRButton";
 import { Button } from "../ui/button";
 
@@ -137,6 +138,9 @@ export const Header = ({
           )
         }
       </div>
+      <div className="px-4">
+        <TipGoalBar hostIdentity={hostIdentity} />
+      </div>
     </>
   );
 };
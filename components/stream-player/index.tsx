@@ -1,14 +1,19 @@
 "use client";
 
 // import { Stream, User } from "@prisma/client";
+import { useEffect } from "react";
+import { useSetAtom } from "jotai";
 import { LiveKitRoom } from "@livekit/components-react";
 
 import { cn } from "@/lib/utils";
+import { getTipAlertSettings } from "@/lib/tip-config";
+import { streamTipAlertSettingsFamily } from "@/store/chat-atoms";
 import { useChatSidebar } from "@/store/use-chat-sidebar";
 import { useViewerToken } from "@/hooks/use-viewer-token";
 
 import { InfoCard } from "./info-card";
 import { AboutCard } from "./about-card";
+import { ScheduleCard } from "./schedule-card";
 import { ChatToggle } from "./chat-toggle";
 import { Chat, ChatSkeleton } from "./chat";
 import { Video, VideoSkeleton } from "./video";
@@ -21,6 +26,18 @@ export type CustomStream = {
   isChatEnabled: boolean;
   isChatDelayed: boolean;
   isChatFollowersOnly: boolean;
+  isChatTippersOnly: boolean;
+  isChatSubscribersOnly: boolean;
+  isTipTtsEnabled: boolean;
+  largeTipThreshold: number;
+  megaTipThreshold: number;
+  tipAlertDurationSeconds: number;
+  giftAlertDurationSeconds: number;
+  tipAlertQueueSize: number;
+  excludedAlertGiftTypes: string[];
+  chatSlowModeSeconds: number;
+  subCategoryId: string | null;
+  tags: string[];
   isLive: boolean;
   thumbnailUrl: string | null;
   name: string;
@@ -51,6 +68,12 @@ export const StreamPlayer = ({
 }: StreamPlayerProps) => {
   const { token, name, identity } = useViewerToken(user.id);
   const { collapsed, isShowTipModal } = useChatSidebar((state) => state);
+  const setAlertSettings = useSetAtom(streamTipAlertSettingsFamily(user.id));
+
+  // Chat and Video pick the streamer's alert settings up from the atom
+  useEffect(() => {
+    setAlertSettings(getTipAlertSettings(stream));
+  }, [setAlertSettings, stream]);
 
   if (!token || !name || !identity) {
     return <StreamPlayerSkeleton />;
@@ -76,6 +99,7 @@ export const StreamPlayer = ({
             hostName={user.username}
             hostIdentity={user.id}
             thumbnailUrl={stream.thumbnailUrl}
+            isTipTtsEnabled={stream.isTipTtsEnabled}
           />
           <div className="hidden md:flex md:flex-col md:gap-y-4">
             <Header
@@ -91,6 +115,8 @@ export const StreamPlayer = ({
               viewerIdentity={identity}
               name={stream.name}
               thumbnailUrl={stream.thumbnailUrl}
+              subCategoryId={stream.subCategoryId}
+              tags={stream.tags}
             />
             <AboutCard
               hostName={user.username}
@@ -99,6 +125,7 @@ export const StreamPlayer = ({
               bio={user.bio}
               followedByCount={user._count.followedBy}
             />
+            <ScheduleCard hostIdentity={user.id} />
           </div>
         </div>
         <div
@@ -113,6 +140,9 @@ export const StreamPlayer = ({
             isChatEnabled={stream.isChatEnabled}
             isChatDelayed={stream.isChatDelayed}
             isChatFollowersOnly={stream.isChatFollowersOnly}
+            isChatTippersOnly={stream.isChatTippersOnly}
+            isChatSubscribersOnly={stream.isChatSubscribersOnly}
+            chatSlowModeSeconds={stream.chatSlowModeSeconds}
             streamId={stream.id}
           />
         </div>
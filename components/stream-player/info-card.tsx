@@ -4,12 +4,15 @@ import Image from "next/image";
 import { Pencil } from "lucide-react";
 
 import { Separator } from "@/components/ui/separator";
+import { useCategories } from "@/hooks/use-categories";
 
 import { InfoModal } from "./info-modal";
 
 interface InfoCardProps {
   name: string;
   thumbnailUrl: string | null;
+  subCategoryId: string | null;
+  tags: string[];
   hostIdentity: string;
   viewerIdentity: string;
 };
@@ -17,11 +20,18 @@ interface InfoCardProps {
 export const InfoCard = ({
   name,
   thumbnailUrl,
+  subCategoryId,
+  tags,
   hostIdentity,
   viewerIdentity,
 }: InfoCardProps) => {
   const hostAsViewer = `host-${hostIdentity}`;
   const isHost = viewerIdentity === hostAsViewer;
+  const { data: categories } = useCategories({ enabled: isHost });
+
+  const subCategoryName = categories
+    ?.flatMap((category) => category.subCategories)
+    .find((subCategory) => subCategory.id === subCategoryId)?.name;
 
   if (!isHost) return null;
 
@@ -43,6 +53,8 @@ export const InfoCard = ({
           <InfoModal
             initialName={name}
             initialThumbnailUrl={thumbnailUrl}
+            initialSubCategoryId={subCategoryId}
+            initialTags={tags}
           />
         </div>
         <Separator />
@@ -55,6 +67,24 @@ export const InfoCard = ({
               {name}
             </p>
           </div>
+          <div>
+            <h3 className="text-sm text-muted-foreground mb-2 font-sans">
+              Category
+            </h3>
+            <p className="text-sm font-semibold font-sans">
+              {subCategoryName ?? "None"}
+            </p>
+          </div>
+          {tags.length > 0 && (
+            <div>
+              <h3 className="text-sm text-muted-foreground mb-2 font-sans">
+                Tags
+              </h3>
+              <p className="text-sm font-semibold font-sans">
+                {tags.map((tag) => `#${tag}`).join(" ")}
+              </p>
+            </div>
+          )}
           <div>
             <h3 className="text-sm text-muted-foreground mb-2 font-sans">
               Thumbnail
@@ -21,14 +21,20 @@ import { Button } from "@/components/ui/button";
 import { updateStream } from "@/actions/stream";
 import { UploadDropzone } from "@/lib/uploadthing";
 
+import { CategorySelect } from "./category-select";
+
 interface InfoModalProps {
   initialName: string;
   initialThumbnailUrl: string | null;
+  initialSubCategoryId: string | null;
+  initialTags: string[];
 };
 
 export const InfoModal = ({
   initialName,
-  initialThumbnailUrl
+  initialThumbnailUrl,
+  initialSubCategoryId,
+  initialTags,
 }: InfoModalProps) => {
   const router = useRouter();
   const closeRef = useRef<ElementRef<"button">>(null);
@@ -36,6 +42,8 @@ export const InfoModal = ({
 
   const [name, setName] = useState(initialName);
   const [thumbnailUrl, setThumbnailUrl] = useState(initialThumbnailUrl);
+  const [subCategoryId, setSubCategoryId] = useState(initialSubCategoryId);
+  const [tags, setTags] = useState(initialTags.join(", "));
 
   const onRemove = () => {
     startTransition(() => {
@@ -53,7 +61,11 @@ export const InfoModal = ({
     e.preventDefault();
 
     startTransition(() => {
-      updateStream({ name: name })
+      updateStream({
+        name: name,
+        subCategoryId,
+        tags: tags.split(","),
+      })
         .then(() => {
           toast.success("Stream updated");
           closeRef?.current?.click();
@@ -91,6 +103,27 @@ export const InfoModal = ({
               value={name}
             />
           </div>
+          <div className="space-y-2">
+            <Label>
+              Category
+            </Label>
+            <CategorySelect
+              value={subCategoryId}
+              onChange={setSubCategoryId}
+              disabled={isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>
+              Tags
+            </Label>
+            <Input
+              disabled={isPending}
+              placeholder="speedrun, chill, english"
+              onChange={(e) => setTags(e.target.value)}
+              value={tags}
+            />
+          </div>
           <div className="space-y-2">
             <Label>
               Thumbnail
@@ -2,6 +2,7 @@ import React from "react";
 import { Header } from "./header";
 import { InfoCard } from "./info-card";
 import { AboutCard } from "./about-card";
+import { ScheduleCard } from "./schedule-card";
 import { CustomStream, CustomUser } from ".";
 
 interface MobileAboutCardProps {
@@ -28,6 +29,8 @@ export const MobileAboutCard = ({ user, identity, isFollowing, stream }: MobileA
         viewerIdentity={identity}
         name={stream.name}
         thumbnailUrl={stream.thumbnailUrl}
+        subCategoryId={stream.subCategoryId}
+        tags={stream.tags}
       />
       <AboutCard
         hostName={user.username}
@@ -36,6 +39,7 @@ export const MobileAboutCard = ({ user, identity, isFollowing, stream }: MobileA
         bio={user.bio}
         followedByCount={user._count.followedBy}
       />
+      <ScheduleCard hostIdentity={user.id} />
     </>
   );
 };
@@ -25,6 +25,9 @@ export const MobileChat = ({
       isChatEnabled={stream.isChatEnabled}
       isChatDelayed={stream.isChatDelayed}
       isChatFollowersOnly={stream.isChatFollowersOnly}
+      isChatTippersOnly={stream.isChatTippersOnly}
+      isChatSubscribersOnly={stream.isChatSubscribersOnly}
+      chatSlowModeSeconds={stream.chatSlowModeSeconds}
       streamId={stream.id}
     />
   );
@@ -4,6 +4,7 @@ import { cn } from "@/lib/utils";
 import { MobileAboutCard } from "./mobile-about-card";
 import { CustomStream, CustomUser } from ".";
 import { MobileChat } from "./mobile-chat";
+import { TipGoalBar } from "./tip-goal-bar";
 
 interface MobileStreamPlayerDetailsProps {
   user: CustomUser;
@@ -23,6 +24,7 @@ export const MobileStreamPlayerDetails = ({
   const [option, setOption] = useState<"about" | "chat">("about");
   return (
     <div className="flex flex-col gap-3 p-2 py-4">
+      <TipGoalBar hostIdentity={user.id} />
       <div>
         <div className="inline-flex p-1 space-x-2 bg-secondary rounded-full">
           <Button
@@ -0,0 +1,93 @@
+"use client";
+
+import { toast } from "sonner";
+import { useTransition } from "react";
+import { Ban, Clock, Trash2 } from "lucide-react";
+
+import { Hint } from "@/components/hint";
+import { Button } from "@/components/ui/button";
+import {
+  banUser,
+  deleteChatMessage,
+  timeoutUser,
+} from "@/actions/moderation";
+
+// Default timeout from the chat, longer ones are a ban
+const QUICK_TIMEOUT_MINUTES = 10;
+
+interface ModerationActionsProps {
+  hostIdentity: string;
+  userId: string;
+  username: string;
+  messageId?: string;
+}
+
+export const ModerationActions = ({
+  hostIdentity,
+  userId,
+  username,
+  messageId,
+}: ModerationActionsProps) => {
+  const [isPending, startTransition] = useTransition();
+
+  const run = (action: () => Promise<unknown>, success: string) => {
+    startTransition(() => {
+      action()
+        .then(() => toast.success(success))
+        .catch((error) => toast.error(error.message || "Something went wrong"));
+    });
+  };
+
+  const onDelete = () => {
+    if (!messageId) return;
+    run(() => deleteChatMessage(messageId), "Message deleted");
+  };
+
+  const onTimeout = () => {
+    run(
+      () => timeoutUser(hostIdentity, userId, QUICK_TIMEOUT_MINUTES),
+      `Timed out ${username} for ${QUICK_TIMEOUT_MINUTES} minutes`
+    );
+  };
+
+  const onBan = () => {
+    run(() => banUser(hostIdentity, userId), `Banned ${username}`);
+  };
+
+  return (
+    <div className="flex items-center gap-x-1 opacity-0 group-hover:opacity-100 transition">
+      {messageId && (
+        <Hint label="Delete message">
+          <Button
+            variant="ghost"
+            disabled={isPending}
+            onClick={onDelete}
+            className="h-auto w-auto p-1"
+          >
+            <Trash2 className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        </Hint>
+      )}
+      <Hint label={`Timeout ${QUICK_TIMEOUT_MINUTES}m`}>
+        <Button
+          variant="ghost"
+          disabled={isPending}
+          onClick={onTimeout}
+          className="h-auto w-auto p-1"
+        >
+          <Clock className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </Hint>
+      <Hint label="Ban">
+        <Button
+          variant="ghost"
+          disabled={isPending}
+          onClick={onBan}
+          className="h-auto w-auto p-1"
+        >
+          <Ban className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </Hint>
+    </div>
+  );
+};
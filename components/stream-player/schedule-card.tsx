@@ -0,0 +1,69 @@
+"use client";
+
+import { format } from "date-fns";
+import { CalendarDays, CalendarPlus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useScheduledStreams } from "@/hooks/use-scheduled-streams";
+
+interface ScheduleCardProps {
+  hostIdentity: string;
+}
+
+export const ScheduleCard = ({ hostIdentity }: ScheduleCardProps) => {
+  const { data: scheduledStreams = [] } = useScheduledStreams(hostIdentity);
+
+  if (scheduledStreams.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-4">
+      <div className="rounded-xl bg-background p-6 lg:p-10 flex flex-col gap-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-x-2 font-semibold text-lg lg:text-2xl">
+            <CalendarDays className="h-5 w-5" />
+            Upcoming Streams
+          </div>
+          <a href={`/api/scheduled-streams/ics?userId=${hostIdentity}`}>
+            <Button variant="ghost" size="sm">
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Subscribe
+            </Button>
+          </a>
+        </div>
+        <div className="space-y-3">
+          {scheduledStreams.map((scheduled) => (
+            <div
+              key={scheduled.id}
+              className="flex items-start justify-between gap-x-4"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-semibold truncate">
+                  {scheduled.title}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {format(
+                    new Date(scheduled.scheduledAt),
+                    "EEE, MMM d 'at' HH:mm"
+                  )}
+                </p>
+                {scheduled.description && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {scheduled.description}
+                  </p>
+                )}
+              </div>
+              <a
+                href={`/api/scheduled-streams/ics?id=${scheduled.id}`}
+                className="shrink-0 text-xs text-blue-500 hover:underline"
+              >
+                Add to calendar
+              </a>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
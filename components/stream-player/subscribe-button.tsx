@@ -0,0 +1,333 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Check, Star } from "lucide-react";
+import { Transaction } from "@solana/web3.js";
+import { useQueryClient } from "@tanstack/react-query";
+import { useUser } from "@civic/auth-web3/react";
+import { userHasWallet } from "@civic/auth-web3";
+
+import { cn } from "@/lib/utils";
+import { connection } from "@/config/wallet";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSubscription } from "@/hooks/use-subscription";
+import { fetchSolanaPrice } from "@/utils/solana-price";
+import { withdraw } from "@/app/(dashboard)/u/[username]/profile/_components/withdrawalService";
+import {
+  SUBSCRIPTION_LIMITS,
+  SubscriptionTierData,
+} from "@/lib/subscription";
+import {
+  cancelSubscription,
+  prepareSubscriptionAllowance,
+  resumeSubscription,
+  subscribeWithAllowance,
+  subscribeWithTransfer,
+} from "@/actions/subscription";
+
+const ALLOWANCE_MONTH_OPTIONS = [1, 3, 6, SUBSCRIPTION_LIMITS.MAX_ALLOWANCE_MONTHS];
+
+const getPerks = (tier: SubscriptionTierData) =>
+  [
+    tier.hasBadge && "Subscriber badge in chat",
+    tier.hasEmoteAccess && "Subscriber emotes",
+    tier.hasSubscriberChat && "Chat in subscribers-only mode",
+  ].filter((perk): perk is string => !!perk);
+
+interface SubscribeButtonProps {
+  hostIdentity: string;
+}
+
+export const SubscribeButton = ({ hostIdentity }: SubscribeButtonProps) => {
+  const queryClient = useQueryClient();
+  const userContext = useUser();
+  const hasWallet = userHasWallet(userContext);
+  const userAddress = hasWallet ? userContext.solana.address : "";
+
+  const { data } = useSubscription(hostIdentity);
+  const [isPending, startTransition] = useTransition();
+  const [selectedTierId, setSelectedTierId] = useState<string | null>(null);
+  const [useAllowance, setUseAllowance] = useState(false);
+  const [months, setMonths] = useState(3);
+
+  const tiers = data?.tiers ?? [];
+  const subscription = data?.subscription;
+  const isSubscribed =
+    subscription?.status === "ACTIVE" || subscription?.status === "PAST_DUE";
+  const selectedTier = tiers.find((tier) => tier.id === selectedTierId);
+
+  if (!isSubscribed && tiers.length === 0) {
+    return null;
+  }
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["subscription", hostIdentity] });
+  };
+
+  // The subscriber sends this period's price like a tip, then we verify it
+  const payWithTransfer = async (tierId: string, price: number) => {
+    if (!data?.paymentAddress) {
+      throw new Error("This streamer can't receive subscriptions yet");
+    }
+
+    const solPriceData = await fetchSolanaPrice();
+    const signature = await withdraw(
+      {
+        amount: price,
+        destinationAddress: data.paymentAddress,
+        walletType: "platform",
+        userAddress: userAddress ?? "",
+        connection,
+        userContext,
+        recipientId: hostIdentity,
+      },
+      solPriceData.price
+    );
+
+    return subscribeWithTransfer({ tierId, transactionHash: signature });
+  };
+
+  // The subscriber approves the platform wallet to charge their wallet
+  const payWithAllowance = async (tierId: string) => {
+    if (!hasWallet) {
+      throw new Error("Connect a wallet to pay from an allowance");
+    }
+
+    const { serializedTransaction } = await prepareSubscriptionAllowance({
+      tierId,
+      months,
+    });
+    const signed = await userContext.solana.wallet.signTransaction(
+      Transaction.from(Buffer.from(serializedTransaction, "base64"))
+    );
+
+    return subscribeWithAllowance({
+      tierId,
+      signedTransaction: Buffer.from(signed.serialize()).toString("base64"),
+    });
+  };
+
+  const onSubscribe = () => {
+    if (!selectedTier) return;
+
+    if (!hasWallet) {
+      toast.error("Please connect your wallet");
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const result = useAllowance
+          ? await payWithAllowance(selectedTier.id)
+          : await payWithTransfer(selectedTier.id, selectedTier.price);
+
+        toast.success(`Subscribed to ${result.tierName}!`);
+        refresh();
+      } catch (error: any) {
+        toast.error(error.message || "Failed to subscribe");
+      }
+    });
+  };
+
+  const onRenew = () => {
+    if (!subscription) return;
+
+    startTransition(async () => {
+      try {
+        await payWithTransfer(subscription.tierId, subscription.price);
+        toast.success("Subscription renewed");
+        refresh();
+      } catch (error: any) {
+        toast.error(error.message || "Failed to renew subscription");
+      }
+    });
+  };
+
+  const onToggleRenewal = () => {
+    if (!subscription) return;
+
+    startTransition(async () => {
+      try {
+        if (subscription.cancelAtPeriodEnd) {
+          await resumeSubscription(hostIdentity);
+          toast.success("Your subscription will renew");
+        } else {
+          await cancelSubscription(hostIdentity);
+          toast.success("Your subscription won't renew");
+        }
+        refresh();
+      } catch (error: any) {
+        toast.error(error.message || "Something went wrong");
+      }
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full lg:w-auto">
+          <Star
+            className={cn("h-4 w-4 mr-2", isSubscribed && "fill-current")}
+          />
+          {isSubscribed ? "Subscribed" : "Subscribe"}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isSubscribed ? "Your subscription" : "Subscribe"}
+          </DialogTitle>
+          <DialogDescription>
+            Support this channel every month in USDC.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isSubscribed && subscription ? (
+          <div className="space-y-4">
+            <div className="rounded-xl bg-muted p-4 space-y-1">
+              <p className="font-semibold">
+                {subscription.tierName} · ${subscription.price}/month
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {subscription.status === "PAST_DUE"
+                  ? "Payment due. Renew to keep your perks."
+                  : subscription.cancelAtPeriodEnd
+                  ? `Ends on ${format(new Date(subscription.currentPeriodEnd), "MMM d, yyyy")}`
+                  : `Renews on ${format(new Date(subscription.currentPeriodEnd), "MMM d, yyyy")}${
+                      subscription.paymentMethod === "ALLOWANCE"
+                        ? " from your allowance"
+                        : ""
+                    }`}
+              </p>
+            </div>
+            <div className="flex justify-end gap-x-2">
+              {subscription.paymentMethod === "TRANSFER" &&
+                !subscription.cancelAtPeriodEnd && (
+                  <Button
+                    variant="primary"
+                    disabled={isPending}
+                    onClick={onRenew}
+                  >
+                    {subscription.status === "PAST_DUE"
+                      ? "Renew now"
+                      : "Pay next month"}
+                  </Button>
+                )}
+              <Button
+                variant="outline"
+                disabled={isPending}
+                onClick={onToggleRenewal}
+              >
+                {subscription.cancelAtPeriodEnd
+                  ? "Keep subscription"
+                  : "Cancel subscription"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {tiers.map((tier) => (
+                <button
+                  key={tier.id}
+                  type="button"
+                  disabled={isPending}
+                  onClick={() => setSelectedTierId(tier.id)}
+                  className={cn(
+                    "w-full rounded-xl border p-4 text-left transition",
+                    selectedTierId === tier.id
+                      ? "border-primary bg-primary/10"
+                      : "border-border/50 hover:bg-white/5"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <p className="font-semibold">{tier.name}</p>
+                    <p className="font-semibold">${tier.price}/month</p>
+                  </div>
+                  <ul className="mt-2 space-y-1">
+                    {getPerks(tier).map((perk) => (
+                      <li
+                        key={perk}
+                        className="flex items-center gap-x-2 text-sm text-muted-foreground"
+                      >
+                        <Check className="h-3 w-3" />
+                        {perk}
+                      </li>
+                    ))}
+                  </ul>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-x-4">
+              <div>
+                <p className="text-sm font-medium">Renew automatically</p>
+                <p className="text-xs text-muted-foreground">
+                  Approve an allowance from your wallet&apos;s USDC instead of
+                  paying each month
+                </p>
+              </div>
+              <Switch
+                disabled={isPending}
+                checked={useAllowance}
+                onCheckedChange={setUseAllowance}
+              />
+            </div>
+
+            {useAllowance && (
+              <Select
+                disabled={isPending}
+                value={String(months)}
+                onValueChange={(value) => setMonths(Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALLOWANCE_MONTH_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      Allow {option} month{option === 1 ? "" : "s"}
+                      {selectedTier &&
+                        ` ($${(selectedTier.price * option).toFixed(2)})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                variant="primary"
+                disabled={isPending || !selectedTier}
+                onClick={onSubscribe}
+              >
+                {selectedTier
+                  ? `Subscribe for $${selectedTier.price}`
+                  : "Pick a tier"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
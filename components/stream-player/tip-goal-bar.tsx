@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Target } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { useTipGoal } from "@/hooks/use-tip-goal";
+import { getTipGoalPercent } from "@/lib/tip-goal";
+
+// How long the "goal reached" banner stays up
+const CELEBRATION_DURATION = 8000;
+
+interface TipGoalBarProps {
+  hostIdentity: string;
+  variant?: "player" | "overlay";
+}
+
+export const TipGoalBar = ({
+  hostIdentity,
+  variant = "player",
+}: TipGoalBarProps) => {
+  const [isCelebrating, setIsCelebrating] = useState(false);
+
+  const handleGoalReached = useCallback(() => {
+    setIsCelebrating(true);
+  }, []);
+
+  const { data: goal } = useTipGoal(hostIdentity, handleGoalReached);
+
+  useEffect(() => {
+    if (!isCelebrating) return;
+
+    const timeout = setTimeout(
+      () => setIsCelebrating(false),
+      CELEBRATION_DURATION
+    );
+    return () => clearTimeout(timeout);
+  }, [isCelebrating]);
+
+  if (!goal) return null;
+
+  const percent = getTipGoalPercent(goal);
+  const isReached = goal.status === "REACHED";
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl p-3 space-y-2",
+        variant === "overlay"
+          ? "w-[480px] bg-black/70 text-white"
+          : "border border-border/40 bg-muted/40",
+        isCelebrating && "ring-2 ring-emerald-400 animate-pulse"
+      )}
+    >
+      <div className="flex items-center justify-between gap-x-4 text-sm">
+        <div className="flex items-center gap-x-2 min-w-0">
+          <Target className="h-4 w-4 shrink-0 text-primary" />
+          <p className="font-semibold truncate">{goal.title}</p>
+        </div>
+        <p className="font-semibold whitespace-nowrap">
+          ${goal.raisedAmount.toFixed(2)}
+          <span className="text-muted-foreground">
+            {" "}/ ${goal.targetAmount.toFixed(2)}
+          </span>
+        </p>
+      </div>
+      <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={cn(
+            "h-full rounded-full transition-all duration-700",
+            isReached ? "bg-emerald-500" : "bg-primary"
+          )}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        {isCelebrating || isReached ? (
+          <p className="font-semibold text-emerald-400">🎉 Goal reached!</p>
+        ) : (
+          <p>{percent}%</p>
+        )}
+        {goal.deadline && (
+          <p>
+            Ends {formatDistanceToNow(new Date(goal.deadline), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
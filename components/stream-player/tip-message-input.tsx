@@ -0,0 +1,48 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { getTipMessageLimit } from "@/lib/tip-message";
+import { TipAlertSettings } from "@/lib/tip-config";
+
+interface TipMessageInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // The tip's worth in USD, which decides its tier
+  usdValue: number;
+  // The streamer's tip tiers
+  settings: TipAlertSettings;
+  disabled?: boolean;
+}
+
+export const TipMessageInput = ({
+  value,
+  onChange,
+  usdValue,
+  settings,
+  disabled,
+}: TipMessageInputProps) => {
+  const limit = getTipMessageLimit(usdValue, settings);
+  const isTooLong = value.length > limit;
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs text-gray-400">Message (optional):</label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        placeholder="Say something to the streamer"
+        className="w-full bg-transparent border border-border/30 rounded-full px-3 py-2 text-sm text-white focus:outline-none"
+      />
+      <p
+        className={cn(
+          "text-right text-xs text-gray-400",
+          isTooLong && "text-red-500"
+        )}
+      >
+        {value.length}/{limit}
+      </p>
+    </div>
+  );
+};
@@ -23,6 +23,11 @@ export function TipNotificationItem({ notification }: TipNotificationItemProps)
             with {notification.giftName}
           </span>
         )}
+        {notification.tipMessage && (
+          <span className="text-sm text-white/80 truncate">
+            &ldquo;{notification.tipMessage}&rdquo;
+          </span>
+        )}
       </div>
     </div>
   );
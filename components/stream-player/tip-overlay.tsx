@@ -5,16 +5,30 @@ import Image from "next/image";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { TipNotification } from "@/hooks/use-tip-broadcast";
 import { TIP_CONFIG } from "@/lib/tip-config";
-import { allGifts } from "./gift-items";
+import { useTipSpeech } from "@/hooks/use-tip-speech";
 
 interface TipOverlayProps {
   notification: TipNotification;
   onComplete: () => void;
+  isTtsEnabled?: boolean;
+  displayDuration?: number; // milliseconds
 }
 
-export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
+export function TipOverlay({
+  notification,
+  onComplete,
+  isTtsEnabled,
+  displayDuration = TIP_CONFIG.OVERLAY_DISPLAY_DURATION,
+}: TipOverlayProps) {
   const [isVisible, setIsVisible] = useState(true);
   const [animationPhase, setAnimationPhase] = useState<'enter' | 'display' | 'exit'>('enter');
+  const { speakTip } = useTipSpeech();
+
+  useEffect(() => {
+    if (isTtsEnabled && notification?.id) {
+      speakTip(notification);
+    }
+  }, [isTtsEnabled, notification, speakTip]);
 
   useEffect(() => {
     try {
@@ -33,13 +47,13 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
       // Display duration
       const displayTimer = setTimeout(() => {
         setAnimationPhase('exit');
-      }, TIP_CONFIG.OVERLAY_DISPLAY_DURATION);
+      }, displayDuration);
 
       // Exit animation
       const exitTimer = setTimeout(() => {
         setIsVisible(false);
         onComplete();
-      }, TIP_CONFIG.OVERLAY_DISPLAY_DURATION + TIP_CONFIG.OVERLAY_ANIMATION_DURATION);
+      }, displayDuration + TIP_CONFIG.OVERLAY_ANIMATION_DURATION);
 
       return () => {
         clearTimeout(enterTimer);
@@ -50,7 +64,7 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
       console.error("Error in TipOverlay useEffect:", error);
       setIsVisible(false);
     }
-  }, [onComplete, notification]);
+  }, [onComplete, notification, displayDuration]);
 
   if (!isVisible) return null;
 
@@ -58,8 +72,8 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
   const isMegaTip = notification.isMegaTip;
   const isLargeTip = notification.isLargeTip;
   
-  // Find gift details if this is a gift tip
-  const gift = notification.giftType ? allGifts.find(g => g.id === notification.giftType || g.name === notification.giftName) : null;
+  // Gift details travel with the notification, see createTipBroadcastData
+  const isGift = !!notification.giftType && !!notification.giftImageUrl;
   
   const overlayClasses = isMegaTip 
     ? "bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/70"
@@ -92,9 +106,15 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
         <div className="relative z-10 flex items-center gap-4">
           {/* Gift icon or star icon */}
           <div className={`w-16 h-16 ${isMegaTip ? 'bg-purple-400' : 'bg-yellow-400'} rounded-full flex items-center justify-center shadow-lg`}>
-            {gift ? (
+            {isGift ? (
               <div className="w-12 h-12 flex items-center justify-center">
-                {gift.icon}
+                <Image
+                  src={notification.giftImageUrl!}
+                  alt={notification.giftName || "Gift"}
+                  width={48}
+                  height={48}
+                  className="object-contain"
+                />
               </div>
             ) : (
               <svg className="w-10 h-10 text-black" fill="currentColor" viewBox="0 0 20 20">
@@ -117,7 +137,7 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
                 {notification.tipperUsername}
               </p>
               <p className="text-sm text-gray-300">
-                {gift ? `sent ${gift.name}!` : isMegaTip ? 'just sent a MEGA tip!' : 'just tipped'}
+                {isGift ? `sent ${notification.giftName}!` : isMegaTip ? 'just sent a MEGA tip!' : 'just tipped'}
               </p>
             </div>
           </div>
@@ -137,6 +157,13 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
             )}
           </div>
         </div>
+
+        {/* Tipper's message */}
+        {notification.tipMessage && (
+          <p className="relative z-10 mt-4 max-w-md text-center text-white break-words">
+            &ldquo;{notification.tipMessage}&rdquo;
+          </p>
+        )}
         
         {/* Celebration particles */}
         <div className="absolute inset-0 pointer-events-none">
@@ -161,9 +188,18 @@ export function TipOverlay({ notification, onComplete }: TipOverlayProps) {
 interface TipOverlayManagerProps {
   notifications: TipNotification[];
   onNotificationComplete: (id: string) => void;
+  isTtsEnabled?: boolean;
+  displayDuration?: number; // milliseconds
+  maxQueueSize?: number;
 }
 
-export function TipOverlayManager({ notifications, onNotificationComplete }: TipOverlayManagerProps) {
+export function TipOverlayManager({
+  notifications,
+  onNotificationComplete,
+  isTtsEnabled,
+  displayDuration,
+  maxQueueSize = TIP_CONFIG.MAX_OVERLAY_QUEUE_SIZE,
+}: TipOverlayManagerProps) {
   const [currentOverlay, setCurrentOverlay] = useState<TipNotification | null>(null);
   const [queue, setQueue] = useState<TipNotification[]>([]);
 
@@ -186,13 +222,13 @@ export function TipOverlayManager({ notifications, onNotificationComplete }: Tip
         // Add to queue if there's already an overlay showing
         setQueue(prev => {
           const exists = prev.some(n => n.id === latestNotification.id);
-          return exists ? prev : [...prev, latestNotification].slice(0, TIP_CONFIG.MAX_OVERLAY_QUEUE_SIZE);
+          return exists ? prev : [...prev, latestNotification].slice(0, maxQueueSize);
         });
       }
     } catch (error) {
       console.error("Error in TipOverlayManager useEffect:", error);
     }
-  }, [notifications, currentOverlay]);
+  }, [notifications, currentOverlay, maxQueueSize]);
 
   const handleOverlayComplete = () => {
     try {
@@ -223,6 +259,8 @@ export function TipOverlayManager({ notifications, onNotificationComplete }: Tip
     <TipOverlay
       notification={currentOverlay}
       onComplete={handleOverlayComplete}
+      isTtsEnabled={isTtsEnabled}
+      displayDuration={displayDuration}
     />
   );
 }
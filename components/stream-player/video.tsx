@@ -18,6 +18,7 @@ import {
   streamLargeTipsFamily,
   streamGiftTipsFamily,
   removeStreamTipNotificationFamily,
+  streamTipAlertSettingsFamily,
 } from "@/store/chat-atoms";
 
 import { OfflineVideo } from "./offline-video";
@@ -28,9 +29,15 @@ interface VideoProps {
   hostName: string;
   hostIdentity: string;
   thumbnailUrl?: string | null;
+  isTipTtsEnabled?: boolean;
 }
 
-export const Video = ({ hostName, hostIdentity, thumbnailUrl }: VideoProps) => {
+export const Video = ({
+  hostName,
+  hostIdentity,
+  thumbnailUrl,
+  isTipTtsEnabled,
+}: VideoProps) => {
   const connectionState = useConnectionState();
   const participant = useRemoteParticipant(hostIdentity);
   const room = useRoomContext();
@@ -39,6 +46,7 @@ export const Video = ({ hostName, hostIdentity, thumbnailUrl }: VideoProps) => {
   const [largeTips] = useAtom(streamLargeTipsFamily(hostIdentity));
   const [giftTips] = useAtom(streamGiftTipsFamily(hostIdentity));
   const [, removeNotification] = useAtom(removeStreamTipNotificationFamily(hostIdentity));
+  const [alertSettings] = useAtom(streamTipAlertSettingsFamily(hostIdentity));
 
   // Include Track.Source.Unknown for RTMP/OBS ingress streams
   // Include ScreenShare for screen sharing streams
@@ -101,12 +109,18 @@ export const Video = ({ hostName, hostIdentity, thumbnailUrl }: VideoProps) => {
       <TipOverlayManager
         notifications={largeTips}
         onNotificationComplete={handleNotificationComplete}
+        isTtsEnabled={isTipTtsEnabled}
+        displayDuration={alertSettings.tipAlertDurationSeconds * 1000}
+        maxQueueSize={alertSettings.tipAlertQueueSize}
       />
 
       {/* Regular gift tip overlay - LOWER PRIORITY (z-40) */}
       <GiftTipOverlayManager
         notifications={giftTips}
         onNotificationComplete={handleNotificationComplete}
+        isTtsEnabled={isTipTtsEnabled}
+        displayDuration={alertSettings.giftAlertDurationSeconds * 1000}
+        maxQueueSize={alertSettings.tipAlertQueueSize}
       />
     </div>
   );
@@ -23,26 +23,16 @@ import {
   TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
 import { BN } from "bn.js";
-import { supportedTokens as globalSupportedTokens } from "@/config/wallet";
+import { CLUSTER } from "@/config/cluster";
+import { DEFAULT_TOKEN, getSplTokens, getTokenMint } from "@/config/tokens";
 // import { Wallet } from "@coral-xyz/anchor";
 
 interface WalletQRButtonProps {
   tokenMint?: string;
 }
 
-const connection = new Connection("https://api.devnet.solana.com", "confirmed");
-const supportedTokens = [
-  {
-    name: "USDC",
-    symbol: "usdc",
-    contractAddress: globalSupportedTokens.contractAddress,
-  },
-  {
-    name: "USDT",
-    symbol: "usdt",
-    contractAddress: globalSupportedTokens.contractAddress,
-  },
-];
+const connection = new Connection(CLUSTER.rpcUrl, "confirmed");
+const supportedTokens = getSplTokens();
 
 export const WalletQRButton: React.FC<WalletQRButtonProps> = ({
   tokenMint,
@@ -50,7 +40,7 @@ export const WalletQRButton: React.FC<WalletQRButtonProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [statePda, setStatePda] = useState("");
   const [isPDAInit, setIsPDAInit] = useState(false);
-  const [selectedToken, setSelectedToken] = useState(supportedTokens[0].symbol);
+  const [selectedToken, setSelectedToken] = useState(DEFAULT_TOKEN);
   const [amount, setAmount] = useState("");
   const userContext = useUser();
   const hasWallet = userHasWallet(userContext);
@@ -147,9 +137,8 @@ export const WalletQRButton: React.FC<WalletQRButtonProps> = ({
 
     try {
       // 1️⃣ Resolve token mint
-      const token_mint = supportedTokens.find(
-        (e) => (e.symbol = selectedToken)
-      )?.contractAddress;
+      const token = supportedTokens.find((e) => e.symbol === selectedToken);
+      const token_mint = token && getTokenMint(token);
 
       if (!token_mint || !address || !solAddress) {
         throw new Error("Wallet not connected");
@@ -192,7 +181,7 @@ export const WalletQRButton: React.FC<WalletQRButtonProps> = ({
         // 2️⃣ Find the mint & derive the ATA address (no on-chain Tx)
         const info = supportedTokens.find((t) => t.symbol === selectedToken);
         if (!info) throw new Error("Unsupported token");
-        const mintPk = new PublicKey(info.contractAddress);
+        const mintPk = getTokenMint(info);
 
         // derive the ATA address only:
         const ataAddress = await getAssociatedTokenAddress(
@@ -0,0 +1,91 @@
+// Imported by scripts run with ts-node, so keep this free of "@/" imports
+
+import { PublicKey } from "@solana/web3.js";
+
+export type SolanaCluster = "mainnet-beta" | "devnet" | "localnet";
+
+export interface ClusterConfig {
+  cluster: SolanaCluster;
+  rpcUrl: string;
+  programId: string;
+  // Mint of each token symbol in config/tokens.ts; a token is only enabled
+  // on clusters that list it
+  mints: Record<string, string>;
+  // {path} is replaced with e.g. "tx/<signature>" or "address/<key>"
+  explorerUrl: string;
+}
+
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+const PROGRAM_ID = "swinS25mqCw6ExEAtLJFxp6HYcqMvoYxKz3by6FfbRD";
+
+const LOCALNET_RPC_URL = "http://127.0.0.1:8899";
+
+const CLUSTERS: Record<SolanaCluster, ClusterConfig> = {
+  "mainnet-beta": {
+    cluster: "mainnet-beta",
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    programId: PROGRAM_ID,
+    mints: {
+      USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+      SOL: SOL_MINT,
+    },
+    explorerUrl: "https://explorer.solana.com/{path}",
+  },
+  devnet: {
+    cluster: "devnet",
+    rpcUrl: "https://api.devnet.solana.com",
+    programId: PROGRAM_ID,
+    mints: {
+      USDC: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+      SOL: SOL_MINT,
+    },
+    explorerUrl: "https://explorer.solana.com/{path}?cluster=devnet",
+  },
+  // solana-test-validator; mints are created by scripts/seed-localnet.ts,
+  // which prints a NEXT_PUBLIC_LOCALNET_<SYMBOL>_MINT for each token
+  localnet: {
+    cluster: "localnet",
+    rpcUrl: LOCALNET_RPC_URL,
+    programId: PROGRAM_ID,
+    mints: Object.fromEntries(
+      Object.entries({
+        USDC: process.env.NEXT_PUBLIC_LOCALNET_USDC_MINT,
+        USDT: process.env.NEXT_PUBLIC_LOCALNET_USDT_MINT,
+        SOL: SOL_MINT,
+      }).filter((entry): entry is [string, string] => !!entry[1])
+    ),
+    explorerUrl: `https://explorer.solana.com/{path}?cluster=custom&customUrl=${encodeURIComponent(LOCALNET_RPC_URL)}`,
+  },
+};
+
+const isCluster = (value: string | undefined): value is SolanaCluster =>
+  !!value && value in CLUSTERS;
+
+// Env vars are read literally so Next.js inlines them in client bundles
+const selectedCluster = process.env.NEXT_PUBLIC_SOLANA_CLUSTER;
+
+export const SOLANA_CLUSTER: SolanaCluster = isCluster(selectedCluster)
+  ? selectedCluster
+  : "mainnet-beta";
+
+/**
+ * The network the app talks to, chosen by NEXT_PUBLIC_SOLANA_CLUSTER. The RPC
+ * URL and program id can be overridden, e.g. for a private RPC.
+ */
+export const CLUSTER: ClusterConfig = {
+  ...CLUSTERS[SOLANA_CLUSTER],
+  rpcUrl:
+    process.env.NEXT_PUBLIC_SOLANA_RPC_URL || CLUSTERS[SOLANA_CLUSTER].rpcUrl,
+  programId:
+    process.env.NEXT_PUBLIC_PROGRAM_ID || CLUSTERS[SOLANA_CLUSTER].programId,
+};
+
+// The IDL's address is where the program is deployed on mainnet; other
+// clusters may deploy it elsewhere. Server code that only needs the address
+// imports it from here rather than loading the IDL.
+export const programId = new PublicKey(CLUSTER.programId);
+
+export const getExplorerUrl = (type: "tx" | "address", value: string) =>
+  CLUSTER.explorerUrl.replace("{path}", `${type}/${value}`);
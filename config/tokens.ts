@@ -0,0 +1,96 @@
+import { PublicKey } from "@solana/web3.js";
+import { CLUSTER, SOL_MINT } from "./cluster";
+
+export type TokenPriceSource =
+  // Stablecoins, valued at a fixed USD price
+  | { type: "fixed"; usd: number }
+  // Jupiter's price for a mainnet mint, also used for the token on devnet and localnet
+  | { type: "jupiter"; mint: string };
+
+export interface TokenConfig {
+  // Stored as `Tip.tokenType` and `Withdrawal.tokenType`; never rename one
+  symbol: string;
+  name: string;
+  decimals: number;
+  icon: string;
+  // Chart series colour
+  color: string;
+  priceSource: TokenPriceSource;
+  // Native SOL, moved with system transfers rather than a token account
+  isNative?: boolean;
+}
+
+export type TokenType = TokenConfig["symbol"];
+
+/**
+ * Every token the app can tip, hold and withdraw. Adding an SPL token (using
+ * the classic token program) takes an entry here and its mint on each
+ * cluster in config/cluster.ts.
+ */
+export const TOKEN_REGISTRY: TokenConfig[] = [
+  {
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    icon: "/image/tokens/usdc.svg",
+    color: "#2775CA",
+    priceSource: { type: "fixed", usd: 1 },
+  },
+  {
+    symbol: "USDT",
+    name: "Tether USD",
+    decimals: 6,
+    icon: "/image/tokens/usdt.svg",
+    color: "#26A17B",
+    priceSource: { type: "fixed", usd: 1 },
+  },
+  {
+    symbol: "SOL",
+    name: "Solana",
+    decimals: 9,
+    icon: "/image/tokens/sol.svg",
+    color: "#9945FF",
+    priceSource: { type: "jupiter", mint: SOL_MINT },
+    isNative: true,
+  },
+];
+
+// Subscriptions, gifts and withdrawal gas are priced in this token
+export const DEFAULT_TOKEN: TokenType = "USDC";
+
+/** Tokens with a mint on the current cluster */
+export const getEnabledTokens = () =>
+  TOKEN_REGISTRY.filter((token) => !!CLUSTER.mints[token.symbol]);
+
+/** Enabled tokens held in token accounts, i.e. everything but SOL */
+export const getSplTokens = () =>
+  getEnabledTokens().filter((token) => !token.isNative);
+
+export const findToken = (symbol: string) =>
+  getEnabledTokens().find((token) => token.symbol === symbol);
+
+export const findTokenByMint = (mint: string) =>
+  getEnabledTokens().find((token) => CLUSTER.mints[token.symbol] === mint);
+
+export const getToken = (symbol: string) => {
+  const token = findToken(symbol);
+
+  if (!token) {
+    throw new Error(`Unsupported token: ${symbol}`);
+  }
+
+  return token;
+};
+
+export const getTokenMint = (token: TokenConfig) =>
+  new PublicKey(CLUSTER.mints[token.symbol]);
+
+export const toBaseUnits = (amount: number, token: TokenConfig) =>
+  Math.round(amount * Math.pow(10, token.decimals));
+
+export const fromBaseUnits = (amount: number, token: TokenConfig) =>
+  amount / Math.pow(10, token.decimals);
+
+/** An amount with its symbol, e.g. "12.50 USDC" */
+export const formatTokenAmount = (amount: number, symbol: string) =>
+  `${amount.toFixed(findToken(symbol)?.isNative ? 4 : 2)} ${symbol}`;
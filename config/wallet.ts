@@ -1,10 +1,4 @@
 import { Connection } from "@solana/web3.js";
+import { CLUSTER } from "./cluster";
 
-export const supportedTokens = {
-  name: "USDC",
-  symbol: "usdc",
-  contractAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
-  decimals: 6,
-};
-
-export const connection = new Connection(process.env.NEXT_PUBLIC_SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com", "confirmed");
\ No newline at end of file
+export const connection = new Connection(CLUSTER.rpcUrl, "confirmed");
\ No newline at end of file
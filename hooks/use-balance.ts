@@ -1,9 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
 import { fetchBalance, fetchCurrentUserAta } from "@/utils/wallet";
 import { useWallet } from "@civic/auth-web3/react";
+import { DEFAULT_TOKEN, TokenType } from "@/config/tokens";
 
 interface UseBalanceOptions {
   enabled?: boolean;
+  tokenType?: TokenType;
   staleTime?: number;
   gcTime?: number;
 }
@@ -14,18 +16,19 @@ export function useBalance(
 ) {
   const {
     enabled = true,
+    tokenType = DEFAULT_TOKEN,
     staleTime = 30 * 1000, // 30 seconds for balance updates
     gcTime = 2 * 60 * 1000, // 2 minutes
   } = options;
 
   return useQuery({
-    queryKey: ["balance", walletAddress],
+    queryKey: ["balance", walletAddress, tokenType],
     queryFn: async (): Promise<number> => {
       if (!walletAddress) {
         throw new Error("Wallet address is required");
       }
 
-      const balance = await fetchBalance(walletAddress);
+      const balance = await fetchBalance(walletAddress, tokenType);
       return balance || 0;
     },
     enabled: enabled && !!walletAddress,
@@ -43,6 +46,7 @@ export function useBalance(
 
 interface UseCurrentUserAtaOptions {
   enabled?: boolean;
+  tokenType?: TokenType;
   staleTime?: number;
   gcTime?: number;
 }
@@ -57,18 +61,19 @@ export function useCurrentUserAta(
 
   const {
     enabled = true,
+    tokenType = DEFAULT_TOKEN,
     staleTime = 5 * 60 * 1000, // 5 minutes for ATA (less frequent updates)
     gcTime = 10 * 60 * 1000, // 10 minutes
   } = options;
 
   return useQuery({
-    queryKey: ["currentUserAta", wallet?.publicKey],
+    queryKey: ["currentUserAta", wallet?.publicKey, tokenType],
     queryFn: async (): Promise<{ streamerAta: string; streamerStatePDA: string }> => {
       if (!wallet?.publicKey) {
         throw new Error("Wallet address is required");
       }
 
-      const ata = await fetchCurrentUserAta(wallet);
+      const ata = await fetchCurrentUserAta(wallet, tokenType);
       if (!ata) {
         throw new Error("Failed to fetch current user ATA");
       }
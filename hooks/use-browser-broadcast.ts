@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  LocalTrack,
+  Room,
+  Track,
+  createLocalAudioTrack,
+  createLocalScreenTracks,
+  createLocalVideoTrack,
+} from "livekit-client";
+
+import { createHostToken } from "@/actions/token";
+import { setBrowserStreamLive } from "@/actions/stream";
+
+// Special video source id used to capture the screen instead of a camera
+export const SCREEN_SHARE_SOURCE = "screen";
+export const NO_SOURCE = "none";
+
+export type BroadcastStatus = "idle" | "connecting" | "live" | "ending";
+
+interface BroadcastDevices {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+}
+
+const stopTracks = (tracks: LocalTrack[]) => {
+  tracks.forEach((track) => track.stop());
+};
+
+/**
+ * Capture camera, microphone or screen in the browser and publish them to the
+ * streamer's LiveKit room. The room name is the streamer's user id.
+ */
+export function useBrowserBroadcast() {
+  const [devices, setDevices] = useState<BroadcastDevices>({
+    cameras: [],
+    microphones: [],
+  });
+  const [videoSource, setVideoSource] = useState<string>(NO_SOURCE);
+  const [audioSource, setAudioSource] = useState<string>(NO_SOURCE);
+  const [tracks, setTracks] = useState<LocalTrack[]>([]);
+  const [status, setStatus] = useState<BroadcastStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const roomRef = useRef<Room | null>(null);
+  const tracksRef = useRef<LocalTrack[]>([]);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      const [cameras, microphones] = await Promise.all([
+        Room.getLocalDevices("videoinput"),
+        Room.getLocalDevices("audioinput"),
+      ]);
+
+      setDevices({ cameras, microphones });
+      setVideoSource((current) =>
+        current === NO_SOURCE && cameras[0] ? cameras[0].deviceId : current
+      );
+      setAudioSource((current) =>
+        current === NO_SOURCE && microphones[0]
+          ? microphones[0].deviceId
+          : current
+      );
+    } catch (err: any) {
+      console.error("[useBrowserBroadcast] Failed to list devices:", err);
+      setError("Allow camera and microphone access to go live");
+    }
+  }, []);
+
+  // Recreate the preview tracks whenever the selected sources change and,
+  // when already live, swap the published tracks in place
+  useEffect(() => {
+    let cancelled = false;
+
+    const createTracks = async () => {
+      const created: LocalTrack[] = [];
+
+      try {
+        if (videoSource === SCREEN_SHARE_SOURCE) {
+          created.push(...(await createLocalScreenTracks({ audio: true })));
+        } else if (videoSource !== NO_SOURCE) {
+          created.push(await createLocalVideoTrack({ deviceId: videoSource }));
+        }
+
+        if (audioSource !== NO_SOURCE) {
+          created.push(await createLocalAudioTrack({ deviceId: audioSource }));
+        }
+      } catch (err: any) {
+        stopTracks(created);
+        if (!cancelled) {
+          console.error("[useBrowserBroadcast] Failed to capture media:", err);
+          setError(err?.message || "Failed to access media devices");
+        }
+        return;
+      }
+
+      if (cancelled) {
+        stopTracks(created);
+        return;
+      }
+
+      const previous = tracksRef.current;
+      const room = roomRef.current;
+
+      if (room) {
+        await room.localParticipant.unpublishTracks(previous);
+        for (const track of created) {
+          await room.localParticipant.publishTrack(track);
+        }
+      }
+
+      stopTracks(previous);
+      tracksRef.current = created;
+      setTracks(created);
+      setError(null);
+    };
+
+    createTracks();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoSource, audioSource]);
+
+  const goLive = useCallback(async () => {
+    if (tracksRef.current.length === 0) {
+      setError("Select at least one source to go live");
+      return;
+    }
+
+    setStatus("connecting");
+    setError(null);
+
+    try {
+      const token = await createHostToken();
+      const room = new Room({ adaptiveStream: true, dynacast: true });
+
+      await room.connect(process.env.NEXT_PUBLIC_LIVEKIT_WS_URL!, token);
+      roomRef.current = room;
+
+      for (const track of tracksRef.current) {
+        await room.localParticipant.publishTrack(track);
+      }
+
+      await setBrowserStreamLive(true);
+      setStatus("live");
+    } catch (err: any) {
+      console.error("[useBrowserBroadcast] Failed to go live:", err);
+      await roomRef.current?.disconnect(false);
+      roomRef.current = null;
+      setError(err?.message || "Failed to go live");
+      setStatus("idle");
+    }
+  }, []);
+
+  const endStream = useCallback(async () => {
+    const room = roomRef.current;
+    if (!room) return;
+
+    setStatus("ending");
+
+    try {
+      await room.localParticipant.unpublishTracks(tracksRef.current);
+      await room.disconnect(false);
+      await setBrowserStreamLive(false);
+    } catch (err: any) {
+      console.error("[useBrowserBroadcast] Failed to end stream:", err);
+      setError(err?.message || "Failed to end stream");
+    } finally {
+      roomRef.current = null;
+      setStatus("idle");
+    }
+  }, []);
+
+  // Stop capturing and leave the room when the component unmounts
+  useEffect(() => {
+    return () => {
+      const room = roomRef.current;
+      stopTracks(tracksRef.current);
+      tracksRef.current = [];
+
+      if (room) {
+        roomRef.current = null;
+        room.disconnect();
+        setBrowserStreamLive(false).catch((err) =>
+          console.error("[useBrowserBroadcast] Failed to mark offline:", err)
+        );
+      }
+    };
+  }, []);
+
+  const videoTrack = tracks.find((track) => track.kind === Track.Kind.Video);
+
+  return {
+    devices,
+    loadDevices,
+    videoSource,
+    setVideoSource,
+    audioSource,
+    setAudioSource,
+    videoTrack,
+    status,
+    error,
+    goLive,
+    endStream,
+  };
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { SubscriberBadge } from "@/lib/subscription";
+
+export interface ChatHistoryMessage {
+  id: string;
+  content: string;
+  createdAt: string;
+  sender: {
+    id: string;
+    username: string;
+  };
+  senderBadge: SubscriberBadge | null;
+}
+
+// Messages sent before the viewer joined; anything newer arrives over LiveKit
+export function useChatHistory(hostIdentity: string, joinedAt: number) {
+  return useQuery<ChatHistoryMessage[]>({
+    queryKey: ["chat-history", hostIdentity, joinedAt],
+    queryFn: async () => {
+      const before = new Date(joinedAt).toISOString();
+      const response = await fetch(
+        `/api/chat/${hostIdentity}?before=${encodeURIComponent(before)}`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch chat history");
+      }
+      return response.json();
+    },
+    enabled: !!hostIdentity,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
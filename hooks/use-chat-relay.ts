@@ -0,0 +1,50 @@
+import { useCallback, useState } from "react";
+import type { Participant } from "livekit-client";
+import { useDataChannel } from "@livekit/components-react";
+import {
+  CHAT_MESSAGE_TOPIC,
+  ChatRelayMessage,
+  isChatRelayDeletion,
+  isChatRelayMessage,
+} from "@/lib/chat-relay";
+
+// Keep the live chat bounded for long streams
+const MAX_LIVE_MESSAGES = 500;
+
+/**
+ * Hook for receiving chat messages.
+ * Messages are published by the server once they pass the room's chat modes,
+ * see relayChatMessage. Deletions by moderators arrive on the same topic.
+ */
+export function useChatRelay() {
+  const [messages, setMessages] = useState<ChatRelayMessage[]>([]);
+  const [deletedIds, setDeletedIds] = useState<string[]>([]);
+
+  const onMessage = useCallback(
+    (packet: { payload: Uint8Array; from?: Participant }) => {
+      try {
+        const data = JSON.parse(new TextDecoder().decode(packet.payload));
+
+        if (isChatRelayDeletion(data, packet.from)) {
+          setDeletedIds((current) => [...current, data.id]);
+          return;
+        }
+
+        if (!isChatRelayMessage(data, packet.from)) return;
+
+        setMessages((current) =>
+          current.some((message) => message.id === data.id)
+            ? current
+            : [...current, data].slice(-MAX_LIVE_MESSAGES)
+        );
+      } catch (error) {
+        console.error("Failed to parse chat message:", error);
+      }
+    },
+    []
+  );
+
+  useDataChannel(CHAT_MESSAGE_TOPIC, onMessage);
+
+  return { messages, deletedIds };
+}
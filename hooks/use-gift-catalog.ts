@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+
+import type { GiftCatalogItem } from "@/lib/gift-catalog";
+
+// The gifts viewers can send this streamer, in the streamer's order
+export function useGiftCatalog(streamerId?: string) {
+  return useQuery<GiftCatalogItem[]>({
+    queryKey: ["gift-catalog", streamerId],
+    queryFn: async () => {
+      const response = await fetch(`/api/gifts/${streamerId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch gifts");
+      }
+      const { gifts } = await response.json();
+      return gifts;
+    },
+    enabled: !!streamerId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface Notification {
+  id: string;
+  type: "STREAM_REMINDER" | "SUBSCRIPTION" | "SECURITY";
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export function useNotifications(enabled = true) {
+  return useQuery<NotificationsResponse>({
+    queryKey: ["notifications"],
+    queryFn: async () => {
+      const response = await fetch("/api/notifications");
+      if (!response.ok) {
+        throw new Error("Failed to fetch notifications");
+      }
+      return response.json();
+    },
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    refetchInterval: 60 * 1000, // Reminders arrive shortly before streams start
+    refetchIntervalInBackground: false,
+  });
+}
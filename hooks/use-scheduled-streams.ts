@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface ScheduledStream {
+  id: string;
+  title: string;
+  description: string | null;
+  scheduledAt: string;
+  user: {
+    id: string;
+    username: string;
+    imageUrl: string;
+  };
+}
+
+const fetchScheduledStreams = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error("Failed to fetch scheduled streams");
+  }
+  return response.json();
+};
+
+// Platform-wide upcoming streams for the home page rail
+export function useUpcomingStreams() {
+  return useQuery<ScheduledStream[]>({
+    queryKey: ["scheduled-streams", "upcoming"],
+    queryFn: () => fetchScheduledStreams("/api/scheduled-streams"),
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useScheduledStreams(userId: string) {
+  return useQuery<ScheduledStream[]>({
+    queryKey: ["scheduled-streams", userId],
+    queryFn: () =>
+      fetchScheduledStreams(`/api/scheduled-streams?userId=${userId}`),
+    enabled: !!userId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
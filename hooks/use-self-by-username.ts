@@ -20,6 +20,16 @@ interface User {
     isChatEnabled: boolean;
     isChatDelayed: boolean;
     isChatFollowersOnly: boolean;
+    isChatTippersOnly: boolean;
+    isChatSubscribersOnly: boolean;
+    isTipTtsEnabled: boolean;
+    largeTipThreshold: number;
+    megaTipThreshold: number;
+    tipAlertDurationSeconds: number;
+    giftAlertDurationSeconds: number;
+    tipAlertQueueSize: number;
+    excludedAlertGiftTypes: string[];
+    chatSlowModeSeconds: number;
   } | null;
   _count: {
     followedBy: number;
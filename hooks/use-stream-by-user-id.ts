@@ -9,6 +9,16 @@ interface Stream {
   isChatEnabled: boolean;
   isChatDelayed: boolean;
   isChatFollowersOnly: boolean;
+  isChatTippersOnly: boolean;
+  isChatSubscribersOnly: boolean;
+  isTipTtsEnabled: boolean;
+  largeTipThreshold: number;
+  megaTipThreshold: number;
+  tipAlertDurationSeconds: number;
+  giftAlertDurationSeconds: number;
+  tipAlertQueueSize: number;
+  excludedAlertGiftTypes: string[];
+  chatSlowModeSeconds: number;
   serverUrl: string | null;
   streamKey: string | null;
   user: {
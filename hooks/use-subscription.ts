@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+
+import type {
+  SubscriptionData,
+  SubscriptionTierData,
+} from "@/lib/subscription";
+
+interface SubscriptionsResponse {
+  tiers: SubscriptionTierData[];
+  // Program wallet transfers are sent to; null until the streamer has one
+  paymentAddress: string | null;
+  subscription: SubscriptionData | null;
+}
+
+// A streamer's tiers and the viewer's own subscription to them
+export function useSubscription(streamerId?: string) {
+  return useQuery<SubscriptionsResponse>({
+    queryKey: ["subscription", streamerId],
+    queryFn: async () => {
+      const response = await fetch(`/api/subscriptions/${streamerId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch subscriptions");
+      }
+      return response.json();
+    },
+    enabled: !!streamerId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
@@ -1,38 +1,46 @@
-import { useEffect, useCallback, useRef } from "react";
+import { useEffect, useRef } from "react";
 import { useDataChannel } from "@livekit/components-react";
-import { Room } from "livekit-client";
 import {
-  broadcastTipNotification,
-  createTipBroadcastData,
+  TIP_NOTIFICATION_TOPIC,
   isTipNotification,
   formatTipMessage,
 } from "@/lib/tip-broadcast";
-import { toast } from "sonner";
-import { TIP_CONFIG } from "@/lib/tip-config";
+import {
+  DEFAULT_TIP_ALERT_SETTINGS,
+  TipAlertSettings,
+} from "@/lib/tip-config";
+import type { TokenType } from "@/config/tokens";
 
 export interface TipNotification {
   id: string;
   amount: number;
-  tokenType: "USDC" | "SOL";
+  tokenType: TokenType;
+  usdValue?: number;
   giftType?: string;
   giftName?: string;
+  giftImageUrl?: string;
+  isPremiumGift?: boolean;
   tipperUsername: string;
   tipperImageUrl: string;
   streamerUsername: string;
   timestamp: number;
   message: string;
+  // What the tipper wrote, already filtered by the server
+  tipMessage?: string;
   isLargeTip?: boolean;
   isMegaTip?: boolean;
 }
 
 /**
- * Hook for handling tip broadcasting and notifications
+ * Hook for receiving tip notifications.
+ * Tips are published by the server after they are verified, see createAndBroadcastTip.
+ * Large and mega tips are flagged against the streamer's own thresholds.
  */
 export function useTipBroadcast(
-  room: Room | null,
-  onTipReceived?: (notification: TipNotification) => void
+  onTipReceived?: (notification: TipNotification) => void,
+  settings: TipAlertSettings = DEFAULT_TIP_ALERT_SETTINGS
 ) {
-  const { message } = useDataChannel();
+  const { message } = useDataChannel(TIP_NOTIFICATION_TOPIC);
 
   // Keep track of processed message IDs to prevent duplicates
   const processedMessageIds = useRef(new Set<string>());
@@ -48,37 +56,6 @@ export function useTipBroadcast(
     return () => clearInterval(interval);
   }, []);
 
-  // Broadcast a tip notification
-  const broadcastTip = useCallback(
-    async (tipData: any) => {
-      if (!room) {
-        console.error("No room available for tip broadcasting");
-        return;
-      }
-
-      try {
-        // Validate tip data before broadcasting
-        if (
-          !tipData ||
-          !tipData.id ||
-          !tipData.amount ||
-          !tipData.tipper ||
-          !tipData.streamer
-        ) {
-          console.error("Invalid tip data for broadcasting:", tipData);
-          return;
-        }
-
-        const broadcastData = createTipBroadcastData(tipData);
-        await broadcastTipNotification(room, broadcastData);
-      } catch (error) {
-        console.error("Failed to broadcast tip:", error);
-        // Don't throw the error to prevent breaking the app
-      }
-    },
-    [room]
-  );
-
   // Handle incoming tip notifications with deduplication
   useEffect(() => {
     if (!message) return;
@@ -86,7 +63,7 @@ export function useTipBroadcast(
     try {
       const data = JSON.parse(new TextDecoder().decode(message.payload));
 
-      if (isTipNotification(data)) {
+      if (isTipNotification(data, message.from)) {
         const tip = data.tip;
 
         // Validate tip data before processing
@@ -110,20 +87,26 @@ export function useTipBroadcast(
         // Mark this message as processed
         processedMessageIds.current.add(messageId);
 
-        const isLargeTip = tip.amount >= TIP_CONFIG.LARGE_TIP_THRESHOLD;
-        const isMegaTip = tip.amount >= TIP_CONFIG.MEGA_TIP_THRESHOLD;
+        // Thresholds are in USD; tips whose value is unknown aren't flagged
+        const usdValue = tip.usdValue ?? 0;
+        const isLargeTip = usdValue >= settings.largeTipThreshold;
+        const isMegaTip = usdValue >= settings.megaTipThreshold;
 
         const notification: TipNotification = {
           id: tip.id,
           amount: tip.amount,
           tokenType: tip.tokenType,
+          usdValue: tip.usdValue,
           giftType: tip.giftType,
           giftName: tip.giftName,
+          giftImageUrl: tip.giftImageUrl,
+          isPremiumGift: tip.isPremiumGift,
           tipperUsername: tip.tipperUsername,
           tipperImageUrl: tip.tipperImageUrl || "",
           streamerUsername: tip.streamerUsername,
           timestamp: tip.timestamp,
           message: formatTipMessage(tip),
+          tipMessage: tip.message,
           isLargeTip,
           isMegaTip,
         };
@@ -140,7 +123,7 @@ export function useTipBroadcast(
     } catch (error) {
       console.error("Failed to parse tip notification:", error);
     }
-  }, [message]); // Remove onTipReceived from dependencies to prevent re-runs
+  }, [message]); // Remove onTipReceived and settings from dependencies to prevent re-runs
 
   // Stable callback ref for onTipReceived to prevent effect re-runs
   const onTipReceivedRef = useRef(onTipReceived);
@@ -149,8 +132,7 @@ export function useTipBroadcast(
   });
 
   return {
-    broadcastTip,
-    LARGE_TIP_THRESHOLD: TIP_CONFIG.LARGE_TIP_THRESHOLD,
-    MEGA_TIP_THRESHOLD: TIP_CONFIG.MEGA_TIP_THRESHOLD,
+    LARGE_TIP_THRESHOLD: settings.largeTipThreshold,
+    MEGA_TIP_THRESHOLD: settings.megaTipThreshold,
   };
 }
@@ -0,0 +1,58 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useDataChannel } from "@livekit/components-react";
+
+import {
+  TIP_GOAL_TOPIC,
+  TipGoalProgress,
+  isTipGoalEvent,
+} from "@/lib/tip-goal";
+
+/**
+ * A channel's current goal, kept up to date by the server's goal events.
+ * Must be used inside the streamer's LiveKitRoom.
+ */
+export function useTipGoal(
+  hostIdentity: string,
+  onGoalReached?: (goal: TipGoalProgress) => void
+) {
+  const queryClient = useQueryClient();
+  const { message } = useDataChannel(TIP_GOAL_TOPIC);
+
+  const query = useQuery<TipGoalProgress | null>({
+    queryKey: ["tip-goal", hostIdentity],
+    queryFn: async () => {
+      const response = await fetch(`/api/tip-goals/${hostIdentity}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch goal");
+      }
+      const { goal } = await response.json();
+      return goal;
+    },
+    enabled: !!hostIdentity,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  useEffect(() => {
+    if (!message) return;
+
+    try {
+      const data = JSON.parse(new TextDecoder().decode(message.payload));
+      if (!isTipGoalEvent(data, message.from)) return;
+
+      // Ended goals are taken off the channel
+      queryClient.setQueryData(
+        ["tip-goal", hostIdentity],
+        data.goal.endedAt ? null : data.goal
+      );
+
+      if (data.type === "tip_goal_reached") {
+        onGoalReached?.(data.goal);
+      }
+    } catch (error) {
+      console.error("Error processing goal event:", error);
+    }
+  }, [message]); // Remove onGoalReached from dependencies to prevent re-runs
+
+  return query;
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+import { TipNotification } from "@/hooks/use-tip-broadcast";
+
+// Read tip alerts aloud with the browser's speech synthesis
+export function useTipSpeech() {
+  // Overlays can re-run their effects, so remember what was already read
+  const spokenIdsRef = useRef(new Set<string>());
+
+  const speakTip = useCallback((notification: TipNotification) => {
+    if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+    if (spokenIdsRef.current.has(notification.id)) return;
+
+    spokenIdsRef.current.add(notification.id);
+
+    const intro = `${notification.tipperUsername} tipped ${notification.amount} ${notification.tokenType}`;
+    const text = notification.tipMessage
+      ? `${intro}. ${notification.tipMessage}`
+      : intro;
+
+    try {
+      // Utterances queue up, so back-to-back alerts are read in order
+      window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+    } catch (error) {
+      console.warn("Failed to read tip aloud:", error);
+    }
+  }, []);
+
+  return { speakTip };
+}
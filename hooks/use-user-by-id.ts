@@ -12,6 +12,16 @@ interface User {
     isChatDelayed: boolean;
     isChatEnabled: boolean;
     isChatFollowersOnly: boolean;
+    isChatTippersOnly: boolean;
+    isChatSubscribersOnly: boolean;
+    isTipTtsEnabled: boolean;
+    largeTipThreshold: number;
+    megaTipThreshold: number;
+    tipAlertDurationSeconds: number;
+    giftAlertDurationSeconds: number;
+    tipAlertQueueSize: number;
+    excludedAlertGiftTypes: string[];
+    chatSlowModeSeconds: number;
     thumbnailUrl: string | null;
     name: string;
   } | null;
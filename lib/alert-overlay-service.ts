@@ -0,0 +1,58 @@
+import { randomBytes } from "crypto";
+
+import { db } from "@/lib/db";
+
+const generateOverlayToken = () => randomBytes(24).toString("base64url");
+
+/**
+ * The streamer's overlay settings, created with defaults on first use
+ */
+export const getOrCreateAlertOverlay = (userId: string) =>
+  db.alertOverlay.upsert({
+    where: { userId },
+    create: { userId, token: generateOverlayToken() },
+    update: {},
+  });
+
+export const getAlertOverlayByToken = (token: string) =>
+  db.alertOverlay.findUnique({
+    where: { token },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          stream: { select: { isTipTtsEnabled: true } },
+        },
+      },
+    },
+  });
+
+/**
+ * Issue a new overlay URL. The old one stops working immediately, though an
+ * overlay that is already connected stays connected until it reloads.
+ */
+export const rotateAlertOverlayToken = async (userId: string) => {
+  await getOrCreateAlertOverlay(userId);
+
+  return db.alertOverlay.update({
+    where: { userId },
+    data: { token: generateOverlayToken() },
+  });
+};
+
+export const updateAlertOverlay = async (
+  userId: string,
+  values: {
+    minAmount?: number;
+    displayDurationSeconds?: number;
+    isSoundEnabled?: boolean;
+  }
+) => {
+  await getOrCreateAlertOverlay(userId);
+
+  return db.alertOverlay.update({
+    where: { userId },
+    data: values,
+  });
+};
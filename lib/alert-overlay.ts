@@ -0,0 +1,24 @@
+// How long an alert stays on screen, in seconds
+export const ALERT_DURATION_OPTIONS = [3, 5, 8, 10, 15];
+
+export const MAX_ALERT_MIN_AMOUNT = 10000;
+
+// Browser sources a streamer can add to OBS with their overlay token
+export const ALERT_OVERLAY_SOURCES = ["alerts", "goal"] as const;
+
+export type AlertOverlaySource = (typeof ALERT_OVERLAY_SOURCES)[number];
+
+/**
+ * LiveKit identity of a streamer's OBS overlay. It joins the room hidden
+ * and is never counted as a viewer. Each source gets its own identity so
+ * they can be connected at the same time.
+ */
+export const getAlertOverlayIdentity = (
+  hostId: string,
+  source: AlertOverlaySource = "alerts"
+) => `overlay-${source}-${hostId}`;
+
+export const getAlertOverlayPath = (
+  token: string,
+  source: AlertOverlaySource = "alerts"
+) => `/overlay/${token}/${source}`;
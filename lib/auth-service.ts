@@ -1,6 +1,6 @@
 // lib/auth-service.ts
 
-import { getUser } from "@civic/auth-web3/nextjs";
+import { getTokens, getUser } from "@civic/auth-web3/nextjs";
 import { db } from "@/lib/db";
 // import { cookies } from "next/headers";
 //
@@ -87,6 +87,42 @@ export const getSelfByUsername = async (username: string) => {
   return user;
 };
 
+//
+// 4. ADMIN ONLY: platform operators listed (by user id) in ADMIN_USER_IDS
+//
+export const isAdmin = (userId: string) =>
+  (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .includes(userId);
+
+export const getAdmin = async () => {
+  const self = await getSelf();
+  if (!isAdmin(self.id)) {
+    throw new Error("Forbidden");
+  }
+  return self;
+};
+
+//
+// 5. SESSION AGE: when the current Civic session last signed in, for
+//    actions that should need a fresh sign-in
+//
+export const getSignedInAt = async () => {
+  const tokens = await getTokens();
+  const payload = tokens?.idToken?.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  // auth_time survives token refreshes; iat is the fallback
+  const seconds = claims.auth_time ?? claims.iat;
+
+  return typeof seconds === "number" ? new Date(seconds * 1000) : null;
+};
+
 export const getSelfFromApi = async () => {
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || '';
   const url = baseUrl ? `${baseUrl}/api/user/me` : '/api/user/me';
@@ -0,0 +1,129 @@
+import { db } from "@/lib/db";
+
+export const MAX_STREAM_TAGS = 5;
+export const MAX_TAG_LENGTH = 24;
+
+export type CategoryStreamSort = "viewers" | "recent";
+
+const streamCardSelect = {
+  id: true,
+  name: true,
+  thumbnailUrl: true,
+  isLive: true,
+  viewerCount: true,
+  streamStartedAt: true,
+  tags: true,
+  updatedAt: true,
+  user: {
+    select: {
+      id: true,
+      username: true,
+      imageUrl: true,
+      bio: true,
+    },
+  },
+  subCategory: {
+    select: { name: true, slug: true },
+  },
+} as const;
+
+/**
+ * Lowercase, de-duplicate and cap free-form stream tags
+ */
+export const normalizeTags = (tags: string[]) =>
+  Array.from(
+    new Set(
+      tags
+        .map((tag) => tag.trim().toLowerCase().replace(/^#/, ""))
+        .filter(Boolean)
+        .map((tag) => tag.slice(0, MAX_TAG_LENGTH))
+    )
+  ).slice(0, MAX_STREAM_TAGS);
+
+/**
+ * Recompute a subcategory's live viewer total, and its parent category's
+ * total, from the viewer counts of the streams live in it
+ */
+export const syncCategoryViewers = async (subCategoryId: string) => {
+  const subCategoryViewers = await db.stream.aggregate({
+    where: { subCategoryId, isLive: true },
+    _sum: { viewerCount: true },
+  });
+
+  const subCategory = await db.subCategory.update({
+    where: { id: subCategoryId },
+    data: { viewers: subCategoryViewers._sum.viewerCount ?? 0 },
+  });
+
+  const categoryViewers = await db.subCategory.aggregate({
+    where: { categoryId: subCategory.categoryId },
+    _sum: { viewers: true },
+  });
+
+  await db.category.update({
+    where: { id: subCategory.categoryId },
+    data: { viewers: categoryViewers._sum.viewers ?? 0 },
+  });
+};
+
+export const getCategoryBySlug = (slug: string) =>
+  db.category.findFirst({
+    where: { slug, isActive: true },
+    include: {
+      subCategories: {
+        where: { isActive: true },
+        orderBy: [{ viewers: "desc" }, { name: "asc" }],
+      },
+    },
+  });
+
+/**
+ * Live streams and the most recent past broadcasts in a set of subcategories
+ */
+export const getCategoryStreams = async ({
+  subCategoryIds,
+  sort = "viewers",
+  limit = 24,
+}: {
+  subCategoryIds: string[];
+  sort?: CategoryStreamSort;
+  limit?: number;
+}) => {
+  const [live, pastSessions] = await Promise.all([
+    db.stream.findMany({
+      where: { subCategoryId: { in: subCategoryIds }, isLive: true },
+      select: streamCardSelect,
+      orderBy:
+        sort === "viewers"
+          ? [{ viewerCount: "desc" }, { streamStartedAt: "desc" }]
+          : [{ streamStartedAt: "desc" }],
+      take: limit,
+    }),
+    db.streamSession.findMany({
+      where: {
+        subCategoryId: { in: subCategoryIds },
+        endedAt: { not: null },
+        stream: { isLive: false },
+      },
+      distinct: ["streamId"],
+      select: {
+        id: true,
+        startedAt: true,
+        peakViewers: true,
+        stream: { select: streamCardSelect },
+      },
+      orderBy: { startedAt: "desc" },
+      take: limit * 2,
+    }),
+  ]);
+
+  const recent = pastSessions
+    .sort((a, b) =>
+      sort === "viewers"
+        ? b.peakViewers - a.peakViewers
+        : b.startedAt.getTime() - a.startedAt.getTime()
+    )
+    .slice(0, limit);
+
+  return { live, recent };
+};
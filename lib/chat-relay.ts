@@ -0,0 +1,64 @@
+import type { Participant } from "livekit-client";
+import type { SubscriberBadge } from "@/lib/subscription";
+
+// Data channel topic used for chat messages relayed by the server
+export const CHAT_MESSAGE_TOPIC = "chat_message";
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+// How long the relay holds messages when "Delay chat" is on
+export const CHAT_DELAY_SECONDS = 3;
+
+// Intervals a streamer can pick for slow mode, 0 turns it off
+export const CHAT_SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60, 120];
+
+export interface ChatRelayMessage {
+  type: "chat_message";
+  id: string;
+  message: string;
+  senderId: string;
+  senderName: string;
+  senderBadge: SubscriberBadge | null;
+  timestamp: number;
+}
+
+// Published when a host or moderator deletes a message for everyone
+export interface ChatRelayDeletion {
+  type: "chat_message_deleted";
+  id: string;
+}
+
+/**
+ * Check if data is a chat message relayed by the server.
+ * Viewers have no data publish rights, and anything sent by a participant
+ * (such as the broadcasting host) is rejected so the relay can't be bypassed.
+ */
+export function isChatRelayMessage(
+  data: any,
+  from?: Participant
+): data is ChatRelayMessage {
+  if (from) {
+    return false;
+  }
+
+  return (
+    data?.type === "chat_message" &&
+    typeof data?.id === "string" &&
+    typeof data?.message === "string" &&
+    typeof data?.senderName === "string"
+  );
+}
+
+/**
+ * Check if data is a chat message deletion published by the server
+ */
+export function isChatRelayDeletion(
+  data: any,
+  from?: Participant
+): data is ChatRelayDeletion {
+  if (from) {
+    return false;
+  }
+
+  return data?.type === "chat_message_deleted" && typeof data?.id === "string";
+}
@@ -0,0 +1,332 @@
+import { Stream } from "@prisma/client";
+import { DataPacket_Kind } from "livekit-server-sdk";
+
+import { db } from "@/lib/db";
+import { redis } from "@/lib/redis";
+import { roomService } from "@/lib/room-service";
+import { getOpenSessionId } from "@/lib/stream-session-service";
+import { getActiveChatBan } from "@/lib/moderation-service";
+import {
+  getActiveSubscription,
+  getSubscriberBadges,
+} from "@/lib/subscription-service";
+import {
+  CHAT_DELAY_SECONDS,
+  CHAT_MESSAGE_TOPIC,
+  ChatRelayMessage,
+  MAX_CHAT_MESSAGE_LENGTH,
+} from "@/lib/chat-relay";
+
+export const CHAT_HISTORY_LIMIT = 50;
+
+const chatSenderSelect = {
+  id: true,
+  username: true,
+} as const;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type ChatStream = Pick<
+  Stream,
+  | "id"
+  | "userId"
+  | "isChatEnabled"
+  | "isChatDelayed"
+  | "isChatFollowersOnly"
+  | "isChatTippersOnly"
+  | "isChatSubscribersOnly"
+  | "chatSlowModeSeconds"
+>;
+
+/**
+ * Apply the room's chat modes to a sender, throwing the reason they can't chat.
+ * The host is never restricted.
+ */
+const assertCanChat = async (stream: ChatStream, senderId: string) => {
+  if (!stream.isChatEnabled) {
+    throw new Error("Chat is disabled");
+  }
+
+  if (senderId === stream.userId) {
+    return;
+  }
+
+  const block = await db.block.findUnique({
+    where: {
+      blockerId_blockedId: {
+        blockerId: stream.userId,
+        blockedId: senderId,
+      },
+    },
+  });
+
+  if (block) {
+    throw new Error("You are blocked from this chat");
+  }
+
+  const ban = await getActiveChatBan(stream.userId, senderId);
+
+  if (ban) {
+    throw new Error(
+      ban.expiresAt
+        ? `You are timed out for ${Math.ceil(
+            (ban.expiresAt.getTime() - Date.now()) / 60000
+          )} more minute(s)`
+        : "You are banned from this chat"
+    );
+  }
+
+  if (stream.isChatFollowersOnly) {
+    const follow = await db.follow.findUnique({
+      where: {
+        followerId_followingId: {
+          followerId: senderId,
+          followingId: stream.userId,
+        },
+      },
+    });
+
+    if (!follow) {
+      throw new Error("Only followers can chat");
+    }
+  }
+
+  if (stream.isChatTippersOnly) {
+    const tip = await db.tip.findFirst({
+      where: {
+        tipperId: senderId,
+        streamerId: stream.userId,
+        status: "VERIFIED",
+      },
+      select: { id: true },
+    });
+
+    if (!tip) {
+      throw new Error("Only supporters who have tipped can chat");
+    }
+  }
+
+  if (stream.isChatSubscribersOnly) {
+    const subscription = await getActiveSubscription(senderId, stream.userId);
+
+    if (!subscription?.tier.hasSubscriberChat) {
+      throw new Error("Only subscribers can chat");
+    }
+  }
+
+  if (stream.chatSlowModeSeconds > 0) {
+    await claimSlowModeSlot(stream, senderId);
+  }
+};
+
+/**
+ * Take the sender's one message per slow mode interval. The key is set only
+ * if absent, so concurrent messages can't both get through.
+ */
+const claimSlowModeSlot = async (stream: ChatStream, senderId: string) => {
+  const key = `chat:slow-mode:${stream.id}:${senderId}`;
+  // How long until the sender's previous slot expires, if they have one
+  let waitMs: number | null;
+
+  try {
+    const claimed = await redis.set(key, Date.now(), {
+      nx: true,
+      ex: stream.chatSlowModeSeconds,
+    });
+    waitMs = claimed ? null : await redis.pttl(key);
+  } catch (error) {
+    // Chat stays open if redis is down, only without slow mode
+    console.error("[claimSlowModeSlot] error:", error);
+    return;
+  }
+
+  if (waitMs !== null) {
+    throw new Error(
+      `Slow mode is on. Wait ${Math.max(1, Math.ceil(waitMs / 1000))}s before sending another message`
+    );
+  }
+};
+
+/**
+ * Publish a chat message into the host's LiveKit room from the server
+ */
+const publishChatMessage = async (
+  roomName: string,
+  message: ChatRelayMessage
+) => {
+  await roomService.sendData(
+    roomName,
+    new TextEncoder().encode(JSON.stringify(message)),
+    DataPacket_Kind.RELIABLE,
+    { topic: CHAT_MESSAGE_TOPIC }
+  );
+};
+
+/**
+ * Validate, store and broadcast a message sent in the host's room.
+ *
+ * Viewers can't publish to the room themselves, so this relay is the only way
+ * into the chat and the place the room's chat modes are enforced. Delayed
+ * chats are held here before being published.
+ */
+export const relayChatMessage = async ({
+  hostIdentity,
+  senderId,
+  content,
+}: {
+  hostIdentity: string;
+  senderId: string;
+  content: string;
+}) => {
+  const stream = await db.stream.findUnique({
+    where: { userId: hostIdentity },
+    select: {
+      id: true,
+      userId: true,
+      isChatEnabled: true,
+      isChatDelayed: true,
+      isChatFollowersOnly: true,
+      isChatTippersOnly: true,
+      isChatSubscribersOnly: true,
+      chatSlowModeSeconds: true,
+    },
+  });
+
+  if (!stream) {
+    throw new Error("Stream not found");
+  }
+
+  await assertCanChat(stream, senderId);
+
+  // Held before it is stored, so history can't show it before the room does
+  if (stream.isChatDelayed && senderId !== hostIdentity) {
+    await sleep(CHAT_DELAY_SECONDS * 1000);
+  }
+
+  const sessionId = await getOpenSessionId(stream.id);
+
+  const message = await db.chatMessage.create({
+    data: {
+      content: content.slice(0, MAX_CHAT_MESSAGE_LENGTH),
+      streamId: stream.id,
+      sessionId,
+      senderId,
+    },
+    include: {
+      sender: { select: chatSenderSelect },
+    },
+  });
+
+  if (sessionId) {
+    await db.streamSession.update({
+      where: { id: sessionId },
+      data: { chatMessageCount: { increment: 1 } },
+    });
+  }
+
+  const badges = await getSubscriberBadges(hostIdentity, [senderId]);
+
+  await publishChatMessage(hostIdentity, {
+    type: "chat_message",
+    id: message.id,
+    message: message.content,
+    senderId: message.sender.id,
+    senderName: message.sender.username,
+    senderBadge: badges[senderId] ?? null,
+    timestamp: message.createdAt.getTime(),
+  });
+
+  return message;
+};
+
+/**
+ * The latest messages of the current broadcast (or of the stream when
+ * offline), oldest first, for viewers joining the chat late
+ */
+export const getChatHistory = async ({
+  hostIdentity,
+  before,
+  limit = CHAT_HISTORY_LIMIT,
+}: {
+  hostIdentity: string;
+  before?: Date;
+  limit?: number;
+}) => {
+  const stream = await db.stream.findUnique({
+    where: { userId: hostIdentity },
+    select: { id: true, isChatEnabled: true },
+  });
+
+  if (!stream || !stream.isChatEnabled) {
+    return [];
+  }
+
+  const sessionId = await getOpenSessionId(stream.id);
+
+  const messages = await db.chatMessage.findMany({
+    where: {
+      streamId: stream.id,
+      ...(sessionId && { sessionId }),
+      ...(before && { createdAt: { lt: before } }),
+      deletedAt: null,
+      // Hide senders the host has blocked since they wrote
+      sender: {
+        blockedBy: {
+          none: { blockerId: hostIdentity },
+        },
+      },
+    },
+    include: {
+      sender: { select: chatSenderSelect },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  const badges = await getSubscriberBadges(
+    hostIdentity,
+    Array.from(new Set(messages.map((message) => message.senderId)))
+  );
+
+  return messages.reverse().map((message) => ({
+    ...message,
+    senderBadge: badges[message.senderId] ?? null,
+  }));
+};
+
+/**
+ * Search a streamer's chat log by message text or sender username
+ */
+export const searchChatLog = async ({
+  streamId,
+  query,
+  limit = 100,
+}: {
+  streamId: string;
+  query?: string;
+  limit?: number;
+}) => {
+  const search = query?.trim();
+
+  return db.chatMessage.findMany({
+    where: {
+      streamId,
+      ...(search && {
+        OR: [
+          { content: { contains: search, mode: "insensitive" as const } },
+          {
+            sender: {
+              username: { contains: search, mode: "insensitive" as const },
+            },
+          },
+        ],
+      }),
+    },
+    include: {
+      sender: { select: chatSenderSelect },
+      session: { select: { id: true, startedAt: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+};
@@ -0,0 +1,171 @@
+import { db } from "@/lib/db";
+import { toTextPdf, PdfLine } from "@/lib/pdf";
+import {
+  EarningsStatement,
+  StatementLine,
+  formatStatementMonth,
+  getStatementPeriod,
+  getStatementTotals,
+} from "@/lib/earnings-statement";
+import { DEFAULT_TOKEN } from "@/config/tokens";
+
+/**
+ * Everything a streamer received and paid out in one calendar month (UTC)
+ */
+export const getEarningsStatement = async (
+  userId: string,
+  month: string
+): Promise<EarningsStatement> => {
+  const { start, end } = getStatementPeriod(month);
+  const createdAt = { gte: start, lt: end };
+
+  const [tips, gifts, subscriptions, withdrawals] = await Promise.all([
+    db.tip.groupBy({
+      by: ["tokenType"],
+      where: {
+        streamerId: userId,
+        status: "VERIFIED",
+        giftName: null,
+        createdAt,
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+      orderBy: { tokenType: "asc" },
+    }),
+    db.tip.groupBy({
+      by: ["giftName", "tokenType"],
+      where: {
+        streamerId: userId,
+        status: "VERIFIED",
+        giftName: { not: null },
+        createdAt,
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+      orderBy: { giftName: "asc" },
+    }),
+    db.subscriptionPayment.aggregate({
+      where: { subscription: { streamerId: userId }, createdAt },
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    db.withdrawal.groupBy({
+      by: ["tokenType"],
+      where: {
+        userId,
+        recipientId: null,
+        status: "CONFIRMED",
+        confirmedAt: createdAt,
+      },
+      _sum: { amount: true, gasInUsdc: true },
+      _count: { _all: true },
+      orderBy: { tokenType: "asc" },
+    }),
+  ]);
+
+  return {
+    month,
+    tips: tips.map((group) => ({
+      label: `${group.tokenType} tips`,
+      tokenType: group.tokenType,
+      count: group._count._all,
+      amount: Number(group._sum.amount ?? 0),
+    })),
+    gifts: gifts.map((group) => ({
+      label: group.giftName ?? "Gift",
+      tokenType: group.tokenType,
+      count: group._count._all,
+      amount: Number(group._sum.amount ?? 0),
+    })),
+    subscriptions: {
+      label: "Subscriptions",
+      tokenType: DEFAULT_TOKEN,
+      count: subscriptions._count._all,
+      amount: Number(subscriptions._sum.amount ?? 0),
+    },
+    withdrawals: withdrawals.map((group) => ({
+      label: "Withdrawals",
+      tokenType: group.tokenType,
+      count: group._count._all,
+      amount: Number(group._sum.amount ?? 0),
+    })),
+    fees: withdrawals.map((group) => ({
+      label: "Network fees",
+      tokenType: group.tokenType,
+      count: group._count._all,
+      amount: Number(group._sum.gasInUsdc ?? 0),
+    })),
+  };
+};
+
+const escapeCsvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const getStatementRows = (statement: EarningsStatement) => {
+  const totals = getStatementTotals(statement);
+  const row = (section: string, line: StatementLine) => [
+    section,
+    line.label,
+    line.tokenType,
+    line.count,
+    line.amount.toFixed(6),
+  ];
+
+  return [
+    ...statement.tips.map((line) => row("Tips", line)),
+    ...statement.gifts.map((line) => row("Gifts", line)),
+    row("Subscriptions", statement.subscriptions),
+    ...statement.withdrawals.map((line) => row("Withdrawals", line)),
+    ...statement.fees.map((line) => row("Fees", line)),
+    ...Object.keys(totals).map((tokenType) => [
+      "Total",
+      "Received",
+      tokenType,
+      "",
+      totals[tokenType].toFixed(6),
+    ]),
+  ];
+};
+
+export const toStatementCsv = (statement: EarningsStatement) =>
+  [["Section", "Item", "Token", "Count", "Amount"], ...getStatementRows(statement)]
+    .map((row) => row.map(escapeCsvValue).join(","))
+    .join("\r\n");
+
+export const toStatementPdf = (
+  statement: EarningsStatement,
+  username: string
+) => {
+  const columns = (values: (string | number)[]) =>
+    [
+      String(values[0]).padEnd(15),
+      String(values[1]).slice(0, 24).padEnd(25),
+      String(values[2]).padEnd(6),
+      String(values[3]).padStart(6),
+      String(values[4]).padStart(16),
+    ].join("");
+
+  const lines: PdfLine[] = [
+    { text: "Switched.fun earnings statement", bold: true },
+    { text: `Streamer: ${username}` },
+    { text: `Period: ${formatStatementMonth(statement.month)} (UTC)` },
+    { text: `Generated: ${new Date().toISOString()}` },
+    { text: "" },
+    {
+      text: columns(["Section", "Item", "Token", "Count", "Amount"]),
+      bold: true,
+    },
+    ...getStatementRows(statement).map((row) => ({
+      text: columns(row),
+      bold: row[0] === "Total",
+    })),
+    { text: "" },
+    {
+      text: "Amounts are in token units and are not converted to fiat.",
+    },
+  ];
+
+  return toTextPdf(lines);
+};
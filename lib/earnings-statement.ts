@@ -0,0 +1,76 @@
+import { DEFAULT_TOKEN, TokenType } from "@/config/tokens";
+
+export type StatementFormat = "csv" | "pdf";
+
+export const STATEMENT_FORMATS: StatementFormat[] = ["csv", "pdf"];
+
+// How many past months the dashboard offers statements for
+export const STATEMENT_MONTH_COUNT = 12;
+
+// Statements cover one calendar month in UTC, written as "YYYY-MM"
+export const STATEMENT_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export interface StatementLine {
+  label: string;
+  tokenType: TokenType;
+  count: number;
+  amount: number;
+}
+
+export interface EarningsStatement {
+  month: string;
+  tips: StatementLine[];
+  gifts: StatementLine[];
+  subscriptions: StatementLine;
+  withdrawals: StatementLine[];
+  // Deducted from confirmed withdrawals to cover network fees
+  fees: StatementLine[];
+}
+
+/**
+ * First instant of the month and of the month after it
+ */
+export const getStatementPeriod = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1)),
+  };
+};
+
+/**
+ * The current month and the ones before it, most recent first
+ */
+export const getStatementMonths = (
+  count = STATEMENT_MONTH_COUNT,
+  now = new Date()
+) =>
+  Array.from({ length: count }, (_, i) => {
+    const date = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)
+    );
+    return date.toISOString().slice(0, 7);
+  });
+
+export const formatStatementMonth = (month: string) =>
+  getStatementPeriod(month).start.toLocaleString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+/**
+ * Tips, gifts and subscriptions received, per token
+ */
+export const getStatementTotals = (statement: EarningsStatement) => {
+  const totals: Record<TokenType, number> = { [DEFAULT_TOKEN]: 0 };
+
+  [...statement.tips, ...statement.gifts, statement.subscriptions].forEach(
+    (line) => {
+      totals[line.tokenType] = (totals[line.tokenType] ?? 0) + line.amount;
+    }
+  );
+
+  return totals;
+};
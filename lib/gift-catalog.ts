@@ -0,0 +1,205 @@
+// Gifts are tips with a picture: the catalog holds what each one costs and
+// how it looks in the picker and the overlays
+
+export interface GiftCatalogItem {
+  id: string;
+  name: string;
+  price: number;
+  imageUrl: string;
+  color: string;
+  isPremium: boolean;
+  isEnabled: boolean;
+  sortOrder: number;
+  // Uploaded by the streamer rather than provided by the platform
+  isCustom: boolean;
+}
+
+export type PlatformGift = Pick<
+  GiftCatalogItem,
+  "id" | "name" | "price" | "imageUrl" | "color" | "isPremium"
+>;
+
+export const GIFT_LIMITS = {
+  MAX_CUSTOM_GIFTS: 20,
+  MAX_NAME_LENGTH: 24,
+  MIN_PRICE: 1, // $
+  MAX_PRICE: 10000, // $
+  PREMIUM_PRICE: 50, // Custom gifts from this price get the premium styling
+} as const;
+
+export const CUSTOM_GIFT_COLOR = "bg-blue-500";
+
+/**
+ * The platform's default gifts, seeded into the Gift table by
+ * scripts/seed-gifts.ts. Their ids are the gift types tips already use.
+ */
+export const PLATFORM_GIFTS: PlatformGift[] = [
+  {
+    id: "support",
+    name: "support",
+    price: 1,
+    imageUrl: "/image/gifts/support.png",
+    color: "bg-gray-600",
+    isPremium: false,
+  },
+  {
+    id: "siptip",
+    name: "SipTip",
+    price: 2,
+    imageUrl: "/image/gifts/sip_tip.png",
+    color: "bg-gray-600",
+    isPremium: false,
+  },
+  {
+    id: "botsupport",
+    name: "BotSupport",
+    price: 5,
+    imageUrl: "/image/gifts/bot_support.png",
+    color: "bg-blue-500",
+    isPremium: false,
+  },
+  {
+    id: "friendlyai",
+    name: "FriendlyAI",
+    price: 7,
+    imageUrl: "/image/gifts/friendly_ai.png",
+    color: "bg-blue-500",
+    isPremium: false,
+  },
+  {
+    id: "audiomoney",
+    name: "AudioMoney",
+    price: 10,
+    imageUrl: "/image/gifts/audio_money.png",
+    color: "bg-blue-500",
+    isPremium: false,
+  },
+  {
+    id: "modbot",
+    name: "ModBot",
+    price: 15,
+    imageUrl: "/image/gifts/mod_bot.png",
+    color: "bg-blue-500",
+    isPremium: false,
+  },
+  {
+    id: "vibes",
+    name: "Vibes",
+    price: 20,
+    imageUrl: "/image/gifts/vibes.png",
+    color: "bg-purple-500",
+    isPremium: false,
+  },
+  {
+    id: "buzz",
+    name: "Buzz",
+    price: 50,
+    imageUrl: "/image/gifts/buzz.png",
+    color: "bg-purple-500",
+    isPremium: true,
+  },
+  {
+    id: "eos",
+    name: "EOS mini",
+    price: 75,
+    imageUrl: "/image/gifts/eos_mini.png",
+    color: "bg-purple-500",
+    isPremium: true,
+  },
+  {
+    id: "alphas",
+    name: "Alphas",
+    price: 100,
+    imageUrl: "/image/gifts/alphas.png",
+    color: "bg-purple-500",
+    isPremium: true,
+  },
+  {
+    id: "lootbox",
+    name: "LootBox",
+    price: 150,
+    imageUrl: "/image/gifts/loot_box.png",
+    color: "bg-purple-500",
+    isPremium: true,
+  },
+  {
+    id: "makeover",
+    name: "Makeover",
+    price: 150,
+    imageUrl: "/image/gifts/makeover.png",
+    color: "bg-purple-500",
+    isPremium: true,
+  },
+  {
+    id: "nfchips",
+    name: "NFChips",
+    price: 200,
+    imageUrl: "/image/gifts/nfchips.png",
+    color: "bg-gradient-to-br from-purple-600 to-pink-600",
+    isPremium: true,
+  },
+  {
+    id: "kash",
+    name: "Kash",
+    price: 500,
+    imageUrl: "/image/gifts/kash.png",
+    color: "bg-gradient-to-br from-purple-600 to-pink-600",
+    isPremium: true,
+  },
+  {
+    id: "bloom",
+    name: "Bloom",
+    price: 750,
+    imageUrl: "/image/gifts/bloom.png",
+    color: "bg-gradient-to-br from-purple-600 to-pink-600",
+    isPremium: true,
+  },
+  {
+    id: "habiti",
+    name: "Habiti",
+    price: 1000,
+    imageUrl: "/image/gifts/habibti.png",
+    color: "bg-gradient-to-br from-purple-600 to-pink-600",
+    isPremium: true,
+  },
+  {
+    id: "loveraid",
+    name: "LoveRaid",
+    price: 2000,
+    imageUrl: "/image/gifts/love_raid.png",
+    color: "bg-gradient-to-br from-yellow-400 to-red-500",
+    isPremium: true,
+  },
+  {
+    id: "flexbag",
+    name: "FlexBag",
+    price: 2500,
+    imageUrl: "/image/gifts/flex_bag.png",
+    color: "bg-gradient-to-br from-yellow-400 to-red-500",
+    isPremium: true,
+  },
+  {
+    id: "whalepack",
+    name: "WhalePack",
+    price: 5000,
+    imageUrl: "/image/gifts/whale_pack.png",
+    color: "bg-gradient-to-br from-yellow-400 to-red-500",
+    isPremium: true,
+  },
+  {
+    id: "starpower",
+    name: "StarPower",
+    price: 10000,
+    imageUrl: "/image/gifts/star_power.png",
+    color: "bg-gradient-to-br from-yellow-400 to-red-500",
+    isPremium: true,
+  },
+];
+
+/**
+ * Order a catalog the way the picker shows it
+ */
+export const sortGiftCatalog = (gifts: GiftCatalogItem[]) =>
+  [...gifts].sort(
+    (a, b) => a.sortOrder - b.sortOrder || a.price - b.price
+  );
@@ -0,0 +1,175 @@
+import { Gift, GiftOverride } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { getCachedData, invalidateCache } from "@/lib/redis";
+import {
+  CUSTOM_GIFT_COLOR,
+  GIFT_LIMITS,
+  GiftCatalogItem,
+  sortGiftCatalog,
+} from "@/lib/gift-catalog";
+
+const GIFT_CATALOG_CACHE_TTL = 300; // 5 minutes
+
+const getGiftCatalogCacheKey = (streamerId: string) => `gifts:${streamerId}`;
+
+const toCatalogItem = (
+  gift: Gift,
+  override?: GiftOverride
+): GiftCatalogItem => ({
+  id: gift.id,
+  name: gift.name,
+  price: Number(override?.price ?? gift.price),
+  imageUrl: gift.imageUrl,
+  color: gift.color,
+  isPremium: gift.isPremium,
+  isEnabled: gift.streamerId ? gift.isEnabled : override?.isEnabled ?? true,
+  sortOrder: override?.sortOrder ?? gift.sortOrder,
+  isCustom: !!gift.streamerId,
+});
+
+/**
+ * Every gift a streamer can offer, enabled or not: the platform gifts with
+ * the streamer's overrides applied, followed by their own uploads
+ */
+export const getStreamerGifts = async (streamerId: string) => {
+  const [platformGifts, overrides, customGifts] = await Promise.all([
+    db.gift.findMany({ where: { streamerId: null, isEnabled: true } }),
+    db.giftOverride.findMany({ where: { userId: streamerId } }),
+    db.gift.findMany({ where: { streamerId } }),
+  ]);
+
+  const overridesByGiftId = new Map(
+    overrides.map((override) => [override.giftId, override])
+  );
+
+  return sortGiftCatalog([
+    ...platformGifts.map((gift) =>
+      toCatalogItem(gift, overridesByGiftId.get(gift.id))
+    ),
+    ...customGifts.map((gift) => toCatalogItem(gift)),
+  ]);
+};
+
+/**
+ * The gifts viewers can send a streamer, in the streamer's order
+ */
+export const getGiftCatalog = (streamerId: string) =>
+  getCachedData({
+    key: getGiftCatalogCacheKey(streamerId),
+    ttl: GIFT_CATALOG_CACHE_TTL,
+    fetchFn: async () =>
+      (await getStreamerGifts(streamerId)).filter((gift) => gift.isEnabled),
+  });
+
+/**
+ * A gift a viewer can currently send the streamer, or null
+ */
+export const getCatalogGift = async (streamerId: string, giftId: string) => {
+  const catalog = await getGiftCatalog(streamerId);
+  return catalog.find((gift) => gift.id === giftId) ?? null;
+};
+
+export const createCustomGift = async (
+  streamerId: string,
+  data: { name: string; price: number; imageUrl: string }
+) => {
+  const gifts = await getStreamerGifts(streamerId);
+
+  if (gifts.filter((gift) => gift.isCustom).length >= GIFT_LIMITS.MAX_CUSTOM_GIFTS) {
+    throw new Error(
+      `You can have up to ${GIFT_LIMITS.MAX_CUSTOM_GIFTS} custom gifts`
+    );
+  }
+
+  const gift = await db.gift.create({
+    data: {
+      ...data,
+      streamerId,
+      color: CUSTOM_GIFT_COLOR,
+      isPremium: data.price >= GIFT_LIMITS.PREMIUM_PRICE,
+      // New gifts go to the end of the picker
+      sortOrder: Math.max(-1, ...gifts.map((gift) => gift.sortOrder)) + 1,
+    },
+  });
+
+  await invalidateCache(getGiftCatalogCacheKey(streamerId));
+
+  return gift;
+};
+
+/**
+ * Change a gift's price or visibility. Platform gifts are changed for this
+ * streamer only, through an override.
+ */
+export const updateGift = async (
+  streamerId: string,
+  giftId: string,
+  data: { price?: number; isEnabled?: boolean }
+) => {
+  const gift = await db.gift.findUnique({ where: { id: giftId } });
+
+  if (gift?.streamerId === streamerId) {
+    await db.gift.update({
+      where: { id: giftId },
+      data: {
+        ...data,
+        isPremium:
+          data.price !== undefined
+            ? data.price >= GIFT_LIMITS.PREMIUM_PRICE
+            : undefined,
+      },
+    });
+  } else if (gift && !gift.streamerId) {
+    await db.giftOverride.upsert({
+      where: { userId_giftId: { userId: streamerId, giftId } },
+      create: { userId: streamerId, giftId, ...data },
+      update: data,
+    });
+  } else {
+    throw new Error("Gift not found");
+  }
+
+  await invalidateCache(getGiftCatalogCacheKey(streamerId));
+};
+
+/**
+ * Delete one of the streamer's own gifts. Past tips keep the gift's name.
+ */
+export const deleteCustomGift = async (streamerId: string, giftId: string) => {
+  const { count } = await db.gift.deleteMany({
+    where: { id: giftId, streamerId },
+  });
+
+  if (count === 0) {
+    throw new Error("Gift not found");
+  }
+
+  await invalidateCache(getGiftCatalogCacheKey(streamerId));
+};
+
+/**
+ * Store the picker order; giftIds lists the streamer's gifts first to last
+ */
+export const reorderGifts = async (streamerId: string, giftIds: string[]) => {
+  const gifts = await getStreamerGifts(streamerId);
+  const giftsById = new Map(gifts.map((gift) => [gift.id, gift]));
+
+  if (giftIds.some((giftId) => !giftsById.has(giftId))) {
+    throw new Error("Gift not found");
+  }
+
+  await db.$transaction(
+    giftIds.map((giftId, sortOrder) =>
+      giftsById.get(giftId)!.isCustom
+        ? db.gift.update({ where: { id: giftId }, data: { sortOrder } })
+        : db.giftOverride.upsert({
+            where: { userId_giftId: { userId: streamerId, giftId } },
+            create: { userId: streamerId, giftId, sortOrder },
+            update: { sortOrder },
+          })
+    )
+  );
+
+  await invalidateCache(getGiftCatalogCacheKey(streamerId));
+};
@@ -0,0 +1,327 @@
+import { ModerationActionType, Prisma } from "@prisma/client";
+import { DataPacket_Kind } from "livekit-server-sdk";
+
+import { db } from "@/lib/db";
+import { roomService } from "@/lib/room-service";
+import { CHAT_MESSAGE_TOPIC, ChatRelayDeletion } from "@/lib/chat-relay";
+import { getViewerIdentity, parseViewerMetadata } from "@/lib/moderation";
+
+export const isChannelModerator = async (channelId: string, userId: string) => {
+  const moderator = await db.channelModerator.findUnique({
+    where: {
+      channelId_userId: { channelId, userId },
+    },
+  });
+
+  return !!moderator;
+};
+
+/**
+ * Only the streamer and their moderators can moderate a channel
+ */
+export const assertCanModerate = async (channelId: string, userId: string) => {
+  if (channelId === userId) return;
+
+  if (!(await isChannelModerator(channelId, userId))) {
+    throw new Error("Forbidden");
+  }
+};
+
+/**
+ * The ban or timeout currently keeping a user out of a channel's chat
+ */
+export const getActiveChatBan = async (channelId: string, userId: string) => {
+  const ban = await db.chatBan.findUnique({
+    where: {
+      channelId_userId: { channelId, userId },
+    },
+  });
+
+  if (!ban || (ban.expiresAt && ban.expiresAt <= new Date())) {
+    return null;
+  }
+
+  return ban;
+};
+
+const logModerationAction = (data: Prisma.ModerationActionUncheckedCreateInput) =>
+  db.moderationAction.create({ data });
+
+// Moderators and the streamer can't be moderated by other moderators
+const assertCanTarget = async (channelId: string, targetUserId: string) => {
+  if (
+    targetUserId === channelId ||
+    (await isChannelModerator(channelId, targetUserId))
+  ) {
+    throw new Error("Moderators can't be timed out or banned");
+  }
+};
+
+export const addModerator = async (channelId: string, username: string) => {
+  const user = await db.user.findUnique({ where: { username } });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (user.id === channelId) {
+    throw new Error("You already moderate your own channel");
+  }
+
+  const moderator = await db.channelModerator.upsert({
+    where: {
+      channelId_userId: { channelId, userId: user.id },
+    },
+    create: { channelId, userId: user.id },
+    update: {},
+    include: { user: true },
+  });
+
+  await logModerationAction({
+    type: ModerationActionType.ADD_MODERATOR,
+    channelId,
+    moderatorId: channelId,
+    targetUserId: user.id,
+  });
+
+  return moderator;
+};
+
+export const removeModerator = async (channelId: string, userId: string) => {
+  await db.channelModerator.deleteMany({
+    where: { channelId, userId },
+  });
+
+  await logModerationAction({
+    type: ModerationActionType.REMOVE_MODERATOR,
+    channelId,
+    moderatorId: channelId,
+    targetUserId: userId,
+  });
+};
+
+export const getModerators = (channelId: string) =>
+  db.channelModerator.findMany({
+    where: { channelId },
+    include: { user: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+/**
+ * Mute a viewer for a number of minutes. The relay rejects their messages
+ * until the timeout expires, and their participant is updated so the chat
+ * input shows it straight away.
+ */
+export const timeoutViewer = async ({
+  channelId,
+  moderatorId,
+  userId,
+  minutes,
+  reason,
+}: {
+  channelId: string;
+  moderatorId: string;
+  userId: string;
+  minutes: number;
+  reason?: string;
+}) => {
+  await assertCanTarget(channelId, userId);
+
+  const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+
+  const ban = await db.chatBan.upsert({
+    where: {
+      channelId_userId: { channelId, userId },
+    },
+    create: { channelId, userId, expiresAt, reason },
+    update: { expiresAt, reason },
+  });
+
+  await logModerationAction({
+    type: ModerationActionType.TIMEOUT,
+    channelId,
+    moderatorId,
+    targetUserId: userId,
+    durationMinutes: minutes,
+    reason,
+  });
+
+  try {
+    const identity = getViewerIdentity(userId, channelId);
+    // Metadata is replaced as a whole, so keep what the token set, e.g.
+    // isModerator
+    const participant = await roomService.getParticipant(channelId, identity);
+
+    await roomService.updateParticipant(
+      channelId,
+      identity,
+      JSON.stringify({
+        ...parseViewerMetadata(participant.metadata),
+        timedOutUntil: expiresAt.getTime(),
+      }),
+      {
+        canSubscribe: true,
+        canPublish: false,
+        canPublishData: false,
+      }
+    );
+  } catch (error) {
+    // The viewer isn't in the room right now, the relay still blocks them
+    console.log("[timeoutViewer] Participant not updated:", error);
+  }
+
+  return ban;
+};
+
+/**
+ * Permanently ban a viewer from the channel and remove them from the room.
+ * createViewerToken refuses banned users, so they can't rejoin.
+ */
+export const banViewer = async ({
+  channelId,
+  moderatorId,
+  userId,
+  reason,
+}: {
+  channelId: string;
+  moderatorId: string;
+  userId: string;
+  reason?: string;
+}) => {
+  await assertCanTarget(channelId, userId);
+
+  const ban = await db.chatBan.upsert({
+    where: {
+      channelId_userId: { channelId, userId },
+    },
+    create: { channelId, userId, expiresAt: null, reason },
+    update: { expiresAt: null, reason },
+  });
+
+  await logModerationAction({
+    type: ModerationActionType.BAN,
+    channelId,
+    moderatorId,
+    targetUserId: userId,
+    reason,
+  });
+
+  try {
+    await roomService.removeParticipant(
+      channelId,
+      getViewerIdentity(userId, channelId)
+    );
+  } catch (error) {
+    console.log("[banViewer] Participant not removed:", error);
+  }
+
+  return ban;
+};
+
+export const unbanViewer = async ({
+  channelId,
+  moderatorId,
+  userId,
+}: {
+  channelId: string;
+  moderatorId: string;
+  userId: string;
+}) => {
+  await db.chatBan.deleteMany({
+    where: { channelId, userId },
+  });
+
+  await logModerationAction({
+    type: ModerationActionType.UNBAN,
+    channelId,
+    moderatorId,
+    targetUserId: userId,
+  });
+};
+
+/**
+ * Hide a chat message from the history and from everyone watching live
+ */
+export const deleteChatMessage = async ({
+  moderatorId,
+  messageId,
+}: {
+  moderatorId: string;
+  messageId: string;
+}) => {
+  const message = await db.chatMessage.findUnique({
+    where: { id: messageId },
+    include: { stream: { select: { userId: true } } },
+  });
+
+  if (!message || message.deletedAt) {
+    throw new Error("Message not found");
+  }
+
+  const channelId = message.stream.userId;
+  await assertCanModerate(channelId, moderatorId);
+
+  await db.chatMessage.update({
+    where: { id: messageId },
+    data: { deletedAt: new Date() },
+  });
+
+  await logModerationAction({
+    type: ModerationActionType.DELETE_MESSAGE,
+    channelId,
+    moderatorId,
+    targetUserId: message.senderId,
+    messageId,
+  });
+
+  const deletion: ChatRelayDeletion = { type: "chat_message_deleted", id: messageId };
+  await roomService.sendData(
+    channelId,
+    new TextEncoder().encode(JSON.stringify(deletion)),
+    DataPacket_Kind.RELIABLE,
+    { topic: CHAT_MESSAGE_TOPIC }
+  );
+
+  return message;
+};
+
+export const getActiveChatBans = (channelId: string) =>
+  db.chatBan.findMany({
+    where: {
+      channelId,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    include: { user: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Recent moderation actions in a channel, with the text of deleted messages
+ */
+export const getModerationLog = async (channelId: string, limit = 100) => {
+  const actions = await db.moderationAction.findMany({
+    where: { channelId },
+    include: {
+      moderator: { select: { id: true, username: true, imageUrl: true } },
+      targetUser: { select: { id: true, username: true, imageUrl: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  const messageIds = actions.flatMap(({ messageId }) =>
+    messageId ? [messageId] : []
+  );
+  const messages = messageIds.length
+    ? await db.chatMessage.findMany({
+        where: { id: { in: messageIds } },
+        select: { id: true, content: true },
+      })
+    : [];
+
+  return actions.map((action) => ({
+    ...action,
+    messageContent:
+      messages.find(({ id }) => id === action.messageId)?.content ?? null,
+  }));
+};
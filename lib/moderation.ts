@@ -0,0 +1,39 @@
+// Timeout lengths offered to hosts and moderators, in minutes
+export const TIMEOUT_OPTIONS = [1, 10, 60, 24 * 60];
+
+/**
+ * Metadata on a viewer's LiveKit participant. Set in the viewer token and
+ * updated by the server when the viewer is timed out.
+ */
+export interface ViewerMetadata {
+  isModerator?: boolean;
+  timedOutUntil?: number;
+}
+
+export const parseViewerMetadata = (metadata?: string): ViewerMetadata => {
+  if (!metadata) return {};
+
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return {};
+  }
+};
+
+// Viewers join as `${userId}-${hostId}` so several rooms can be open at once
+export const getViewerIdentity = (userId: string, hostId: string) =>
+  `${userId}-${hostId}`;
+
+/**
+ * The user id behind a viewer identity in the host's room, or null for the
+ * host's own participants
+ */
+export const getUserIdFromIdentity = (identity: string, hostId: string) => {
+  const suffix = `-${hostId}`;
+
+  if (!identity.endsWith(suffix) || identity.startsWith("host-")) {
+    return null;
+  }
+
+  return identity.slice(0, -suffix.length);
+};
@@ -0,0 +1,76 @@
+// Just enough of PDF 1.4 to print plain-text documents without a dependency.
+// Text is set in Courier so columns padded with spaces line up.
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+}
+
+// The standard fonts only cover Latin-1, so anything else becomes "?"
+const escapePdfText = (text: string) =>
+  text.replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+
+/**
+ * Lay out lines top to bottom, starting a new page when one fills up
+ */
+export const toTextPdf = (lines: PdfLine[]) => {
+  const pages: PdfLine[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) {
+    pages.push([]);
+  }
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page then adds
+  // itself and its content stream
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold >>",
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const content = [
+      "BT",
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map(
+        (line) =>
+          `/${line.bold ? "F2" : "F1"} ${FONT_SIZE} Tf (${escapePdfText(line.text)}) '`
+      ),
+      "ET",
+    ].join("\n");
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything is ASCII, so string offsets are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+};
@@ -0,0 +1,120 @@
+import { PrismaClient } from "@prisma/client";
+
+// Takes the Prisma client as an argument (rather than importing "@/lib/db")
+// so scripts/aggregate-analytics.ts can run it under plain ts-node.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Midnight UTC of the day containing `date` */
+export const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Compute the platform counters for one UTC day.
+ *
+ * Totals are cumulative up to the end of the day. `totalLiveStreams`,
+ * `totalActiveStreamers` and `peakConcurrentViewers` describe activity during
+ * the day itself. Blocks and stream views have no history, so they always
+ * reflect the current value.
+ */
+export const computePlatformSnapshot = async (
+  client: PrismaClient,
+  day: Date
+) => {
+  const dayStart = startOfUtcDay(day);
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const before = { lt: dayEnd };
+
+  // Sessions that were live at any point during the day
+  const daySessions = {
+    startedAt: { lt: dayEnd },
+    OR: [{ endedAt: null }, { endedAt: { gte: dayStart } }],
+  };
+
+  const [
+    totalStreamsCreated,
+    totalLiveStreams,
+    sessionTotals,
+    totalUsers,
+    streamers,
+    activeStreamers,
+    views,
+    dayPeak,
+    totalFollows,
+    totalBlocks,
+    tips,
+  ] = await Promise.all([
+    client.stream.count({ where: { createdAt: before } }),
+    client.streamSession.count({ where: daySessions }),
+    client.streamSession.aggregate({
+      where: { startedAt: before },
+      _sum: {
+        durationSeconds: true,
+        viewerSeconds: true,
+        chatMessageCount: true,
+      },
+    }),
+    client.user.count({ where: { createdAt: before } }),
+    client.streamSession.groupBy({
+      by: ["userId"],
+      where: { startedAt: before },
+    }),
+    client.streamSession.groupBy({
+      by: ["userId"],
+      where: daySessions,
+    }),
+    client.stream.aggregate({ _sum: { views: true } }),
+    client.streamSession.aggregate({
+      where: daySessions,
+      _max: { peakViewers: true },
+    }),
+    client.follow.count({ where: { createdAt: before } }),
+    client.block.count(),
+    client.tip.aggregate({
+      where: { status: "VERIFIED", createdAt: before },
+      _count: { id: true },
+      _sum: { usdValue: true },
+    }),
+  ]);
+
+  return {
+    snapshotDate: dayStart,
+    totalStreamsCreated,
+    totalLiveStreams,
+    totalStreamHours: Math.floor(
+      (sessionTotals._sum.durationSeconds ?? 0) / 3600
+    ),
+    totalUsers,
+    totalStreamers: streamers.length,
+    totalActiveStreamers: activeStreamers.length,
+    totalViews: views._sum.views ?? 0,
+    totalWatchTimeMinutes: Math.floor(
+      (sessionTotals._sum.viewerSeconds ?? 0) / 60
+    ),
+    peakConcurrentViewers: dayPeak._max.peakViewers ?? 0,
+    totalFollows,
+    totalChatMessages: sessionTotals._sum.chatMessageCount ?? 0,
+    totalBlocks,
+    totalTips: tips._count.id,
+    totalTipVolume: tips._sum.usdValue ?? 0,
+  };
+};
+
+/**
+ * Compute and store the snapshot for a day, replacing any earlier run
+ */
+export const recordPlatformSnapshot = async (
+  client: PrismaClient,
+  day: Date = new Date()
+) => {
+  const { snapshotDate, ...counters } = await computePlatformSnapshot(
+    client,
+    day
+  );
+
+  return client.platformAnalytics.upsert({
+    where: { snapshotDate },
+    create: { snapshotDate, ...counters },
+    update: counters,
+  });
+};
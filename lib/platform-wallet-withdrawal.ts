@@ -2,28 +2,48 @@ import { PublicKey, Transaction } from "@solana/web3.js";
 import {
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
   getAssociatedTokenAddress,
-  getOrCreateAssociatedTokenAccount,
+  getAssociatedTokenAddressSync,
 } from "@solana/spl-token";
 import { BN } from "bn.js";
+import bs58 from "bs58";
+import { getConnection, getServerWallet } from "./server-wallet";
+import { sponsorTransaction } from "./sponsorship-service";
 import {
-  getConnection,
-  getServerWallet,
-  signAndSendTransaction,
-} from "./server-wallet";
+  addComputeBudget,
+  submitTransaction,
+} from "./transaction-queue-service";
+import { TransactionSubmissionStatus } from "./transaction-submission";
 import { AnchorError } from "@coral-xyz/anchor";
-import { supportedTokens } from "@/config/wallet";
+import {
+  DEFAULT_TOKEN,
+  getToken,
+  getTokenMint,
+  TokenType,
+} from "@/config/tokens";
+import { fetchUsdValue } from "@/utils/solana-price";
+import {
+  assertPendingWithdrawal,
+  createWithdrawal,
+} from "./withdrawal-service";
 
-const USDC_MINT = new PublicKey(supportedTokens.contractAddress);
-const USDC_DECIMALS = 6;
+/**
+ * What a withdrawal is worth in USD at today's price; limits are counted in
+ * USD so every token shares them
+ */
+export const getWithdrawalUsdValue = (amount: number, tokenType: TokenType) =>
+  fetchUsdValue(amount, getToken(tokenType).symbol);
 
 // Generate a withdrawal transaction for user to sign
 export const generateWithdrawalTransaction = async (
+  userId: string,
   userPublicKey: PublicKey,
   destinationAddress: PublicKey,
   amount: number,
   gasInUsdc: number,
-  program: any // Anchor program instance
+  program: any, // Anchor program instance
+  tokenType: TokenType = DEFAULT_TOKEN
 ): Promise<{
   serializedTransaction: string;
   message: string;
@@ -31,25 +51,24 @@ export const generateWithdrawalTransaction = async (
   try {
     // Get server wallet first
     const serverWallet = getServerWallet();
+    const token = getToken(tokenType);
+    const tokenMint = getTokenMint(token);
 
-    // Convert amounts to base units
+    // Convert amounts to base units; gas is paid in the withdrawn token
     const amountInBaseUnits = new BN(
-      Math.floor(amount * Math.pow(10, USDC_DECIMALS))
+      Math.floor(amount * Math.pow(10, token.decimals))
     );
     const gasInUsdcBaseUnits = new BN(
-      Math.ceil(gasInUsdc * Math.pow(10, USDC_DECIMALS))
+      Math.ceil(gasInUsdc * Math.pow(10, token.decimals))
     );
 
     // Get the proper ATA for the destination address
     const connection = getConnection();
-    const destinationAtaAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      serverWallet,
-      USDC_MINT,
+    const destinationAta = getAssociatedTokenAddressSync(
+      tokenMint,
       destinationAddress,
       true
     );
-    const destinationAta = destinationAtaAccount.address;
 
     // Create the withdraw transaction with explicit account resolution
     const withdrawBuilder = program.methods
@@ -60,7 +79,7 @@ export const generateWithdrawalTransaction = async (
       .accounts({
         signer: userPublicKey,
         receivingAta: destinationAta,
-        tokenMint: USDC_MINT,
+        tokenMint,
         tokenProgram: TOKEN_PROGRAM_ID,
       });
 
@@ -76,14 +95,28 @@ export const generateWithdrawalTransaction = async (
       throw error;
     }
 
+    // A missing destination account is created in the same transaction, so
+    // its rent goes through sponsorship like the fee
+    if (!(await connection.getAccountInfo(destinationAta))) {
+      tx.instructions.unshift(
+        createAssociatedTokenAccountIdempotentInstruction(
+          serverWallet.publicKey,
+          destinationAta,
+          destinationAddress,
+          tokenMint
+        )
+      );
+    }
+
     // Set fee payer to server wallet (platform pays gas)
     tx.feePayer = serverWallet.publicKey;
 
     const { blockhash } = await connection.getLatestBlockhash();
     tx.recentBlockhash = blockhash;
+    await addComputeBudget(tx);
 
     // Server wallet signs first (as fee payer)
-    tx.partialSign(serverWallet);
+    await sponsorTransaction(tx, { userId, operation: "WITHDRAWAL" });
 
     // Serialize the transaction for user to sign (server signature already included)
     const serializedTransaction = tx
@@ -104,45 +137,66 @@ export const generateWithdrawalTransaction = async (
   }
 };
 
-// Broadcast user-signed withdrawal transaction
+// Submit user-signed withdrawal transaction. A payout's record is settled
+// once the transaction lands or fails.
 export const broadcastWithdrawalTransaction = async (
-  userSignedTransaction: string
-): Promise<string> => {
+  userId: string,
+  userSignedTransaction: string,
+  withdrawalId?: string
+) => {
   try {
     // Deserialize the user-signed transaction (already has server signature)
     const transactionBuffer = Buffer.from(userSignedTransaction, "base64");
     const transaction = Transaction.from(transactionBuffer);
 
-    // Verify transaction signatures before sending
-    try {
-      const isValid = transaction.verifySignatures();
-    } catch (verifyError) {
-      console.log("Signature verification error:", verifyError);
-      throw verifyError;
+    // Only fully and validly signed transactions are queued
+    if (!transaction.verifySignatures()) {
+      throw new Error("Withdrawal transaction is not fully signed");
     }
 
-    // Transaction should already be fully signed, just broadcast it
-    const signature = await signAndSendTransaction(transaction);
+    // Transaction should already be fully signed, just queue it
+    const submission = await submitTransaction(transaction, {
+      kind: "WITHDRAWAL",
+      userId,
+      referenceId: withdrawalId,
+    });
 
-    console.log(`Withdrawal transaction broadcasted: ${signature}`);
-    return signature;
+    return submission;
   } catch (error) {
     console.error("Failed to broadcast withdrawal transaction:", error);
     throw error;
   }
 };
 
-// Create withdrawal transaction for user to sign
+// The fee payer's signature doubles as the transaction's id
+const getTransactionSignature = (serializedTransaction: string) => {
+  const transaction = Transaction.from(
+    Buffer.from(serializedTransaction, "base64")
+  );
+
+  if (!transaction.signature) {
+    throw new Error("Withdrawal transaction is not signed");
+  }
+
+  return bs58.encode(transaction.signature);
+};
+
+// Create withdrawal transaction for user to sign. Every transfer is recorded
+// so it counts towards the withdrawal limits; only payouts (no recipient)
+// show up in the streamer's history.
 export const createWithdrawalTransaction = async (
   userId: string,
   userPublicKey: string,
   amount: number,
   destinationAddress: string,
   gasInUsdc: number,
-  program: any
+  program: any,
+  tokenType: TokenType,
+  record: { usdValue: number; recipientId?: string }
 ): Promise<{
   serializedTransaction: string;
   message: string;
+  withdrawalId?: string;
 }> => {
   try {
     // Convert string addresses to PublicKey objects
@@ -151,14 +205,27 @@ export const createWithdrawalTransaction = async (
 
     // Generate the transaction for user to sign
     const result = await generateWithdrawalTransaction(
+      userId,
       userPubKey,
       destinationPubKey,
       amount,
       gasInUsdc,
-      program
+      program,
+      tokenType
     );
 
-    return result;
+    const withdrawal = await createWithdrawal({
+      userId,
+      amount,
+      gasInUsdc,
+      tokenType,
+      usdValue: record.usdValue,
+      recipientId: record.recipientId,
+      destinationAddress,
+      transactionHash: getTransactionSignature(result.serializedTransaction),
+    });
+
+    return { ...result, withdrawalId: withdrawal.id };
   } catch (error) {
     console.error("Failed to create withdrawal transaction:", error);
     throw error;
@@ -169,20 +236,33 @@ export const createWithdrawalTransaction = async (
 export const completeWithdrawal = async (
   userId: string,
   userPublicKey: string,
-  userSignedTransaction: string
+  userSignedTransaction: string,
+  withdrawalId?: string
 ): Promise<{
   signature: string;
+  status: TransactionSubmissionStatus;
 }> => {
   try {
-    // Broadcast the user-signed transaction
-    const signature = await broadcastWithdrawalTransaction(
-      userSignedTransaction
+    if (withdrawalId) {
+      await assertPendingWithdrawal(
+        userId,
+        withdrawalId,
+        getTransactionSignature(userSignedTransaction)
+      );
+    }
+
+    // Submit the user-signed transaction; the client polls its status
+    const { signature, status } = await broadcastWithdrawalTransaction(
+      userId,
+      userSignedTransaction,
+      withdrawalId
     );
 
-    console.log(`Withdrawal completed for user ${userId}: ${signature}`);
+    console.log(`Withdrawal submitted for user ${userId}: ${signature}`);
 
     return {
       signature,
+      status,
     };
   } catch (error) {
     console.error("Failed to complete withdrawal:", error);
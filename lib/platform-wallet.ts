@@ -5,15 +5,52 @@ import {
   Transaction,
 } from "@solana/web3.js";
 import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { getConnection, getServerWallet } from "./server-wallet";
+import { sponsorTransaction } from "./sponsorship-service";
 import {
-  getConnection,
-  getServerWallet,
-  signAndSendTransaction,
-} from "./server-wallet";
+  addComputeBudget,
+  submitAndConfirm,
+  submitTransaction,
+} from "./transaction-queue-service";
+import { TransactionSubmissionStatus } from "./transaction-submission";
 import { db } from "./db";
+import { programId } from "@/config/cluster";
+
+/**
+ * The wallet a signed createStreamer transaction registers: its one signer
+ * besides the server wallet. It must be the wallet the caller claims.
+ */
+const getPlatformWalletSigner = (
+  transaction: Transaction,
+  userPublicKey: string
+) => {
+  if (!transaction.verifySignatures()) {
+    throw new Error("Transaction is not fully signed");
+  }
+
+  if (
+    !transaction.instructions.some((instruction) =>
+      instruction.programId.equals(programId)
+    )
+  ) {
+    throw new Error("Transaction does not create a platform wallet");
+  }
+
+  const serverWallet = getServerWallet().publicKey;
+  const signers = transaction.signatures
+    .map(({ publicKey }) => publicKey)
+    .filter((publicKey) => !publicKey.equals(serverWallet));
+
+  if (signers.length !== 1 || signers[0].toBase58() !== userPublicKey) {
+    throw new Error("Transaction was not signed by this wallet");
+  }
+
+  return signers[0].toBase58();
+};
 
 // Generate a platform wallet transaction for user to sign
 export const generatePlatformWallet = async (
+  userId: string,
   userPublicKey: PublicKey,
   tokenMint: PublicKey,
   program: any // Anchor program instance
@@ -43,9 +80,10 @@ export const generatePlatformWallet = async (
     const connection = getConnection();
     const { blockhash } = await connection.getLatestBlockhash();
     tx.recentBlockhash = blockhash;
+    await addComputeBudget(tx);
 
     // Server wallet signs first (as fee payer)
-    tx.partialSign(serverWallet);
+    await sponsorTransaction(tx, { userId, operation: "PLATFORM_WALLET" });
 
     // Serialize the transaction for user to sign (server signature already included)
     const serializedTransaction = tx
@@ -66,27 +104,32 @@ export const generatePlatformWallet = async (
   }
 };
 
-// Broadcast user-signed platform wallet transaction
+// Submit user-signed platform wallet transaction. The wallet is registered
+// once the transaction lands.
 export const broadcastPlatformWalletTransaction = async (
+  userId: string,
+  userPublicKey: string,
   userSignedTransaction: string
-): Promise<string> => {
+) => {
   try {
     // Deserialize the user-signed transaction (already has server signature)
     const transactionBuffer = Buffer.from(userSignedTransaction, "base64");
     const transaction = Transaction.from(transactionBuffer);
 
-    // Verify transaction signatures before sending
-    try {
-      const isValid = transaction.verifySignatures();
-    } catch (verifyError: any) {
-      console.log("Signature verification error:", verifyError.message);
-    }
+    // The wallet saved once it lands comes from the transaction itself
+    const platformWallet = getPlatformWalletSigner(transaction, userPublicKey);
 
-    // Transaction should already be fully signed, just broadcast it
-    const signature = await signAndSendTransaction(transaction);
+    // Transaction should already be fully signed, just queue it
+    const submission = await submitTransaction(transaction, {
+      kind: "PLATFORM_WALLET",
+      userId,
+      referenceId: platformWallet,
+    });
 
-    console.log(`Platform wallet transaction broadcasted: ${signature}`);
-    return signature;
+    console.log(
+      `Platform wallet transaction submitted: ${submission.signature}`
+    );
+    return submission;
   } catch (error) {
     console.error("Failed to broadcast platform wallet transaction:", error);
     throw error;
@@ -95,6 +138,7 @@ export const broadcastPlatformWalletTransaction = async (
 
 // Create streamer profile on-chain using the program
 export const createStreamerProfile = async (
+  userId: string,
   userWallet: PublicKey,
   tokenMint: PublicKey,
   program: any // Anchor program instance
@@ -119,9 +163,14 @@ export const createStreamerProfile = async (
     const connection = getConnection();
     const { blockhash } = await connection.getLatestBlockhash();
     tx.recentBlockhash = blockhash;
+    await addComputeBudget(tx);
 
     // Sign and send transaction
-    const signature = await signAndSendTransaction(tx);
+    await sponsorTransaction(tx, { userId, operation: "STREAMER_PROFILE" });
+    const signature = await submitAndConfirm(tx, {
+      kind: "STREAMER_PROFILE",
+      userId,
+    });
 
     console.log(`Streamer profile created: ${signature}`);
     return signature;
@@ -165,6 +214,7 @@ export const createUserPlatformWalletTransaction = async (
     const tokenMintPubKey = new PublicKey(tokenMint);
 
     const result = await generatePlatformWallet(
+      userId,
       userPubKey,
       tokenMintPubKey,
       program
@@ -185,13 +235,9 @@ export const completePlatformWalletCreation = async (
 ): Promise<{
   platformWallet: string;
   signature: string;
+  status: TransactionSubmissionStatus;
 }> => {
   try {
-    // Broadcast the user-signed transaction
-    const signature = await broadcastPlatformWalletTransaction(
-      userSignedTransaction
-    );
-
     // Get user info
     const existingUser = await db.user.findUnique({
       where: { id: userId },
@@ -202,23 +248,22 @@ export const completePlatformWalletCreation = async (
       throw new Error("User not found");
     }
 
-    // Only update database AFTER successful broadcast
-    // The transaction was successful if we reach this point
-    await db.user.update({
-      where: { id: userId },
-      data: {
-        platformWallet: userPublicKey,
-        isSolanaPlatformWallet: true,
-      },
-    });
+    // Submit the user-signed transaction. The database is only updated
+    // once it lands, by the transaction queue.
+    const { signature, status } = await broadcastPlatformWalletTransaction(
+      userId,
+      userPublicKey,
+      userSignedTransaction
+    );
 
     console.log(
-      `Platform wallet completed for user ${existingUser.username}: ${userPublicKey}`
+      `Platform wallet submitted for user ${existingUser.username}: ${userPublicKey}`
     );
 
     return {
       platformWallet: userPublicKey,
       signature,
+      status,
     };
   } catch (error) {
     console.error("Failed to complete platform wallet creation:", error);
@@ -246,6 +291,7 @@ export const createStreamerForUser = async (
       const userWalletPubkey = new PublicKey(platformWallet);
 
       signature = await createStreamerProfile(
+        userId,
         userWalletPubkey,
         tokenMintPubkey,
         program
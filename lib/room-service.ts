@@ -0,0 +1,7 @@
+import { RoomServiceClient } from "livekit-server-sdk";
+
+export const roomService = new RoomServiceClient(
+  process.env.LIVEKIT_API_URL!,
+  process.env.LIVEKIT_API_KEY!,
+  process.env.LIVEKIT_API_SECRET!,
+);
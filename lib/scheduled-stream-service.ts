@@ -0,0 +1,210 @@
+import { ScheduledStream } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { invalidateCache } from "@/lib/redis";
+
+// Followers are reminded this long before a scheduled stream starts
+export const REMINDER_LEAD_TIME_MS = 15 * 60 * 1000;
+
+// Going live this long before or after the scheduled time fulfils the entry
+const FULFILL_EARLY_WINDOW_MS = 60 * 60 * 1000;
+const FULFILL_LATE_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+export type ScheduledStreamWithUser = ScheduledStream & {
+  user: {
+    id: string;
+    username: string;
+    imageUrl: string;
+  };
+};
+
+const scheduledStreamUserSelect = {
+  id: true,
+  username: true,
+  imageUrl: true,
+} as const;
+
+/**
+ * Upcoming scheduled streams across the platform, soonest first
+ */
+export const getUpcomingScheduledStreams = async (limit = 10) => {
+  return db.scheduledStream.findMany({
+    where: {
+      status: "SCHEDULED",
+      scheduledAt: { gte: new Date() },
+    },
+    include: {
+      user: { select: scheduledStreamUserSelect },
+    },
+    orderBy: { scheduledAt: "asc" },
+    take: limit,
+  });
+};
+
+/**
+ * Upcoming scheduled streams of a single streamer, soonest first
+ */
+export const getScheduledStreamsByUserId = async (userId: string) => {
+  return db.scheduledStream.findMany({
+    where: {
+      userId,
+      status: "SCHEDULED",
+      scheduledAt: { gte: new Date() },
+    },
+    include: {
+      user: { select: scheduledStreamUserSelect },
+    },
+    orderBy: { scheduledAt: "asc" },
+  });
+};
+
+/**
+ * Mark the scheduled entry closest to now as fulfilled when the streamer goes live
+ */
+export const fulfillScheduledStream = async (userId: string) => {
+  const now = Date.now();
+
+  const scheduled = await db.scheduledStream.findMany({
+    where: {
+      userId,
+      status: "SCHEDULED",
+      scheduledAt: {
+        gte: new Date(now - FULFILL_LATE_WINDOW_MS),
+        lte: new Date(now + FULFILL_EARLY_WINDOW_MS),
+      },
+    },
+    select: { id: true, scheduledAt: true },
+  });
+
+  if (scheduled.length === 0) {
+    return null;
+  }
+
+  const [closest] = scheduled.sort(
+    (a, b) =>
+      Math.abs(a.scheduledAt.getTime() - now) -
+      Math.abs(b.scheduledAt.getTime() - now)
+  );
+
+  const fulfilled = await db.scheduledStream.update({
+    where: { id: closest.id },
+    data: {
+      status: "FULFILLED",
+      fulfilledAt: new Date(now),
+    },
+  });
+
+  await Promise.all([
+    invalidateCache("scheduled-streams:upcoming"),
+    invalidateCache(`scheduled-streams:user:${userId}`),
+  ]);
+
+  return fulfilled;
+};
+
+/**
+ * Notify followers of every stream starting within the reminder lead time.
+ * Each stream is only reminded once; returns the number of notifications created.
+ */
+export const sendScheduledStreamReminders = async () => {
+  const now = new Date();
+
+  const dueStreams = await db.scheduledStream.findMany({
+    where: {
+      status: "SCHEDULED",
+      reminderSentAt: null,
+      scheduledAt: {
+        gte: now,
+        lte: new Date(now.getTime() + REMINDER_LEAD_TIME_MS),
+      },
+    },
+    include: {
+      user: { select: scheduledStreamUserSelect },
+    },
+  });
+
+  let notified = 0;
+
+  for (const scheduled of dueStreams) {
+    const followers = await db.follow.findMany({
+      where: {
+        followingId: scheduled.userId,
+        follower: {
+          blockedBy: {
+            none: { blockerId: scheduled.userId },
+          },
+        },
+      },
+      select: { followerId: true },
+    });
+
+    const { count } = await db.notification.createMany({
+      data: followers.map(({ followerId }) => ({
+        type: "STREAM_REMINDER" as const,
+        title: `${scheduled.user.username} is going live soon`,
+        body: scheduled.title,
+        link: `/${scheduled.user.username}`,
+        userId: followerId,
+        scheduledStreamId: scheduled.id,
+      })),
+      skipDuplicates: true,
+    });
+
+    await db.scheduledStream.update({
+      where: { id: scheduled.id },
+      data: { reminderSentAt: new Date() },
+    });
+
+    notified += count;
+  }
+
+  return notified;
+};
+
+const formatICalDate = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeICalText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Render scheduled streams as an iCalendar (RFC 5545) document
+ */
+export const toICalendar = (streams: ScheduledStreamWithUser[]) => {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+  const stamp = formatICalDate(new Date());
+
+  const events = streams.flatMap((stream) => {
+    // Streams have no planned end, so block out an hour in the calendar
+    const end = new Date(stream.scheduledAt.getTime() + 60 * 60 * 1000);
+    const url = `${appUrl}/${stream.user.username}`;
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${stream.id}@switched.fun`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDate(stream.scheduledAt)}`,
+      `DTEND:${formatICalDate(end)}`,
+      `SUMMARY:${escapeICalText(`${stream.user.username}: ${stream.title}`)}`,
+      ...(stream.description
+        ? [`DESCRIPTION:${escapeICalText(stream.description)}`]
+        : []),
+      `URL:${url}`,
+      "END:VEVENT",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Switched.fun//Scheduled Streams//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...events,
+    "END:VCALENDAR",
+  ].join("\r\n");
+};
@@ -5,11 +5,11 @@ import {
   Transaction,
   sendAndConfirmTransaction,
   VersionedTransaction,
-  TransactionSignature,
   LAMPORTS_PER_SOL,
 } from "@solana/web3.js";
 import { Wallet } from "@coral-xyz/anchor";
 import bs58 from "bs58";
+import { CLUSTER } from "@/config/cluster";
 
 // Global wallet instance
 let serverWallet: Keypair | null = null;
@@ -54,10 +54,7 @@ export const initializeServerWallet = (): Keypair => {
 // Get connection instance
 export const getConnection = (): Connection => {
   if (!connection) {
-    const rpcEndpoint =
-      process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
-      "https://api.mainnet-beta.solana.com";
-    connection = new Connection(rpcEndpoint, "confirmed");
+    connection = new Connection(CLUSTER.rpcUrl, "confirmed");
   }
   return connection;
 };
@@ -117,112 +114,44 @@ export const getServerWalletBalance = async (): Promise<number> => {
   return balance / LAMPORTS_PER_SOL;
 };
 
-// Sign and broadcast a transaction
-export const signAndSendTransaction = async (
+// Whether the server wallet's valid signature for this exact message is on
+// the transaction. Ed25519 signatures are deterministic, so signing a copy
+// must reproduce it.
+export const isSignedByServer = (
   transaction: Transaction | VersionedTransaction
-): Promise<TransactionSignature> => {
-  try {
-    const wallet = getServerWallet();
-    const conn = getConnection();
-
-    // For regular transactions
-    if (transaction instanceof Transaction) {
-      // Don't override fee payer - it should already be set
-      // Don't override blockhash - it should already be set
-
-      // Only sign if server wallet hasn't signed yet
-      const serverSigned = transaction.signatures.some(
-        (sig) =>
-          sig.publicKey?.equals(wallet.publicKey) && sig.signature !== null
-      );
-
-      if (!serverSigned) {
-        transaction.partialSign(wallet);
-      }
-
-      // Send transaction directly (already fully signed)
-      // Use sendRawTransaction since we have a fully signed transaction
-      const signature = await conn.sendRawTransaction(transaction.serialize(), {
-        skipPreflight: false,
-        preflightCommitment: "confirmed",
-      });
-
-      // Wait for confirmation
-      const confirmation = await conn.confirmTransaction(
-        signature,
-        "confirmed"
-      );
-
-      if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${confirmation.value.err}`);
-      }
-
-      console.log(`Transaction sent: ${signature}`);
-      return signature;
-    }
-
-    // For versioned transactions
-    if (transaction instanceof VersionedTransaction) {
-      // Sign the transaction
-      transaction.sign([wallet]);
-
-      // Send the transaction
-      const signature = await conn.sendTransaction(transaction, {
-        skipPreflight: false,
-        preflightCommitment: "confirmed",
-      });
+): boolean => {
+  const wallet = getServerWallet();
 
-      // Confirm the transaction
-      const confirmation = await conn.confirmTransaction(
-        signature,
-        "confirmed"
-      );
+  if (transaction instanceof Transaction) {
+    const getSignature = (tx: Transaction) =>
+      tx.signatures.find((sig) => sig.publicKey.equals(wallet.publicKey))
+        ?.signature;
 
-      if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${confirmation.value.err}`);
-      }
+    const signature = getSignature(transaction);
+    if (!signature) return false;
 
-      console.log(`Versioned transaction sent: ${signature}`);
-      return signature;
-    }
+    const copy = Transaction.from(
+      transaction.serialize({
+        requireAllSignatures: false,
+        verifySignatures: false,
+      })
+    );
+    copy.partialSign(wallet);
 
-    throw new Error("Unsupported transaction type");
-  } catch (error) {
-    console.error("Failed to sign and send transaction:", error);
-    throw error;
+    return signature.equals(getSignature(copy)!);
   }
-};
 
-// Broadcast a pre-signed transaction (user already signed)
-export const broadcastTransaction = async (
-  serializedTransaction: string
-): Promise<TransactionSignature> => {
-  try {
-    const conn = getConnection();
-
-    // Deserialize the transaction
-    const transactionBuffer = Buffer.from(serializedTransaction, "base64");
-    const transaction = VersionedTransaction.deserialize(transactionBuffer);
+  const index = transaction.message.staticAccountKeys.findIndex((key) =>
+    key.equals(wallet.publicKey)
+  );
+  if (index < 0 || index >= transaction.signatures.length) return false;
 
-    // Send the pre-signed transaction
-    const signature = await conn.sendTransaction(transaction, {
-      skipPreflight: false,
-      preflightCommitment: "confirmed",
-    });
+  const copy = VersionedTransaction.deserialize(transaction.serialize());
+  copy.sign([wallet]);
 
-    // Wait for confirmation
-    const confirmation = await conn.confirmTransaction(signature, "confirmed");
-
-    if (confirmation.value.err) {
-      throw new Error(`Transaction failed: ${confirmation.value.err}`);
-    }
-
-    console.log(`Pre-signed transaction broadcasted: ${signature}`);
-    return signature;
-  } catch (error) {
-    console.error("Failed to broadcast transaction:", error);
-    throw error;
-  }
+  return Buffer.from(transaction.signatures[index]).equals(
+    Buffer.from(copy.signatures[index])
+  );
 };
 
 // Create a transaction template that users can sign
@@ -0,0 +1,471 @@
+import { createHash } from "crypto";
+import dayjs from "dayjs";
+import bs58 from "bs58";
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeApproveCheckedInstruction,
+  decodeTransferCheckedInstruction,
+  decodeTransferInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMinimumBalanceForRentExemptAccount,
+} from "@solana/spl-token";
+
+import { db } from "@/lib/db";
+import {
+  getConnection,
+  getServerWallet,
+  isSignedByServer,
+} from "@/lib/server-wallet";
+import {
+  DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION,
+  MAX_TRANSACTION_COMPUTE_UNITS,
+  SPONSORSHIP_LIMITS,
+  SPONSORSHIP_RECONCILE_AFTER_MINUTES,
+  SponsorshipContext,
+} from "@/lib/sponsorship";
+import { assertSponsorshipAvailable } from "@/lib/treasury-service";
+import {
+  DEFAULT_TOKEN,
+  findTokenByMint,
+  getToken,
+  getTokenMint,
+} from "@/config/tokens";
+import { programId } from "@/config/cluster";
+
+// Subscription allowances are always in the default token
+const SUBSCRIPTION_MINT = getTokenMint(getToken(DEFAULT_TOKEN));
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+// The associated token program's CreateIdempotent instruction
+const CREATE_ATA_IDEMPOTENT = 1;
+
+// Signatures checked per reconciliation run
+const RECONCILE_BATCH_SIZE = 100;
+
+// Anchor prefixes instruction data with the first 8 bytes of
+// sha256("global:<method>")
+const getAnchorDiscriminator = (method: string) =>
+  createHash("sha256").update(`global:${method}`).digest().subarray(0, 8);
+
+// The switched_fun program calls the platform pays for
+const SPONSORED_PROGRAM_METHODS = [
+  {
+    name: "createStreamer",
+    discriminator: getAnchorDiscriminator("create_streamer"),
+  },
+  { name: "withdraw", discriminator: getAnchorDiscriminator("withdraw") },
+];
+
+/**
+ * Every instruction in the transaction; versioned transactions that load
+ * accounts from lookup tables can't be checked and are refused
+ */
+const getInstructions = (
+  transaction: Transaction | VersionedTransaction
+): TransactionInstruction[] => {
+  if (transaction instanceof Transaction) {
+    return transaction.instructions;
+  }
+
+  if (transaction.message.addressTableLookups.length > 0) {
+    throw new Error(
+      "Transactions using address lookup tables can't be sponsored"
+    );
+  }
+
+  return TransactionMessage.decompile(transaction.message).instructions;
+};
+
+const getFeePayer = (transaction: Transaction | VersionedTransaction) =>
+  transaction instanceof Transaction
+    ? transaction.feePayer
+    : transaction.message.staticAccountKeys[0];
+
+const getSignatureCount = (transaction: Transaction | VersionedTransaction) =>
+  transaction instanceof Transaction
+    ? transaction.compileMessage().header.numRequiredSignatures
+    : transaction.message.header.numRequiredSignatures;
+
+// The fee payer's signature is the transaction's id
+const getTransactionSignature = (
+  transaction: Transaction | VersionedTransaction
+) => {
+  const signature =
+    transaction instanceof Transaction
+      ? transaction.signature
+      : transaction.signatures[0];
+
+  if (!signature) {
+    throw new Error("Transaction is not signed");
+  }
+
+  return bs58.encode(signature);
+};
+
+/**
+ * A streamer's tip account: an account for a registered token owned by a
+ * streamer account the switched_fun program created
+ */
+const isStreamerTipAccount = async (address: PublicKey) => {
+  const connection = getConnection();
+
+  try {
+    const tokenAccount = await getAccount(connection, address);
+
+    if (!findTokenByMint(tokenAccount.mint.toBase58())) return false;
+
+    const expected = getAssociatedTokenAddressSync(
+      tokenAccount.mint,
+      tokenAccount.owner,
+      true
+    );
+    if (!expected.equals(address)) return false;
+
+    const streamerAccount = await connection.getAccountInfo(tokenAccount.owner);
+    return !!streamerAccount?.owner.equals(programId);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check one token program instruction, returning a name for the log
+ */
+const checkTokenInstruction = async (
+  instruction: TransactionInstruction,
+  context: SponsorshipContext
+) => {
+  const serverWallet = getServerWallet().publicKey;
+
+  switch (instruction.data[0]) {
+    case TokenInstruction.Transfer:
+    case TokenInstruction.TransferChecked: {
+      const { keys } =
+        instruction.data[0] === TokenInstruction.Transfer
+          ? decodeTransferInstruction(instruction)
+          : decodeTransferCheckedInstruction(instruction);
+
+      if (keys.owner.pubkey.equals(serverWallet) && !context.isPlatformCharge) {
+        throw new Error("Transfers can't spend from the platform wallet");
+      }
+
+      if (!(await isStreamerTipAccount(keys.destination.pubkey))) {
+        throw new Error("Transfers can only be sent to a streamer's wallet");
+      }
+
+      return instruction.data[0] === TokenInstruction.Transfer
+        ? "transfer"
+        : "transferChecked";
+    }
+
+    case TokenInstruction.ApproveChecked: {
+      const { keys } = decodeApproveCheckedInstruction(instruction);
+
+      if (
+        !keys.mint.pubkey.equals(SUBSCRIPTION_MINT) ||
+        !keys.delegate.pubkey.equals(serverWallet) ||
+        keys.owner.pubkey.equals(serverWallet)
+      ) {
+        throw new Error(
+          `Only ${DEFAULT_TOKEN} allowances for subscriptions can be sponsored`
+        );
+      }
+
+      return "approveChecked";
+    }
+
+    default:
+      throw new Error("This token instruction can't be sponsored");
+  }
+};
+
+/**
+ * Check an associated token account creation, returning the rent the server
+ * wallet pays for it. Only idempotent creations of a registered token's
+ * account are sponsored; they are free if the account already exists.
+ */
+const checkAssociatedTokenInstruction = async (
+  instruction: TransactionInstruction
+) => {
+  const [payer, account, owner, mint, , tokenProgram] = instruction.keys;
+
+  if (
+    instruction.data.length !== 1 ||
+    instruction.data[0] !== CREATE_ATA_IDEMPOTENT ||
+    !tokenProgram?.pubkey.equals(TOKEN_PROGRAM_ID) ||
+    !payer.pubkey.equals(getServerWallet().publicKey) ||
+    !findTokenByMint(mint.pubkey.toBase58()) ||
+    !getAssociatedTokenAddressSync(mint.pubkey, owner.pubkey, true).equals(
+      account.pubkey
+    )
+  ) {
+    throw new Error("This token account instruction can't be sponsored");
+  }
+
+  const connection = getConnection();
+  if (await connection.getAccountInfo(account.pubkey)) return 0;
+
+  return getMinimumBalanceForRentExemptAccount(connection);
+};
+
+/**
+ * Check a transaction against the sponsorship policy: only whitelisted
+ * instructions, within the compute caps. Returns what gets logged.
+ */
+export const checkTransaction = async (
+  transaction: Transaction | VersionedTransaction,
+  context: SponsorshipContext
+) => {
+  const feePayer = getFeePayer(transaction);
+
+  if (!feePayer?.equals(getServerWallet().publicKey)) {
+    throw new Error("Only transactions the platform pays for can be sponsored");
+  }
+
+  const instructions = getInstructions(transaction);
+  const names: string[] = [];
+  let computeUnitLimit: number | null = null;
+  let computeUnitPrice = 0;
+  let rent = 0;
+
+  for (const instruction of instructions) {
+    if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+      const type = ComputeBudgetInstruction.decodeInstructionType(instruction);
+
+      if (type === "SetComputeUnitLimit") {
+        computeUnitLimit =
+          ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units;
+      } else if (type === "SetComputeUnitPrice") {
+        computeUnitPrice = Number(
+          ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction)
+            .microLamports
+        );
+      } else {
+        throw new Error("This compute budget instruction can't be sponsored");
+      }
+      continue;
+    }
+
+    if (instruction.programId.equals(programId)) {
+      const method = SPONSORED_PROGRAM_METHODS.find(({ discriminator }) =>
+        discriminator.equals(instruction.data.subarray(0, 8))
+      );
+
+      if (!method) {
+        throw new Error("This program instruction can't be sponsored");
+      }
+
+      names.push(method.name);
+      continue;
+    }
+
+    if (instruction.programId.equals(TOKEN_PROGRAM_ID)) {
+      names.push(await checkTokenInstruction(instruction, context));
+      continue;
+    }
+
+    if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      rent += await checkAssociatedTokenInstruction(instruction);
+      names.push("createAssociatedTokenAccountIdempotent");
+      continue;
+    }
+
+    throw new Error(
+      `Instructions for ${instruction.programId.toBase58()} can't be sponsored`
+    );
+  }
+
+  if (names.length === 0) {
+    throw new Error("Transaction has nothing to sponsor");
+  }
+
+  const computeUnits =
+    computeUnitLimit ??
+    Math.min(
+      names.length * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION,
+      MAX_TRANSACTION_COMPUTE_UNITS
+    );
+
+  if (computeUnits > SPONSORSHIP_LIMITS.MAX_COMPUTE_UNITS) {
+    throw new Error(
+      `Transaction asks for ${computeUnits} compute units; the limit is ${SPONSORSHIP_LIMITS.MAX_COMPUTE_UNITS}`
+    );
+  }
+
+  if (computeUnitPrice > SPONSORSHIP_LIMITS.MAX_COMPUTE_UNIT_PRICE) {
+    throw new Error(
+      `Priority fee of ${computeUnitPrice} micro-lamports per compute unit is above the ${SPONSORSHIP_LIMITS.MAX_COMPUTE_UNIT_PRICE} limit`
+    );
+  }
+
+  // Base fee per signature, plus the priority fee on the requested units and
+  // the rent of any account it creates
+  const estimatedFee =
+    getSignatureCount(transaction) * LAMPORTS_PER_SIGNATURE +
+    Math.ceil((computeUnits * computeUnitPrice) / 1000000) +
+    rent;
+
+  return {
+    instructions: names.join(","),
+    estimatedFee,
+    computeUnitLimit: computeUnits,
+    computeUnitPrice,
+  };
+};
+
+/**
+ * Throw if the user has used up their daily sponsorship budget
+ */
+const assertWithinBudget = async (userId: string, estimatedFee: number) => {
+  const { _count, _sum } = await db.sponsoredTransaction.aggregate({
+    where: {
+      userId,
+      createdAt: { gte: dayjs().subtract(1, "day").toDate() },
+    },
+    _count: true,
+    _sum: { estimatedFee: true },
+  });
+
+  if (_count >= SPONSORSHIP_LIMITS.DAILY_TRANSACTIONS) {
+    throw new Error(
+      "You've reached today's limit of platform-paid transactions. Try again tomorrow."
+    );
+  }
+
+  if (
+    (_sum.estimatedFee ?? 0) + estimatedFee >
+    SPONSORSHIP_LIMITS.DAILY_FEE_LAMPORTS
+  ) {
+    throw new Error(
+      "You've reached today's limit of platform-paid network fees. Try again tomorrow."
+    );
+  }
+};
+
+/**
+ * The only way the server wallet signs a transaction. Decodes it, checks it
+ * against the sponsorship policy and the user's budget, signs as fee payer
+ * and logs the signature for reconciliation.
+ * A transaction carrying the server's valid signature for the same message
+ * was checked when it was signed, so it isn't checked or charged twice.
+ */
+export const sponsorTransaction = async (
+  transaction: Transaction | VersionedTransaction,
+  context: SponsorshipContext
+) => {
+  if (isSignedByServer(transaction)) {
+    return getTransactionSignature(transaction);
+  }
+
+  const checked = await checkTransaction(transaction, context);
+
+  if (!context.isPlatformCharge) {
+    await assertSponsorshipAvailable();
+    await assertWithinBudget(context.userId, checked.estimatedFee);
+  }
+
+  const serverWallet = getServerWallet();
+  if (transaction instanceof Transaction) {
+    transaction.partialSign(serverWallet);
+  } else {
+    transaction.sign([serverWallet]);
+  }
+
+  const signature = getTransactionSignature(transaction);
+
+  await db.sponsoredTransaction.create({
+    data: {
+      ...checked,
+      signature,
+      userId: context.userId,
+      operation: context.operation,
+    },
+  });
+
+  return signature;
+};
+
+/**
+ * Settle signed transactions from the chain, recording what each one
+ * actually cost: the fee, and everything the server wallet paid including
+ * rent. Ones the chain never saw expired with their blockhash.
+ */
+export const reconcileSponsoredTransactions = async () => {
+  const pending = await db.sponsoredTransaction.findMany({
+    where: {
+      status: "SIGNED",
+      createdAt: {
+        lt: dayjs()
+          .subtract(SPONSORSHIP_RECONCILE_AFTER_MINUTES, "minute")
+          .toDate(),
+      },
+    },
+    orderBy: { createdAt: "asc" },
+    take: RECONCILE_BATCH_SIZE,
+  });
+
+  if (pending.length === 0) {
+    return { reconciled: 0, confirmed: 0, failed: 0, expired: 0 };
+  }
+
+  const connection = getConnection();
+  const signatures = pending.map((sponsored) => sponsored.signature);
+  const { value: statuses } = await connection.getSignatureStatuses(
+    signatures,
+    { searchTransactionHistory: true }
+  );
+  const transactions = await connection.getTransactions(signatures, {
+    maxSupportedTransactionVersion: 0,
+    commitment: "confirmed",
+  });
+
+  const result = { reconciled: 0, confirmed: 0, failed: 0, expired: 0 };
+
+  await Promise.all(
+    pending.map(async (sponsored, i) => {
+      const status = statuses[i];
+
+      // Still landing; try again next run
+      if (status && !status.err && status.confirmationStatus === "processed") {
+        return;
+      }
+
+      const state = !status ? "EXPIRED" : status.err ? "FAILED" : "CONFIRMED";
+      // The fee payer is always the first account: the server wallet
+      const meta = transactions[i]?.meta;
+
+      await db.sponsoredTransaction.update({
+        where: { id: sponsored.id },
+        data: {
+          status: state,
+          actualFee: meta?.fee ?? null,
+          lamportsSpent: meta
+            ? meta.preBalances[0] - meta.postBalances[0]
+            : state === "EXPIRED"
+              ? 0
+              : null,
+          reconciledAt: new Date(),
+        },
+      });
+
+      result.reconciled += 1;
+      if (state === "CONFIRMED") result.confirmed += 1;
+      if (state === "FAILED") result.failed += 1;
+      if (state === "EXPIRED") result.expired += 1;
+    })
+  );
+
+  return result;
+};
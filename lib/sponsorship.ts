@@ -0,0 +1,26 @@
+import type { TransactionSubmissionKind } from "@/lib/transaction-submission";
+
+// What the server wallet will pay for when it signs as fee payer
+export const SPONSORSHIP_LIMITS = {
+  MAX_COMPUTE_UNITS: 600000,
+  MAX_COMPUTE_UNIT_PRICE: 50000, // micro-lamports per compute unit
+  DAILY_TRANSACTIONS: 100, // per user, rolling 24 hours
+  DAILY_FEE_LAMPORTS: 5000000, // fees and account rent, per user, rolling 24 hours (0.005 SOL)
+} as const;
+
+// Runtime default when a transaction doesn't set its own compute unit limit
+export const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200000;
+export const MAX_TRANSACTION_COMPUTE_UNITS = 1400000;
+
+// Signed transactions older than this are reconciled against the chain
+export const SPONSORSHIP_RECONCILE_AFTER_MINUTES = 2;
+
+export interface SponsorshipContext {
+  // Whose budget the fee counts against
+  userId: string;
+  // What the fee pays for, so treasury spend can be broken down
+  operation: TransactionSubmissionKind;
+  // Charges the platform makes itself, e.g. subscription renewals. Only these
+  // may use the server wallet as a token authority, and they skip the budget.
+  isPlatformCharge?: boolean;
+}
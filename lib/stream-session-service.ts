@@ -0,0 +1,356 @@
+import { StreamSession, StreamType } from "@prisma/client";
+import { ParticipantInfo } from "livekit-server-sdk";
+
+import { db } from "@/lib/db";
+import { invalidateCache } from "@/lib/redis";
+import { roomService } from "@/lib/room-service";
+import { fulfillScheduledStream } from "@/lib/scheduled-stream-service";
+import { syncCategoryViewers } from "@/lib/category-service";
+import {
+  ALERT_OVERLAY_SOURCES,
+  getAlertOverlayIdentity,
+} from "@/lib/alert-overlay";
+
+// The streamer publishes under their user id, which is also the room name,
+// watches their own page as `host-<id>` and runs OBS alerts as `overlay-<id>`.
+// Everyone else is a viewer.
+export const isHostParticipant = (roomName: string, identity: string) =>
+  identity === roomName;
+
+const isHostConnection = (roomName: string, identity: string) =>
+  identity === `host-${roomName}` ||
+  ALERT_OVERLAY_SOURCES.some(
+    (source) => identity === getAlertOverlayIdentity(roomName, source)
+  );
+
+const invalidateStreamCache = async (userId: string) => {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { username: true },
+  });
+
+  if (user) {
+    await invalidateCache(`stream:username:${user.username.toLowerCase()}`);
+  }
+};
+
+// Viewer-seconds accumulated since the last viewer count was recorded
+const getElapsedViewerSeconds = (
+  session: Pick<StreamSession, "currentViewers" | "viewersSampledAt" | "startedAt">,
+  until: Date
+) => {
+  const since = session.viewersSampledAt ?? session.startedAt;
+  const seconds = Math.max(0, (until.getTime() - since.getTime()) / 1000);
+  return Math.round(session.currentViewers * seconds);
+};
+
+const getOpenSession = (streamId: string) =>
+  db.streamSession.findFirst({
+    where: { streamId, endedAt: null },
+    orderBy: { startedAt: "desc" },
+  });
+
+/**
+ * Mark a stream live and open a session for the broadcast.
+ * Safe to call repeatedly: an already open session is reused.
+ */
+export const startStreamSession = async (
+  userId: string,
+  options: { streamType?: StreamType; startedAt?: Date } = {}
+) => {
+  const stream = await db.stream.findUnique({ where: { userId } });
+
+  if (!stream) {
+    throw new Error("Stream not found");
+  }
+
+  const startedAt = options.startedAt ?? new Date();
+  const streamType = options.streamType ?? stream.streamType;
+  const openSession = await getOpenSession(stream.id);
+
+  await db.stream.update({
+    where: { id: stream.id },
+    data: {
+      isLive: true,
+      streamType,
+      streamStartedAt: openSession
+        ? openSession.startedAt
+        : stream.isLive && stream.streamStartedAt
+        ? stream.streamStartedAt
+        : startedAt,
+    },
+  });
+
+  if (openSession) {
+    if (openSession.streamType !== streamType) {
+      await db.streamSession.update({
+        where: { id: openSession.id },
+        data: { streamType },
+      });
+    }
+    return openSession;
+  }
+
+  const session = await db.streamSession.create({
+    data: {
+      streamId: stream.id,
+      userId,
+      streamType,
+      startedAt,
+      subCategoryId: stream.subCategoryId,
+    },
+  });
+
+  await fulfillScheduledStream(userId);
+  await invalidateStreamCache(userId);
+
+  return session;
+};
+
+/**
+ * Mark a stream offline and close its open session, if any
+ */
+export const endStreamSession = async (
+  userId: string,
+  options: { reason: string; endedAt?: Date }
+) => {
+  const stream = await db.stream.findUnique({ where: { userId } });
+
+  if (!stream) {
+    throw new Error("Stream not found");
+  }
+
+  const endedAt = options.endedAt ?? new Date();
+  const openSession = await getOpenSession(stream.id);
+
+  await db.stream.update({
+    where: { id: stream.id },
+    data: {
+      isLive: false,
+      viewerCount: 0,
+      streamStartedAt: null,
+    },
+  });
+
+  if (stream.subCategoryId) {
+    await syncCategoryViewers(stream.subCategoryId);
+  }
+
+  await invalidateStreamCache(userId);
+
+  if (!openSession) {
+    return null;
+  }
+
+  const durationSeconds = Math.max(
+    0,
+    Math.round((endedAt.getTime() - openSession.startedAt.getTime()) / 1000)
+  );
+  const viewerSeconds =
+    openSession.viewerSeconds + getElapsedViewerSeconds(openSession, endedAt);
+
+  return db.streamSession.update({
+    where: { id: openSession.id },
+    data: {
+      endedAt,
+      durationSeconds,
+      viewerSeconds,
+      currentViewers: 0,
+      viewersSampledAt: endedAt,
+      avgViewers: durationSeconds > 0 ? viewerSeconds / durationSeconds : 0,
+      endReason: options.reason,
+    },
+  });
+};
+
+/**
+ * Refresh the concurrent viewer count from LiveKit and track the session peak
+ */
+export const syncViewerCount = async (roomName: string) => {
+  let participants: ParticipantInfo[];
+  try {
+    participants = await roomService.listParticipants(roomName);
+  } catch {
+    // The room is gone once the last participant leaves
+    participants = [];
+  }
+
+  const viewerCount = participants.filter(
+    ({ identity }) =>
+      !isHostParticipant(roomName, identity) &&
+      !isHostConnection(roomName, identity)
+  ).length;
+
+  const stream = await db.stream.update({
+    where: { userId: roomName },
+    data: { viewerCount },
+  });
+
+  if (stream.subCategoryId) {
+    await syncCategoryViewers(stream.subCategoryId);
+  }
+
+  const openSession = await getOpenSession(stream.id);
+  if (openSession) {
+    const now = new Date();
+
+    await db.streamSession.update({
+      where: { id: openSession.id },
+      data: {
+        viewerSeconds: {
+          increment: getElapsedViewerSeconds(openSession, now),
+        },
+        currentViewers: viewerCount,
+        viewersSampledAt: now,
+        peakViewers: Math.max(openSession.peakViewers, viewerCount),
+        samples: {
+          create: { viewerCount, recordedAt: now },
+        },
+      },
+    });
+  }
+
+  return viewerCount;
+};
+
+/**
+ * Count a viewer joining the room towards the stream's total views
+ */
+export const recordStreamView = async (roomName: string, identity: string) => {
+  if (
+    isHostParticipant(roomName, identity) ||
+    isHostConnection(roomName, identity)
+  ) {
+    return;
+  }
+
+  const stream = await db.stream.update({
+    where: { userId: roomName },
+    data: { views: { increment: 1 } },
+  });
+
+  const openSession = await getOpenSession(stream.id);
+  if (!openSession) return;
+
+  await db.streamSessionViewer.upsert({
+    where: {
+      sessionId_identity: { sessionId: openSession.id, identity },
+    },
+    create: { sessionId: openSession.id, identity },
+    update: {},
+  });
+
+  const uniqueViewers = await db.streamSessionViewer.count({
+    where: { sessionId: openSession.id },
+  });
+
+  await db.streamSession.update({
+    where: { id: openSession.id },
+    data: { uniqueViewers },
+  });
+};
+
+/**
+ * The broadcast a tip or chat message on the given stream belongs to
+ */
+export const getOpenSessionId = async (streamId: string) => {
+  const session = await getOpenSession(streamId);
+  return session?.id ?? null;
+};
+
+// Live sessions have not been finalised yet, so derive their running figures
+const withLiveMetrics = <T extends StreamSession>(session: T, now: Date) => {
+  if (session.endedAt) {
+    return session;
+  }
+
+  const durationSeconds = Math.round(
+    (now.getTime() - session.startedAt.getTime()) / 1000
+  );
+  const viewerSeconds =
+    session.viewerSeconds + getElapsedViewerSeconds(session, now);
+
+  return {
+    ...session,
+    durationSeconds,
+    viewerSeconds,
+    avgViewers: durationSeconds > 0 ? viewerSeconds / durationSeconds : 0,
+  };
+};
+
+/**
+ * A streamer's broadcasts, most recent first
+ */
+export const getStreamSessions = async (userId: string, limit = 20) => {
+  const now = new Date();
+
+  const sessions = await db.streamSession.findMany({
+    where: { userId },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+
+  return sessions.map((session) => withLiveMetrics(session, now));
+};
+
+/**
+ * Totals across the streamer's broadcasts since the start of the month
+ */
+export const getStreamSessionSummary = async (userId: string) => {
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  const sessions = (
+    await db.streamSession.findMany({
+      where: { userId, startedAt: { gte: monthStart } },
+      orderBy: { startedAt: "desc" },
+    })
+  ).map((session) => withLiveMetrics(session, now));
+
+  const count = sessions.length;
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  return {
+    sessionCount: count,
+    totalViewers: sum(sessions.map((s) => s.uniqueViewers)),
+    totalStreamSeconds: sum(sessions.map((s) => s.durationSeconds ?? 0)),
+    avgViewers: count
+      ? sum(sessions.map((s) => s.avgViewers ?? 0)) / count
+      : 0,
+    avgTips: count
+      ? sum(sessions.map((s) => Number(s.tipsTotal))) / count
+      : 0,
+    lastSession: sessions[0] ?? null,
+  };
+};
+
+/**
+ * One of the streamer's broadcasts with its viewer timeline and tips
+ */
+export const getStreamSessionDetail = async (
+  userId: string,
+  sessionId: string
+) => {
+  const session = await db.streamSession.findFirst({
+    where: { id: sessionId, userId },
+    include: {
+      samples: {
+        orderBy: { recordedAt: "asc" },
+        select: { viewerCount: true, recordedAt: true },
+      },
+      tips: {
+        where: { status: "VERIFIED" },
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          amount: true,
+          tokenType: true,
+          createdAt: true,
+          tipper: { select: { username: true } },
+        },
+      },
+    },
+  });
+
+  return session ? withLiveMetrics(session, new Date()) : null;
+};
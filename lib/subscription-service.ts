@@ -0,0 +1,952 @@
+import dayjs from "dayjs";
+import { Prisma, Subscription, SubscriptionTier } from "@prisma/client";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import {
+  createApproveCheckedInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+} from "@solana/spl-token";
+
+import { db } from "@/lib/db";
+import { getConnection, getServerWallet } from "@/lib/server-wallet";
+import { sponsorTransaction } from "@/lib/sponsorship-service";
+import {
+  addComputeBudget,
+  getTransactionSubmission,
+  submitAndConfirm,
+  submitTransaction,
+} from "@/lib/transaction-queue-service";
+import {
+  assertUnusedSignature,
+  verifyTipTransaction,
+} from "@/lib/tip-verification";
+import { findIndexedTip, getTipAccountAddress } from "@/lib/tip-ledger-service";
+import { updateTipGoalProgress } from "@/lib/tip-goal-service";
+import {
+  SUBSCRIPTION_GRACE_DAYS,
+  SUBSCRIPTION_LIMITS,
+  SUBSCRIPTION_PERIOD_DAYS,
+  SubscriberBadge,
+  SubscriptionData,
+  SubscriptionPaymentMethod,
+  SubscriptionTierData,
+  getSubscriberMonths,
+} from "@/lib/subscription";
+import { DEFAULT_TOKEN, getToken, getTokenMint } from "@/config/tokens";
+import { programId } from "@/config/cluster";
+
+// Subscriptions handled per cron run, per step
+const RENEWAL_BATCH_SIZE = 100;
+
+// Allowance charges sent or settled per cron run, per step
+const CHARGE_BATCH_SIZE = 25;
+
+// Subscriptions are priced and paid in the default token
+const SUBSCRIPTION_TOKEN = getToken(DEFAULT_TOKEN);
+const USDC_MINT = getTokenMint(SUBSCRIPTION_TOKEN);
+
+type SubscriptionWithTier = Subscription & { tier: SubscriptionTier };
+
+type RenewalOutcome = "RENEWED" | "PENDING" | "FAILED";
+
+const toBaseUnits = (amount: number) =>
+  Math.round(amount * Math.pow(10, SUBSCRIPTION_TOKEN.decimals));
+
+const addPeriod = (date: Date) =>
+  dayjs(date).add(SUBSCRIPTION_PERIOD_DAYS, "day").toDate();
+
+/**
+ * Subscriptions that still grant perks: paid up, or lapsed but within the
+ * grace period while payment is retried
+ */
+const entitledWhere = (): Prisma.SubscriptionWhereInput => ({
+  status: { in: ["ACTIVE", "PAST_DUE"] },
+  currentPeriodEnd: {
+    gt: dayjs().subtract(SUBSCRIPTION_GRACE_DAYS, "day").toDate(),
+  },
+});
+
+const toTierData = (
+  tier: SubscriptionTier & { _count?: { subscriptions: number } }
+): SubscriptionTierData => ({
+  id: tier.id,
+  name: tier.name,
+  price: Number(tier.price),
+  hasBadge: tier.hasBadge,
+  hasEmoteAccess: tier.hasEmoteAccess,
+  hasSubscriberChat: tier.hasSubscriberChat,
+  isActive: tier.isActive,
+  sortOrder: tier.sortOrder,
+  subscriberCount: tier._count?.subscriptions ?? 0,
+});
+
+const toSubscriptionData = (
+  subscription: SubscriptionWithTier
+): SubscriptionData => ({
+  id: subscription.id,
+  tierId: subscription.tierId,
+  tierName: subscription.tier.name,
+  price: Number(subscription.tier.price),
+  status: subscription.status,
+  paymentMethod: subscription.paymentMethod,
+  currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+  cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+  startedAt: subscription.startedAt.toISOString(),
+});
+
+const notifySubscriber = (
+  subscription: Subscription & { streamer: { username: string } },
+  title: string,
+  body: string
+) =>
+  db.notification.create({
+    data: {
+      type: "SUBSCRIPTION",
+      title,
+      body,
+      link: `/${subscription.streamer.username}`,
+      userId: subscription.subscriberId,
+    },
+  });
+
+/**
+ * A tier the viewer can join or renew, throwing the reason if they can't.
+ * Retired tiers can only be renewed by their current subscribers.
+ */
+const getJoinableTier = async (tierId: string, subscriberId: string) => {
+  const tier = await db.subscriptionTier.findUnique({ where: { id: tierId } });
+
+  const isRenewal =
+    !!tier &&
+    !tier.isActive &&
+    (await db.subscription.count({
+      where: { tierId: tier.id, subscriberId, ...entitledWhere() },
+    })) > 0;
+
+  if (!tier || (!tier.isActive && !isRenewal)) {
+    throw new Error("This subscription tier isn't available");
+  }
+  if (tier.streamerId === subscriberId) {
+    throw new Error("You can't subscribe to your own channel");
+  }
+
+  return tier;
+};
+
+// The streamer's tip account, where subscription payments are sent too
+const getPaymentAccount = async (streamerId: string) => {
+  const streamer = await db.user.findUnique({
+    where: { id: streamerId },
+    select: { platformWallet: true },
+  });
+
+  if (!streamer?.platformWallet) {
+    throw new Error("This streamer can't receive subscriptions yet");
+  }
+
+  return new PublicKey(await getTipAccountAddress(streamer.platformWallet));
+};
+
+/**
+ * The streamer's program wallet, which transfers are sent to like tips;
+ * null if they can't receive payments yet
+ */
+export const getSubscriptionPaymentAddress = async (streamerId: string) => {
+  const streamer = await db.user.findUnique({
+    where: { id: streamerId },
+    select: { platformWallet: true },
+  });
+
+  if (!streamer?.platformWallet) return null;
+
+  const [streamerStatePDA] = PublicKey.findProgramAddressSync(
+    [Buffer.from("user"), new PublicKey(streamer.platformWallet).toBuffer()],
+    programId
+  );
+
+  return streamerStatePDA.toBase58();
+};
+
+/**
+ * Store a payment and move the subscription on by one period. Renewals paid
+ * while the period is running extend it; lapsed subscriptions restart now.
+ */
+const recordSubscriptionPayment = async ({
+  subscriberId,
+  tier,
+  paymentMethod,
+  allowanceAccount,
+  transactionHash,
+  indexedTipId,
+}: {
+  subscriberId: string;
+  tier: SubscriptionTier;
+  paymentMethod: SubscriptionPaymentMethod;
+  allowanceAccount?: string | null;
+  transactionHash: string;
+  // Tip the ledger indexed from this transfer, replaced by the payment
+  indexedTipId?: string;
+}) => {
+  const now = new Date();
+  const key = {
+    subscriberId_streamerId: { subscriberId, streamerId: tier.streamerId },
+  };
+
+  return db.$transaction(async (tx) => {
+    if (indexedTipId) {
+      const tip = await tx.tip.delete({
+        where: { id: indexedTipId },
+        select: { streamSessionId: true, usdValue: true },
+      });
+
+      if (tip.streamSessionId && tip.usdValue) {
+        await tx.streamSession.update({
+          where: { id: tip.streamSessionId },
+          data: { tipsTotal: { decrement: tip.usdValue } },
+        });
+      }
+    }
+
+    const existing = await tx.subscription.findFirst({
+      where: { ...key.subscriberId_streamerId, ...entitledWhere() },
+    });
+
+    const periodStart =
+      existing && existing.currentPeriodEnd > now
+        ? existing.currentPeriodEnd
+        : now;
+    const periodEnd = addPeriod(periodStart);
+
+    const subscription = await tx.subscription.upsert({
+      where: key,
+      create: {
+        subscriberId,
+        streamerId: tier.streamerId,
+        tierId: tier.id,
+        paymentMethod,
+        allowanceAccount,
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: periodEnd,
+      },
+      update: {
+        tierId: tier.id,
+        status: "ACTIVE",
+        paymentMethod,
+        allowanceAccount,
+        currentPeriodStart: existing ? existing.currentPeriodStart : now,
+        currentPeriodEnd: periodEnd,
+        cancelAtPeriodEnd: false,
+        endedAt: null,
+        // A lapsed subscription starts counting its months again
+        ...(!existing && { startedAt: now }),
+      },
+      include: { tier: true },
+    });
+
+    await tx.subscriptionPayment.create({
+      data: {
+        subscriptionId: subscription.id,
+        amount: tier.price,
+        transactionHash,
+        periodStart,
+        periodEnd,
+      },
+    });
+
+    return subscription;
+  });
+};
+
+/**
+ * Build the charge of one period's price from the subscriber's allowance.
+ * The platform wallet signs as the approved delegate and pays the fee.
+ */
+const buildAllowanceCharge = async ({
+  subscriberId,
+  allowanceAccount,
+  tier,
+}: {
+  subscriberId: string;
+  allowanceAccount: string;
+  tier: SubscriptionTier;
+}) => {
+  const serverWallet = getServerWallet();
+  const destination = await getPaymentAccount(tier.streamerId);
+
+  const transaction = new Transaction().add(
+    createTransferCheckedInstruction(
+      new PublicKey(allowanceAccount),
+      USDC_MINT,
+      destination,
+      serverWallet.publicKey,
+      toBaseUnits(Number(tier.price)),
+      SUBSCRIPTION_TOKEN.decimals
+    )
+  );
+  transaction.feePayer = serverWallet.publicKey;
+
+  const { blockhash } = await getConnection().getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  await addComputeBudget(transaction);
+
+  await sponsorTransaction(transaction, {
+    userId: subscriberId,
+    operation: "SUBSCRIPTION_CHARGE",
+    isPlatformCharge: true,
+  });
+
+  return transaction;
+};
+
+/**
+ * Renew a subscription from its allowance. The charge is queued without
+ * waiting for it, referencing the subscription; later runs settle that
+ * charge instead of sending another, so a slow confirmation or a failed
+ * write never charges twice. FAILED if the charge didn't go through, e.g.
+ * because the allowance ran out or was revoked.
+ */
+const renewFromAllowance = async (
+  subscription: SubscriptionWithTier
+): Promise<RenewalOutcome> => {
+  if (!subscription.allowanceAccount) return "FAILED";
+
+  // A renewal charge is only sent once the period has ended, and recording
+  // it moves the period on, so anything newer is still unrecorded
+  const charge = await db.transactionSubmission.findFirst({
+    where: {
+      kind: "SUBSCRIPTION_CHARGE",
+      referenceId: subscription.id,
+      status: { not: "FAILED" },
+      createdAt: { gte: subscription.currentPeriodEnd },
+    },
+    orderBy: { createdAt: "desc" },
+    select: { signature: true },
+  });
+
+  if (!charge) {
+    try {
+      const transaction = await buildAllowanceCharge({
+        subscriberId: subscription.subscriberId,
+        allowanceAccount: subscription.allowanceAccount,
+        tier: subscription.tier,
+      });
+
+      const submission = await submitTransaction(transaction, {
+        kind: "SUBSCRIPTION_CHARGE",
+        userId: subscription.subscriberId,
+        referenceId: subscription.id,
+      });
+
+      return submission.status === "FAILED" ? "FAILED" : "PENDING";
+    } catch (error) {
+      console.error("[renewFromAllowance] charge error:", {
+        subscriptionId: subscription.id,
+        error,
+      });
+      return "FAILED";
+    }
+  }
+
+  // The charge was sent; until it's recorded, retry rather than recharge
+  try {
+    const { status } = await getTransactionSubmission(
+      charge.signature,
+      subscription.subscriberId
+    );
+
+    if (status === "PENDING") return "PENDING";
+    if (status === "FAILED") return "FAILED";
+
+    await recordSubscriptionPayment({
+      subscriberId: subscription.subscriberId,
+      tier: subscription.tier,
+      paymentMethod: "ALLOWANCE",
+      allowanceAccount: subscription.allowanceAccount,
+      transactionHash: charge.signature,
+    });
+
+    return "RENEWED";
+  } catch (error) {
+    console.error("[renewFromAllowance] settle error:", {
+      subscriptionId: subscription.id,
+      error,
+    });
+    return "PENDING";
+  }
+};
+
+/**
+ * A streamer's tiers in their order; retired tiers only when asked for
+ */
+export const getSubscriptionTiers = async (
+  streamerId: string,
+  { includeInactive = false } = {}
+) => {
+  const tiers = await db.subscriptionTier.findMany({
+    where: { streamerId, ...(!includeInactive && { isActive: true }) },
+    include: {
+      _count: {
+        select: { subscriptions: { where: entitledWhere() } },
+      },
+    },
+    orderBy: [{ sortOrder: "asc" }, { price: "asc" }],
+  });
+
+  return tiers.map(toTierData);
+};
+
+export const createSubscriptionTier = async (
+  streamerId: string,
+  data: {
+    name: string;
+    price: number;
+    hasBadge: boolean;
+    hasEmoteAccess: boolean;
+    hasSubscriberChat: boolean;
+  }
+) => {
+  const count = await db.subscriptionTier.count({
+    where: { streamerId, isActive: true },
+  });
+
+  if (count >= SUBSCRIPTION_LIMITS.MAX_TIERS) {
+    throw new Error(
+      `You can offer up to ${SUBSCRIPTION_LIMITS.MAX_TIERS} subscription tiers`
+    );
+  }
+
+  const tier = await db.subscriptionTier.create({
+    data: { ...data, streamerId, sortOrder: count },
+  });
+
+  return toTierData(tier);
+};
+
+/**
+ * Edit one of the streamer's tiers. New prices apply from each subscriber's
+ * next renewal.
+ */
+export const updateSubscriptionTier = async (
+  streamerId: string,
+  tierId: string,
+  data: Partial<{
+    name: string;
+    price: number;
+    hasBadge: boolean;
+    hasEmoteAccess: boolean;
+    hasSubscriberChat: boolean;
+  }>
+) => {
+  const tier = await db.subscriptionTier.findFirst({
+    where: { id: tierId, streamerId },
+  });
+
+  if (!tier) {
+    throw new Error("Subscription tier not found");
+  }
+
+  const updated = await db.subscriptionTier.update({
+    where: { id: tier.id },
+    data,
+  });
+
+  return toTierData(updated);
+};
+
+/**
+ * Remove a tier. Tiers with subscribers are retired instead, so current
+ * subscribers keep it until their subscription ends.
+ */
+export const deleteSubscriptionTier = async (
+  streamerId: string,
+  tierId: string
+) => {
+  const tier = await db.subscriptionTier.findFirst({
+    where: { id: tierId, streamerId },
+    include: {
+      _count: {
+        select: { subscriptions: { where: entitledWhere() } },
+      },
+    },
+  });
+
+  if (!tier) {
+    throw new Error("Subscription tier not found");
+  }
+
+  if (tier._count.subscriptions > 0) {
+    await db.subscriptionTier.update({
+      where: { id: tier.id },
+      data: { isActive: false },
+    });
+    return { retired: true };
+  }
+
+  await db.subscriptionTier.delete({ where: { id: tier.id } });
+  return { retired: false };
+};
+
+/**
+ * The viewer's subscription to a streamer, whatever its status
+ */
+export const getViewerSubscription = async (
+  subscriberId: string,
+  streamerId: string
+) => {
+  const subscription = await db.subscription.findUnique({
+    where: { subscriberId_streamerId: { subscriberId, streamerId } },
+    include: { tier: true },
+  });
+
+  return subscription ? toSubscriptionData(subscription) : null;
+};
+
+/**
+ * The viewer's subscription to a streamer if it currently grants perks
+ */
+export const getActiveSubscription = (
+  subscriberId: string,
+  streamerId: string
+) =>
+  db.subscription.findFirst({
+    where: { subscriberId, streamerId, ...entitledWhere() },
+    include: { tier: true },
+  });
+
+/**
+ * Chat badges of the given senders, keyed by user id. Senders without a
+ * subscription, or whose tier has no badge, are left out.
+ */
+export const getSubscriberBadges = async (
+  streamerId: string,
+  subscriberIds: string[]
+) => {
+  const badges: Record<string, SubscriberBadge> = {};
+  if (subscriberIds.length === 0) return badges;
+
+  const subscriptions = await db.subscription.findMany({
+    where: {
+      streamerId,
+      subscriberId: { in: subscriberIds },
+      tier: { hasBadge: true },
+      ...entitledWhere(),
+    },
+    select: {
+      subscriberId: true,
+      startedAt: true,
+      tier: { select: { name: true } },
+    },
+  });
+
+  for (const subscription of subscriptions) {
+    badges[subscription.subscriberId] = {
+      tierName: subscription.tier.name,
+      months: getSubscriberMonths(subscription.startedAt),
+    };
+  }
+
+  return badges;
+};
+
+/**
+ * A streamer's current subscribers, newest first
+ */
+export const getSubscribers = (streamerId: string) =>
+  db.subscription.findMany({
+    where: { streamerId, ...entitledWhere() },
+    include: {
+      subscriber: { select: { id: true, username: true, imageUrl: true } },
+      tier: { select: { id: true, name: true } },
+    },
+    orderBy: { startedAt: "desc" },
+  });
+
+/**
+ * Subscribe, or renew, with a USDC transfer the subscriber already sent to
+ * the streamer's tip account. The transfer is checked on-chain first.
+ */
+export const subscribeWithTransfer = async ({
+  subscriberId,
+  tierId,
+  transactionHash,
+}: {
+  subscriberId: string;
+  tierId: string;
+  transactionHash: string;
+}) => {
+  const tier = await getJoinableTier(tierId, subscriberId);
+
+  // The ledger may have indexed the transfer as a tip before the subscriber
+  // got here; that tip is turned into the payment below
+  const indexed = await findIndexedTip(transactionHash, {
+    tipperId: subscriberId,
+    streamerId: tier.streamerId,
+    tokenType: DEFAULT_TOKEN,
+    amount: Number(tier.price),
+  });
+
+  if (!indexed) {
+    await assertUnusedSignature(transactionHash);
+  }
+
+  const [subscriber, streamer] = await Promise.all([
+    db.user.findUnique({
+      where: { id: subscriberId },
+      select: { solanaWallet: true, platformWallet: true },
+    }),
+    db.user.findUnique({
+      where: { id: tier.streamerId },
+      select: { solanaWallet: true, platformWallet: true },
+    }),
+  ]);
+
+  const compact = (values: (string | null | undefined)[]) =>
+    values.filter((value): value is string => !!value);
+
+  const result = await verifyTipTransaction({
+    signature: transactionHash,
+    amount: Number(tier.price),
+    tokenType: DEFAULT_TOKEN,
+    tipperWallets: compact([
+      subscriber?.solanaWallet,
+      subscriber?.platformWallet,
+    ]),
+    streamerWallets: compact([
+      streamer?.platformWallet,
+      streamer?.solanaWallet,
+    ]),
+  });
+
+  if (result.status === "PENDING") {
+    throw new Error("Your payment hasn't confirmed yet, try again in a moment");
+  }
+  if (result.status === "FAILED") {
+    throw new Error(result.reason);
+  }
+
+  const subscription = await recordSubscriptionPayment({
+    subscriberId,
+    tier,
+    paymentMethod: "TRANSFER",
+    transactionHash,
+    indexedTipId: indexed?.id,
+  });
+
+  if (indexed) {
+    await updateTipGoalProgress(tier.streamerId);
+  }
+
+  return toSubscriptionData(subscription);
+};
+
+/**
+ * Build the approval that lets the platform wallet charge the subscriber's
+ * USDC account for the given number of periods. Any allowance the platform
+ * already holds (e.g. for other subscriptions) is kept on top.
+ * The platform pays the fee and signs first; the subscriber signs and returns it.
+ */
+export const prepareSubscriptionAllowance = async ({
+  subscriberId,
+  tierId,
+  months,
+}: {
+  subscriberId: string;
+  tierId: string;
+  months: number;
+}) => {
+  const tier = await getJoinableTier(tierId, subscriberId);
+  await getPaymentAccount(tier.streamerId);
+
+  const subscriber = await db.user.findUnique({
+    where: { id: subscriberId },
+    select: { solanaWallet: true },
+  });
+
+  if (!subscriber?.solanaWallet) {
+    throw new Error("Connect a wallet to pay from an allowance");
+  }
+
+  const serverWallet = getServerWallet();
+  const connection = getConnection();
+  const owner = new PublicKey(subscriber.solanaWallet);
+  const source = await getAssociatedTokenAddress(USDC_MINT, owner);
+
+  let existingAllowance = 0;
+  try {
+    const account = await getAccount(connection, source);
+    if (account.delegate?.equals(serverWallet.publicKey)) {
+      existingAllowance = Number(account.delegatedAmount);
+    }
+  } catch {
+    throw new Error("Your wallet has no USDC account");
+  }
+
+  const transaction = new Transaction().add(
+    createApproveCheckedInstruction(
+      source,
+      USDC_MINT,
+      serverWallet.publicKey,
+      owner,
+      existingAllowance + toBaseUnits(Number(tier.price) * months),
+      SUBSCRIPTION_TOKEN.decimals
+    )
+  );
+  transaction.feePayer = serverWallet.publicKey;
+
+  const { blockhash } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  await addComputeBudget(transaction);
+
+  await sponsorTransaction(transaction, {
+    userId: subscriberId,
+    operation: "SUBSCRIPTION_ALLOWANCE",
+  });
+
+  return {
+    serializedTransaction: transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString("base64"),
+  };
+};
+
+/**
+ * Broadcast the subscriber's signed approval, check the allowance landed on
+ * their account and charge the first period from it
+ */
+export const subscribeWithAllowance = async ({
+  subscriberId,
+  tierId,
+  signedTransaction,
+}: {
+  subscriberId: string;
+  tierId: string;
+  signedTransaction: string;
+}) => {
+  const tier = await getJoinableTier(tierId, subscriberId);
+
+  const subscriber = await db.user.findUnique({
+    where: { id: subscriberId },
+    select: { solanaWallet: true },
+  });
+
+  if (!subscriber?.solanaWallet) {
+    throw new Error("Connect a wallet to pay from an allowance");
+  }
+
+  await submitAndConfirm(
+    Transaction.from(Buffer.from(signedTransaction, "base64")),
+    {
+      kind: "SUBSCRIPTION_ALLOWANCE",
+      userId: subscriberId,
+      referenceId: tierId,
+    }
+  );
+
+  const serverWallet = getServerWallet();
+  const source = await getAssociatedTokenAddress(
+    USDC_MINT,
+    new PublicKey(subscriber.solanaWallet)
+  );
+  const account = await getAccount(getConnection(), source);
+
+  if (
+    !account.delegate?.equals(serverWallet.publicKey) ||
+    Number(account.delegatedAmount) < toBaseUnits(Number(tier.price))
+  ) {
+    throw new Error("The allowance doesn't cover this subscription");
+  }
+
+  const charge = await buildAllowanceCharge({
+    subscriberId,
+    allowanceAccount: source.toBase58(),
+    tier,
+  });
+  const signature = await submitAndConfirm(charge, {
+    kind: "SUBSCRIPTION_CHARGE",
+    userId: subscriberId,
+    referenceId: tier.id,
+  });
+
+  const subscription = await recordSubscriptionPayment({
+    subscriberId,
+    tier,
+    paymentMethod: "ALLOWANCE",
+    allowanceAccount: source.toBase58(),
+    transactionHash: signature,
+  });
+
+  return toSubscriptionData(subscription);
+};
+
+/**
+ * Stop renewing; the subscriber keeps their perks until the period ends.
+ * Lapsed subscriptions end straight away.
+ */
+export const cancelSubscription = async (
+  subscriberId: string,
+  streamerId: string
+) => {
+  const subscription = await getActiveSubscription(subscriberId, streamerId);
+
+  if (!subscription) {
+    throw new Error("You aren't subscribed to this channel");
+  }
+
+  const updated = await db.subscription.update({
+    where: { id: subscription.id },
+    data:
+      subscription.status === "PAST_DUE"
+        ? { status: "CANCELLED", endedAt: new Date() }
+        : { cancelAtPeriodEnd: true },
+    include: { tier: true },
+  });
+
+  return toSubscriptionData(updated);
+};
+
+/**
+ * Undo a cancellation before the period ends
+ */
+export const resumeSubscription = async (
+  subscriberId: string,
+  streamerId: string
+) => {
+  const subscription = await getActiveSubscription(subscriberId, streamerId);
+
+  if (!subscription || subscription.status !== "ACTIVE") {
+    throw new Error("You aren't subscribed to this channel");
+  }
+
+  const updated = await db.subscription.update({
+    where: { id: subscription.id },
+    data: { cancelAtPeriodEnd: false },
+    include: { tier: true },
+  });
+
+  return toSubscriptionData(updated);
+};
+
+/**
+ * Scheduled renewal run:
+ * - cancelled subscriptions end with their period
+ * - due allowance subscriptions are charged, a capped batch per run, and
+ *   earlier charges settled; the rest (and failed charges) become PAST_DUE
+ *   and the subscriber is asked to renew
+ * - past-due allowance subscriptions are charged again on every run
+ * - past-due subscriptions expire once the grace period is over
+ */
+export const processSubscriptionRenewals = async () => {
+  const now = new Date();
+  const graceCutoff = dayjs(now).subtract(SUBSCRIPTION_GRACE_DAYS, "day").toDate();
+  const result = {
+    renewed: 0,
+    charging: 0,
+    pastDue: 0,
+    cancelled: 0,
+    expired: 0,
+  };
+
+  const { count: cancelled } = await db.subscription.updateMany({
+    where: {
+      status: { in: ["ACTIVE", "PAST_DUE"] },
+      cancelAtPeriodEnd: true,
+      currentPeriodEnd: { lte: now },
+    },
+    data: { status: "CANCELLED", endedAt: now },
+  });
+  result.cancelled = cancelled;
+
+  // Allowance charges are capped separately; the rest wait for the next run
+  const [dueTransfers, dueCharges] = await Promise.all([
+    db.subscription.findMany({
+      where: {
+        status: "ACTIVE",
+        paymentMethod: "TRANSFER",
+        currentPeriodEnd: { lte: now },
+      },
+      include: { tier: true, streamer: { select: { username: true } } },
+      take: RENEWAL_BATCH_SIZE,
+    }),
+    db.subscription.findMany({
+      where: {
+        status: "ACTIVE",
+        paymentMethod: "ALLOWANCE",
+        currentPeriodEnd: { lte: now },
+      },
+      include: { tier: true, streamer: { select: { username: true } } },
+      orderBy: { currentPeriodEnd: "asc" },
+      take: CHARGE_BATCH_SIZE,
+    }),
+  ]);
+
+  for (const subscription of [...dueCharges, ...dueTransfers]) {
+    if (subscription.paymentMethod === "ALLOWANCE") {
+      const outcome = await renewFromAllowance(subscription);
+
+      if (outcome === "RENEWED") {
+        result.renewed++;
+        continue;
+      }
+      if (outcome === "PENDING") {
+        result.charging++;
+        continue;
+      }
+    }
+
+    await db.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "PAST_DUE" },
+    });
+    await notifySubscriber(
+      subscription,
+      `Your subscription to ${subscription.streamer.username} is due`,
+      subscription.paymentMethod === "ALLOWANCE"
+        ? `We couldn't charge your allowance. Top it up or renew within ${SUBSCRIPTION_GRACE_DAYS} days to keep your perks.`
+        : `Renew within ${SUBSCRIPTION_GRACE_DAYS} days to keep your perks.`
+    );
+    result.pastDue++;
+  }
+
+  const retries = await db.subscription.findMany({
+    where: {
+      status: "PAST_DUE",
+      paymentMethod: "ALLOWANCE",
+      currentPeriodEnd: { gt: graceCutoff },
+    },
+    include: { tier: true },
+    orderBy: { currentPeriodEnd: "asc" },
+    take: CHARGE_BATCH_SIZE,
+  });
+
+  for (const subscription of retries) {
+    const outcome = await renewFromAllowance(subscription);
+
+    if (outcome === "RENEWED") {
+      result.renewed++;
+    } else if (outcome === "PENDING") {
+      result.charging++;
+    }
+  }
+
+  const lapsed = await db.subscription.findMany({
+    where: { status: "PAST_DUE", currentPeriodEnd: { lte: graceCutoff } },
+    include: { streamer: { select: { username: true } } },
+    take: RENEWAL_BATCH_SIZE,
+  });
+
+  for (const subscription of lapsed) {
+    await db.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "EXPIRED", endedAt: now },
+    });
+    await notifySubscriber(
+      subscription,
+      `Your subscription to ${subscription.streamer.username} has ended`,
+      "Subscribe again any time to get your perks back."
+    );
+    result.expired++;
+  }
+
+  return result;
+};
@@ -0,0 +1,61 @@
+export const SUBSCRIPTION_LIMITS = {
+  MAX_TIERS: 3,
+  MAX_NAME_LENGTH: 30,
+  MIN_PRICE: 1, // $ per month
+  MAX_PRICE: 1000, // $ per month
+  MAX_ALLOWANCE_MONTHS: 12,
+} as const;
+
+// Length of one billing period
+export const SUBSCRIPTION_PERIOD_DAYS = 30;
+
+// How long a lapsed subscription keeps its perks while payment is retried
+export const SUBSCRIPTION_GRACE_DAYS = 3;
+
+export type SubscriptionStatus = "ACTIVE" | "PAST_DUE" | "CANCELLED" | "EXPIRED";
+
+// TRANSFER: the subscriber approves a transfer every period.
+// ALLOWANCE: the subscriber pre-approves the platform wallet to charge them.
+export type SubscriptionPaymentMethod = "TRANSFER" | "ALLOWANCE";
+
+export interface SubscriptionTierData {
+  id: string;
+  name: string;
+  price: number;
+  hasBadge: boolean;
+  hasEmoteAccess: boolean;
+  hasSubscriberChat: boolean;
+  isActive: boolean;
+  sortOrder: number;
+  subscriberCount: number;
+}
+
+export interface SubscriptionData {
+  id: string;
+  tierId: string;
+  tierName: string;
+  price: number;
+  status: SubscriptionStatus;
+  paymentMethod: SubscriptionPaymentMethod;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  startedAt: string;
+}
+
+// Shown next to a subscriber's name in chat
+export interface SubscriberBadge {
+  tierName: string;
+  months: number;
+}
+
+/**
+ * Whole billing periods since the subscriber first subscribed, counting the current one
+ */
+export const getSubscriberMonths = (startedAt: Date | string, now = new Date()) =>
+  Math.max(
+    1,
+    Math.ceil(
+      (now.getTime() - new Date(startedAt).getTime()) /
+        (SUBSCRIPTION_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+    )
+  );
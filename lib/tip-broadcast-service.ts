@@ -0,0 +1,36 @@
+import { DataPacket_Kind } from "livekit-server-sdk";
+
+import { roomService } from "@/lib/room-service";
+import {
+  TIP_NOTIFICATION_TOPIC,
+  TipBroadcastData,
+  TipNotificationData,
+} from "@/lib/tip-broadcast";
+
+/**
+ * Publish a tip notification into the streamer's LiveKit room from the server.
+ * The room name is the streamer's user id (see createIngress / createViewerToken).
+ * Server-sent packets have no sender, which is how clients tell them apart
+ * from anything a participant publishes on the same topic.
+ */
+export const publishTipNotification = async (
+  roomName: string,
+  tip: TipBroadcastData
+): Promise<void> => {
+  const notification: TipNotificationData = {
+    type: "tip_notification",
+    tip,
+  };
+
+  await roomService.sendData(
+    roomName,
+    new TextEncoder().encode(JSON.stringify(notification)),
+    DataPacket_Kind.RELIABLE,
+    { topic: TIP_NOTIFICATION_TOPIC }
+  );
+
+  console.log("[publishTipNotification] Tip published:", {
+    roomName,
+    tipId: tip.id,
+  });
+};
@@ -1,12 +1,24 @@
-import { Room } from "livekit-client";
+import type { Participant } from "livekit-client";
+
+import { formatTokenAmount, TokenType } from "@/config/tokens";
+
+// Data channel topic used for server-published tip events. Only the server
+// can publish without a sending participant, which is what marks a tip as
+// genuine; see isTipNotification.
+export const TIP_NOTIFICATION_TOPIC = "tip_notification";
 
 export interface TipBroadcastData {
   type: "tip";
   id: string;
   amount: number;
-  tokenType: "USDC" | "SOL";
+  tokenType: TokenType;
+  // Worth in USD when tipped, for the streamer's alert thresholds
+  usdValue?: number;
   giftType?: string;
   giftName?: string;
+  giftImageUrl?: string;
+  isPremiumGift?: boolean;
+  message?: string;
   tipperId: string;
   tipperUsername: string;
   tipperImageUrl: string;
@@ -21,31 +33,6 @@ export interface TipNotificationData {
   tip: TipBroadcastData;
 }
 
-/**
- * Broadcast a tip notification to all participants in the LiveKit room
- */
-export async function broadcastTipNotification(
-  room: Room,
-  tipData: TipBroadcastData
-): Promise<void> {
-  try {
-    const notificationData: TipNotificationData = {
-      type: "tip_notification",
-      tip: tipData,
-    };
-
-    // Send data to all participants in the room
-    await room.localParticipant.publishData(
-      new TextEncoder().encode(JSON.stringify(notificationData)),
-      0 // DataPacket_Kind.RELIABLE
-    );
-
-  } catch (error) {
-    // console.error("Failed to broadcast tip notification:", error);
-    throw error;
-  }
-}
-
 /**
  * Create tip broadcast data from tip record
  */
@@ -53,9 +40,15 @@ export function createTipBroadcastData(
   tip: {
     id: string;
     amount: number;
-    tokenType: "USDC" | "SOL";
+    tokenType: TokenType;
+    usdValue?: number | null;
     giftType?: string | null;
     giftName?: string | null;
+    gift?: {
+      imageUrl: string;
+      isPremium: boolean;
+    } | null;
+    message?: string | null;
     tipperId: string;
     streamerId: string;
     transactionHash?: string | null;
@@ -74,8 +67,12 @@ export function createTipBroadcastData(
     id: tip.id,
     amount: Number(tip.amount),
     tokenType: tip.tokenType,
+    usdValue: tip.usdValue ?? undefined,
     giftType: tip.giftType || undefined,
     giftName: tip.giftName || undefined,
+    giftImageUrl: tip.gift?.imageUrl,
+    isPremiumGift: tip.gift?.isPremium,
+    message: tip.message || undefined,
     tipperId: tip.tipperId,
     tipperUsername: tip.tipper.username,
     tipperImageUrl: tip.tipper.imageUrl,
@@ -91,12 +88,22 @@ export function createTipBroadcastData(
  */
 export function formatTipMessage(tip: TipBroadcastData): string {
   const giftText = tip.giftType ? ` with ${tip.giftName}` : "";
-  return `💰 ${tip.tipperUsername} tipped $${tip.amount} ${tip.tokenType}${giftText} to ${tip.streamerUsername}!`;
+  return `💰 ${tip.tipperUsername} tipped ${formatTokenAmount(tip.amount, tip.tokenType)}${giftText} to ${tip.streamerUsername}!`;
 }
 
 /**
- * Check if data is a tip notification
+ * Check if data is a tip notification published by the server.
+ * Packets sent through RoomServiceClient.sendData have no sending participant,
+ * so anything published by a viewer or the host is rejected. This is the only
+ * check: room participants cannot send data without being the sender.
  */
-export function isTipNotification(data: any): data is TipNotificationData {
+export function isTipNotification(
+  data: any,
+  from?: Participant
+): data is TipNotificationData {
+  if (from) {
+    return false;
+  }
+
   return data?.type === "tip_notification" && data?.tip?.type === "tip";
 }
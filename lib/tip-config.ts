@@ -22,6 +22,66 @@ export const TIP_CONFIG = {
   // Queue management
   MAX_OVERLAY_QUEUE_SIZE: 3, // Maximum number of overlays to queue
   MAX_CHAT_NOTIFICATIONS: 5, // Maximum number of tips to show in chat
+
+  // Tip message length, growing with the tip tier
+  REGULAR_TIP_MESSAGE_LENGTH: 80, // characters
+  LARGE_TIP_MESSAGE_LENGTH: 160, // characters
+  MEGA_TIP_MESSAGE_LENGTH: 300, // characters
 } as const;
 
 export type TipConfig = typeof TIP_CONFIG;
+
+/**
+ * A streamer's own alert settings, stored on their stream.
+ * TIP_CONFIG provides the defaults.
+ */
+export interface TipAlertSettings {
+  largeTipThreshold: number;
+  megaTipThreshold: number;
+  tipAlertDurationSeconds: number;
+  giftAlertDurationSeconds: number;
+  tipAlertQueueSize: number;
+  excludedAlertGiftTypes: string[];
+}
+
+export const DEFAULT_TIP_ALERT_SETTINGS: TipAlertSettings = {
+  largeTipThreshold: TIP_CONFIG.LARGE_TIP_THRESHOLD,
+  megaTipThreshold: TIP_CONFIG.MEGA_TIP_THRESHOLD,
+  tipAlertDurationSeconds: TIP_CONFIG.OVERLAY_DISPLAY_DURATION / 1000,
+  giftAlertDurationSeconds: 4,
+  tipAlertQueueSize: TIP_CONFIG.MAX_OVERLAY_QUEUE_SIZE,
+  excludedAlertGiftTypes: [],
+};
+
+// Bounds for what a streamer can configure
+export const TIP_ALERT_LIMITS = {
+  MAX_THRESHOLD: 100000, // $
+  MIN_DURATION_SECONDS: 1,
+  MAX_DURATION_SECONDS: 30,
+  MIN_QUEUE_SIZE: 1,
+  MAX_QUEUE_SIZE: 20,
+} as const;
+
+/**
+ * Pick the alert settings out of a stream payload, falling back to the
+ * defaults for payloads that predate them
+ */
+export const getTipAlertSettings = (
+  stream?: Partial<TipAlertSettings> | null
+): TipAlertSettings => ({
+  largeTipThreshold:
+    stream?.largeTipThreshold ?? DEFAULT_TIP_ALERT_SETTINGS.largeTipThreshold,
+  megaTipThreshold:
+    stream?.megaTipThreshold ?? DEFAULT_TIP_ALERT_SETTINGS.megaTipThreshold,
+  tipAlertDurationSeconds:
+    stream?.tipAlertDurationSeconds ??
+    DEFAULT_TIP_ALERT_SETTINGS.tipAlertDurationSeconds,
+  giftAlertDurationSeconds:
+    stream?.giftAlertDurationSeconds ??
+    DEFAULT_TIP_ALERT_SETTINGS.giftAlertDurationSeconds,
+  tipAlertQueueSize:
+    stream?.tipAlertQueueSize ?? DEFAULT_TIP_ALERT_SETTINGS.tipAlertQueueSize,
+  excludedAlertGiftTypes:
+    stream?.excludedAlertGiftTypes ??
+    DEFAULT_TIP_ALERT_SETTINGS.excludedAlertGiftTypes,
+});
@@ -0,0 +1,212 @@
+import { Prisma, TipGoal } from "@prisma/client";
+import { DataPacket_Kind } from "livekit-server-sdk";
+
+import { db } from "@/lib/db";
+import { roomService } from "@/lib/room-service";
+import {
+  TIP_GOAL_TOPIC,
+  TipGoalEventData,
+  TipGoalProgress,
+} from "@/lib/tip-goal";
+
+/**
+ * USD value of the verified tips, in any token, received while the goal was
+ * running
+ */
+const getRaisedAmount = async (goal: TipGoal) => {
+  const where: Prisma.TipWhereInput = {
+    streamerId: goal.userId,
+    status: "VERIFIED",
+    createdAt: {
+      gte: goal.createdAt,
+      lte: goal.endedAt ?? goal.deadline ?? undefined,
+    },
+    ...(goal.streamSessionId && { streamSessionId: goal.streamSessionId }),
+  };
+
+  const { _sum } = await db.tip.aggregate({ where, _sum: { usdValue: true } });
+
+  return Number(_sum.usdValue ?? 0);
+};
+
+const toTipGoalProgress = (
+  goal: TipGoal,
+  raisedAmount: number
+): TipGoalProgress => ({
+  id: goal.id,
+  title: goal.title,
+  targetAmount: Number(goal.targetAmount),
+  raisedAmount,
+  deadline: goal.deadline?.toISOString() ?? null,
+  streamSessionId: goal.streamSessionId,
+  status: goal.status,
+  reachedAt: goal.reachedAt?.toISOString() ?? null,
+  endedAt: goal.endedAt?.toISOString() ?? null,
+  createdAt: goal.createdAt.toISOString(),
+});
+
+/**
+ * Close goals whose deadline passed or whose broadcast ended. Goals that
+ * were never reached are marked EXPIRED.
+ */
+const closeFinishedTipGoals = async (userId: string) => {
+  const now = new Date();
+  const isFinished: Prisma.TipGoalWhereInput = {
+    userId,
+    endedAt: null,
+    OR: [
+      { deadline: { lt: now } },
+      { streamSession: { endedAt: { not: null } } },
+    ],
+  };
+
+  await db.tipGoal.updateMany({
+    where: { ...isFinished, status: "ACTIVE" },
+    data: { status: "EXPIRED", endedAt: now },
+  });
+  await db.tipGoal.updateMany({
+    where: { ...isFinished, status: "REACHED" },
+    data: { endedAt: now },
+  });
+};
+
+const publishTipGoalEvent = async (
+  roomName: string,
+  event: TipGoalEventData
+) => {
+  try {
+    await roomService.sendData(
+      roomName,
+      new TextEncoder().encode(JSON.stringify(event)),
+      DataPacket_Kind.RELIABLE,
+      { topic: TIP_GOAL_TOPIC }
+    );
+  } catch (error) {
+    // The room only exists while someone is connected to it
+    console.error("[publishTipGoalEvent] error:", error);
+  }
+};
+
+/**
+ * The goal shown on the streamer's channel, with its progress
+ */
+export const getCurrentTipGoal = async (userId: string) => {
+  await closeFinishedTipGoals(userId);
+
+  const goal = await db.tipGoal.findFirst({
+    where: { userId, endedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return goal ? toTipGoalProgress(goal, await getRaisedAmount(goal)) : null;
+};
+
+export const getTipGoalHistory = async (userId: string, limit = 20) => {
+  await closeFinishedTipGoals(userId);
+
+  const goals = await db.tipGoal.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  return Promise.all(
+    goals.map(async (goal) =>
+      toTipGoalProgress(goal, await getRaisedAmount(goal))
+    )
+  );
+};
+
+/**
+ * Start a goal; a streamer runs one goal at a time, so the current one is
+ * cancelled (or closed, if it was reached)
+ */
+export const createTipGoal = async (
+  userId: string,
+  data: {
+    title: string;
+    targetAmount: number;
+    deadline?: Date;
+    streamSessionId?: string;
+  }
+) => {
+  await endCurrentTipGoal(userId);
+
+  const goal = await db.tipGoal.create({
+    data: { ...data, userId },
+  });
+  const progress = toTipGoalProgress(goal, 0);
+
+  await publishTipGoalEvent(userId, { type: "tip_goal_progress", goal: progress });
+
+  return progress;
+};
+
+/**
+ * End the streamer's current goal, cancelling it if it wasn't reached
+ */
+export const endCurrentTipGoal = async (userId: string) => {
+  const goal = await db.tipGoal.findFirst({
+    where: { userId, endedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!goal) return null;
+
+  const ended = await db.tipGoal.update({
+    where: { id: goal.id },
+    data: {
+      endedAt: new Date(),
+      status: goal.status === "ACTIVE" ? "CANCELLED" : undefined,
+    },
+  });
+  const progress = toTipGoalProgress(ended, await getRaisedAmount(ended));
+
+  await publishTipGoalEvent(userId, { type: "tip_goal_progress", goal: progress });
+
+  return progress;
+};
+
+/**
+ * Recompute the streamer's current goal after a tip was verified and
+ * announce the new progress, or that the goal was reached, to the room.
+ * Errors are logged so they never fail the tip itself.
+ */
+export const updateTipGoalProgress = async (userId: string) => {
+  try {
+    await closeFinishedTipGoals(userId);
+
+    const goal = await db.tipGoal.findFirst({
+      where: { userId, endedAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+    if (!goal) return;
+
+    const raisedAmount = await getRaisedAmount(goal);
+
+    if (goal.status === "ACTIVE" && raisedAmount >= Number(goal.targetAmount)) {
+      // Only the update that flips the status announces the goal as reached
+      const { count } = await db.tipGoal.updateMany({
+        where: { id: goal.id, status: "ACTIVE" },
+        data: { status: "REACHED", reachedAt: new Date() },
+      });
+
+      if (count > 0) {
+        const reached = await db.tipGoal.findUniqueOrThrow({
+          where: { id: goal.id },
+        });
+        await publishTipGoalEvent(userId, {
+          type: "tip_goal_reached",
+          goal: toTipGoalProgress(reached, raisedAmount),
+        });
+        return;
+      }
+    }
+
+    await publishTipGoalEvent(userId, {
+      type: "tip_goal_progress",
+      goal: toTipGoalProgress(goal, raisedAmount),
+    });
+  } catch (error) {
+    console.error("[updateTipGoalProgress] error:", error);
+  }
+};
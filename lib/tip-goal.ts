@@ -0,0 +1,54 @@
+import type { Participant } from "livekit-client";
+
+// Data channel topic used for server-published goal progress
+export const TIP_GOAL_TOPIC = "tip_goal";
+
+export const TIP_GOAL_LIMITS = {
+  MAX_TITLE_LENGTH: 60,
+  MIN_TARGET: 1, // $
+  MAX_TARGET: 1000000, // $
+} as const;
+
+export type TipGoalStatus = "ACTIVE" | "REACHED" | "EXPIRED" | "CANCELLED";
+
+export interface TipGoalProgress {
+  id: string;
+  title: string;
+  targetAmount: number;
+  raisedAmount: number;
+  deadline: string | null;
+  streamSessionId: string | null;
+  status: TipGoalStatus;
+  reachedAt: string | null;
+  endedAt: string | null;
+  createdAt: string;
+}
+
+export interface TipGoalEventData {
+  type: "tip_goal_progress" | "tip_goal_reached";
+  goal: TipGoalProgress;
+}
+
+/**
+ * How far along a goal is, from 0 to 100
+ */
+export const getTipGoalPercent = (goal: TipGoalProgress) =>
+  Math.min(100, Math.floor((goal.raisedAmount / goal.targetAmount) * 100));
+
+/**
+ * Check if data is a goal event published by the server.
+ * Like tip notifications, packets from any participant are rejected.
+ */
+export function isTipGoalEvent(
+  data: any,
+  from?: Participant
+): data is TipGoalEventData {
+  if (from) {
+    return false;
+  }
+
+  return (
+    (data?.type === "tip_goal_progress" || data?.type === "tip_goal_reached") &&
+    typeof data?.goal?.id === "string"
+  );
+}
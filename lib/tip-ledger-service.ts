@@ -0,0 +1,634 @@
+import dayjs, { ManipulateType } from "dayjs";
+import { Prisma } from "@prisma/client";
+import { getAssociatedTokenAddress } from "@solana/spl-token";
+import {
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from "@solana/web3.js";
+
+import { db } from "@/lib/db";
+import { getConnection } from "@/lib/server-wallet";
+import {
+  getAccountKeys,
+  getReceivedAmount,
+  getRecipientOwners,
+  verifyTip,
+} from "@/lib/tip-verification";
+import { updateTipGoalProgress } from "@/lib/tip-goal-service";
+import {
+  DEFAULT_TOKEN,
+  TokenType,
+  fromBaseUnits,
+  getEnabledTokens,
+  getSplTokens,
+  getToken,
+  getTokenMint,
+} from "@/config/tokens";
+import { programId } from "@/config/cluster";
+import { fetchTokenPrices } from "@/utils/solana-price";
+
+export type TipLedgerPeriod = "day" | "week" | "month" | "year";
+
+export const TIP_LEDGER_PERIODS: TipLedgerPeriod[] = [
+  "day",
+  "week",
+  "month",
+  "year",
+];
+
+// Signatures fetched per RPC page, and the most one sync run will walk back
+const SIGNATURE_PAGE_SIZE = 100;
+const MAX_SIGNATURES_PER_SYNC = 500;
+// getParsedTransactions batch size, kept small for public RPC limits
+const TRANSACTION_BATCH_SIZE = 20;
+// A streamer's ledger is re-indexed on read at most this often
+const LEDGER_STALE_MS = 60 * 1000;
+
+const PERIOD_BUCKETS: Record<
+  TipLedgerPeriod,
+  { count: number; unit: ManipulateType }
+> = {
+  day: { count: 24, unit: "hour" },
+  week: { count: 7, unit: "day" },
+  month: { count: 30, unit: "day" },
+  year: { count: 12, unit: "month" },
+};
+
+const ledgerEntrySelect = {
+  id: true,
+  amount: true,
+  tokenType: true,
+  giftName: true,
+  message: true,
+  senderWallet: true,
+  transactionHash: true,
+  createdAt: true,
+  tipper: {
+    select: { id: true, username: true, imageUrl: true },
+  },
+} as const;
+
+const verifiedTips = (streamerId: string, since?: Date) => ({
+  streamerId,
+  status: "VERIFIED" as const,
+  ...(since && { createdAt: { gte: since } }),
+});
+
+/** Start of the window a period covers, aligned to its bucket unit */
+export const getPeriodStart = (period: TipLedgerPeriod, now = new Date()) => {
+  const { count, unit } = PERIOD_BUCKETS[period];
+  return dayjs(now)
+    .startOf(unit)
+    .subtract(count - 1, unit)
+    .toDate();
+};
+
+// Tips arrive in the token's account owned by the streamer's program PDA
+export const getTipAccountAddress = async (
+  platformWallet: string,
+  tokenType: TokenType = DEFAULT_TOKEN
+) => {
+  const [streamerStatePDA] = PublicKey.findProgramAddressSync(
+    [Buffer.from("user"), new PublicKey(platformWallet).toBuffer()],
+    programId
+  );
+
+  const ata = await getAssociatedTokenAddress(
+    getTokenMint(getToken(tokenType)),
+    streamerStatePDA,
+    true
+  );
+
+  return ata.toBase58();
+};
+
+// Newest first, stopping at the last signature a previous run ingested
+const getNewSignatures = async (address: string, until?: string | null) => {
+  const connection = getConnection();
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  while (signatures.length < MAX_SIGNATURES_PER_SYNC) {
+    const page = await connection.getSignaturesForAddress(
+      new PublicKey(address),
+      { before, until: until ?? undefined, limit: SIGNATURE_PAGE_SIZE },
+      "confirmed"
+    );
+
+    signatures.push(...page);
+
+    if (page.length < SIGNATURE_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+
+  return signatures;
+};
+
+// The incoming transfer in a transaction, if any, in whole tokens. SOL is
+// checked last as token transfers can move a little of it too.
+const getIncomingTransfer = (
+  tx: ParsedTransactionWithMeta,
+  owners: Set<string>
+): { tokenType: TokenType; amount: number } | null => {
+  const tokens = getEnabledTokens().sort(
+    (a, b) => Number(!!a.isNative) - Number(!!b.isNative)
+  );
+
+  for (const token of tokens) {
+    const received = getReceivedAmount(tx, token.symbol, owners);
+    if (received > 0) {
+      return {
+        tokenType: token.symbol,
+        amount: fromBaseUnits(received, token),
+      };
+    }
+  }
+
+  return null;
+};
+
+// Prefer a signer that belongs to a known user over e.g. a fee payer
+const matchSender = async (signers: string[]) => {
+  if (signers.length === 0) return { tipperId: null, senderWallet: null };
+
+  const user = await db.user.findFirst({
+    where: {
+      OR: [
+        { solanaWallet: { in: signers } },
+        { platformWallet: { in: signers } },
+      ],
+    },
+    select: { id: true, solanaWallet: true, platformWallet: true },
+  });
+
+  const senderWallet =
+    signers.find(
+      (signer) =>
+        signer === user?.solanaWallet || signer === user?.platformWallet
+    ) ?? signers[0];
+
+  return { tipperId: user?.id ?? null, senderWallet };
+};
+
+const ingestTransaction = async ({
+  tx,
+  signature,
+  streamerId,
+  streamId,
+  owners,
+  prices,
+}: {
+  tx: ParsedTransactionWithMeta;
+  signature: string;
+  streamerId: string;
+  streamId: string | null;
+  owners: Set<string>;
+  prices: Record<TokenType, number>;
+}) => {
+  if (!tx.meta || tx.meta.err) return false;
+
+  const existing = await db.tip.findUnique({
+    where: { transactionHash: signature },
+    select: { id: true, status: true },
+  });
+
+  // Tips sent through the app are already recorded; just settle pending ones
+  if (existing) {
+    if (existing.status === "PENDING") {
+      await verifyTip(existing.id);
+    }
+    return false;
+  }
+
+  // Subscription payments arrive in the same account but aren't tips
+  const subscriptionPayment = await db.subscriptionPayment.findUnique({
+    where: { transactionHash: signature },
+    select: { id: true },
+  });
+  if (subscriptionPayment) return false;
+
+  const transfer = getIncomingTransfer(tx, owners);
+  if (!transfer) return false;
+
+  // Transfers the streamer signed, e.g. topping up their own account, aren't
+  // tips
+  const signers = getAccountKeys(tx)
+    .filter((key) => key.signer)
+    .map((key) => key.pubkey);
+  if (signers.some((signer) => owners.has(signer))) return false;
+
+  const { tipperId, senderWallet } = await matchSender(signers);
+
+  const createdAt = tx.blockTime ? new Date(tx.blockTime * 1000) : new Date();
+
+  const session = streamId
+    ? await db.streamSession.findFirst({
+        where: {
+          streamId,
+          startedAt: { lte: createdAt },
+          OR: [{ endedAt: null }, { endedAt: { gte: createdAt } }],
+        },
+        select: { id: true },
+      })
+    : null;
+
+  const amount = new Prisma.Decimal(transfer.amount);
+  const price = prices[transfer.tokenType];
+  const usdValue = price === undefined ? null : transfer.amount * price;
+
+  await db.tip.create({
+    data: {
+      amount,
+      tokenType: transfer.tokenType,
+      usdValue,
+      tipperId,
+      senderWallet,
+      streamerId,
+      streamId,
+      streamSessionId: session?.id,
+      transactionHash: signature,
+      status: "VERIFIED",
+      verifiedAt: new Date(),
+      createdAt,
+    },
+  });
+
+  if (session && usdValue !== null) {
+    await db.streamSession.update({
+      where: { id: session.id },
+      data: { tipsTotal: { increment: usdValue } },
+    });
+  }
+
+  return true;
+};
+
+// Walk one tip account from its cursor, returning the number of tips created
+const syncTipAccount = async ({
+  streamerId,
+  streamId,
+  address,
+  owners,
+  prices,
+}: {
+  streamerId: string;
+  streamId: string | null;
+  address: string;
+  owners: Set<string>;
+  prices: Record<TokenType, number>;
+}) => {
+  const cursor = await db.tipLedgerCursor.findUnique({
+    where: { userId_address: { userId: streamerId, address } },
+  });
+
+  const signatures = await getNewSignatures(address, cursor?.lastSignature);
+
+  const connection = getConnection();
+  const pending = signatures.filter((signature) => !signature.err).reverse();
+  let created = 0;
+
+  for (let i = 0; i < pending.length; i += TRANSACTION_BATCH_SIZE) {
+    const batch = pending.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const transactions = await connection.getParsedTransactions(
+      batch.map((signature) => signature.signature),
+      { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+    );
+
+    for (let j = 0; j < transactions.length; j++) {
+      const tx = transactions[j];
+      if (!tx) continue;
+
+      const isNew = await ingestTransaction({
+        tx,
+        signature: batch[j].signature,
+        streamerId,
+        streamId,
+        owners,
+        prices,
+      });
+      if (isNew) created++;
+    }
+  }
+
+  const lastSignature = signatures[0]?.signature ?? cursor?.lastSignature;
+
+  await db.tipLedgerCursor.upsert({
+    where: { userId_address: { userId: streamerId, address } },
+    create: {
+      userId: streamerId,
+      address,
+      lastSignature,
+      lastSyncedAt: new Date(),
+    },
+    update: { lastSignature, lastSyncedAt: new Date() },
+  });
+
+  return created;
+};
+
+/**
+ * Ingest transfers into a streamer's tip accounts, one per token, that are
+ * not in the `Tip` table yet. Senders are matched to users by their Solana or
+ * platform wallet; unmatched transfers are kept with only the sender's wallet.
+ * Returns the number of tips created.
+ */
+export const syncTipLedger = async (streamerId: string) => {
+  const user = await db.user.findUnique({
+    where: { id: streamerId },
+    select: {
+      platformWallet: true,
+      solanaWallet: true,
+      stream: { select: { id: true } },
+    },
+  });
+
+  if (!user?.platformWallet) return 0;
+
+  const owners = getRecipientOwners(
+    [user.platformWallet, user.solanaWallet].filter(
+      (wallet): wallet is string => !!wallet
+    )
+  );
+
+  // Indexed tips are valued at today's price, like tips sent in the app
+  const prices = await fetchTokenPrices();
+  let created = 0;
+
+  // Cursors are per account, so a changed platform wallet is walked from
+  // scratch
+  for (const token of getSplTokens()) {
+    created += await syncTipAccount({
+      streamerId,
+      streamId: user.stream?.id ?? null,
+      address: await getTipAccountAddress(user.platformWallet, token.symbol),
+      owners,
+      prices,
+    });
+  }
+
+  if (created > 0) {
+    await updateTipGoalProgress(streamerId);
+  }
+
+  return created;
+};
+
+/**
+ * The tip the ledger indexed from a transaction before its tipper recorded
+ * it in the app, for the app tip to be merged into. Null if the transaction
+ * isn't indexed; throws if it was already used for someone else's tip.
+ */
+export const findIndexedTip = async (
+  signature: string,
+  claim: {
+    tipperId: string;
+    streamerId: string;
+    tokenType: TokenType;
+    amount: number;
+  }
+) => {
+  const tip = await db.tip.findUnique({
+    where: { transactionHash: signature },
+    select: {
+      id: true,
+      amount: true,
+      tokenType: true,
+      tipperId: true,
+      streamerId: true,
+      senderWallet: true,
+      usdValue: true,
+    },
+  });
+
+  if (!tip) return null;
+
+  // Only indexed tips have a sender wallet; the sender must be the tipper,
+  // and the transfer must cover what they say they tipped
+  if (
+    !tip.senderWallet ||
+    tip.tipperId !== claim.tipperId ||
+    tip.streamerId !== claim.streamerId ||
+    tip.tokenType !== claim.tokenType ||
+    Number(tip.amount) < claim.amount
+  ) {
+    throw new Error("Transaction has already been used for a tip");
+  }
+
+  return tip;
+};
+
+/**
+ * Re-index a streamer's ledger unless it was synced within the last minute.
+ * Indexing errors are logged so reads still serve what is already stored.
+ */
+export const syncTipLedgerIfStale = async (streamerId: string) => {
+  // Every account is synced in the same run, so the latest one says when
+  const cursor = await db.tipLedgerCursor.findFirst({
+    where: { userId: streamerId },
+    orderBy: { lastSyncedAt: "desc" },
+    select: { lastSyncedAt: true },
+  });
+
+  if (
+    cursor?.lastSyncedAt &&
+    Date.now() - cursor.lastSyncedAt.getTime() < LEDGER_STALE_MS
+  ) {
+    return;
+  }
+
+  try {
+    await syncTipLedger(streamerId);
+  } catch (error) {
+    console.error("[syncTipLedgerIfStale] error:", error);
+  }
+};
+
+/**
+ * Index every streamer with a platform wallet, one at a time to stay
+ * within RPC rate limits
+ */
+export const syncAllTipLedgers = async () => {
+  const streamers = await db.user.findMany({
+    where: { platformWallet: { not: null }, stream: { isNot: null } },
+    select: { id: true },
+  });
+
+  let synced = 0;
+  let created = 0;
+
+  for (const streamer of streamers) {
+    try {
+      created += await syncTipLedger(streamer.id);
+      synced++;
+    } catch (error) {
+      console.error("[syncAllTipLedgers] failed for streamer:", {
+        streamerId: streamer.id,
+        error,
+      });
+    }
+  }
+
+  return { streamers: streamers.length, synced, created };
+};
+
+/**
+ * A page of a streamer's verified tips, newest first
+ */
+export const getTipLedgerPage = async ({
+  streamerId,
+  cursor,
+  limit = 20,
+}: {
+  streamerId: string;
+  cursor?: string;
+  limit?: number;
+}) => {
+  const entries = await db.tip.findMany({
+    where: verifiedTips(streamerId),
+    select: ledgerEntrySelect,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  });
+
+  const hasMore = entries.length > limit;
+  const page = hasMore ? entries.slice(0, limit) : entries;
+
+  return {
+    entries: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
+
+/**
+ * Totals per token over the period
+ */
+export const getTipLedgerSummary = async (
+  streamerId: string,
+  period: TipLedgerPeriod
+) => {
+  const byToken = await db.tip.groupBy({
+    by: ["tokenType"],
+    where: verifiedTips(streamerId, getPeriodStart(period)),
+    _sum: { amount: true },
+    _count: { id: true },
+  });
+
+  const tokens = byToken
+    .map((group) => ({
+      tokenType: group.tokenType,
+      totalAmount: Number(group._sum.amount ?? 0),
+      tipCount: group._count.id,
+    }))
+    .sort((a, b) => b.tipCount - a.tipCount);
+
+  const usdc = tokens.find((token) => token.tokenType === DEFAULT_TOKEN);
+
+  return {
+    tipCount: tokens.reduce((sum, token) => sum + token.tipCount, 0),
+    totalUsdc: usdc?.totalAmount ?? 0,
+    averageUsdc: usdc?.tipCount ? usdc.totalAmount / usdc.tipCount : 0,
+    topToken: tokens[0]?.tokenType ?? DEFAULT_TOKEN,
+    tokens,
+  };
+};
+
+/**
+ * Biggest senders over the period, per token. Known users are grouped by
+ * account; transfers from unknown wallets by address.
+ */
+export const getTopDonors = async (
+  streamerId: string,
+  period: TipLedgerPeriod,
+  limit = 5
+) => {
+  const where = verifiedTips(streamerId, getPeriodStart(period));
+
+  const [byUser, byWallet] = await Promise.all([
+    db.tip.groupBy({
+      by: ["tipperId", "tokenType"],
+      where: { ...where, tipperId: { not: null } },
+      _sum: { amount: true },
+      _count: { id: true },
+      _max: { createdAt: true },
+    }),
+    db.tip.groupBy({
+      by: ["senderWallet", "tokenType"],
+      where: { ...where, tipperId: null, senderWallet: { not: null } },
+      _sum: { amount: true },
+      _count: { id: true },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  const users = await db.user.findMany({
+    where: {
+      id: { in: byUser.map((group) => group.tipperId!) },
+    },
+    select: { id: true, username: true, imageUrl: true },
+  });
+
+  const donors = [
+    ...byUser.map((group) => ({
+      id: `${group.tipperId}:${group.tokenType}`,
+      user: users.find((user) => user.id === group.tipperId) ?? null,
+      wallet: null as string | null,
+      group,
+    })),
+    ...byWallet.map((group) => ({
+      id: `${group.senderWallet}:${group.tokenType}`,
+      user: null,
+      wallet: group.senderWallet,
+      group,
+    })),
+  ];
+
+  return donors
+    .map(({ id, user, wallet, group }) => ({
+      id,
+      user,
+      wallet,
+      tokenType: group.tokenType,
+      totalAmount: Number(group._sum.amount ?? 0),
+      tipCount: group._count.id,
+      lastTipAt: group._max.createdAt,
+    }))
+    .sort((a, b) => b.totalAmount - a.totalAmount)
+    .slice(0, limit);
+};
+
+/**
+ * Tip totals per token bucketed over the period (hours for a day, days for a
+ * week or month, months for a year), oldest bucket first
+ */
+export const getTipSeries = async (
+  streamerId: string,
+  period: TipLedgerPeriod
+) => {
+  const { count, unit } = PERIOD_BUCKETS[period];
+  const start = getPeriodStart(period);
+
+  const tips = await db.tip.findMany({
+    where: verifiedTips(streamerId, start),
+    select: { amount: true, tokenType: true, createdAt: true },
+  });
+
+  const buckets = Array.from({ length: count }, (_, i) => ({
+    start: dayjs(start).add(i, unit).toDate(),
+    amounts: Object.fromEntries(
+      getEnabledTokens().map((token) => [token.symbol, 0])
+    ) as Record<TokenType, number>,
+  }));
+
+  for (const tip of tips) {
+    const index = dayjs(tip.createdAt).diff(start, unit);
+    const bucket = buckets[index];
+    if (bucket) {
+      bucket.amounts[tip.tokenType] =
+        (bucket.amounts[tip.tokenType] ?? 0) + Number(tip.amount);
+    }
+  }
+
+  return buckets;
+};
@@ -0,0 +1,60 @@
+import { TIP_CONFIG, TipAlertSettings } from "@/lib/tip-config";
+
+// Kept short on purpose: the goal is keeping alerts read aloud on stream
+// clean, not exhaustive moderation
+const BLOCKED_WORDS = [
+  "asshole",
+  "bastard",
+  "bitch",
+  "cunt",
+  "dick",
+  "fag",
+  "faggot",
+  "fuck",
+  "motherfucker",
+  "nigger",
+  "retard",
+  "shit",
+  "slut",
+  "whore",
+];
+
+const BLOCKED_WORD_PATTERN = new RegExp(
+  `\\b(${BLOCKED_WORDS.join("|")})(s|es|ed|er|ing)?\\b`,
+  "gi"
+);
+
+// Anything that looks like a link: schemes, www. prefixes and bare domains
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|gg|tv|xyz|co|me|ly|app|link|sol)\b\S*/gi;
+
+/**
+ * Longest message allowed with a tip worth the given USD value, by the
+ * streamer's own tip tiers
+ */
+export const getTipMessageLimit = (
+  usdValue: number,
+  tiers: Pick<TipAlertSettings, "largeTipThreshold" | "megaTipThreshold">
+) => {
+  if (usdValue >= tiers.megaTipThreshold) {
+    return TIP_CONFIG.MEGA_TIP_MESSAGE_LENGTH;
+  }
+  if (usdValue >= tiers.largeTipThreshold) {
+    return TIP_CONFIG.LARGE_TIP_MESSAGE_LENGTH;
+  }
+  return TIP_CONFIG.REGULAR_TIP_MESSAGE_LENGTH;
+};
+
+/**
+ * Mask profanity and drop links from a tip message.
+ * Returns null when nothing is left to show.
+ */
+export const filterTipMessage = (message: string) => {
+  const filtered = message
+    .replace(LINK_PATTERN, "")
+    .replace(BLOCKED_WORD_PATTERN, (word) => "*".repeat(word.length))
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return filtered || null;
+};
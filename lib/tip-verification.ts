@@ -0,0 +1,293 @@
+import {
+  ParsedTransactionMeta,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from "@solana/web3.js";
+import { Tip } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { getConnection } from "@/lib/server-wallet";
+import { updateTipGoalProgress } from "@/lib/tip-goal-service";
+import {
+  TokenType,
+  findToken,
+  getTokenMint,
+  toBaseUnits,
+} from "@/config/tokens";
+import { programId } from "@/config/cluster";
+
+export type TipVerificationResult =
+  | { status: "VERIFIED" }
+  | { status: "PENDING"; reason: string }
+  | { status: "FAILED"; reason: string };
+
+interface VerifyTipTransactionParams {
+  signature: string;
+  amount: number;
+  tokenType: TokenType;
+  tipperWallets: string[];
+  streamerWallets: string[];
+}
+
+// Tips land in the token account owned by the streamer's program PDA, so we
+// accept the raw wallets as well as the PDAs derived from them
+export const getRecipientOwners = (wallets: string[]): Set<string> => {
+  const owners = new Set<string>();
+
+  for (const wallet of wallets) {
+    try {
+      const walletKey = new PublicKey(wallet);
+      const [streamerStatePDA] = PublicKey.findProgramAddressSync(
+        [Buffer.from("user"), walletKey.toBuffer()],
+        programId
+      );
+      owners.add(walletKey.toBase58());
+      owners.add(streamerStatePDA.toBase58());
+    } catch {
+      // Ignore malformed wallet addresses stored on the user
+    }
+  }
+
+  return owners;
+};
+
+export const getAccountKeys = (tx: ParsedTransactionWithMeta) =>
+  tx.transaction.message.accountKeys.map((key) => ({
+    pubkey: key.pubkey.toBase58(),
+    signer: key.signer,
+  }));
+
+// Amount received by the given owners, in base units of the token
+export const getReceivedAmount = (
+  tx: ParsedTransactionWithMeta,
+  tokenType: TokenType,
+  owners: Set<string>
+): number => {
+  const meta = tx.meta!;
+  const token = findToken(tokenType);
+  if (!token) return 0;
+
+  if (token.isNative) {
+    const keys = getAccountKeys(tx);
+    return keys.reduce((total, key, index) => {
+      if (!owners.has(key.pubkey)) return total;
+      const delta = meta.postBalances[index] - meta.preBalances[index];
+      return delta > 0 ? total + delta : total;
+    }, 0);
+  }
+
+  const mint = getTokenMint(token).toBase58();
+  const pre = meta.preTokenBalances || [];
+  const post = meta.postTokenBalances || [];
+
+  return post.reduce((total, balance) => {
+    if (balance.mint !== mint || !balance.owner || !owners.has(balance.owner)) {
+      return total;
+    }
+    const before = pre.find(
+      (p) => p.accountIndex === balance.accountIndex && p.mint === mint
+    );
+    const delta =
+      Number(balance.uiTokenAmount.amount) -
+      Number(before?.uiTokenAmount.amount ?? 0);
+    return delta > 0 ? total + delta : total;
+  }, 0);
+};
+
+/**
+ * Check a fetched transaction against the tip it is claimed to pay for
+ */
+export const checkTipTransaction = (
+  tx: ParsedTransactionWithMeta & { meta: ParsedTransactionMeta },
+  {
+    amount,
+    tokenType,
+    tipperWallets,
+    streamerWallets,
+  }: Omit<VerifyTipTransactionParams, "signature">
+): TipVerificationResult => {
+  if (tx.meta.err) {
+    return { status: "FAILED", reason: "Transaction failed on-chain" };
+  }
+
+  const signers = getAccountKeys(tx)
+    .filter((key) => key.signer)
+    .map((key) => key.pubkey);
+  if (!tipperWallets.some((wallet) => signers.includes(wallet))) {
+    return { status: "FAILED", reason: "Transaction was not signed by the tipper" };
+  }
+
+  const recipients = getRecipientOwners(streamerWallets);
+  if (recipients.size === 0) {
+    return { status: "FAILED", reason: "Streamer has no wallet to receive tips" };
+  }
+
+  const token = findToken(tokenType);
+  if (!token) {
+    return { status: "FAILED", reason: `Unsupported token: ${tokenType}` };
+  }
+
+  const expected = toBaseUnits(amount, token);
+  const received = getReceivedAmount(tx, tokenType, recipients);
+
+  if (received === 0) {
+    return {
+      status: "FAILED",
+      reason: "Transaction did not transfer the tipped token to the streamer",
+    };
+  }
+
+  if (received < expected) {
+    return {
+      status: "FAILED",
+      reason: "Transferred amount is lower than the tip amount",
+    };
+  }
+
+  return { status: "VERIFIED" };
+};
+
+/**
+ * Check a Solana transaction against the tip it is claimed to pay for.
+ * Returns PENDING when the transaction cannot be found yet so the caller can retry.
+ */
+export const verifyTipTransaction = async ({
+  signature,
+  ...params
+}: VerifyTipTransactionParams): Promise<TipVerificationResult> => {
+  const connection = getConnection();
+
+  let tx: ParsedTransactionWithMeta | null;
+  try {
+    tx = await connection.getParsedTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+  } catch (error) {
+    console.error("[verifyTipTransaction] RPC error:", error);
+    return { status: "PENDING", reason: "Unable to fetch transaction" };
+  }
+
+  if (!tx || !tx.meta) {
+    return { status: "PENDING", reason: "Transaction not found yet" };
+  }
+
+  return checkTipTransaction({ ...tx, meta: tx.meta }, params);
+};
+
+/**
+ * Verify a stored tip against its transaction and persist the outcome.
+ * Only VERIFIED tips count towards stats and are broadcast to the room.
+ * Concurrent calls settle a tip once: only the call that moves it out of
+ * PENDING credits it and runs onVerified.
+ */
+export const verifyTip = async (
+  tipId: string,
+  { onVerified }: { onVerified?: () => Promise<void> } = {}
+): Promise<Pick<Tip, "status" | "verifiedAt" | "failureReason">> => {
+  const tip = await db.tip.findUnique({
+    where: { id: tipId },
+    include: {
+      tipper: { select: { solanaWallet: true, platformWallet: true } },
+      streamer: { select: { solanaWallet: true, platformWallet: true } },
+    },
+  });
+
+  if (!tip) {
+    throw new Error("Tip not found");
+  }
+
+  const current = {
+    status: tip.status,
+    verifiedAt: tip.verifiedAt,
+    failureReason: tip.failureReason,
+  };
+
+  if (tip.status !== "PENDING" || !tip.transactionHash) {
+    return current;
+  }
+
+  const compact = (values: (string | null)[]) =>
+    values.filter((value): value is string => !!value);
+
+  const result = await verifyTipTransaction({
+    signature: tip.transactionHash,
+    amount: Number(tip.amount),
+    tokenType: tip.tokenType,
+    tipperWallets: compact([
+      tip.tipper?.solanaWallet ?? null,
+      tip.tipper?.platformWallet ?? null,
+    ]),
+    streamerWallets: compact([
+      tip.streamer.platformWallet,
+      tip.streamer.solanaWallet,
+    ]),
+  });
+
+  if (result.status === "PENDING") {
+    console.log("[verifyTip] still pending:", { tipId, reason: result.reason });
+    return current;
+  }
+
+  if (result.status === "FAILED") {
+    console.warn("[verifyTip] rejected:", { tipId, reason: result.reason });
+  }
+
+  const updated = {
+    status: result.status,
+    verifiedAt: result.status === "VERIFIED" ? new Date() : null,
+    failureReason: result.status === "FAILED" ? result.reason : null,
+  };
+
+  const { count } = await db.tip.updateMany({
+    where: { id: tip.id, status: "PENDING" },
+    data: updated,
+  });
+
+  // Another call settled it first
+  if (count === 0) {
+    return db.tip.findUniqueOrThrow({
+      where: { id: tip.id },
+      select: { status: true, verifiedAt: true, failureReason: true },
+    });
+  }
+
+  if (updated.status === "VERIFIED") {
+    // Credit the broadcast the tip was sent during
+    if (tip.streamSessionId && tip.usdValue) {
+      await db.streamSession.update({
+        where: { id: tip.streamSessionId },
+        data: { tipsTotal: { increment: tip.usdValue } },
+      });
+    }
+
+    await updateTipGoalProgress(tip.streamerId);
+    await onVerified?.();
+  }
+
+  return updated;
+};
+
+/**
+ * Reject a transaction signature that already paid for a tip or a subscription
+ */
+export const assertUnusedSignature = async (signature: string) => {
+  const [tip, subscriptionPayment] = await Promise.all([
+    db.tip.findUnique({
+      where: { transactionHash: signature },
+      select: { id: true },
+    }),
+    db.subscriptionPayment.findUnique({
+      where: { transactionHash: signature },
+      select: { id: true },
+    }),
+  ]);
+
+  if (tip) {
+    throw new Error("Transaction has already been used for a tip");
+  }
+
+  if (subscriptionPayment) {
+    throw new Error("Transaction has already been used for a subscription");
+  }
+};
@@ -0,0 +1,452 @@
+import bs58 from "bs58";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  TransactionSubmission,
+  TransactionSubmissionKind,
+  TransactionSubmissionStatus,
+} from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { getConnection } from "@/lib/server-wallet";
+import { SPONSORSHIP_LIMITS } from "@/lib/sponsorship";
+import {
+  COMPUTE_UNIT_MARGIN,
+  PRIORITY_FEE_PERCENTILE,
+  SUBMISSION_POLL_INTERVAL_MS,
+  TransactionSubmissionData,
+} from "@/lib/transaction-submission";
+import { confirmWithdrawal, rejectWithdrawal } from "@/lib/withdrawal-service";
+
+// Submissions checked per cron run
+const PROCESS_BATCH_SIZE = 100;
+
+const EXPIRED_MESSAGE =
+  "Transaction expired before it landed. Please try again.";
+
+const toSubmissionData = (
+  submission: TransactionSubmission
+): TransactionSubmissionData => ({
+  signature: submission.signature,
+  kind: submission.kind,
+  status: submission.status,
+  attempts: submission.attempts,
+  error: submission.error,
+  confirmedAt: submission.confirmedAt?.toISOString() ?? null,
+  finalizedAt: submission.finalizedAt?.toISOString() ?? null,
+  createdAt: submission.createdAt.toISOString(),
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getPercentile = (values: number[], percentile: number) => {
+  if (values.length === 0) return 0;
+
+  const sorted = values.slice().sort((a, b) => a - b);
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, index)];
+};
+
+/**
+ * Size the compute budget from a simulation and bid the recent priority fee
+ * for the accounts the transaction writes to. Must run before anyone signs,
+ * as it adds instructions; the fee payer and blockhash must already be set.
+ */
+export const addComputeBudget = async (transaction: Transaction) => {
+  const connection = getConnection();
+
+  if (!transaction.feePayer || !transaction.recentBlockhash) {
+    throw new Error(
+      "Set the fee payer and blockhash before the compute budget"
+    );
+  }
+
+  const writableAccounts: PublicKey[] = [];
+  transaction.instructions.forEach((instruction) =>
+    instruction.keys.forEach(({ pubkey, isWritable }) => {
+      if (isWritable && !writableAccounts.some((key) => key.equals(pubkey))) {
+        writableAccounts.push(pubkey);
+      }
+    })
+  );
+
+  const simulation = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: transaction.feePayer,
+      recentBlockhash: transaction.recentBlockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({
+          units: SPONSORSHIP_LIMITS.MAX_COMPUTE_UNITS,
+        }),
+        ...transaction.instructions,
+      ],
+    }).compileToV0Message()
+  );
+
+  const [{ value: simulated }, recentFees] = await Promise.all([
+    connection.simulateTransaction(simulation, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    }),
+    connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    }),
+  ]);
+
+  if (simulated.err) {
+    console.error("[addComputeBudget] simulation logs:", simulated.logs);
+    throw new Error(
+      `Transaction simulation failed: ${JSON.stringify(simulated.err)}`
+    );
+  }
+
+  const units = Math.min(
+    Math.ceil((simulated.unitsConsumed ?? 0) * COMPUTE_UNIT_MARGIN),
+    SPONSORSHIP_LIMITS.MAX_COMPUTE_UNITS
+  );
+  const microLamports = Math.min(
+    getPercentile(
+      recentFees.map((fee) => fee.prioritizationFee),
+      PRIORITY_FEE_PERCENTILE
+    ),
+    SPONSORSHIP_LIMITS.MAX_COMPUTE_UNIT_PRICE
+  );
+
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units })];
+  if (microLamports > 0) {
+    budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+
+  transaction.instructions = [...budget, ...transaction.instructions];
+};
+
+/**
+ * Run whatever a landed or failed transaction settles. Errors are logged
+ * rather than thrown so the submission's own status is never lost.
+ */
+const onSubmissionSettled = async (submission: TransactionSubmission) => {
+  const landed = submission.status !== "FAILED";
+
+  try {
+    switch (submission.kind) {
+      case "WITHDRAWAL":
+        if (!submission.referenceId) return;
+        if (landed) {
+          await confirmWithdrawal(submission.referenceId);
+        } else {
+          await rejectWithdrawal(
+            submission.referenceId,
+            submission.error ?? "Transaction failed"
+          );
+        }
+        return;
+
+      // The reference is the transaction's own signer, checked when it was
+      // submitted (see broadcastPlatformWalletTransaction)
+      case "PLATFORM_WALLET":
+        if (!landed || !submission.userId || !submission.referenceId) return;
+        await db.user.update({
+          where: { id: submission.userId },
+          data: {
+            platformWallet: submission.referenceId,
+            isSolanaPlatformWallet: true,
+          },
+        });
+        return;
+
+      default:
+        return;
+    }
+  } catch (error) {
+    console.error("[onSubmissionSettled] error:", error);
+  }
+};
+
+const updateStatus = async (
+  submission: TransactionSubmission,
+  status: TransactionSubmissionStatus,
+  error?: string
+) => {
+  const now = new Date();
+  const landed = status === "CONFIRMED" || status === "FINALIZED";
+
+  const updated = await db.transactionSubmission.update({
+    where: { id: submission.id },
+    data: {
+      status,
+      error: error ?? (landed ? null : submission.error),
+      confirmedAt: landed ? (submission.confirmedAt ?? now) : undefined,
+      finalizedAt: status === "FINALIZED" ? now : undefined,
+    },
+  });
+
+  if (submission.status === "PENDING") {
+    await onSubmissionSettled(updated);
+  }
+
+  return updated;
+};
+
+const sendRaw = (submission: TransactionSubmission, skipPreflight: boolean) =>
+  getConnection().sendRawTransaction(
+    Buffer.from(submission.serializedTransaction, "base64"),
+    { skipPreflight, preflightCommitment: "confirmed", maxRetries: 0 }
+  );
+
+/**
+ * Check a submission against the chain: settle it once it lands, fails or
+ * its blockhash expires, and resend it otherwise
+ */
+const refreshSubmission = async (
+  submission: TransactionSubmission
+): Promise<TransactionSubmission> => {
+  const connection = getConnection();
+
+  const getStatus = async () => {
+    const { value } = await connection.getSignatureStatuses(
+      [submission.signature],
+      { searchTransactionHistory: true }
+    );
+    return value[0];
+  };
+
+  let status = await getStatus();
+
+  if (!status && submission.status === "PENDING") {
+    const { value: isBlockhashValid } = await connection.isBlockhashValid(
+      submission.blockhash,
+      { commitment: "processed" }
+    );
+
+    if (!isBlockhashValid) {
+      // It may have landed just before the blockhash ran out
+      status = await getStatus();
+      if (!status) {
+        return updateStatus(submission, "FAILED", EXPIRED_MESSAGE);
+      }
+    } else {
+      const lastSentAt = submission.lastSentAt?.getTime() ?? 0;
+      if (Date.now() - lastSentAt < SUBMISSION_POLL_INTERVAL_MS) {
+        return submission;
+      }
+
+      try {
+        await sendRaw(submission, true);
+      } catch (error) {
+        console.error("[refreshSubmission] rebroadcast error:", error);
+      }
+
+      return db.transactionSubmission.update({
+        where: { id: submission.id },
+        data: { attempts: { increment: 1 }, lastSentAt: new Date() },
+      });
+    }
+  }
+
+  if (!status) return submission;
+
+  if (status.err) {
+    return updateStatus(
+      submission,
+      "FAILED",
+      `Transaction failed: ${JSON.stringify(status.err)}`
+    );
+  }
+
+  if (status.confirmationStatus === "finalized") {
+    return updateStatus(submission, "FINALIZED");
+  }
+
+  if (
+    status.confirmationStatus === "confirmed" &&
+    submission.status === "PENDING"
+  ) {
+    return updateStatus(submission, "CONFIRMED");
+  }
+
+  return submission;
+};
+
+const createSubmission = async (
+  transaction: Transaction | VersionedTransaction,
+  {
+    kind,
+    userId,
+    referenceId,
+  }: {
+    kind: TransactionSubmissionKind;
+    userId?: string;
+    referenceId?: string;
+  }
+) => {
+  const rawSignature =
+    transaction instanceof Transaction
+      ? transaction.signature
+      : transaction.signatures[0];
+  const blockhash =
+    transaction instanceof Transaction
+      ? transaction.recentBlockhash
+      : transaction.message.recentBlockhash;
+
+  if (!rawSignature || !blockhash) {
+    throw new Error("Transaction is not signed");
+  }
+
+  const signature = bs58.encode(rawSignature);
+
+  // Resubmitting the same transaction just reports on the first attempt
+  const existing = await db.transactionSubmission.findUnique({
+    where: { signature },
+  });
+  if (existing) {
+    if (existing.userId !== (userId ?? null)) {
+      throw new Error("Transaction was submitted by another user");
+    }
+
+    return existing.status === "PENDING"
+      ? refreshSubmission(existing)
+      : existing;
+  }
+
+  const submission = await db.transactionSubmission.create({
+    data: {
+      signature,
+      serializedTransaction: Buffer.from(transaction.serialize()).toString(
+        "base64"
+      ),
+      blockhash,
+      kind,
+      userId,
+      referenceId,
+    },
+  });
+
+  try {
+    await sendRaw(submission, false);
+  } catch (error: any) {
+    // A rejected preflight is final; anything else (e.g. the RPC timing out)
+    // leaves it to the rebroadcasts
+    if (error instanceof SendTransactionError) {
+      const failed = await updateStatus(
+        submission,
+        "FAILED",
+        error.message || "Transaction was rejected"
+      );
+      throw new Error(failed.error ?? "Transaction was rejected");
+    }
+
+    console.error("[createSubmission] send error:", error);
+  }
+
+  return db.transactionSubmission.update({
+    where: { id: submission.id },
+    data: { attempts: 1, lastSentAt: new Date() },
+  });
+};
+
+/**
+ * Persist a fully signed transaction and send it. Returns straight away;
+ * poll getTransactionSubmission or let the cron settle it.
+ */
+export const submitTransaction = async (
+  transaction: Transaction | VersionedTransaction,
+  options: {
+    kind: TransactionSubmissionKind;
+    userId?: string;
+    referenceId?: string;
+  }
+) => {
+  const submission = await createSubmission(transaction, options);
+
+  return toSubmissionData(submission);
+};
+
+/**
+ * Submit a transaction and wait for it to land, for server flows that need
+ * the result before going on. Throws if it fails or expires.
+ */
+export const submitAndConfirm = async (
+  transaction: Transaction | VersionedTransaction,
+  options: {
+    kind: TransactionSubmissionKind;
+    userId?: string;
+    referenceId?: string;
+  }
+) => {
+  let submission = await createSubmission(transaction, options);
+
+  while (submission.status === "PENDING") {
+    await sleep(SUBMISSION_POLL_INTERVAL_MS);
+    submission = await refreshSubmission(submission);
+  }
+
+  if (submission.status === "FAILED") {
+    throw new Error(submission.error ?? "Transaction failed");
+  }
+
+  return submission.signature;
+};
+
+/**
+ * A submission's latest status, checked against the chain while it's
+ * still settling. Users only see their own submissions.
+ */
+export const getTransactionSubmission = async (
+  signature: string,
+  userId: string
+) => {
+  const submission = await db.transactionSubmission.findUnique({
+    where: { signature },
+  });
+
+  if (!submission || submission.userId !== userId) {
+    throw new Error("Transaction not found");
+  }
+
+  if (submission.status === "FAILED" || submission.status === "FINALIZED") {
+    return toSubmissionData(submission);
+  }
+
+  try {
+    return toSubmissionData(await refreshSubmission(submission));
+  } catch (error) {
+    console.error("[getTransactionSubmission] refresh error:", error);
+    return toSubmissionData(submission);
+  }
+};
+
+/**
+ * Resend pending transactions and settle everything not yet finalized
+ */
+export const processPendingSubmissions = async () => {
+  const submissions = await db.transactionSubmission.findMany({
+    where: { status: { in: ["PENDING", "CONFIRMED"] } },
+    orderBy: { createdAt: "asc" },
+    take: PROCESS_BATCH_SIZE,
+  });
+
+  const result = { checked: 0, confirmed: 0, finalized: 0, failed: 0 };
+
+  for (const submission of submissions) {
+    try {
+      const refreshed = await refreshSubmission(submission);
+      result.checked += 1;
+
+      if (refreshed.status !== submission.status) {
+        if (refreshed.status === "CONFIRMED") result.confirmed += 1;
+        if (refreshed.status === "FINALIZED") result.finalized += 1;
+        if (refreshed.status === "FAILED") result.failed += 1;
+      }
+    } catch (error) {
+      console.error("[processPendingSubmissions] error:", error);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,66 @@
+export type TransactionSubmissionStatus =
+  | "PENDING"
+  | "CONFIRMED"
+  | "FINALIZED"
+  | "FAILED";
+
+export type TransactionSubmissionKind =
+  | "PLATFORM_WALLET"
+  | "STREAMER_PROFILE"
+  | "WITHDRAWAL"
+  | "SUBSCRIPTION_ALLOWANCE"
+  | "SUBSCRIPTION_CHARGE"
+  | "BROADCAST";
+
+export interface TransactionSubmissionData {
+  signature: string;
+  kind: TransactionSubmissionKind;
+  status: TransactionSubmissionStatus;
+  attempts: number;
+  error: string | null;
+  confirmedAt: string | null;
+  finalizedAt: string | null;
+  createdAt: string;
+}
+
+// How often a pending transaction is checked, and resent if it hasn't landed
+export const SUBMISSION_POLL_INTERVAL_MS = 2000;
+
+// Recent priority fees are sampled at this percentile
+export const PRIORITY_FEE_PERCENTILE = 75;
+
+// Headroom over the compute units a simulation used
+export const COMPUTE_UNIT_MARGIN = 1.2;
+
+export const isSubmissionSettled = (status: TransactionSubmissionStatus) =>
+  status !== "PENDING";
+
+/**
+ * Poll a submitted transaction until it lands, throwing the reason if it
+ * fails or expires
+ */
+export const waitForTransaction = async (
+  signature: string
+): Promise<TransactionSubmissionData> => {
+  for (;;) {
+    const response = await fetch(`/api/wallet/transactions/${signature}`);
+    if (!response.ok) {
+      throw new Error("Failed to fetch transaction status");
+    }
+
+    const { transaction }: { transaction: TransactionSubmissionData } =
+      await response.json();
+
+    if (transaction.status === "FAILED") {
+      throw new Error(transaction.error || "Transaction failed");
+    }
+
+    if (isSubmissionSettled(transaction.status)) {
+      return transaction;
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, SUBMISSION_POLL_INTERVAL_MS)
+    );
+  }
+};
@@ -0,0 +1,380 @@
+import dayjs from "dayjs";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Prisma, TreasuryAlert, TreasuryAlertLevel } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { getConnection, getServerWalletPublicKey } from "@/lib/server-wallet";
+import { startOfUtcDay } from "@/lib/platform-analytics";
+import {
+  DEFAULT_TREASURY_THRESHOLDS,
+  TREASURY_HISTORY_DAYS,
+  TREASURY_PAUSED_MESSAGE,
+  TREASURY_RUNWAY_WINDOW_DAYS,
+  TreasuryAlertData,
+  TreasuryOperationSpend,
+  TreasuryOverview,
+  TreasuryThresholds,
+} from "@/lib/treasury";
+
+// Sponsorship checks reuse a balance this fresh instead of asking the RPC
+// before every transaction
+const BALANCE_CACHE_MS = 60 * 1000;
+
+// Alerts listed on the admin page
+const ALERT_HISTORY_SIZE = 20;
+
+let cachedBalance: { lamports: number; checkedAt: number } | null = null;
+
+const toSol = (lamports: number | bigint) =>
+  Number(lamports) / LAMPORTS_PER_SOL;
+
+const parseNumber = (value: string | undefined, fallback: number) => {
+  const parsed = parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const toAlertData = (alert: TreasuryAlert): TreasuryAlertData => ({
+  id: alert.id,
+  level: alert.level,
+  message: alert.message,
+  balance: toSol(alert.balanceLamports),
+  runwayDays: alert.runwayDays,
+  resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+  createdAt: alert.createdAt.toISOString(),
+});
+
+export const getTreasuryThresholds = (): TreasuryThresholds => ({
+  warningSol: parseNumber(
+    process.env.TREASURY_WARNING_SOL,
+    DEFAULT_TREASURY_THRESHOLDS.WARNING_SOL
+  ),
+  criticalSol: parseNumber(
+    process.env.TREASURY_CRITICAL_SOL,
+    DEFAULT_TREASURY_THRESHOLDS.CRITICAL_SOL
+  ),
+  pauseSol: process.env.TREASURY_PAUSE_SOL
+    ? parseNumber(process.env.TREASURY_PAUSE_SOL, 0)
+    : null,
+  minRunwayDays: parseNumber(
+    process.env.TREASURY_MIN_RUNWAY_DAYS,
+    DEFAULT_TREASURY_THRESHOLDS.MIN_RUNWAY_DAYS
+  ),
+});
+
+const getBalanceLamports = async (maxAgeMs = 0) => {
+  if (cachedBalance && Date.now() - cachedBalance.checkedAt < maxAgeMs) {
+    return cachedBalance.lamports;
+  }
+
+  const lamports = await getConnection().getBalance(getServerWalletPublicKey());
+  cachedBalance = { lamports, checkedAt: Date.now() };
+  return lamports;
+};
+
+/**
+ * What sponsored transactions cost over a period. Reconciled ones count what
+ * the wallet actually lost; the rest count their estimated fee.
+ */
+const getSpentLamports = async (
+  where: Prisma.SponsoredTransactionWhereInput
+) => {
+  const [reconciled, estimated] = await Promise.all([
+    db.sponsoredTransaction.aggregate({
+      where: { ...where, lamportsSpent: { not: null } },
+      _sum: { lamportsSpent: true },
+    }),
+    db.sponsoredTransaction.aggregate({
+      where: { ...where, lamportsSpent: null, status: { not: "EXPIRED" } },
+      _sum: { estimatedFee: true },
+    }),
+  ]);
+
+  return (
+    (reconciled._sum.lamportsSpent ?? 0) + (estimated._sum.estimatedFee ?? 0)
+  );
+};
+
+const getSpendByOperation = async (
+  since: Date
+): Promise<TreasuryOperationSpend[]> => {
+  const [reconciled, estimated] = await Promise.all([
+    db.sponsoredTransaction.groupBy({
+      by: ["operation"],
+      where: { createdAt: { gte: since }, lamportsSpent: { not: null } },
+      _count: true,
+      _sum: { lamportsSpent: true },
+    }),
+    db.sponsoredTransaction.groupBy({
+      by: ["operation"],
+      where: {
+        createdAt: { gte: since },
+        lamportsSpent: null,
+        status: { not: "EXPIRED" },
+      },
+      _count: true,
+      _sum: { estimatedFee: true },
+    }),
+  ]);
+
+  const spend: TreasuryOperationSpend[] = [];
+  const add = (
+    operation: TreasuryOperationSpend["operation"],
+    count: number,
+    lamports: number
+  ) => {
+    const existing = spend.find((row) => row.operation === operation);
+    if (existing) {
+      existing.count += count;
+      existing.spent += toSol(lamports);
+    } else {
+      spend.push({ operation, count, spent: toSol(lamports) });
+    }
+  };
+
+  reconciled.forEach((row) =>
+    add(row.operation, row._count, row._sum.lamportsSpent ?? 0)
+  );
+  estimated.forEach((row) =>
+    add(row.operation, row._count, row._sum.estimatedFee ?? 0)
+  );
+
+  return spend.sort((a, b) => b.spent - a.spent);
+};
+
+/**
+ * Average daily spend over the runway window, and how long the balance lasts
+ * at that rate
+ */
+const getRunway = async (balanceLamports: number) => {
+  const spent = await getSpentLamports({
+    createdAt: {
+      gte: dayjs().subtract(TREASURY_RUNWAY_WINDOW_DAYS, "day").toDate(),
+    },
+  });
+  const dailySpend = spent / TREASURY_RUNWAY_WINDOW_DAYS;
+
+  return {
+    dailySpend,
+    runwayDays: dailySpend > 0 ? balanceLamports / dailySpend : null,
+  };
+};
+
+const getAlertLevel = (
+  balance: number,
+  runwayDays: number | null,
+  thresholds: TreasuryThresholds
+): TreasuryAlertLevel | null => {
+  if (thresholds.pauseSol !== null && balance < thresholds.pauseSol) {
+    return "PAUSED";
+  }
+
+  if (balance < thresholds.criticalSol) return "CRITICAL";
+
+  if (
+    balance < thresholds.warningSol ||
+    (runwayDays !== null && runwayDays < thresholds.minRunwayDays)
+  ) {
+    return "WARNING";
+  }
+
+  return null;
+};
+
+const describeBalance = (balance: number, runwayDays: number | null) =>
+  `Server wallet ${getServerWalletPublicKey().toBase58()} holds ${balance.toFixed(3)} SOL` +
+  (runwayDays === null
+    ? "."
+    : `, about ${runwayDays.toFixed(1)} days at the current rate of spend.`);
+
+const alertMessages: Record<TreasuryAlertLevel, string> = {
+  WARNING: "Server wallet is running low",
+  CRITICAL: "Server wallet is almost empty",
+  PAUSED: "Sponsored transactions are paused",
+};
+
+/**
+ * Send an alert to the configured webhook (Slack-style `text` payload) and
+ * email (via Resend). Delivery failures are logged, never thrown.
+ */
+const sendTreasuryAlert = async (subject: string, text: string) => {
+  const deliveries: Promise<Response>[] = [];
+
+  const webhookUrl = process.env.TREASURY_ALERT_WEBHOOK_URL;
+  if (webhookUrl) {
+    deliveries.push(
+      fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: `${subject}\n${text}` }),
+      })
+    );
+  }
+
+  const emailTo = process.env.TREASURY_ALERT_EMAIL;
+  const emailFrom = process.env.TREASURY_ALERT_EMAIL_FROM;
+  if (emailTo && emailFrom && process.env.RESEND_API_KEY) {
+    deliveries.push(
+      fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: emailFrom,
+          to: emailTo.split(",").map((address) => address.trim()),
+          subject,
+          text,
+        }),
+      })
+    );
+  }
+
+  const results = await Promise.allSettled(deliveries);
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      console.error("[sendTreasuryAlert] error:", result.reason);
+    } else if (!result.value.ok) {
+      console.error("[sendTreasuryAlert] error:", result.value.status);
+    }
+  });
+};
+
+/**
+ * Record today's balance and spend, then raise, escalate or resolve the
+ * low-balance alert. Each change of level is sent once.
+ */
+export const runTreasuryCheck = async () => {
+  const thresholds = getTreasuryThresholds();
+  const balanceLamports = await getBalanceLamports();
+  const today = startOfUtcDay(new Date());
+
+  const [spentToday, { runwayDays }] = await Promise.all([
+    getSpentLamports({ createdAt: { gte: today } }),
+    getRunway(balanceLamports),
+  ]);
+
+  await db.treasurySnapshot.upsert({
+    where: { snapshotDate: today },
+    create: {
+      snapshotDate: today,
+      balanceLamports: BigInt(balanceLamports),
+      spentLamports: BigInt(spentToday),
+    },
+    update: {
+      balanceLamports: BigInt(balanceLamports),
+      spentLamports: BigInt(spentToday),
+    },
+  });
+
+  const balance = toSol(balanceLamports);
+  const level = getAlertLevel(balance, runwayDays, thresholds);
+  const openAlert = await db.treasuryAlert.findFirst({
+    where: { resolvedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const result = { balance, runwayDays, level };
+  if ((openAlert?.level ?? null) === level) return result;
+
+  if (openAlert) {
+    await db.treasuryAlert.updateMany({
+      where: { resolvedAt: null },
+      data: { resolvedAt: new Date() },
+    });
+  }
+
+  const message = describeBalance(balance, runwayDays);
+
+  if (level) {
+    await db.treasuryAlert.create({
+      data: {
+        level,
+        message,
+        balanceLamports: BigInt(balanceLamports),
+        runwayDays,
+      },
+    });
+    await sendTreasuryAlert(alertMessages[level], message);
+  } else {
+    await sendTreasuryAlert("Server wallet is funded again", message);
+  }
+
+  return result;
+};
+
+/**
+ * Whether sponsored transactions are paused for a low balance. An RPC error
+ * doesn't pause anything; the transaction itself will fail if funds are out.
+ */
+export const isSponsorshipPaused = async () => {
+  const { pauseSol } = getTreasuryThresholds();
+  if (pauseSol === null) return false;
+
+  try {
+    return toSol(await getBalanceLamports(BALANCE_CACHE_MS)) < pauseSol;
+  } catch (error) {
+    console.error("[isSponsorshipPaused] error:", error);
+    return false;
+  }
+};
+
+export const assertSponsorshipAvailable = async () => {
+  if (await isSponsorshipPaused()) {
+    throw new Error(TREASURY_PAUSED_MESSAGE);
+  }
+};
+
+/**
+ * Everything the admin treasury page shows. Falls back to the last snapshot
+ * if the live balance can't be read.
+ */
+export const getTreasuryOverview = async (): Promise<TreasuryOverview> => {
+  const since = startOfUtcDay(
+    dayjs()
+      .subtract(TREASURY_HISTORY_DAYS - 1, "day")
+      .toDate()
+  );
+
+  const [snapshots, spendByOperation, alerts] = await Promise.all([
+    db.treasurySnapshot.findMany({
+      where: { snapshotDate: { gte: since } },
+      orderBy: { snapshotDate: "asc" },
+    }),
+    getSpendByOperation(since),
+    db.treasuryAlert.findMany({
+      orderBy: { createdAt: "desc" },
+      take: ALERT_HISTORY_SIZE,
+    }),
+  ]);
+
+  let balanceLamports: number;
+  try {
+    balanceLamports = await getBalanceLamports();
+  } catch (error) {
+    console.error("[getTreasuryOverview] balance error:", error);
+    balanceLamports = Number(
+      snapshots[snapshots.length - 1]?.balanceLamports ?? 0
+    );
+  }
+
+  const thresholds = getTreasuryThresholds();
+  const { dailySpend, runwayDays } = await getRunway(balanceLamports);
+  const balance = toSol(balanceLamports);
+
+  return {
+    address: getServerWalletPublicKey().toBase58(),
+    balance,
+    dailySpend: toSol(dailySpend),
+    runwayDays,
+    isPaused: thresholds.pauseSol !== null && balance < thresholds.pauseSol,
+    thresholds,
+    history: snapshots.map((snapshot) => ({
+      date: snapshot.snapshotDate.toISOString().slice(0, 10),
+      balance: toSol(snapshot.balanceLamports),
+      spent: toSol(snapshot.spentLamports),
+    })),
+    spendByOperation,
+    alerts: alerts.map(toAlertData),
+  };
+};
@@ -0,0 +1,62 @@
+import type { TransactionSubmissionKind } from "@/lib/transaction-submission";
+
+export type TreasuryAlertLevel = "WARNING" | "CRITICAL" | "PAUSED";
+
+// Shown instead of a generic failure while sponsored transactions are paused
+export const TREASURY_PAUSED_MESSAGE =
+  "Platform-paid transactions are paused for maintenance. Please try again later.";
+
+// Days of balance history on the admin page
+export const TREASURY_HISTORY_DAYS = 30;
+
+// Spend is averaged over this many days to project runway
+export const TREASURY_RUNWAY_WINDOW_DAYS = 7;
+
+// Thresholds in SOL; each can be overridden with the env var named after it
+export const DEFAULT_TREASURY_THRESHOLDS = {
+  WARNING_SOL: 5, // TREASURY_WARNING_SOL
+  CRITICAL_SOL: 1, // TREASURY_CRITICAL_SOL
+  MIN_RUNWAY_DAYS: 14, // TREASURY_MIN_RUNWAY_DAYS
+} as const;
+
+export interface TreasuryThresholds {
+  warningSol: number;
+  criticalSol: number;
+  // Sponsored transactions stop below this; null never pauses
+  pauseSol: number | null;
+  minRunwayDays: number;
+}
+
+export interface TreasuryHistoryPoint {
+  date: string;
+  balance: number; // SOL
+  spent: number; // SOL
+}
+
+export interface TreasuryOperationSpend {
+  operation: TransactionSubmissionKind;
+  count: number;
+  spent: number; // SOL
+}
+
+export interface TreasuryAlertData {
+  id: string;
+  level: TreasuryAlertLevel;
+  message: string;
+  balance: number; // SOL
+  runwayDays: number | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export interface TreasuryOverview {
+  address: string;
+  balance: number; // SOL
+  dailySpend: number; // SOL, averaged over the runway window
+  runwayDays: number | null; // null while nothing is being spent
+  isPaused: boolean;
+  thresholds: TreasuryThresholds;
+  history: TreasuryHistoryPoint[];
+  spendByOperation: TreasuryOperationSpend[];
+  alerts: TreasuryAlertData[];
+}
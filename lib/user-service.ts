@@ -32,6 +32,18 @@ export const getUserByUsername = async (username: string) => {
             isChatDelayed: true,
             isChatEnabled: true,
             isChatFollowersOnly: true,
+            isChatTippersOnly: true,
+            isChatSubscribersOnly: true,
+            isTipTtsEnabled: true,
+            largeTipThreshold: true,
+            megaTipThreshold: true,
+            tipAlertDurationSeconds: true,
+            giftAlertDurationSeconds: true,
+            tipAlertQueueSize: true,
+            excludedAlertGiftTypes: true,
+            chatSlowModeSeconds: true,
+            subCategoryId: true,
+            tags: true,
             thumbnailUrl: true,
             name: true,
           },
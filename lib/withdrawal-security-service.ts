@@ -0,0 +1,457 @@
+import dayjs from "dayjs";
+import { headers } from "next/headers";
+import {
+  PayoutAddress,
+  WithdrawalAuditEvent,
+  WithdrawalAuditEventType,
+} from "@prisma/client";
+import { PublicKey } from "@solana/web3.js";
+
+import { db } from "@/lib/db";
+import { getSignedInAt } from "@/lib/auth-service";
+import {
+  PAYOUT_ADDRESS_COOLING_OFF_HOURS,
+  PayoutAddressData,
+  REAUTH_REQUIRED_MESSAGE,
+  SUSPICIOUS_WITHDRAWALS,
+  WITHDRAWAL_LIMITS,
+  WITHDRAWAL_REAUTH_MINUTES,
+  WithdrawalAuditEventData,
+  WithdrawalUsage,
+  getWithdrawalLimitReason,
+} from "@/lib/withdrawal";
+import { programId } from "@/config/cluster";
+
+const toPayoutAddressData = (
+  payoutAddress: PayoutAddress,
+  now = new Date()
+): PayoutAddressData => ({
+  id: payoutAddress.id,
+  address: payoutAddress.address,
+  label: payoutAddress.label,
+  activatesAt: payoutAddress.activatesAt.toISOString(),
+  isActive: payoutAddress.activatesAt <= now,
+  createdAt: payoutAddress.createdAt.toISOString(),
+});
+
+const toAuditEventData = (
+  event: WithdrawalAuditEvent
+): WithdrawalAuditEventData => ({
+  id: event.id,
+  type: event.type,
+  detail: event.detail,
+  address: event.address,
+  amount: event.amount === null ? null : Number(event.amount),
+  ipAddress: event.ipAddress,
+  createdAt: event.createdAt.toISOString(),
+});
+
+const notifySecurity = (userId: string, title: string, body: string) =>
+  db.notification.create({
+    data: { type: "SECURITY", title, body, userId },
+  });
+
+/**
+ * The caller's IP for the audit log, from inside a route handler or action
+ */
+export const getClientIp = () =>
+  headers().get("x-forwarded-for")?.split(",")[0].trim() || null;
+
+export const recordWithdrawalAuditEvent = async (data: {
+  userId: string;
+  type: WithdrawalAuditEventType;
+  detail?: string;
+  address?: string;
+  amount?: number;
+  withdrawalId?: string;
+  ipAddress?: string | null;
+}) => {
+  await db.withdrawalAuditEvent.create({ data });
+};
+
+/**
+ * A streamer's payout security log, newest first
+ */
+export const getWithdrawalAuditEvents = async (userId: string, limit = 50) => {
+  const events = await db.withdrawalAuditEvent.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  return events.map(toAuditEventData);
+};
+
+/**
+ * Whether the current session signed in recently enough for payouts
+ */
+const hasRecentSignIn = async () => {
+  const signedInAt = await getSignedInAt();
+
+  return (
+    !!signedInAt &&
+    dayjs().diff(signedInAt, "minute") < WITHDRAWAL_REAUTH_MINUTES
+  );
+};
+
+export const getPayoutAddresses = async (userId: string) => {
+  const payoutAddresses = await db.payoutAddress.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const now = new Date();
+  return payoutAddresses.map((payoutAddress) =>
+    toPayoutAddressData(payoutAddress, now)
+  );
+};
+
+/**
+ * Save a payout address. It only becomes usable after the cooling-off
+ * period, and the streamer is told in case someone else added it.
+ */
+export const addPayoutAddress = async ({
+  userId,
+  address,
+  label,
+  ipAddress,
+}: {
+  userId: string;
+  address: string;
+  label?: string;
+  ipAddress?: string | null;
+}) => {
+  try {
+    new PublicKey(address);
+  } catch {
+    throw new Error("Invalid Solana address");
+  }
+
+  if (!(await hasRecentSignIn())) {
+    throw new Error(REAUTH_REQUIRED_MESSAGE);
+  }
+
+  const [count, existing] = await Promise.all([
+    db.payoutAddress.count({ where: { userId } }),
+    db.payoutAddress.findUnique({
+      where: { userId_address: { userId, address } },
+    }),
+  ]);
+
+  if (existing) {
+    throw new Error("This address is already saved");
+  }
+
+  if (count >= WITHDRAWAL_LIMITS.MAX_PAYOUT_ADDRESSES) {
+    throw new Error(
+      `You can save up to ${WITHDRAWAL_LIMITS.MAX_PAYOUT_ADDRESSES} payout addresses`
+    );
+  }
+
+  const payoutAddress = await db.payoutAddress.create({
+    data: {
+      userId,
+      address,
+      label: label || null,
+      activatesAt: dayjs().add(PAYOUT_ADDRESS_COOLING_OFF_HOURS, "hour").toDate(),
+    },
+  });
+
+  await Promise.all([
+    recordWithdrawalAuditEvent({
+      userId,
+      type: "ADDRESS_ADDED",
+      address,
+      detail: label || undefined,
+      ipAddress,
+    }),
+    notifySecurity(
+      userId,
+      "New payout address added",
+      `${address} can receive withdrawals in ${PAYOUT_ADDRESS_COOLING_OFF_HOURS} hours. If this wasn't you, remove it from your dashboard.`
+    ),
+  ]);
+
+  return toPayoutAddressData(payoutAddress);
+};
+
+export const removePayoutAddress = async ({
+  userId,
+  payoutAddressId,
+  ipAddress,
+}: {
+  userId: string;
+  payoutAddressId: string;
+  ipAddress?: string | null;
+}) => {
+  const payoutAddress = await db.payoutAddress.findFirst({
+    where: { id: payoutAddressId, userId },
+  });
+
+  if (!payoutAddress) {
+    throw new Error("Payout address not found");
+  }
+
+  await db.payoutAddress.delete({ where: { id: payoutAddress.id } });
+
+  await recordWithdrawalAuditEvent({
+    userId,
+    type: "ADDRESS_REMOVED",
+    address: payoutAddress.address,
+    ipAddress,
+  });
+};
+
+/**
+ * USD value paid out, or on its way, in the rolling daily and weekly windows.
+ * Withdrawals from before the token registry have no USD value and were USDC.
+ */
+export const getWithdrawalUsage = async (
+  userId: string
+): Promise<WithdrawalUsage> => {
+  const sumSince = async (since: Date) => {
+    const where = {
+      userId,
+      status: { in: ["PENDING" as const, "CONFIRMED" as const] },
+      createdAt: { gte: since },
+    };
+
+    const [valued, legacy] = await Promise.all([
+      db.withdrawal.aggregate({
+        where: { ...where, usdValue: { not: null } },
+        _sum: { usdValue: true },
+      }),
+      db.withdrawal.aggregate({
+        where: { ...where, usdValue: null },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return Number(valued._sum.usdValue ?? 0) + Number(legacy._sum.amount ?? 0);
+  };
+
+  const [daily, weekly] = await Promise.all([
+    sumSince(dayjs().subtract(1, "day").toDate()),
+    sumSince(dayjs().subtract(7, "day").toDate()),
+  ]);
+
+  return { daily, weekly };
+};
+
+/**
+ * The reason the daily or weekly limit stops a transfer, or null
+ */
+const getLimitReason = async (userId: string, usdValue: number) =>
+  getWithdrawalLimitReason(await getWithdrawalUsage(userId), usdValue);
+
+/**
+ * The reason a payout can't go ahead, or null if it can
+ */
+const getBlockReason = async (
+  userId: string,
+  usdValue: number,
+  destinationAddress: string
+) => {
+  if (!(await hasRecentSignIn())) {
+    return REAUTH_REQUIRED_MESSAGE;
+  }
+
+  const payoutAddress = await db.payoutAddress.findUnique({
+    where: { userId_address: { userId, address: destinationAddress } },
+  });
+
+  if (!payoutAddress) {
+    return "Add this address to your payout addresses first";
+  }
+
+  if (payoutAddress.activatesAt > new Date()) {
+    return `This address can receive withdrawals from ${dayjs(payoutAddress.activatesAt).format("MMM D, HH:mm")}`;
+  }
+
+  return getLimitReason(userId, usdValue);
+};
+
+/**
+ * Block bursts of payouts, and tell the streamer the first time it happens
+ * in a window
+ */
+const checkSuspiciousWithdrawals = async (
+  userId: string,
+  ipAddress?: string | null
+) => {
+  const since = dayjs()
+    .subtract(SUSPICIOUS_WITHDRAWALS.WINDOW_MINUTES, "minute")
+    .toDate();
+
+  const recent = await db.withdrawal.count({
+    where: { userId, createdAt: { gte: since } },
+  });
+
+  if (recent < SUSPICIOUS_WITHDRAWALS.COUNT) return null;
+
+  const alreadyFlagged = await db.withdrawalAuditEvent.findFirst({
+    where: { userId, type: "SUSPICIOUS_ACTIVITY", createdAt: { gte: since } },
+  });
+
+  if (!alreadyFlagged) {
+    const detail = `${recent} withdrawals in ${SUSPICIOUS_WITHDRAWALS.WINDOW_MINUTES} minutes`;
+
+    await Promise.all([
+      recordWithdrawalAuditEvent({
+        userId,
+        type: "SUSPICIOUS_ACTIVITY",
+        detail,
+        ipAddress,
+      }),
+      notifySecurity(
+        userId,
+        "Withdrawals paused",
+        `We paused withdrawals after ${detail}. If this wasn't you, remove any payout addresses you don't recognize.`
+      ),
+    ]);
+  }
+
+  return `Too many withdrawals in a short time. Try again in ${SUSPICIOUS_WITHDRAWALS.WINDOW_MINUTES} minutes.`;
+};
+
+/**
+ * Run every safety check for a payout from the platform wallet and log the
+ * attempt, throwing the reason if it's blocked
+ */
+export const assertWithdrawalAllowed = async ({
+  userId,
+  amount,
+  usdValue,
+  destinationAddress,
+  ipAddress,
+}: {
+  userId: string;
+  amount: number;
+  // Limits are counted in USD
+  usdValue: number;
+  destinationAddress: string;
+  ipAddress?: string | null;
+}) => {
+  const audit = { userId, amount, address: destinationAddress, ipAddress };
+
+  const reason =
+    (await checkSuspiciousWithdrawals(userId, ipAddress)) ??
+    (await getBlockReason(userId, usdValue, destinationAddress));
+
+  if (reason) {
+    await recordWithdrawalAuditEvent({
+      ...audit,
+      type: "WITHDRAWAL_BLOCKED",
+      detail: reason,
+    });
+    throw new Error(reason);
+  }
+
+  await recordWithdrawalAuditEvent({ ...audit, type: "WITHDRAWAL_REQUESTED" });
+};
+
+/**
+ * Small payments go through on any session; past the daily allowance they
+ * need a recent sign-in like payouts do
+ */
+const getPaymentReauthReason = async (userId: string, usdValue: number) => {
+  if (await hasRecentSignIn()) return null;
+
+  const paid = await db.withdrawal.aggregate({
+    where: {
+      userId,
+      recipientId: { not: null },
+      status: { in: ["PENDING", "CONFIRMED"] },
+      createdAt: { gte: dayjs().subtract(1, "day").toDate() },
+    },
+    _sum: { usdValue: true },
+  });
+
+  return Number(paid._sum.usdValue ?? 0) + usdValue >
+    WITHDRAWAL_LIMITS.PAYMENTS_WITHOUT_REAUTH
+    ? REAUTH_REQUIRED_MESSAGE
+    : null;
+};
+
+/**
+ * Tips and subscriptions paid from the platform wallet may only go to the
+ * recipient streamer's program wallet. Tips derive it from whichever wallet
+ * the streamer's page shows, so both of their wallets count.
+ */
+const getPaymentDestinationReason = async (
+  recipientId: string,
+  destinationAddress: string
+) => {
+  const recipient = await db.user.findUnique({
+    where: { id: recipientId },
+    select: { solanaWallet: true, platformWallet: true },
+  });
+
+  const paymentAddresses = [recipient?.solanaWallet, recipient?.platformWallet]
+    .filter((wallet): wallet is string => !!wallet)
+    .map((wallet) => {
+      const [streamerStatePDA] = PublicKey.findProgramAddressSync(
+        [Buffer.from("user"), new PublicKey(wallet).toBuffer()],
+        programId
+      );
+      return streamerStatePDA.toBase58();
+    });
+
+  return paymentAddresses.includes(destinationAddress)
+    ? null
+    : "Payments can only be sent to the streamer's wallet";
+};
+
+/**
+ * Checks for a tip or subscription paid from the platform wallet. The
+ * destination must be the recipient streamer's program wallet, but the
+ * recipient is whoever the caller names, so this skips the payout address
+ * allowlist and cooling-off only. Payments share the payout limits, burst
+ * detection and security log, and need a recent sign-in once they pass
+ * PAYMENTS_WITHOUT_REAUTH in a day, which caps what a hijacked session can
+ * send to a streamer of its choosing.
+ */
+export const assertPaymentAllowed = async ({
+  userId,
+  recipientId,
+  amount,
+  usdValue,
+  destinationAddress,
+  ipAddress,
+}: {
+  userId: string;
+  recipientId: string;
+  amount: number;
+  // Limits are counted in USD
+  usdValue: number;
+  destinationAddress: string;
+  ipAddress?: string | null;
+}) => {
+  const audit = {
+    userId,
+    amount,
+    address: destinationAddress,
+    ipAddress,
+  };
+
+  const reason =
+    (await getPaymentDestinationReason(recipientId, destinationAddress)) ??
+    (await getPaymentReauthReason(userId, usdValue)) ??
+    (await checkSuspiciousWithdrawals(userId, ipAddress)) ??
+    (await getLimitReason(userId, usdValue));
+
+  if (reason) {
+    await recordWithdrawalAuditEvent({
+      ...audit,
+      type: "WITHDRAWAL_BLOCKED",
+      detail: reason,
+    });
+    throw new Error(reason);
+  }
+
+  await recordWithdrawalAuditEvent({
+    ...audit,
+    type: "WITHDRAWAL_REQUESTED",
+    detail: `Payment to streamer ${recipientId}`,
+  });
+};
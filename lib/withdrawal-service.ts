@@ -0,0 +1,190 @@
+import { Withdrawal } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { getConnection } from "@/lib/server-wallet";
+import { recordWithdrawalAuditEvent } from "@/lib/withdrawal-security-service";
+import { WithdrawalData } from "@/lib/withdrawal";
+import type { TokenType } from "@/config/tokens";
+
+// A transaction's blockhash stops being accepted after about a minute, so a
+// signature still unknown after this long never landed
+const WITHDRAWAL_EXPIRY_MS = 2 * 60 * 1000;
+
+const toWithdrawalData = (withdrawal: Withdrawal): WithdrawalData => ({
+  id: withdrawal.id,
+  amount: Number(withdrawal.amount),
+  tokenType: withdrawal.tokenType,
+  gasInUsdc: Number(withdrawal.gasInUsdc),
+  destinationAddress: withdrawal.destinationAddress,
+  transactionHash: withdrawal.transactionHash,
+  status: withdrawal.status,
+  failureReason: withdrawal.failureReason,
+  confirmedAt: withdrawal.confirmedAt?.toISOString() ?? null,
+  createdAt: withdrawal.createdAt.toISOString(),
+});
+
+/**
+ * Record a payout, tip or subscription payment when its transaction is built.
+ * The signature is known up front because the server wallet signs first as
+ * fee payer.
+ */
+export const createWithdrawal = async (data: {
+  userId: string;
+  amount: number;
+  tokenType: TokenType;
+  usdValue: number;
+  recipientId?: string;
+  gasInUsdc: number;
+  destinationAddress: string;
+  transactionHash: string;
+}) => {
+  const withdrawal = await db.withdrawal.create({ data });
+
+  return toWithdrawalData(withdrawal);
+};
+
+/**
+ * Check that a signed transaction is the one built for this pending payout
+ */
+export const assertPendingWithdrawal = async (
+  userId: string,
+  withdrawalId: string,
+  transactionHash: string
+) => {
+  const withdrawal = await db.withdrawal.findFirst({
+    where: { id: withdrawalId, userId },
+  });
+
+  if (!withdrawal) {
+    throw new Error("Withdrawal not found");
+  }
+
+  if (withdrawal.status !== "PENDING") {
+    throw new Error("Withdrawal was already submitted");
+  }
+
+  if (withdrawal.transactionHash !== transactionHash) {
+    throw new Error("Signed transaction does not match this withdrawal");
+  }
+};
+
+/**
+ * Settle a pending payout as paid. Safe to call more than once: both the
+ * transaction queue and the history sync may see it land.
+ */
+export const confirmWithdrawal = async (withdrawalId: string) => {
+  const { count } = await db.withdrawal.updateMany({
+    where: { id: withdrawalId, status: "PENDING" },
+    data: { status: "CONFIRMED", confirmedAt: new Date(), failureReason: null },
+  });
+
+  if (count === 0) return;
+
+  const withdrawal = await db.withdrawal.findUniqueOrThrow({
+    where: { id: withdrawalId },
+  });
+
+  await recordWithdrawalAuditEvent({
+    userId: withdrawal.userId,
+    type: "WITHDRAWAL_COMPLETED",
+    address: withdrawal.destinationAddress,
+    amount: Number(withdrawal.amount),
+    withdrawalId,
+  });
+};
+
+const failWithdrawal = async (withdrawal: Withdrawal, failureReason: string) => {
+  const { count } = await db.withdrawal.updateMany({
+    where: { id: withdrawal.id, status: "PENDING" },
+    data: { status: "FAILED", failureReason },
+  });
+
+  if (count === 0) return;
+
+  await recordWithdrawalAuditEvent({
+    userId: withdrawal.userId,
+    type: "WITHDRAWAL_FAILED",
+    detail: failureReason,
+    address: withdrawal.destinationAddress,
+    amount: Number(withdrawal.amount),
+    withdrawalId: withdrawal.id,
+  });
+};
+
+/**
+ * Settle a pending payout as failed, e.g. when its transaction expired
+ */
+export const rejectWithdrawal = async (
+  withdrawalId: string,
+  failureReason: string
+) => {
+  const withdrawal = await db.withdrawal.findUnique({
+    where: { id: withdrawalId },
+  });
+
+  if (withdrawal) {
+    await failWithdrawal(withdrawal, failureReason);
+  }
+};
+
+/**
+ * Settle pending payouts from their on-chain signature status
+ */
+export const syncPendingWithdrawals = async (userId: string) => {
+  const pending = await db.withdrawal.findMany({
+    where: { userId, status: "PENDING", transactionHash: { not: null } },
+  });
+
+  if (pending.length === 0) return;
+
+  const { value: statuses } = await getConnection().getSignatureStatuses(
+    pending.map((withdrawal) => withdrawal.transactionHash!),
+    { searchTransactionHistory: true }
+  );
+
+  await Promise.all(
+    pending.map((withdrawal, i) => {
+      const status = statuses[i];
+
+      if (status?.err) {
+        return failWithdrawal(
+          withdrawal,
+          `Transaction failed: ${JSON.stringify(status.err)}`
+        );
+      }
+
+      if (
+        status?.confirmationStatus === "confirmed" ||
+        status?.confirmationStatus === "finalized"
+      ) {
+        return confirmWithdrawal(withdrawal.id);
+      }
+
+      if (
+        !status &&
+        Date.now() - withdrawal.createdAt.getTime() > WITHDRAWAL_EXPIRY_MS
+      ) {
+        return failWithdrawal(
+          withdrawal,
+          withdrawal.failureReason ??
+            "Transaction expired before it was confirmed"
+        );
+      }
+
+      return null;
+    })
+  );
+};
+
+/**
+ * A streamer's payouts, newest first
+ */
+export const getWithdrawals = async (userId: string, limit = 50) => {
+  const withdrawals = await db.withdrawal.findMany({
+    where: { userId, recipientId: null },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  return withdrawals.map(toWithdrawalData);
+};
@@ -0,0 +1,95 @@
+import type { TokenType } from "@/config/tokens";
+
+export type WithdrawalStatus = "PENDING" | "CONFIRMED" | "FAILED";
+
+export interface WithdrawalData {
+  id: string;
+  amount: number;
+  tokenType: TokenType;
+  gasInUsdc: number;
+  destinationAddress: string;
+  transactionHash: string | null;
+  status: WithdrawalStatus;
+  failureReason: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
+}
+
+export const WITHDRAWAL_LIMITS = {
+  DAILY: 1000, // $ per rolling 24 hours
+  WEEKLY: 5000, // $ per rolling 7 days
+  // $ of tips and subscriptions per rolling 24 hours before they also need a
+  // recent sign-in
+  PAYMENTS_WITHOUT_REAUTH: 50,
+  MAX_PAYOUT_ADDRESSES: 5,
+  MAX_LABEL_LENGTH: 40,
+} as const;
+
+// New payout addresses can't be withdrawn to until this much time has passed
+export const PAYOUT_ADDRESS_COOLING_OFF_HOURS = 24;
+
+// Payouts and address changes need a sign-in at most this old
+export const WITHDRAWAL_REAUTH_MINUTES = 10;
+
+// This many payouts inside the window blocks further ones as suspicious
+export const SUSPICIOUS_WITHDRAWALS = {
+  COUNT: 3,
+  WINDOW_MINUTES: 10,
+} as const;
+
+// Shown when a payout needs a fresh sign-in; the dashboard offers one
+export const REAUTH_REQUIRED_MESSAGE =
+  "Please sign in again to confirm it's you";
+
+export interface PayoutAddressData {
+  id: string;
+  address: string;
+  label: string | null;
+  activatesAt: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export type WithdrawalAuditEventType =
+  | "ADDRESS_ADDED"
+  | "ADDRESS_REMOVED"
+  | "WITHDRAWAL_REQUESTED"
+  | "WITHDRAWAL_BLOCKED"
+  | "WITHDRAWAL_COMPLETED"
+  | "WITHDRAWAL_FAILED"
+  | "SUSPICIOUS_ACTIVITY";
+
+export interface WithdrawalAuditEventData {
+  id: string;
+  type: WithdrawalAuditEventType;
+  detail: string | null;
+  address: string | null;
+  amount: number | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+// USD value already withdrawn in the rolling limit windows
+export interface WithdrawalUsage {
+  daily: number;
+  weekly: number;
+}
+
+/**
+ * The reason the daily or weekly limit stops a transfer of the given USD
+ * value, or null
+ */
+export const getWithdrawalLimitReason = (
+  usage: WithdrawalUsage,
+  usdValue: number
+) => {
+  if (usage.daily + usdValue > WITHDRAWAL_LIMITS.DAILY) {
+    return `This exceeds your daily limit of $${WITHDRAWAL_LIMITS.DAILY} ($${Math.max(0, WITHDRAWAL_LIMITS.DAILY - usage.daily).toFixed(2)} left)`;
+  }
+
+  if (usage.weekly + usdValue > WITHDRAWAL_LIMITS.WEEKLY) {
+    return `This exceeds your weekly limit of $${WITHDRAWAL_LIMITS.WEEKLY} ($${Math.max(0, WITHDRAWAL_LIMITS.WEEKLY - usage.weekly).toFixed(2)} left)`;
+  }
+
+  return null;
+};
@@ -7,6 +7,7 @@ const publicRoutes = [
   "/api/uploadthing",
   "/search",
   "/api/auth", // Add auth routes
+  "/overlay", // OBS browser sources, authorized by the token in the URL
 ];
 
 const withCivicAuth = authMiddleware();
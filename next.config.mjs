@@ -8,6 +8,7 @@ const nextConfig = {
       "bqev70kfmw.ufs.sh",
       "images.unsplash.com"
     ],
+    remotePatterns: [{ protocol: "https", hostname: "*.ufs.sh" }],
   },
   webpack: (config) => {
     config.module.rules.push({
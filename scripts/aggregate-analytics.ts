@@ -0,0 +1,40 @@
+import { PrismaClient } from "@prisma/client";
+import * as dotenv from "dotenv";
+import { recordPlatformSnapshot, startOfUtcDay } from "../lib/platform-analytics";
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  // ── Parse args ─────────────────────────────────────────────
+  // Optional start day (YYYY-MM-DD) to backfill every day up to today
+  const [, , fromArg] = process.argv;
+  const today = startOfUtcDay(new Date());
+  const from = fromArg ? startOfUtcDay(new Date(fromArg)) : today;
+  if (isNaN(from.getTime()) || from > today) {
+    console.error("Usage: ts-node aggregate-analytics.ts [FROM_YYYY-MM-DD]");
+    process.exit(1);
+  }
+
+  const prisma = new PrismaClient();
+
+  try {
+    // ── Record one snapshot per day ─────────────────────────────
+    for (let day = from; day <= today; day = new Date(day.getTime() + DAY_MS)) {
+      const snapshot = await recordPlatformSnapshot(prisma, day);
+      console.log(
+        `📊 ${snapshot.snapshotDate.toISOString().slice(0, 10)}:`,
+        `${snapshot.totalUsers} users,`,
+        `${snapshot.totalStreamHours}h streamed,`,
+        `peak ${snapshot.peakConcurrentViewers} viewers`
+      );
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,12 +1,13 @@
-import { Connection, Keypair, PublicKey, clusterApiUrl } from "@solana/web3.js";
+// Loaded first, as the cluster config reads the env when imported
+import "dotenv/config";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 import {
   createMint,
   getOrCreateAssociatedTokenAccount,
   mintTo,
   transfer,
 } from "@solana/spl-token";
-import * as dotenv from "dotenv";
-dotenv.config();
+import { CLUSTER } from "../config/cluster";
 
 async function main() {
   // ── Parse args ─────────────────────────────────────────────
@@ -22,8 +23,12 @@ async function main() {
     process.exit(1);
   }
 
-  // ── 1️⃣ Connect to Devnet ─────────────────────────────────────
-  const connection = new Connection(clusterApiUrl("devnet"), "confirmed");
+  // ── 1️⃣ Connect to the configured test cluster ───────────────
+  if (CLUSTER.cluster === "mainnet-beta") {
+    console.error("Airdrops only work on devnet or localnet");
+    process.exit(1);
+  }
+  const connection = new Connection(CLUSTER.rpcUrl, "confirmed");
 
   // ── 2️⃣ Load or generate payer ────────────────────────────────
   // You can supply your own keypair via LOCAL_KEYPAIR env, e.g. SOLANA_KEYPAIR
@@ -33,7 +38,7 @@ async function main() {
       )
     : Keypair.generate();
 
-  // Airdrop 2 SOL to cover fees (Devnet only)
+  // Airdrop 2 SOL to cover fees (devnet and localnet only)
   const sig = await connection.requestAirdrop(payer.publicKey, 2 * 1e9);
   await connection.confirmTransaction(sig);
 
@@ -0,0 +1,32 @@
+import { PrismaClient } from "@prisma/client";
+import * as dotenv from "dotenv";
+import { PLATFORM_GIFTS } from "../lib/gift-catalog";
+dotenv.config();
+
+async function main() {
+  const prisma = new PrismaClient();
+
+  try {
+    // ── Upsert the platform gifts ──────────────────────────────
+    // Ids are kept stable since tips reference them; re-running updates
+    // names, prices and images in place
+    for (let sortOrder = 0; sortOrder < PLATFORM_GIFTS.length; sortOrder++) {
+      const gift = PLATFORM_GIFTS[sortOrder];
+      await prisma.gift.upsert({
+        where: { id: gift.id },
+        create: { ...gift, sortOrder },
+        update: { ...gift, sortOrder, streamerId: null },
+      });
+      console.log(`🎁 ${gift.name}: $${gift.price}`);
+    }
+
+    console.log(`✅ Seeded ${PLATFORM_GIFTS.length} platform gifts`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
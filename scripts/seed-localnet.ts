@@ -0,0 +1,145 @@
+// Loaded first, as the cluster config reads the env when imported
+import "dotenv/config";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import {
+  createMint,
+  getMint,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
+import bs58 from "bs58";
+import { CLUSTER } from "../config/cluster";
+import { TOKEN_REGISTRY } from "../config/tokens";
+
+// What each test wallet (and its platform wallet) is funded with
+const SOL_PER_WALLET = 5;
+const TOKENS_PER_WALLET = 1000;
+
+const parseKeypair = (secret: string) =>
+  Keypair.fromSecretKey(
+    secret.startsWith("[")
+      ? Uint8Array.from(JSON.parse(secret))
+      : bs58.decode(secret)
+  );
+
+const airdrop = async (connection: Connection, to: PublicKey, sol: number) => {
+  const sig = await connection.requestAirdrop(to, sol * 1e9);
+  await connection.confirmTransaction(sig);
+};
+
+async function main() {
+  // ── Parse args ─────────────────────────────────────────────
+  // Wallets to fund; the server wallet is always funded
+  const [, , ...walletArgs] = process.argv;
+  if (CLUSTER.cluster !== "localnet") {
+    console.error(
+      "Set NEXT_PUBLIC_SOLANA_CLUSTER=localnet and start solana-test-validator first"
+    );
+    console.error("Usage: ts-node seed-localnet.ts [WALLET_PUBKEY...]");
+    process.exit(1);
+  }
+  const wallets = walletArgs.map((arg) => new PublicKey(arg));
+
+  // ── 1️⃣ Connect to the local validator ───────────────────────
+  const connection = new Connection(CLUSTER.rpcUrl, "confirmed");
+
+  const programId = new PublicKey(CLUSTER.programId);
+  if (!(await connection.getAccountInfo(programId))) {
+    console.warn(
+      `⚠️  Program ${programId.toBase58()} is not deployed; run \`anchor deploy --provider.cluster localnet\` in switched_fun_program`
+    );
+  }
+
+  // ── 2️⃣ Load or generate the mint authority ───────────────────
+  // Keep SOLANA_KEYPAIR set to top up the same mints on later runs
+  const payer = process.env.SOLANA_KEYPAIR
+    ? parseKeypair(process.env.SOLANA_KEYPAIR)
+    : Keypair.generate();
+  await airdrop(connection, payer.publicKey, 10);
+
+  // ── 3️⃣ Fund the server wallet so it can sponsor fees ─────────
+  if (process.env.SERVER_WALLET_PRIVATE_KEY) {
+    const serverWallet = parseKeypair(process.env.SERVER_WALLET_PRIVATE_KEY);
+    await airdrop(connection, serverWallet.publicKey, 100);
+    console.log(
+      `⛽ Server wallet ${serverWallet.publicKey.toBase58()}: 100 SOL`
+    );
+  } else {
+    console.warn("⚠️  SERVER_WALLET_PRIVATE_KEY is not set; skipping it");
+  }
+
+  // ── 4️⃣ Deploy (or reuse) a mint for every SPL token ──────────
+  const mints: { symbol: string; mint: PublicKey; decimals: number }[] = [];
+  for (const token of TOKEN_REGISTRY.filter((t) => !t.isNative)) {
+    const existing = CLUSTER.mints[token.symbol];
+    let mint: PublicKey | null = null;
+
+    if (existing) {
+      try {
+        mint = (await getMint(connection, new PublicKey(existing))).address;
+      } catch {
+        console.log(`${token.symbol} mint ${existing} not found; redeploying`);
+      }
+    }
+
+    if (!mint) {
+      mint = await createMint(
+        connection,
+        payer,
+        payer.publicKey,
+        null,
+        token.decimals
+      );
+    }
+
+    mints.push({ symbol: token.symbol, mint, decimals: token.decimals });
+  }
+
+  // ── 5️⃣ Fund each wallet and its platform wallet ─────────────
+  // Tips are paid from the platform wallet, a PDA of the program
+  for (const wallet of wallets) {
+    const [platformWallet] = PublicKey.findProgramAddressSync(
+      [Buffer.from("user"), wallet.toBuffer()],
+      programId
+    );
+
+    await airdrop(connection, wallet, SOL_PER_WALLET);
+
+    for (const { symbol, mint, decimals } of mints) {
+      for (const owner of [wallet, platformWallet]) {
+        const ata = await getOrCreateAssociatedTokenAccount(
+          connection,
+          payer,
+          mint,
+          owner,
+          true // allowOwnerOffCurve for the PDA
+        );
+        await mintTo(
+          connection,
+          payer,
+          mint,
+          ata.address,
+          payer,
+          TOKENS_PER_WALLET * 10 ** decimals
+        );
+      }
+      console.log(
+        `💸 ${wallet.toBase58()}: ${TOKENS_PER_WALLET} ${symbol} (and its platform wallet)`
+      );
+    }
+  }
+
+  // ── 6️⃣ Print the mints for .env ──────────────────────────────
+  console.log("\n✅ Localnet seeded. Add these to .env:");
+  mints.forEach(({ symbol, mint }) =>
+    console.log(`NEXT_PUBLIC_LOCALNET_${symbol}_MINT=${mint.toBase58()}`)
+  );
+  if (!process.env.SOLANA_KEYPAIR) {
+    console.log(`SOLANA_KEYPAIR=[${payer.secretKey.toString()}]`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import { atom } from 'jotai';
 import { atomFamily } from 'jotai/utils';
 import { TipNotification } from '@/hooks/use-tip-broadcast';
+import { DEFAULT_TIP_ALERT_SETTINGS, TipAlertSettings } from '@/lib/tip-config';
 
 // Reaction interface
 export interface ChatReaction {
@@ -17,6 +18,11 @@ export const reactionsAtom = atom<ChatReaction[]>([]);
 // STREAM-SCOPED TIP NOTIFICATIONS (using atomFamily for performance)
 // ============================================================================
 
+// The streamer's alert settings, set from the stream payload by StreamPlayer
+export const streamTipAlertSettingsFamily = atomFamily((streamId: string) =>
+  atom<TipAlertSettings>(DEFAULT_TIP_ALERT_SETTINGS)
+);
+
 // Base atom family for stream-scoped tip notifications
 export const streamTipNotificationsFamily = atomFamily((streamId: string) =>
   atom<TipNotification[]>([])
@@ -30,12 +36,18 @@ export const streamLargeTipsFamily = atomFamily((streamId: string) =>
   })
 );
 
-// Derived atom family for gift tips per stream (excluding large/mega)
+// Derived atom family for gift tips per stream (excluding large/mega and
+// gift types the streamer doesn't want full-screen)
 export const streamGiftTipsFamily = atomFamily((streamId: string) =>
   atom((get) => {
     const notifications = get(streamTipNotificationsFamily(streamId));
+    const { excludedAlertGiftTypes } = get(streamTipAlertSettingsFamily(streamId));
     return notifications.filter(n =>
-      n.giftType && n.giftName && !n.isLargeTip && !n.isMegaTip
+      n.giftType &&
+      n.giftName &&
+      !n.isLargeTip &&
+      !n.isMegaTip &&
+      !excludedAlertGiftTypes.includes(n.giftType)
     );
   })
 );
@@ -44,10 +56,11 @@ export const streamGiftTipsFamily = atomFamily((streamId: string) =>
 export const addStreamTipNotificationFamily = atomFamily((streamId: string) =>
   atom(null, (get, set, notification: TipNotification) => {
     const current = get(streamTipNotificationsFamily(streamId));
+    const { tipAlertQueueSize } = get(streamTipAlertSettingsFamily(streamId));
     // Add new notification and sort by timestamp (newest first)
     const updated = [notification, ...current]
       .sort((a, b) => b.timestamp - a.timestamp)
-      .slice(0, 3); // Keep only 3 most recent
+      .slice(0, tipAlertQueueSize); // Keep only as many as the streamer queues
     set(streamTipNotificationsFamily(streamId), updated);
   })
 );
@@ -65,12 +78,13 @@ export const removeStreamTipNotificationFamily = atomFamily((streamId: string) =
 export const clearOldStreamTipNotificationsFamily = atomFamily((streamId: string) =>
   atom(null, (get, set) => {
     const current = get(streamTipNotificationsFamily(streamId));
+    const { tipAlertQueueSize } = get(streamTipAlertSettingsFamily(streamId));
     const thirtySecondsAgo = Date.now() - (30 * 1000);
     const filtered = current.filter(n => n.timestamp > thirtySecondsAgo);
 
     if (filtered.length !== current.length) {
       const sorted = filtered.sort((a, b) => b.timestamp - a.timestamp);
-      const limited = sorted.slice(0, 3);
+      const limited = sorted.slice(0, tipAlertQueueSize);
       set(streamTipNotificationsFamily(streamId), limited);
     }
   })
@@ -0,0 +1,6 @@
+// Placeholder config for services that read it when they load. Tests only
+// call their pure checks, so nothing connects to LiveKit, the database or
+// an RPC node.
+process.env.LIVEKIT_API_URL ??= "ws://localhost:7880";
+process.env.LIVEKIT_API_KEY ??= "test";
+process.env.LIVEKIT_API_SECRET ??= "test";
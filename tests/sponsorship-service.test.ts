@@ -0,0 +1,252 @@
+import "./env";
+
+import { createHash } from "crypto";
+import { expect } from "chai";
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createApproveCheckedInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+
+import { programId } from "@/config/cluster";
+import { getToken, getTokenMint } from "@/config/tokens";
+import { SPONSORSHIP_LIMITS, SponsorshipContext } from "@/lib/sponsorship";
+import { checkTransaction } from "@/lib/sponsorship-service";
+
+const serverWallet = Keypair.generate();
+process.env.SERVER_WALLET_PRIVATE_KEY = JSON.stringify(
+  Array.from(serverWallet.secretKey)
+);
+
+const USDC_MINT = getTokenMint(getToken("USDC"));
+const user = Keypair.generate().publicKey;
+const userTokenAccount = getAssociatedTokenAddressSync(USDC_MINT, user);
+
+const context: SponsorshipContext = { userId: "user", operation: "WITHDRAWAL" };
+
+const createStreamer = () =>
+  new TransactionInstruction({
+    programId,
+    keys: [],
+    data: createHash("sha256")
+      .update("global:create_streamer")
+      .digest()
+      .subarray(0, 8),
+  });
+
+const buildTransaction = (
+  instructions: TransactionInstruction[],
+  feePayer = serverWallet.publicKey
+) => {
+  const transaction = new Transaction().add(...instructions);
+  transaction.feePayer = feePayer;
+  transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+  return transaction;
+};
+
+const expectRejected = async (
+  transaction: Transaction,
+  message: string | RegExp,
+  options: SponsorshipContext = context
+) => {
+  let error: Error | null = null;
+  try {
+    await checkTransaction(transaction, options);
+  } catch (err: any) {
+    error = err;
+  }
+
+  expect(error, "expected the transaction to be refused").to.be.instanceOf(
+    Error
+  );
+  if (typeof message === "string") {
+    expect(error!.message).to.equal(message);
+  } else {
+    expect(error!.message).to.match(message);
+  }
+};
+
+describe("checkTransaction", () => {
+  it("sponsors a whitelisted program call and prices its signatures", async () => {
+    const checked = await checkTransaction(
+      buildTransaction([createStreamer()]),
+      context
+    );
+
+    expect(checked).to.deep.equal({
+      instructions: "createStreamer",
+      estimatedFee: 5000,
+      computeUnitLimit: 200000,
+      computeUnitPrice: 0,
+    });
+  });
+
+  it("adds the priority fee on the requested compute units", async () => {
+    const checked = await checkTransaction(
+      buildTransaction([
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 100000 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1000 }),
+        createStreamer(),
+      ]),
+      context
+    );
+
+    expect(checked.computeUnitLimit).to.equal(100000);
+    expect(checked.estimatedFee).to.equal(5000 + 100);
+  });
+
+  it("refuses transactions the platform doesn't pay for", async () => {
+    await expectRejected(
+      buildTransaction([createStreamer()], user),
+      "Only transactions the platform pays for can be sponsored"
+    );
+  });
+
+  it("refuses other program methods", async () => {
+    await expectRejected(
+      buildTransaction([
+        new TransactionInstruction({
+          programId,
+          keys: [],
+          data: Buffer.alloc(8),
+        }),
+      ]),
+      "This program instruction can't be sponsored"
+    );
+  });
+
+  it("refuses programs that aren't whitelisted", async () => {
+    await expectRejected(
+      buildTransaction([
+        SystemProgram.transfer({
+          fromPubkey: serverWallet.publicKey,
+          toPubkey: user,
+          lamports: 1,
+        }),
+      ]),
+      /^Instructions for 11111111111111111111111111111111 can't be sponsored$/
+    );
+  });
+
+  it("refuses a transaction with nothing to sponsor", async () => {
+    await expectRejected(
+      buildTransaction([
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+      ]),
+      "Transaction has nothing to sponsor"
+    );
+  });
+
+  it("refuses more compute units than the cap", async () => {
+    await expectRejected(
+      buildTransaction([
+        ComputeBudgetProgram.setComputeUnitLimit({
+          units: SPONSORSHIP_LIMITS.MAX_COMPUTE_UNITS + 1,
+        }),
+        createStreamer(),
+      ]),
+      /compute units; the limit is/
+    );
+  });
+
+  it("refuses a priority fee above the cap", async () => {
+    await expectRejected(
+      buildTransaction([
+        ComputeBudgetProgram.setComputeUnitPrice({
+          microLamports: SPONSORSHIP_LIMITS.MAX_COMPUTE_UNIT_PRICE + 1,
+        }),
+        createStreamer(),
+      ]),
+      /^Priority fee of/
+    );
+  });
+
+  it("sponsors a subscription allowance to the platform wallet", async () => {
+    const checked = await checkTransaction(
+      buildTransaction([
+        createApproveCheckedInstruction(
+          userTokenAccount,
+          USDC_MINT,
+          serverWallet.publicKey,
+          user,
+          1_000_000,
+          6
+        ),
+      ]),
+      context
+    );
+
+    expect(checked.instructions).to.equal("approveChecked");
+  });
+
+  it("refuses an allowance to anyone but the platform wallet", async () => {
+    await expectRejected(
+      buildTransaction([
+        createApproveCheckedInstruction(
+          userTokenAccount,
+          USDC_MINT,
+          Keypair.generate().publicKey,
+          user,
+          1_000_000,
+          6
+        ),
+      ]),
+      "Only USDC allowances for subscriptions can be sponsored"
+    );
+  });
+
+  it("refuses transfers spending from the platform wallet", async () => {
+    await expectRejected(
+      buildTransaction([
+        createTransferCheckedInstruction(
+          userTokenAccount,
+          USDC_MINT,
+          getAssociatedTokenAddressSync(USDC_MINT, user),
+          serverWallet.publicKey,
+          1_000_000,
+          6
+        ),
+      ]),
+      "Transfers can't spend from the platform wallet"
+    );
+  });
+
+  it("refuses token accounts the platform wallet doesn't pay for", async () => {
+    await expectRejected(
+      buildTransaction([
+        createAssociatedTokenAccountIdempotentInstruction(
+          user,
+          userTokenAccount,
+          user,
+          USDC_MINT
+        ),
+      ]),
+      "This token account instruction can't be sponsored"
+    );
+  });
+
+  it("refuses token accounts for unregistered tokens", async () => {
+    const mint = new PublicKey(Keypair.generate().publicKey);
+
+    await expectRejected(
+      buildTransaction([
+        createAssociatedTokenAccountIdempotentInstruction(
+          serverWallet.publicKey,
+          getAssociatedTokenAddressSync(mint, user),
+          user,
+          mint
+        ),
+      ]),
+      "This token account instruction can't be sponsored"
+    );
+  });
+});
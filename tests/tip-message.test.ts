@@ -0,0 +1,68 @@
+import { expect } from "chai";
+
+import { TIP_CONFIG } from "@/lib/tip-config";
+import { filterTipMessage, getTipMessageLimit } from "@/lib/tip-message";
+
+describe("getTipMessageLimit", () => {
+  const tiers = { largeTipThreshold: 20, megaTipThreshold: 100 };
+
+  it("allows a regular message below the large tip tier", () => {
+    expect(getTipMessageLimit(19.99, tiers)).to.equal(
+      TIP_CONFIG.REGULAR_TIP_MESSAGE_LENGTH
+    );
+  });
+
+  it("allows a longer message from the large tip tier", () => {
+    expect(getTipMessageLimit(20, tiers)).to.equal(
+      TIP_CONFIG.LARGE_TIP_MESSAGE_LENGTH
+    );
+  });
+
+  it("allows the longest message from the mega tip tier", () => {
+    expect(getTipMessageLimit(100, tiers)).to.equal(
+      TIP_CONFIG.MEGA_TIP_MESSAGE_LENGTH
+    );
+  });
+
+  it("goes by the streamer's tiers rather than the defaults", () => {
+    expect(
+      getTipMessageLimit(TIP_CONFIG.LARGE_TIP_THRESHOLD, {
+        largeTipThreshold: 500,
+        megaTipThreshold: 1000,
+      })
+    ).to.equal(TIP_CONFIG.REGULAR_TIP_MESSAGE_LENGTH);
+  });
+});
+
+describe("filterTipMessage", () => {
+  it("leaves a clean message as it is", () => {
+    expect(filterTipMessage("Great stream, thanks!")).to.equal(
+      "Great stream, thanks!"
+    );
+  });
+
+  it("masks blocked words and their endings, keeping their length", () => {
+    expect(filterTipMessage("what the Fuck, fucking great")).to.equal(
+      "what the ****, ******* great"
+    );
+  });
+
+  it("doesn't mask words that only contain a blocked word", () => {
+    expect(filterTipMessage("reading Dickens in Scunthorpe")).to.equal(
+      "reading Dickens in Scunthorpe"
+    );
+  });
+
+  it("drops links, www. prefixes and bare domains", () => {
+    expect(
+      filterTipMessage(
+        "visit https://spam.example/x or www.spam.net and spam.gg now"
+      )
+    ).to.equal("visit or and now");
+  });
+
+  it("returns null when nothing is left to show", () => {
+    expect(filterTipMessage("  https://spam.example  ")).to.equal(null);
+    expect(filterTipMessage("   ")).to.equal(null);
+  });
+});
@@ -0,0 +1,244 @@
+import "./env";
+
+import { expect } from "chai";
+import {
+  Keypair,
+  ParsedTransactionMeta,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+
+import { programId } from "@/config/cluster";
+import { getToken, getTokenMint } from "@/config/tokens";
+import {
+  checkTipTransaction,
+  getReceivedAmount,
+  getRecipientOwners,
+} from "@/lib/tip-verification";
+
+const USDC_MINT = getTokenMint(getToken("USDC")).toBase58();
+const OTHER_MINT = Keypair.generate().publicKey.toBase58();
+
+const tipper = Keypair.generate().publicKey.toBase58();
+const streamer = Keypair.generate().publicKey.toBase58();
+const [streamerState] = PublicKey.findProgramAddressSync(
+  [Buffer.from("user"), new PublicKey(streamer).toBuffer()],
+  programId
+);
+
+const tokenBalance = (
+  accountIndex: number,
+  owner: string,
+  amount: number,
+  mint = USDC_MINT
+): TokenBalance => ({
+  accountIndex,
+  mint,
+  owner,
+  uiTokenAmount: {
+    amount: String(amount),
+    decimals: 6,
+    uiAmount: null,
+    uiAmountString: "",
+  },
+});
+
+// A parsed transaction with just the fields the checks read
+const buildTransaction = ({
+  signers = [tipper],
+  accounts = [],
+  preBalances = [],
+  postBalances = [],
+  preTokenBalances = [],
+  postTokenBalances = [],
+  err = null,
+}: {
+  signers?: string[];
+  accounts?: string[];
+  preBalances?: number[];
+  postBalances?: number[];
+  preTokenBalances?: TokenBalance[];
+  postTokenBalances?: TokenBalance[];
+  err?: ParsedTransactionMeta["err"];
+}) =>
+  ({
+    transaction: {
+      message: {
+        accountKeys: [
+          ...signers.map((key) => ({ key, signer: true })),
+          ...accounts.map((key) => ({ key, signer: false })),
+        ].map(({ key, signer }) => ({
+          pubkey: new PublicKey(key),
+          signer,
+          writable: true,
+        })),
+      },
+    },
+    meta: {
+      err,
+      fee: 5000,
+      preBalances,
+      postBalances,
+      preTokenBalances,
+      postTokenBalances,
+    },
+  }) as unknown as ParsedTransactionWithMeta & { meta: ParsedTransactionMeta };
+
+// The tipper sends `amount` base units of USDC to the streamer's tip account
+const buildUsdcTip = (amount: number, options = {}) =>
+  buildTransaction({
+    preTokenBalances: [
+      tokenBalance(1, tipper, 50_000_000),
+      tokenBalance(2, streamerState.toBase58(), 1_000_000),
+    ],
+    postTokenBalances: [
+      tokenBalance(1, tipper, 50_000_000 - amount),
+      tokenBalance(2, streamerState.toBase58(), 1_000_000 + amount),
+    ],
+    ...options,
+  });
+
+describe("getRecipientOwners", () => {
+  it("accepts the streamer's wallet and its program account", () => {
+    const owners = getRecipientOwners([streamer]);
+
+    expect(Array.from(owners)).to.have.members([
+      streamer,
+      streamerState.toBase58(),
+    ]);
+  });
+
+  it("skips malformed wallets", () => {
+    expect(getRecipientOwners(["not a wallet"]).size).to.equal(0);
+  });
+});
+
+describe("getReceivedAmount", () => {
+  const owners = getRecipientOwners([streamer]);
+
+  it("counts the token the streamer's tip account received", () => {
+    expect(getReceivedAmount(buildUsdcTip(2_500_000), "USDC", owners)).to.equal(
+      2_500_000
+    );
+  });
+
+  it("counts an account the transfer created", () => {
+    const tx = buildTransaction({
+      postTokenBalances: [tokenBalance(2, streamerState.toBase58(), 750_000)],
+    });
+
+    expect(getReceivedAmount(tx, "USDC", owners)).to.equal(750_000);
+  });
+
+  it("ignores other mints and other owners", () => {
+    const someoneElse = Keypair.generate().publicKey.toBase58();
+    const tx = buildTransaction({
+      postTokenBalances: [
+        tokenBalance(2, streamerState.toBase58(), 900, OTHER_MINT),
+        tokenBalance(3, someoneElse, 900),
+      ],
+    });
+
+    expect(getReceivedAmount(tx, "USDC", owners)).to.equal(0);
+  });
+
+  it("ignores balances that went down", () => {
+    const tx = buildTransaction({
+      preTokenBalances: [tokenBalance(2, streamerState.toBase58(), 1_000)],
+      postTokenBalances: [tokenBalance(2, streamerState.toBase58(), 400)],
+    });
+
+    expect(getReceivedAmount(tx, "USDC", owners)).to.equal(0);
+  });
+
+  it("reads native SOL from the lamport balances", () => {
+    const tx = buildTransaction({
+      accounts: [streamerState.toBase58()],
+      preBalances: [2_000_000_000, 1_000_000],
+      postBalances: [1_499_995_000, 501_000_000],
+    });
+
+    expect(getReceivedAmount(tx, "SOL", owners)).to.equal(500_000_000);
+  });
+
+  it("counts nothing for an unknown token", () => {
+    expect(getReceivedAmount(buildUsdcTip(1_000_000), "DOGE", owners)).to.equal(
+      0
+    );
+  });
+});
+
+describe("checkTipTransaction", () => {
+  const claim = {
+    amount: 2.5,
+    tokenType: "USDC",
+    tipperWallets: [tipper],
+    streamerWallets: [streamer],
+  };
+
+  it("verifies a transfer of the full amount signed by the tipper", () => {
+    expect(checkTipTransaction(buildUsdcTip(2_500_000), claim)).to.deep.equal({
+      status: "VERIFIED",
+    });
+  });
+
+  it("accepts a transfer of more than the tip", () => {
+    expect(checkTipTransaction(buildUsdcTip(3_000_000), claim).status).to.equal(
+      "VERIFIED"
+    );
+  });
+
+  it("fails a transaction that failed on-chain", () => {
+    const tx = buildUsdcTip(2_500_000, {
+      err: { InstructionError: [0, "Custom"] },
+    });
+
+    expect(checkTipTransaction(tx, claim)).to.deep.equal({
+      status: "FAILED",
+      reason: "Transaction failed on-chain",
+    });
+  });
+
+  it("fails a transaction the tipper didn't sign", () => {
+    const tx = buildUsdcTip(2_500_000, {
+      signers: [Keypair.generate().publicKey.toBase58()],
+    });
+
+    expect(checkTipTransaction(tx, claim)).to.deep.equal({
+      status: "FAILED",
+      reason: "Transaction was not signed by the tipper",
+    });
+  });
+
+  it("fails when the streamer has no wallet", () => {
+    expect(
+      checkTipTransaction(buildUsdcTip(2_500_000), {
+        ...claim,
+        streamerWallets: [],
+      })
+    ).to.deep.equal({
+      status: "FAILED",
+      reason: "Streamer has no wallet to receive tips",
+    });
+  });
+
+  it("fails a transfer of another token", () => {
+    expect(
+      checkTipTransaction(buildUsdcTip(2_500_000), {
+        ...claim,
+        tokenType: "SOL",
+      })
+    ).to.deep.equal({
+      status: "FAILED",
+      reason: "Transaction did not transfer the tipped token to the streamer",
+    });
+  });
+
+  it("fails a transfer of less than the tip", () => {
+    expect(checkTipTransaction(buildUsdcTip(2_499_999), claim)).to.deep.equal({
+      status: "FAILED",
+      reason: "Transferred amount is lower than the tip amount",
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { expect } from "chai";
+
+import { WITHDRAWAL_LIMITS, getWithdrawalLimitReason } from "@/lib/withdrawal";
+
+describe("getWithdrawalLimitReason", () => {
+  it("allows a transfer within both limits", () => {
+    expect(getWithdrawalLimitReason({ daily: 100, weekly: 100 }, 50)).to.equal(
+      null
+    );
+  });
+
+  it("allows a transfer that reaches the daily limit exactly", () => {
+    expect(
+      getWithdrawalLimitReason(
+        { daily: WITHDRAWAL_LIMITS.DAILY - 50, weekly: 0 },
+        50
+      )
+    ).to.equal(null);
+  });
+
+  it("blocks a transfer over the daily limit and says what's left", () => {
+    expect(
+      getWithdrawalLimitReason(
+        { daily: WITHDRAWAL_LIMITS.DAILY - 40, weekly: 0 },
+        50
+      )
+    ).to.equal(
+      `This exceeds your daily limit of $${WITHDRAWAL_LIMITS.DAILY} ($40.00 left)`
+    );
+  });
+
+  it("blocks a transfer over the weekly limit", () => {
+    expect(
+      getWithdrawalLimitReason(
+        { daily: 0, weekly: WITHDRAWAL_LIMITS.WEEKLY - 10 },
+        50
+      )
+    ).to.equal(
+      `This exceeds your weekly limit of $${WITHDRAWAL_LIMITS.WEEKLY} ($10.00 left)`
+    );
+  });
+
+  it("never reports a negative amount left", () => {
+    expect(
+      getWithdrawalLimitReason(
+        { daily: WITHDRAWAL_LIMITS.DAILY + 10, weekly: 0 },
+        1
+      )
+    ).to.match(/\(\$0\.00 left\)$/);
+  });
+});
@@ -13,6 +13,16 @@ export interface User {
     isLive: boolean;
     isChatEnabled: boolean;
     isChatFollowersOnly: boolean;
+    isChatTippersOnly: boolean;
+    isChatSubscribersOnly: boolean;
+    isTipTtsEnabled: boolean;
+    largeTipThreshold: number;
+    megaTipThreshold: number;
+    tipAlertDurationSeconds: number;
+    giftAlertDurationSeconds: number;
+    tipAlertQueueSize: number;
+    excludedAlertGiftTypes: string[];
+    chatSlowModeSeconds: number;
     isChatDelayed: boolean;
     serverUrl?: string;
     streamKey?: string;
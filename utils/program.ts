@@ -11,8 +11,7 @@ import {
   getAccount,
   getAssociatedTokenAddress,
 } from "@solana/spl-token";
-
-const programId = new PublicKey(idl.address);
+import { CLUSTER, programId } from "@/config/cluster";
 
 export const getProvider = (
   connection: Connection,
@@ -29,7 +28,10 @@ export const getProgram = (
   civicWallet: Wallet | undefined
 ) => {
   const provider = getProvider(connection, civicWallet);
-  return new Program<SwitchedFun>(idl as any, provider);
+  return new Program<SwitchedFun>(
+    { ...idl, address: CLUSTER.programId } as any,
+    provider
+  );
 };
 
 export async function getOrCreateAssociatedTokenAccountWithProvider(
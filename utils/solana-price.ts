@@ -1,3 +1,5 @@
+import { getEnabledTokens, TokenType } from "@/config/tokens";
+
 interface JupiterPriceResponse {
   [mintAddress: string]: {
     priceChange24h: number;
@@ -53,6 +55,62 @@ export async function fetchSolanaPrice(): Promise<SolanaPriceData> {
   }
 }
 
+/**
+ * USD price of every enabled token. Stablecoins use their fixed price; the
+ * rest come from Jupiter, and are left out if it can't be reached.
+ */
+export async function fetchTokenPrices(): Promise<Record<TokenType, number>> {
+  const prices: Record<TokenType, number> = {};
+  const jupiterMints: Record<TokenType, string> = {};
+
+  getEnabledTokens().forEach((token) => {
+    if (token.priceSource.type === "fixed") {
+      prices[token.symbol] = token.priceSource.usd;
+    } else {
+      jupiterMints[token.symbol] = token.priceSource.mint;
+    }
+  });
+
+  const mints = Object.values(jupiterMints);
+  if (mints.length === 0) return prices;
+
+  try {
+    const response = await fetch(
+      `https://lite-api.jup.ag/price/v3?ids=${mints.join(",")}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Jupiter API error: ${response.status}`);
+    }
+
+    const data: JupiterPriceResponse = await response.json();
+
+    Object.entries(jupiterMints).forEach(([symbol, mint]) => {
+      if (data[mint]) prices[symbol] = data[mint].usdPrice;
+    });
+  } catch (error) {
+    console.error("[fetchTokenPrices] error:", error);
+  }
+
+  return prices;
+}
+
+/**
+ * USD value of an amount of a token at its current price
+ */
+export async function fetchUsdValue(
+  amount: number,
+  tokenType: TokenType
+): Promise<number> {
+  const price = (await fetchTokenPrices())[tokenType];
+
+  if (price === undefined) {
+    throw new Error(`The ${tokenType} price is unavailable. Please try again.`);
+  }
+
+  return amount * price;
+}
+
 /**
  * Fetch Solana price with caching
  * @param cacheTime - Cache time in milliseconds (default: 30 seconds)
@@ -1,18 +1,22 @@
-import { connection, supportedTokens } from "@/config/wallet";
+import { connection } from "@/config/wallet";
+import {
+  DEFAULT_TOKEN,
+  fromBaseUnits,
+  getToken,
+  getTokenMint,
+  TokenType,
+} from "@/config/tokens";
 import { getProgram } from "./program";
 import { SolanaWallet } from "@civic/auth-web3";
 import { Wallet } from "@coral-xyz/anchor";
 import { PublicKey } from "@solana/web3.js";
-import {
-  getAccount,
-  getAssociatedTokenAddress,
-  getMint,
-} from "@solana/spl-token";
+import { getAccount, getAssociatedTokenAddress } from "@solana/spl-token";
 import { toast } from "sonner";
 
 export const fetchStreamerAta = async (
   hostWalletAddress: string | undefined,
-  senderWalletAddress: SolanaWallet | undefined
+  senderWalletAddress: SolanaWallet | undefined,
+  tokenType: TokenType = DEFAULT_TOKEN
 ) => {
   if (!hostWalletAddress) return;
 
@@ -24,7 +28,7 @@ export const fetchStreamerAta = async (
       senderWalletAddress as unknown as Wallet
     );
 
-    const tokenMint = new PublicKey(supportedTokens.contractAddress);
+    const tokenMint = getTokenMint(getToken(tokenType));
 
     // Calculate the streamer PDA (platform wallet)
     const [streamerStatePDA] = PublicKey.findProgramAddressSync(
@@ -48,13 +52,16 @@ export const fetchStreamerAta = async (
   }
 };
 
-export const fetchCurrentUserAta = async (address: SolanaWallet | undefined) => {
+export const fetchCurrentUserAta = async (
+  address: SolanaWallet | undefined,
+  tokenType: TokenType = DEFAULT_TOKEN
+) => {
   if (!address) return;
 
   try {
     const program = getProgram(connection, address as unknown as Wallet);
 
-    const tokenMint = new PublicKey(supportedTokens.contractAddress);
+    const tokenMint = getTokenMint(getToken(tokenType));
 
     // Calculate the streamer PDA (platform wallet)
     const [streamerStatePDA] = PublicKey.findProgramAddressSync(
@@ -79,17 +86,16 @@ export const fetchCurrentUserAta = async (address: SolanaWallet | undefined) =>
   }
 };
 
-export const fetchBalance = async (address: string) => {
+export const fetchBalance = async (
+  address: string,
+  tokenType: TokenType = DEFAULT_TOKEN
+) => {
   try {
-    const tokenInfo = supportedTokens;
-    if (!tokenInfo) return;
-
-    const tokenMint = new PublicKey(tokenInfo.contractAddress);
+    const token = getToken(tokenType);
 
     try {
       const account = await getAccount(connection, new PublicKey(address));
-      const mintInfo = await getMint(connection, tokenMint);
-      const balance = Number(account.amount) / Math.pow(10, mintInfo.decimals);
+      const balance = fromBaseUnits(Number(account.amount), token);
       // setBalance(balance);
       return balance;
     } catch (error) {